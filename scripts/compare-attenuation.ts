@@ -0,0 +1,83 @@
+/**
+ * SEISMOS Attenuation Comparison
+ *
+ * Prints the simulator's ground-motion model against distance for a few
+ * magnitudes, next to the Fukushima & Tanaka (1990) PGA the magnitude
+ * estimator inverts, so the shaking the simulator produces can be checked
+ * against published curves (and against what the estimator will assume).
+ *
+ * Also checks the geodesic distance against known WGS84 values.
+ *
+ * Usage:
+ *   npm run compare:attenuation -- [--depth 10] [--vs30 300]
+ */
+
+import { geodesicKm, haversineKm } from '../src/lib/geo';
+import { BJF97_PGA, GroundMotionModel, JB88_PGV } from '../src/lib/attenuation';
+import { predictedPga } from '../src/lib/magnitude';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const MAGNITUDES = [5, 5.5, 6, 6.5, 7, 7.5];
+const EPICENTRAL_KM = [0, 2, 5, 10, 20, 50, 100];
+
+/** Reference WGS84 geodesics (km): Vincenty's (1975) test line, one equatorial degree, a quarter meridian */
+const GEODESIC_CHECKS = [
+    { name: 'Flinders Peak - Buninyong', from: [-37.95103342, 144.42486789], to: [-37.65282114, 143.92649554], km: 54.972271 },
+    { name: 'Equator, 1°', from: [0, 0], to: [0, 1], km: 111.319491 },
+    { name: 'Meridian, pole to equator', from: [0, 0], to: [90, 0], km: 10001.965729 },
+];
+
+function argument(name: string, fallback: string): string {
+    const index = process.argv.indexOf(`--${name}`);
+    return index >= 0 && process.argv[index + 1] ? process.argv[index + 1] : fallback;
+}
+
+// ============================================================================
+// REPORT
+// ============================================================================
+
+function run(): void {
+    const depthKm = Number(argument('depth', '10'));
+    const vs30 = Number(argument('vs30', '300'));
+    const model = new GroundMotionModel({ defaultVs30: vs30 });
+
+    console.log(`PGA: ${BJF97_PGA.reference}, PGV: ${JB88_PGV.reference}`);
+    console.log(`depth ${depthKm} km, Vs30 ${vs30} m/s; * = outside the data range of a relation\n`);
+    console.log(`${'M'.padEnd(5)}${'Repi km'.padStart(8)}${'Rhyp km'.padStart(9)}${'PGA g'.padStart(9)}${'F&T g'.padStart(9)}${'ratio'.padStart(7)}${'PGV cm/s'.padStart(10)}`);
+
+    MAGNITUDES.forEach(magnitude => {
+        EPICENTRAL_KM.forEach(distance => {
+            // Site due east of a source on the equator (111.319 km per degree)
+            const lng = distance / 111.319491;
+            const motion = model.predict({ magnitude, depthKm, lat: 0, lng: 0 }, { lat: 0, lng });
+            const reference = predictedPga(magnitude, motion.hypocentralKm);
+            console.log(
+                `${magnitude.toFixed(1).padEnd(5)}` +
+                `${motion.epicentralKm.toFixed(1).padStart(8)}` +
+                `${motion.hypocentralKm.toFixed(1).padStart(9)}` +
+                `${motion.pga.toFixed(3).padStart(9)}` +
+                `${reference.toFixed(3).padStart(9)}` +
+                `${(motion.pga / reference).toFixed(2).padStart(7)}` +
+                `${motion.pgv.toFixed(1).padStart(10)}` +
+                (motion.extrapolated ? ' *' : '')
+            );
+        });
+        console.log('');
+    });
+
+    console.log('Geodesic distance (WGS84)');
+    GEODESIC_CHECKS.forEach(({ name, from, to, km }) => {
+        const geodesic = geodesicKm(from[0], from[1], to[0], to[1]);
+        const haversine = haversineKm(from[0], from[1], to[0], to[1]);
+        console.log(
+            `${name.padEnd(28)} expected ${km.toFixed(3).padStart(10)}  ` +
+            `geodesic ${geodesic.toFixed(3).padStart(10)} (${((geodesic - km) * 1000).toFixed(1)} m)  ` +
+            `haversine ${haversine.toFixed(3).padStart(10)} (${(((haversine - km) / km) * 100).toFixed(2)}%)`
+        );
+    });
+}
+
+run();
@@ -0,0 +1,162 @@
+/**
+ * SEISMOS Change-Point Evaluation
+ *
+ * Runs the frequency change-point detector on synthetic series with a
+ * known answer and prints detection rate and delay, onset error, error of
+ * the reported magnitude and false alarms for CUSUM and Page-Hinkley.
+ *
+ * Events within MATCH_WINDOW estimates of a true change belong to it (a
+ * ramp may be reported in several steps; their magnitudes add up); any
+ * other event is a false alarm.
+ *
+ * Series (one estimate per step, Gaussian scatter around 4.5 Hz):
+ * - noise: no change at all; every event is a false alarm
+ * - spikes: isolated outliers of 10σ; every event is a false alarm
+ * - step -8% / step -3% / step +4%: instantaneous shift at the midpoint
+ * - fast ramp: -8% spread over 50 estimates from the midpoint
+ * - slow drift: -2% spread over the whole series; the trend regression's
+ *   job, so the detector should stay quiet
+ * - live idle / live step -8%: the simulator's idle scatter instead of
+ *   --sigma (uniform over 0.2 Hz, σ ≈ 1.3%); one trial is ~7 minutes of a
+ *   node at its 5 estimates per second, so false/trial × 80 nodes / 7 is
+ *   the network's false events per minute
+ *
+ * Usage:
+ *   npm run evaluate:change-points -- [--trials 200] [--length 2000] [--sigma 0.003]
+ */
+
+import { ChangePointDetector, type ChangePointMethod, type FrequencyChangeEvent } from '../src/lib/damage-score/change-point';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const BASE_FREQUENCY = 4.5;
+
+/** Synthetic estimate spacing (ms) - the detector only uses it for onsets */
+const STEP_MS = 1000;
+
+/** Estimates after a true change within which events belong to it */
+const MATCH_WINDOW = 100;
+
+/** Simulator idle estimates: base + U(0, 0.2 Hz), as a fraction of the base */
+const LIVE_SIGMA = 0.2 / Math.sqrt(12) / BASE_FREQUENCY;
+
+interface Scenario {
+    name: string;
+
+    /** True relative change at sample i (0 = baseline level) */
+    shift: (i: number, length: number) => number;
+
+    /** Sample of the true change, null for series without one */
+    onset: (length: number) => number | null;
+
+    /** Outlier (in σ) added at sample i */
+    spike?: (i: number) => number;
+
+    /** Simulator idle scatter (uniform, LIVE_SIGMA) instead of Gaussian --sigma */
+    live?: boolean;
+}
+
+const SCENARIOS: Scenario[] = [
+    { name: 'noise', shift: () => 0, onset: () => null },
+    { name: 'spikes', shift: () => 0, onset: () => null, spike: i => (i % 97 === 50 ? -10 : 0) },
+    { name: 'step -8%', shift: (i, n) => (i >= n / 2 ? -0.08 : 0), onset: n => n / 2 },
+    { name: 'step -3%', shift: (i, n) => (i >= n / 2 ? -0.03 : 0), onset: n => n / 2 },
+    { name: 'step +4%', shift: (i, n) => (i >= n / 2 ? 0.04 : 0), onset: n => n / 2 },
+    { name: 'fast ramp -8%', shift: (i, n) => -0.08 * Math.min(1, Math.max(0, (i - n / 2) / 50)), onset: n => n / 2 },
+    { name: 'slow drift -2%', shift: (i, n) => -0.02 * (i / n), onset: () => null },
+    { name: 'live idle', shift: () => 0, onset: () => null, live: true },
+    { name: 'live step -8%', shift: (i, n) => (i >= n / 2 ? -0.08 : 0), onset: n => n / 2, live: true },
+];
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+function parseArgs(argv: string[]): { trials: number; length: number; sigma: number } {
+    const value = (name: string, fallback: number) => {
+        const i = argv.indexOf(`--${name}`);
+        return i >= 0 && argv[i + 1] !== undefined ? Number(argv[i + 1]) : fallback;
+    };
+    return {
+        trials: value('trials', 200),
+        length: value('length', 2000),
+        sigma: value('sigma', 0.003),
+    };
+}
+
+/** Standard normal deviate (Box-Muller) */
+function gaussian(): number {
+    const u = 1 - Math.random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * Math.random());
+}
+
+/** Uniform deviate with unit variance */
+function uniform(): number {
+    return (Math.random() - 0.5) * Math.sqrt(12);
+}
+
+interface ScenarioResult {
+    detected: number;
+    falseAlarms: number;
+    delays: number[];
+    onsetErrors: number[];
+    magnitudeErrors: number[];
+}
+
+function evaluate(method: ChangePointMethod, scenario: Scenario, trials: number, length: number, sigma: number): ScenarioResult {
+    const result: ScenarioResult = { detected: 0, falseAlarms: 0, delays: [], onsetErrors: [], magnitudeErrors: [] };
+    const onset = scenario.onset(length);
+    const scatter = scenario.live ? LIVE_SIGMA : sigma;
+    const deviate = scenario.live ? uniform : gaussian;
+
+    for (let trial = 0; trial < trials; trial++) {
+        const detector = new ChangePointDetector({ method });
+        const events: FrequencyChangeEvent[] = [];
+        for (let i = 0; i < length; i++) {
+            const frequency = BASE_FREQUENCY * (1 + scenario.shift(i, length))
+                + BASE_FREQUENCY * scatter * (deviate() + (scenario.spike?.(i) ?? 0));
+            const event = detector.update('synthetic', frequency, i * STEP_MS);
+            if (event) events.push(event);
+        }
+
+        const matched = events.filter(event => {
+            const detectedAt = event.detectedAt / STEP_MS;
+            return onset !== null && detectedAt >= onset && detectedAt - onset <= MATCH_WINDOW;
+        });
+        result.falseAlarms += events.length - matched.length;
+        if (onset === null || matched.length === 0) continue;
+
+        // Steps reported in pieces compound: (1 + a)(1 + b) − 1
+        const total = (matched.reduce((product, event) => product * (1 + event.magnitudePercent / 100), 1) - 1) * 100;
+        result.detected++;
+        result.delays.push(matched[0].detectedAt / STEP_MS - onset);
+        result.onsetErrors.push(matched[0].changedAt / STEP_MS - onset);
+        result.magnitudeErrors.push(total - scenario.shift(length - 1, length) * 100);
+    }
+    return result;
+}
+
+function run(): void {
+    const { trials, length, sigma } = parseArgs(process.argv.slice(2));
+    const mean = (v: number[]) => (v.length > 0 ? v.reduce((sum, x) => sum + x, 0) / v.length : NaN);
+    const fmt = (v: number, digits: number = 1) => (Number.isNaN(v) ? '—' : v.toFixed(digits));
+
+    console.log(`${trials} trials × ${length} estimates, σ = ${(sigma * 100).toFixed(2)}% of ${BASE_FREQUENCY} Hz\n`);
+    for (const method of ['cusum', 'page-hinkley'] as const) {
+        console.log(method);
+        console.log('  scenario         detected  false/trial  delay  onset err  magnitude err (pp)');
+        for (const scenario of SCENARIOS) {
+            const r = evaluate(method, scenario, trials, length, sigma);
+            const detected = scenario.onset(length) !== null ? `${((r.detected / trials) * 100).toFixed(0)}%` : '—';
+            console.log(
+                `  ${scenario.name.padEnd(16)} ${detected.padStart(8)}  ${(r.falseAlarms / trials).toFixed(3).padStart(11)}` +
+                `  ${fmt(mean(r.delays)).padStart(5)}  ${fmt(mean(r.onsetErrors)).padStart(9)}  ${fmt(mean(r.magnitudeErrors), 2).padStart(18)}`
+            );
+        }
+        console.log('');
+    }
+}
+
+run();
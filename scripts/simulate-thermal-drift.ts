@@ -0,0 +1,129 @@
+/**
+ * SEISMOS Thermal Drift Simulation
+ *
+ * Offline check of the environmental compensation: a year of ambient
+ * frequency estimates under the simulator's daily and seasonal thermal
+ * cycles, tracked once with the reported temperature and once without.
+ *
+ * Data:
+ * - Natural frequency and conditions come from the demo simulator
+ *   (`ambientFrequency`, `environmentAt`) with its thermal cycles on at
+ *   real-time scale; timestamps are synthetic, so a year runs in seconds
+ * - Half of the nodes lose stiffness over the last months (a linear
+ *   frequency drop), the other half stay intact
+ *
+ * Output:
+ * - Per tracker: intact nodes that raised a frequency fatigue warning
+ *   (false alarms) and damaged nodes that did (detections), with the day
+ *   of the first warning
+ *
+ * Usage:
+ *   npm run simulate:thermal -- [--nodes 10] [--days 365] [--per-day 48] [--drop 0.08]
+ */
+
+import { DEMO_NODES, DEFAULT_THERMAL_CYCLES, earthquakeSimulator } from '../src/lib/simulator';
+import { BaselineTracker } from '../src/lib/damage-score/baseline-tracker';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/** Start of the simulated year (midwinter, so the seasonal swing is full) */
+const START = Date.UTC(2025, 0, 1);
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/** Days of the year over which damaged nodes lose stiffness (the last ones) */
+const DAMAGE_DAYS = 120;
+
+/** Scatter of a single frequency estimate (Hz) */
+const ESTIMATE_NOISE_HZ = 0.01;
+
+/** Warnings in the first days are baseline warm-up, not results */
+const WARMUP_DAYS = 14;
+
+// ============================================================================
+// SIMULATION
+// ============================================================================
+
+interface NodeOutcome {
+    nodeId: string;
+    damaged: boolean;
+    firstWarningDay: number | null;
+}
+
+function parseArgs(argv: string[]): { nodes: number; days: number; perDay: number; drop: number } {
+    const value = (name: string, fallback: number) => {
+        const i = argv.indexOf(`--${name}`);
+        return i >= 0 && argv[i + 1] !== undefined ? Number(argv[i + 1]) : fallback;
+    };
+    return {
+        nodes: value('nodes', 10),
+        days: value('days', 365),
+        perDay: value('per-day', 48),
+        drop: value('drop', 0.08),
+    };
+}
+
+function run(): void {
+    const { nodes, days, perDay, drop } = parseArgs(process.argv.slice(2));
+    earthquakeSimulator.setThermalCycles({ ...DEFAULT_THERMAL_CYCLES, timeScale: 1 });
+
+    const compensated = new BaselineTracker();
+    const raw = new BaselineTracker();
+    const outcomes = { compensated: [] as NodeOutcome[], raw: [] as NodeOutcome[] };
+
+    DEMO_NODES.slice(0, nodes).forEach((node, index) => {
+        const damaged = index % 2 === 1;
+        const first = { compensated: null as number | null, raw: null as number | null };
+
+        for (let day = 0; day < days; day++) {
+            for (let k = 0; k < perDay; k++) {
+                const t = START + (day + k / perDay) * MS_PER_DAY;
+                const damageProgress = damaged ? Math.max(0, (day - (days - DAMAGE_DAYS)) / DAMAGE_DAYS) : 0;
+                const frequency = earthquakeSimulator.ambientFrequency(node.id, t) * (1 - drop * damageProgress)
+                    + (Math.random() - 0.5) * 2 * ESTIMATE_NOISE_HZ;
+                const environment = earthquakeSimulator.environmentAt(t);
+
+                // Only frequency warnings count: no damping is fed
+                const withEnvironment = compensated.update(node.id, frequency, undefined, t, environment);
+                const without = raw.update(node.id, frequency, undefined, t);
+                if (day >= WARMUP_DAYS) {
+                    if (withEnvironment.hasWarning && first.compensated === null) first.compensated = day;
+                    if (without.hasWarning && first.raw === null) first.raw = day;
+                }
+            }
+        }
+
+        outcomes.compensated.push({ nodeId: node.id, damaged, firstWarningDay: first.compensated });
+        outcomes.raw.push({ nodeId: node.id, damaged, firstWarningDay: first.raw });
+
+        const model = compensated.getEnvironmentalModel(node.id);
+        console.log(
+            `${node.id.padEnd(8)} ${damaged ? 'damaged' : 'intact '}  ` +
+            `model ${model ? `${model.temperatureCoefficient.toFixed(4)} Hz/°C (R² ${model.rSquared.toFixed(2)})` : '—'}  ` +
+            `first warning: compensated ${first.compensated ?? '—'} / raw ${first.raw ?? '—'}`
+        );
+    });
+
+    const summary = (label: string, list: NodeOutcome[]) => {
+        const falseAlarms = list.filter(o => !o.damaged && o.firstWarningDay !== null).length;
+        const detections = list.filter(o => o.damaged && o.firstWarningDay !== null);
+        const intact = list.filter(o => !o.damaged).length;
+        const damagedCount = list.length - intact;
+        const meanDay = detections.length > 0
+            ? detections.reduce((sum, o) => sum + (o.firstWarningDay as number), 0) / detections.length
+            : null;
+        console.log(
+            `${label.padEnd(12)} false alarms ${falseAlarms}/${intact}  ` +
+            `detections ${detections.length}/${damagedCount}` +
+            (meanDay !== null ? `  (mean first day ${meanDay.toFixed(0)}, damage starts day ${days - DAMAGE_DAYS})` : '')
+        );
+    };
+
+    console.log('');
+    summary('compensated', outcomes.compensated);
+    summary('raw', outcomes.raw);
+}
+
+run();
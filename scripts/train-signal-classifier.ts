@@ -0,0 +1,263 @@
+/**
+ * SEISMOS Signal Classifier Training
+ *
+ * Trains the default signal classifier model on labelled simulator data.
+ *
+ * Data:
+ * - The demo simulator runs in real time (its timers drive the sample
+ *   clock) and every reading goes through the production SignalProcessor,
+ *   so the features are exactly what the classifier sees in the app
+ * - Scenarios: earthquakes with random epicenter, magnitude, depth and
+ *   duration, interleaved with truck passes (local noise) and sensor glitches
+ * - Labels come from the simulator's ground truth, never from the reading
+ * - Idle samples right after a disturbance are dropped: their window still
+ *   holds the disturbance, so the label would be ambiguous
+ *
+ * Model:
+ * - Multinomial logistic regression on standardized features, batch
+ *   gradient descent with L2 and class-balanced weights
+ * - 80/20 split; the held-out confusion matrix is printed
+ *
+ * Usage:
+ *   npm run train:classifier -- [--seconds 150] [--out src/lib/classifier/models/signal-classifier.json]
+ */
+
+import { writeFileSync } from 'fs';
+import { resolve } from 'path';
+import type { SignalType } from '../src/lib/readings';
+import { DEMO_NODES, earthquakeSimulator } from '../src/lib/simulator';
+import { signalProcessor } from '../src/lib/signal-processor';
+import { SIGNAL_FEATURES, signalClassifier } from '../src/lib/classifier';
+import { predictProbabilities, softmax, type LogisticRegressionModel } from '../src/lib/classifier/model';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const CLASSES: SignalType[] = ['idle', 'seismic', 'noise', 'anomaly'];
+
+/** Trigger warm-up: the STA/LTA needs its long-term window first (s) */
+const WARMUP_SECONDS = 12;
+
+/** Idle samples this soon after a disturbance are ambiguous (s) */
+const SETTLE_SECONDS = 2;
+
+/** Cap per class after collection, keeps idle from swamping the rest */
+const MAX_PER_CLASS = 4000;
+
+const TRAINING = {
+    epochs: 1000,
+    learningRate: 0.5,
+    l2: 1e-3,
+    testFraction: 0.2,
+};
+
+interface Sample {
+    x: number[];
+    y: number;
+}
+
+function argument(name: string, fallback: string): string {
+    const index = process.argv.indexOf(`--${name}`);
+    return index >= 0 && process.argv[index + 1] ? process.argv[index + 1] : fallback;
+}
+
+const sleep = (ms: number) => new Promise<void>(done => setTimeout(done, ms));
+
+function pick<T>(items: T[]): T {
+    return items[Math.floor(Math.random() * items.length)];
+}
+
+function shuffle<T>(items: T[]): T[] {
+    const copy = [...items];
+    for (let i = copy.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [copy[i], copy[j]] = [copy[j], copy[i]];
+    }
+    return copy;
+}
+
+// ============================================================================
+// DATA COLLECTION
+// ============================================================================
+
+async function collect(seconds: number): Promise<Sample[]> {
+    const samples: Sample[] = [];
+    const lastSequence = new Map<string, number>();
+    const lastLabel = new Map<string, SignalType>();
+    const settleUntil = new Map<string, number>();
+    const start = Date.now();
+
+    signalClassifier.setStations(DEMO_NODES);
+
+    const unsubscribe = earthquakeSimulator.onLiveUpdate(readings => {
+        readings.forEach(reading => {
+            if (lastSequence.get(reading.nodeId) === reading.sequence) return;
+            lastSequence.set(reading.nodeId, reading.sequence);
+
+            const { classification } = signalProcessor.process(reading);
+            const label = earthquakeSimulator.getTrueSignalType(reading.nodeId);
+
+            const previous = lastLabel.get(reading.nodeId);
+            lastLabel.set(reading.nodeId, label);
+            if (previous && previous !== 'idle' && label === 'idle') {
+                settleUntil.set(reading.nodeId, reading.timestamp + SETTLE_SECONDS * 1000);
+            }
+
+            if (reading.timestamp - start < WARMUP_SECONDS * 1000) return;
+            if (label === 'idle' && reading.timestamp < (settleUntil.get(reading.nodeId) ?? 0)) return;
+
+            samples.push({
+                x: SIGNAL_FEATURES.map(name => classification.features[name]),
+                y: CLASSES.indexOf(label),
+            });
+        });
+    });
+
+    earthquakeSimulator.startIdleSimulation();
+    await sleep(WARMUP_SECONDS * 1000);
+
+    const deadline = start + seconds * 1000;
+    while (Date.now() < deadline) {
+        const epicenter = pick(DEMO_NODES);
+        await new Promise<void>(done => earthquakeSimulator.triggerEarthquake(
+            {
+                magnitude: 4.5 + Math.random() * 2,
+                depthKm: 8 + Math.random() * 4,
+                durationMs: 3000 + Math.random() * 3000,
+                epicenterLat: epicenter.lat,
+                epicenterLng: epicenter.lng,
+            },
+            new Map(),
+            () => {},
+            () => done()
+        ));
+        await sleep(4000);
+
+        // Local disturbances: one truck and one sensor glitch at a time, on different buildings
+        for (let round = 0; round < 6 && Date.now() < deadline; round++) {
+            const [truckNode, glitchNode] = shuffle(DEMO_NODES);
+            earthquakeSimulator.triggerTruckNoise(truckNode.id, () => {});
+            earthquakeSimulator.triggerSensorGlitch(glitchNode.id, () => {});
+            await sleep(3500);
+        }
+        console.log(`${Math.round((Date.now() - start) / 1000)} s, ${samples.length} samples`);
+    }
+
+    unsubscribe();
+    earthquakeSimulator.stopIdleSimulation();
+    earthquakeSimulator.stop();
+    return samples;
+}
+
+// ============================================================================
+// TRAINING
+// ============================================================================
+
+function train(samples: Sample[]): LogisticRegressionModel {
+    const n = samples.length;
+    const d = SIGNAL_FEATURES.length;
+    const k = CLASSES.length;
+
+    const mean = Array.from({ length: d }, (_, i) => samples.reduce((sum, s) => sum + s.x[i], 0) / n);
+    const scale = Array.from({ length: d }, (_, i) =>
+        Math.sqrt(samples.reduce((sum, s) => sum + (s.x[i] - mean[i]) ** 2, 0) / n) || 1
+    );
+    const z = samples.map(s => s.x.map((v, i) => (v - mean[i]) / scale[i]));
+
+    // Balanced class weights: each class contributes equally to the loss
+    const counts = CLASSES.map((_, c) => samples.filter(s => s.y === c).length);
+    const classWeight = counts.map(count => (count > 0 ? n / (k * count) : 0));
+
+    const weights = Array.from({ length: k }, () => new Array<number>(d).fill(0));
+    const bias = new Array<number>(k).fill(0);
+
+    for (let epoch = 0; epoch < TRAINING.epochs; epoch++) {
+        const gradW = Array.from({ length: k }, () => new Array<number>(d).fill(0));
+        const gradB = new Array<number>(k).fill(0);
+
+        samples.forEach((sample, s) => {
+            const p = softmax(weights.map((row, c) => row.reduce((sum, w, i) => sum + w * z[s][i], bias[c])));
+            const w = classWeight[sample.y];
+            for (let c = 0; c < k; c++) {
+                const error = w * (p[c] - (c === sample.y ? 1 : 0));
+                gradB[c] += error;
+                for (let i = 0; i < d; i++) gradW[c][i] += error * z[s][i];
+            }
+        });
+
+        for (let c = 0; c < k; c++) {
+            bias[c] -= (TRAINING.learningRate * gradB[c]) / n;
+            for (let i = 0; i < d; i++) {
+                weights[c][i] -= TRAINING.learningRate * (gradW[c][i] / n + TRAINING.l2 * weights[c][i]);
+            }
+        }
+    }
+
+    return {
+        format: 'logistic-regression',
+        classes: CLASSES,
+        features: [...SIGNAL_FEATURES],
+        mean,
+        scale,
+        weights,
+        bias,
+    };
+}
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+async function main(): Promise<void> {
+    const seconds = Number(argument('seconds', '150'));
+    const out = resolve(process.cwd(), argument('out', 'src/lib/classifier/models/signal-classifier.json'));
+
+    console.log(`Collecting ${seconds} s of simulator data...`);
+    const collected = await collect(seconds);
+
+    const balanced = CLASSES.flatMap((_, c) => shuffle(collected.filter(s => s.y === c)).slice(0, MAX_PER_CLASS));
+    const shuffled = shuffle(balanced);
+    const testSize = Math.round(shuffled.length * TRAINING.testFraction);
+    const test = shuffled.slice(0, testSize);
+    const trainSet = shuffled.slice(testSize);
+
+    console.log('Samples per class:', CLASSES.map((label, c) => `${label}=${balanced.filter(s => s.y === c).length}`).join(' '));
+    const model = train(trainSet);
+
+    // Held-out confusion matrix (rows: truth, columns: prediction)
+    const confusion = CLASSES.map(() => new Array<number>(CLASSES.length).fill(0));
+    test.forEach(sample => {
+        const p = predictProbabilities(model, sample.x);
+        confusion[sample.y][p.indexOf(Math.max(...p))]++;
+    });
+    const accuracy = test.length > 0
+        ? confusion.reduce((sum, row, c) => sum + row[c], 0) / test.length
+        : 0;
+
+    console.log(`\n${'truth \\ pred'.padEnd(14)}${CLASSES.map(c => c.padStart(9)).join('')}`);
+    confusion.forEach((row, c) => console.log(`${CLASSES[c].padEnd(14)}${row.map(v => String(v).padStart(9)).join('')}`));
+    console.log(`\nHeld-out accuracy: ${(accuracy * 100).toFixed(1)}% (${test.length} samples)`);
+
+    const round = (v: number) => Number(v.toPrecision(6));
+    const output: LogisticRegressionModel = {
+        ...model,
+        mean: model.mean.map(round),
+        scale: model.scale.map(round),
+        weights: model.weights.map(row => row.map(round)),
+        bias: model.bias.map(round),
+        trainedOn: {
+            source: 'simulator',
+            seconds,
+            samples: Object.fromEntries(CLASSES.map((label, c) => [label, balanced.filter(s => s.y === c).length])),
+            heldOutAccuracy: round(accuracy),
+        },
+    };
+    writeFileSync(out, `${JSON.stringify(output, null, 4)}\n`);
+    console.log(`Model written to ${out}`);
+}
+
+main().catch(error => {
+    console.error(error);
+    process.exit(1);
+});
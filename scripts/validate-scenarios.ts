@@ -0,0 +1,92 @@
+/**
+ * SEISMOS Scenario Validation
+ *
+ * Checks scenario files before they reach the dashboard: the format, every
+ * event's parameters and the buildings events refer to. Without a custom
+ * inventory, references must be demo building ids.
+ *
+ * By default checks every built-in scenario and that the list in
+ * `public/scenarios/index.json` matches the files next to it.
+ *
+ * Usage:
+ *   npm run validate:scenarios -- [file.yaml ...]
+ */
+
+import { readdirSync, readFileSync } from 'fs';
+import { basename, join } from 'path';
+import { parseScenarioText, referencedNodes, scenarioLength, SCENARIO_EVENT_LABELS, type Scenario, type ScenarioManifestEntry } from '../src/lib/scenario';
+import { DEMO_NODES } from '../src/lib/simulator';
+import { formatSeed } from '../src/lib/random';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const SCENARIO_DIR = join(__dirname, '..', 'public', 'scenarios');
+const MANIFEST = 'index.json';
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/** Problems in one file; empty when it is valid */
+function validateFile(path: string): string[] {
+    let scenario: Scenario;
+    try {
+        scenario = parseScenarioText(readFileSync(path, 'utf8'), basename(path));
+    } catch (error) {
+        return [(error as Error).message];
+    }
+
+    const problems: string[] = [];
+    if (!scenario.buildings) {
+        const demoIds = new Set(DEMO_NODES.map(node => node.id));
+        scenario.events.forEach(event => referencedNodes(event)
+            .filter(id => !demoIds.has(id))
+            .forEach(id => problems.push(`${SCENARIO_EVENT_LABELS[event.type]} at ${event.atMs / 1000} s: unknown demo building "${id}"`)));
+    }
+
+    const counts = new Map<string, number>();
+    scenario.events.forEach(event => counts.set(event.type, (counts.get(event.type) ?? 0) + 1));
+    console.log(
+        `${basename(path).padEnd(28)} "${scenario.name}"  ` +
+        `seed ${scenario.seed !== null ? formatSeed(scenario.seed) : '—'}  ` +
+        `buildings ${scenario.buildings?.length ?? `demo ${DEMO_NODES.length}`}  ` +
+        `${(scenarioLength(scenario) / 1000).toFixed(0)} s  ` +
+        Array.from(counts.entries()).map(([type, n]) => `${n}× ${type}`).join(', ')
+    );
+    return problems;
+}
+
+function run(): void {
+    const paths = process.argv.slice(2);
+    const problems: string[] = [];
+
+    if (paths.length === 0) {
+        // Built-in list ↔ files in the directory
+        const manifest = JSON.parse(readFileSync(join(SCENARIO_DIR, MANIFEST), 'utf8')) as ScenarioManifestEntry[];
+        const listed = new Set(manifest.map(entry => entry.file));
+        readdirSync(SCENARIO_DIR)
+            .filter(file => file !== MANIFEST && !listed.has(file))
+            .forEach(file => problems.push(`${file}: not listed in ${MANIFEST}`));
+        manifest.forEach(entry => paths.push(join(SCENARIO_DIR, entry.file)));
+    }
+
+    paths.forEach(path => {
+        try {
+            validateFile(path).forEach(p => problems.push(`${basename(path)}: ${p}`));
+        } catch (error) {
+            problems.push(`${basename(path)}: ${(error as Error).message}`);
+        }
+    });
+
+    console.log('');
+    if (problems.length === 0) {
+        console.log(`${paths.length} scenario(s) valid`);
+        return;
+    }
+    problems.forEach(p => console.log(`✗ ${p}`));
+    process.exitCode = 1;
+}
+
+run();
@@ -4,12 +4,15 @@ import SidebarNavigation from '@/components/SidebarNavigation';
 import { Activity, Cpu, Database, Wifi, Clock, TrendingUp } from 'lucide-react';
 import RealTimeResourceChart from '@/components/RealTimeResourceChart';
 import { useSeismosStore } from '@/lib/store';
+import { earthquakeSimulator } from '@/lib/simulator';
+import type { UplinkStats } from '@/lib/codec';
 import { useState, useEffect } from 'react';
 
 export default function AnalitikPage() {
     const { activeNodeCount, isEarthquakeActive } = useSeismosStore();
     const [simulatedCPU, setSimulatedCPU] = useState(23);
     const [simulatedNetwork, setSimulatedNetwork] = useState(45);
+    const [uplinkStats, setUplinkStats] = useState<UplinkStats | null>(null);
 
     // Derive metrics from store state
     useEffect(() => {
@@ -31,6 +34,9 @@ export default function AnalitikPage() {
             const newNet = Math.min(100, Math.max(10, baseNet + quakeNet + netNoise));
             setSimulatedNetwork(newNet);
 
+            // NB-IoT uplink: simülatörün ürettiği ikili çerçevelerin boyutu
+            setUplinkStats(earthquakeSimulator.getUplinkStats());
+
         }, 1000);
 
         return () => clearInterval(interval);
@@ -103,25 +109,58 @@ export default function AnalitikPage() {
                             />
                         </div>
 
-                        {/* Recent Events */}
-                        <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 h-fit">
-                            <h3 className="text-white font-semibold mb-4">Son Sistem Olayları</h3>
-                            <div className="space-y-3">
-                                {[
-                                    { time: '14:32', event: 'AI Model güncellemesi uygulandı', type: 'info' },
-                                    { time: '14:28', event: 'SEN-023 sensörü yeniden başlatıldı', type: 'warning' },
-                                    { time: '14:15', event: 'Günlük yedekleme tamamlandı', type: 'success' },
-                                    { time: '13:45', event: 'Deprem simülasyonu çalıştırıldı', type: 'info' },
-                                    { time: '13:30', event: 'Sistem sağlık kontrolü başarılı', type: 'success' },
-                                ].map((log, i) => (
-                                    <div key={i} className="flex items-center gap-3">
-                                        <span className="text-xs text-slate-500 w-12">{log.time}</span>
-                                        <div className={`w-1.5 h-1.5 rounded-full ${log.type === 'success' ? 'bg-green-400' :
-                                            log.type === 'warning' ? 'bg-yellow-400' : 'bg-blue-400'
-                                            }`}></div>
-                                        <span className="text-sm text-slate-300">{log.event}</span>
+                        <div className="space-y-6">
+                            {/* NB-IoT Uplink */}
+                            <div className="bg-slate-900 border border-slate-800 rounded-xl p-4">
+                                <h3 className="text-white font-semibold mb-1">NB-IoT Uplink</h3>
+                                <p className="text-xs text-slate-500 mb-4">İkili çerçeve boyutu (JSON karşılığı ile)</p>
+                                <div className="grid grid-cols-3 gap-3">
+                                    <div className="bg-slate-800/50 rounded-lg p-3">
+                                        <div className="text-xs text-slate-400 mb-1">Bayt/Mesaj</div>
+                                        <div className="text-xl font-bold font-mono text-cyan-400">
+                                            {uplinkStats ? uplinkStats.bytesPerMessage.toFixed(1) : '—'}
+                                        </div>
+                                    </div>
+                                    <div className="bg-slate-800/50 rounded-lg p-3">
+                                        <div className="text-xs text-slate-400 mb-1">JSON Bayt/Mesaj</div>
+                                        <div className="text-xl font-bold font-mono text-slate-300">
+                                            {uplinkStats ? uplinkStats.jsonBytesPerMessage.toFixed(1) : '—'}
+                                        </div>
                                     </div>
-                                ))}
+                                    <div className="bg-slate-800/50 rounded-lg p-3">
+                                        <div className="text-xs text-slate-400 mb-1">Tasarruf</div>
+                                        <div className="text-xl font-bold font-mono text-green-400">
+                                            {uplinkStats && uplinkStats.jsonBytes > 0
+                                                ? `%${Math.round((1 - uplinkStats.bytes / uplinkStats.jsonBytes) * 100)}`
+                                                : '—'}
+                                        </div>
+                                    </div>
+                                </div>
+                                <div className="mt-3 text-xs text-slate-500 font-mono">
+                                    {uplinkStats ? `${uplinkStats.messages.toLocaleString('tr-TR')} mesaj · ${(uplinkStats.bytes / 1024).toFixed(1)} KB` : ''}
+                                </div>
+                            </div>
+
+                            {/* Recent Events */}
+                            <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 h-fit">
+                                <h3 className="text-white font-semibold mb-4">Son Sistem Olayları</h3>
+                                <div className="space-y-3">
+                                    {[
+                                        { time: '14:32', event: 'AI Model güncellemesi uygulandı', type: 'info' },
+                                        { time: '14:28', event: 'SEN-023 sensörü yeniden başlatıldı', type: 'warning' },
+                                        { time: '14:15', event: 'Günlük yedekleme tamamlandı', type: 'success' },
+                                        { time: '13:45', event: 'Deprem simülasyonu çalıştırıldı', type: 'info' },
+                                        { time: '13:30', event: 'Sistem sağlık kontrolü başarılı', type: 'success' },
+                                    ].map((log, i) => (
+                                        <div key={i} className="flex items-center gap-3">
+                                            <span className="text-xs text-slate-500 w-12">{log.time}</span>
+                                            <div className={`w-1.5 h-1.5 rounded-full ${log.type === 'success' ? 'bg-green-400' :
+                                                log.type === 'warning' ? 'bg-yellow-400' : 'bg-blue-400'
+                                                }`}></div>
+                                            <span className="text-sm text-slate-300">{log.event}</span>
+                                        </div>
+                                    ))}
+                                </div>
                             </div>
                         </div>
                     </div>
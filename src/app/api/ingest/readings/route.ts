@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { extractBatch, ingestionHub, INGEST_LIMITS } from '@/lib/ingest';
+
+export const dynamic = 'force-dynamic';
+
+// Fiziksel node'lardan toplu okuma kabulü
+// Body: { readings: WireReading[] } | WireReading[] | WireReading
+export async function POST(request: Request) {
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json({ error: 'Body must be valid JSON' }, { status: 400 });
+    }
+
+    const items = extractBatch(body, 'readings');
+    if (!items) {
+        return NextResponse.json({ error: 'Expected { readings: [...] }' }, { status: 400 });
+    }
+    if (items.length > INGEST_LIMITS.maxBatchSize) {
+        return NextResponse.json(
+            { error: `Batch too large (max ${INGEST_LIMITS.maxBatchSize})` },
+            { status: 413 }
+        );
+    }
+
+    return NextResponse.json(ingestionHub.ingestReadings(items));
+}
@@ -0,0 +1,54 @@
+import { ingestionHub, type IngestEvent } from '@/lib/ingest';
+
+export const dynamic = 'force-dynamic';
+
+// Kabul edilen okumaları ve heartbeat'leri dashboard'lara Server-Sent Events ile ilet
+export async function GET(request: Request) {
+    const encoder = new TextEncoder();
+    let unsubscribe: (() => void) | null = null;
+    let keepAlive: ReturnType<typeof setInterval> | null = null;
+    let closed = false;
+
+    const cleanup = () => {
+        closed = true;
+        unsubscribe?.();
+        unsubscribe = null;
+        if (keepAlive) clearInterval(keepAlive);
+        keepAlive = null;
+    };
+
+    const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+            const send = (event: IngestEvent) => {
+                const data = event.type === 'readings' ? event.readings : event.heartbeats;
+                controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(data)}\n\n`));
+            };
+
+            controller.enqueue(encoder.encode(': connected\n\n'));
+            unsubscribe = ingestionHub.subscribe(send);
+
+            // Proxy'ler boş bağlantıyı kapatmasın
+            keepAlive = setInterval(() => {
+                controller.enqueue(encoder.encode(': ping\n\n'));
+            }, 15000);
+
+            // cancel() sonrası close() hata fırlatır - akış zaten kapandıysa dokunma
+            request.signal.addEventListener('abort', () => {
+                if (closed) return;
+                cleanup();
+                controller.close();
+            });
+        },
+        cancel() {
+            cleanup();
+        },
+    });
+
+    return new Response(stream, {
+        headers: {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache, no-transform',
+            Connection: 'keep-alive',
+        },
+    });
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { ingestionHub, INGEST_LIMITS } from '@/lib/ingest';
+
+export const dynamic = 'force-dynamic';
+
+// NB-IoT ikili uplink kabulü
+// Body: application/octet-stream, arka arkaya bir veya daha fazla codec çerçevesi
+export async function POST(request: Request) {
+    const payload = new Uint8Array(await request.arrayBuffer());
+
+    if (payload.length === 0) {
+        return NextResponse.json({ error: 'Body must contain at least one frame' }, { status: 400 });
+    }
+    if (payload.length > INGEST_LIMITS.maxUplinkBytes) {
+        return NextResponse.json(
+            { error: `Payload too large (max ${INGEST_LIMITS.maxUplinkBytes} bytes)` },
+            { status: 413 }
+        );
+    }
+
+    return NextResponse.json(ingestionHub.ingestFrames(payload));
+}
@@ -2,9 +2,13 @@
 
 import dynamic from 'next/dynamic';
 import SidebarNavigation from '@/components/SidebarNavigation';
+import RunSeedBadge from '@/components/RunSeedBadge';
 import { useSeismosStore } from '@/lib/store';
 import { useEffect, useRef } from 'react';
-import { DEMO_NODES, earthquakeSimulator } from '@/lib/simulator';
+import { applyRunSeed, DEMO_NODES, earthquakeSimulator } from '@/lib/simulator';
+import { resolveRunSeed } from '@/lib/random';
+import { subscribeToPhysicalFeed } from '@/lib/ingest/feed';
+import { startConsoleSync } from '@/lib/sync/store-sync';
 
 const SeismicMap = dynamic(() => import('@/components/map/SeismicMap'), {
     ssr: false,
@@ -16,27 +20,42 @@ const SeismicMap = dynamic(() => import('@/components/map/SeismicMap'), {
 });
 
 export default function HaritaPage() {
-    const { setNodes, updateHeartbeat, checkConsensus } = useSeismosStore();
+    const { setNodes, setRunSeed, hydrate, updateHeartbeat, checkConsensus, processReadings, receiveHeartbeats } = useSeismosStore();
     const isInitialized = useRef(false);
 
     useEffect(() => {
         if (isInitialized.current) return;
         isInitialized.current = true;
+        const seed = resolveRunSeed();
+        applyRunSeed(seed);
+        setRunSeed(seed);
         setNodes(DEMO_NODES as any);
+        hydrate();
+        const stopSync = startConsoleSync();
         earthquakeSimulator.startIdleSimulation();
         const unsubscribe = earthquakeSimulator.onLiveUpdate((readings) => {
             updateHeartbeat(Array.from(readings.keys()));
-            checkConsensus(readings);
+            processReadings(readings.values());
+            checkConsensus(readings.values());
         });
-        return () => { unsubscribe(); earthquakeSimulator.stopIdleSimulation(); };
-    }, [setNodes, updateHeartbeat, checkConsensus]);
+        const unsubscribePhysical = subscribeToPhysicalFeed({
+            onReadings: (readings) => {
+                updateHeartbeat(readings.map(r => r.nodeId));
+                processReadings(readings);
+                checkConsensus(readings);
+            },
+            onHeartbeats: receiveHeartbeats,
+        });
+        return () => { unsubscribe(); unsubscribePhysical(); stopSync(); earthquakeSimulator.stopIdleSimulation(); };
+    }, [setNodes, setRunSeed, hydrate, updateHeartbeat, checkConsensus, processReadings, receiveHeartbeats]);
 
     return (
         <div className="h-screen bg-slate-950 overflow-hidden flex">
             <SidebarNavigation />
             <div className="flex-1 h-screen overflow-hidden flex flex-col">
-                <div className="h-12 bg-slate-900/80 border-b border-slate-800 flex items-center px-4">
+                <div className="h-12 bg-slate-900/80 border-b border-slate-800 flex items-center justify-between px-4">
                     <h1 className="text-white font-semibold">Sismik Harita - Tam Ekran</h1>
+                    <RunSeedBadge />
                 </div>
                 <div className="flex-1">
                     <SeismicMap />
@@ -3,11 +3,15 @@
 import dynamic from 'next/dynamic';
 import { useEffect, useRef, useState } from 'react';
 import { useSeismosStore } from '@/lib/store';
-import { DEMO_NODES, earthquakeSimulator } from '@/lib/simulator';
+import { applyRunSeed, DEMO_NODES, earthquakeSimulator } from '@/lib/simulator';
+import { resolveRunSeed } from '@/lib/random';
+import { subscribeToPhysicalFeed } from '@/lib/ingest/feed';
+import { startConsoleSync } from '@/lib/sync/store-sync';
 import DashboardPanel from '@/components/dashboard/DashboardPanel';
 import SidebarNavigation from '@/components/SidebarNavigation';
 import TiltBuildingCard from '@/components/TiltBuildingCard';
 import RealTimeResourceChart from '@/components/RealTimeResourceChart';
+import RunSeedBadge from '@/components/RunSeedBadge';
 
 const SeismicMap = dynamic(() => import('@/components/map/SeismicMap'), {
   ssr: false,
@@ -19,7 +23,7 @@ const SeismicMap = dynamic(() => import('@/components/map/SeismicMap'), {
 });
 
 export default function Home() {
-  const { setNodes, updateHeartbeat, checkConsensus, selectNode } = useSeismosStore();
+  const { setNodes, setRunSeed, hydrate, updateHeartbeat, checkConsensus, processReadings, receiveHeartbeats, selectNode } = useSeismosStore();
   const isInitialized = useRef(false);
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
 
@@ -32,8 +36,10 @@ export default function Home() {
       // Node'ların yüklendiğinden emin olmak için kısa bir gecikme
       setTimeout(() => {
         selectNode(nodeId);
-        // URL'i temizle
-        window.history.replaceState({}, '', '/');
+        // URL'i temizle (koşu tohumu kalsın)
+        const url = new URL(window.location.href);
+        url.searchParams.delete('nodeId');
+        window.history.replaceState({}, '', url);
       }, 500);
     }
   }, [selectNode]);
@@ -42,9 +48,20 @@ export default function Home() {
     if (isInitialized.current) return;
     isInitialized.current = true;
 
+    // Koşu tohumu (?seed=) - aynı tohum aynı binaları ve okumaları üretir
+    const seed = resolveRunSeed();
+    applyRunSeed(seed);
+    setRunSeed(seed);
+
     // Node'ları yükle
     setNodes(DEMO_NODES as any);
 
+    // Kayıtlı skor ve olay geçmişini Supabase'den yükle
+    hydrate();
+
+    // Diğer operatör konsollarıyla ortak durum (Supabase Realtime)
+    const stopSync = startConsoleSync();
+
     // Arka plan sensör simülasyonunu başlat
     earthquakeSimulator.startIdleSimulation();
 
@@ -52,14 +69,27 @@ export default function Home() {
     const unsubscribe = earthquakeSimulator.onLiveUpdate((readings) => {
       const activeNodeIds = Array.from(readings.keys());
       updateHeartbeat(activeNodeIds);
-      checkConsensus(readings);
+      processReadings(readings.values());
+      checkConsensus(readings.values());
+    });
+
+    // Fiziksel node'lar (/api/ingest) aynı hatta akar
+    const unsubscribePhysical = subscribeToPhysicalFeed({
+      onReadings: (readings) => {
+        updateHeartbeat(readings.map(r => r.nodeId));
+        processReadings(readings);
+        checkConsensus(readings);
+      },
+      onHeartbeats: receiveHeartbeats,
     });
 
     return () => {
       unsubscribe();
+      unsubscribePhysical();
+      stopSync();
       earthquakeSimulator.stopIdleSimulation();
     };
-  }, [setNodes, updateHeartbeat, checkConsensus]);
+  }, [setNodes, setRunSeed, hydrate, updateHeartbeat, checkConsensus, processReadings, receiveHeartbeats]);
 
   return (
     <div className="h-screen bg-slate-950 overflow-hidden flex">
@@ -77,6 +107,8 @@ export default function Home() {
             </div>
             <div className="h-4 w-px bg-slate-700"></div>
             <span className="text-sm text-slate-500">80 Bina İzleniyor</span>
+            <div className="h-4 w-px bg-slate-700"></div>
+            <RunSeedBadge />
           </div>
           <div className="text-xs text-slate-500">
             Seismos v1.0 - Dağıtık Deprem İzleme Ağı
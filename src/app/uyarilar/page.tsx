@@ -1,9 +1,52 @@
 'use client';
 
 import SidebarNavigation from '@/components/SidebarNavigation';
-import { AlertTriangle, CheckCircle, XCircle, Clock } from 'lucide-react';
+import { Activity, AlertTriangle, CheckCircle, XCircle, Clock, TrendingDown, TrendingUp } from 'lucide-react';
+import { useSeismosStore } from '@/lib/store';
 
 export default function UyarilarPage() {
+    const { seismicEvents, currentEventId, frequencyChanges, nodes } = useSeismosStore();
+
+    // Ağın ilan ettiği depremler - büyüklük ve merkez olay kaydından gelir
+    const eventAlerts = seismicEvents.slice(0, 5).map((event) => {
+        const isActive = event.id === currentEventId;
+        const magnitude = event.magnitude !== null
+            ? `M ${event.magnitude.toFixed(1)}${event.magnitudeUncertainty !== null ? ` ± ${event.magnitudeUncertainty.toFixed(1)}` : ''}`
+            : 'Büyüklük hesaplanıyor';
+        const epicenter = event.epicenterLat !== null && event.epicenterLng !== null
+            ? `Tahmini merkez ${event.epicenterLat.toFixed(4)}, ${event.epicenterLng.toFixed(4)}.`
+            : 'Merkez henüz çözülmedi.';
+
+        return {
+            id: event.id,
+            type: isActive ? 'critical' : 'warning',
+            title: `Deprem Tespit Edildi (${magnitude})`,
+            message: `${epicenter} ${isActive ? 'Sarsıntı sürüyor.' : 'Sarsıntı sona erdi.'}`,
+            time: new Date(event.startedAt).toLocaleTimeString('tr-TR'),
+            building: event.source === 'network' ? 'Ağ Tespiti' : 'Simülasyon',
+            icon: Activity,
+            color: isActive ? 'red' : 'yellow'
+        };
+    });
+
+    // Doğal frekanstaki ani basamaklar - düşüş rijitlik kaybı, yükselme genelde toparlanma
+    const changeAlerts = frequencyChanges.slice(0, 5).map((change) => {
+        const isDrop = change.direction === 'drop';
+        const method = change.method === 'cusum' ? 'CUSUM' : 'Page-Hinkley';
+        return {
+            id: change.id,
+            type: isDrop ? 'warning' : 'info',
+            title: isDrop ? 'Ani Frekans Düşüşü' : 'Frekans Toparlanması',
+            message: `Doğal frekans ${change.beforeFrequency.toFixed(2)} Hz → ${change.afterFrequency.toFixed(2)} Hz ` +
+                `(${change.magnitudePercent > 0 ? '+' : ''}${change.magnitudePercent.toFixed(1)}%, güven %${(change.confidence * 100).toFixed(0)}, ${method}).` +
+                (isDrop ? ' Ani rijitlik kaybı - yerinde inceleme önerilir.' : ''),
+            time: new Date(change.changedAt).toLocaleTimeString('tr-TR'),
+            building: nodes.get(change.nodeId)?.name ?? change.nodeId,
+            icon: isDrop ? TrendingDown : TrendingUp,
+            color: isDrop ? 'yellow' : 'blue'
+        };
+    });
+
     const alerts = [
         {
             id: 1,
@@ -71,7 +114,7 @@ export default function UyarilarPage() {
                 <div className="h-12 bg-slate-900/80 border-b border-slate-800 flex items-center justify-between px-6">
                     <h1 className="text-white font-semibold">Acil Durum Uyarıları</h1>
                     <div className="flex items-center gap-4">
-                        <span className="text-xs text-slate-400">5 aktif uyarı</span>
+                        <span className="text-xs text-slate-400">{eventAlerts.length + changeAlerts.length + alerts.length} aktif uyarı</span>
                         <button className="text-xs bg-slate-800 hover:bg-slate-700 text-white px-3 py-1.5 rounded-lg transition-colors">
                             Tümünü Okundu İşaretle
                         </button>
@@ -80,7 +123,7 @@ export default function UyarilarPage() {
 
                 <div className="flex-1 overflow-auto p-6">
                     <div className="space-y-3 max-w-4xl">
-                        {alerts.map((alert) => {
+                        {[...eventAlerts, ...changeAlerts, ...alerts].map((alert) => {
                             const colors = getColorClasses(alert.color);
                             const Icon = alert.icon;
                             return (
@@ -0,0 +1,45 @@
+'use client';
+
+import { useState } from 'react';
+import { Dices, Link2 } from 'lucide-react';
+import { useSeismosStore } from '@/lib/store';
+import { formatSeed, randomSeed, runSeedUrl } from '@/lib/random';
+
+// Demo koşu tohumu: tıklayınca tekrar üretilebilir bağlantı kopyalanır, zar yeni koşu başlatır
+export default function RunSeedBadge() {
+    const runSeed = useSeismosStore(state => state.runSeed);
+    const [copied, setCopied] = useState(false);
+
+    const copyLink = async () => {
+        try {
+            await navigator.clipboard.writeText(runSeedUrl(runSeed));
+            setCopied(true);
+            setTimeout(() => setCopied(false), 1500);
+        } catch {
+            // Pano izni yoksa adres çubuğu zaten tohumu taşır
+        }
+    };
+
+    // Yeni tohumla sayfayı yeniden yükle - tüm hat temiz başlar
+    const newRun = () => window.location.assign(runSeedUrl(randomSeed()));
+
+    return (
+        <div className="flex items-center gap-1 text-xs text-slate-500">
+            <button
+                onClick={copyLink}
+                title="Bu koşunun bağlantısını kopyala"
+                className="flex items-center gap-1 px-2 py-0.5 rounded hover:bg-slate-800 hover:text-slate-300 transition-colors"
+            >
+                <Link2 className="w-3 h-3" />
+                {copied ? 'Kopyalandı' : <>Tohum <span className="font-mono text-slate-300">{formatSeed(runSeed)}</span></>}
+            </button>
+            <button
+                onClick={newRun}
+                title="Yeni tohumla yeni koşu"
+                className="p-1 rounded hover:bg-slate-800 hover:text-slate-300 transition-colors"
+            >
+                <Dices className="w-3 h-3" />
+            </button>
+        </div>
+    );
+}
@@ -0,0 +1,267 @@
+'use client';
+
+import type { PipelineResult } from '@/lib/signal-processor';
+import { DAMAGE_MODEL_NAMES, type DamageComparison } from '@/lib/store';
+
+interface DamageEnginePanelProps {
+    result: PipelineResult;
+    /** Seçili node'un bu olaydaki aktif/gölge tepe skorları */
+    comparison?: DamageComparison;
+    activeModel: string;
+    onSelectModel: (name: string) => void;
+}
+
+// Kategori renkleri
+const CATEGORY_COLORS: Record<PipelineResult['damageScore']['category'], { bar: string; text: string; badge: string }> = {
+    safe: { bar: 'bg-emerald-500', text: 'text-emerald-400', badge: 'bg-emerald-500/20' },
+    risky: { bar: 'bg-yellow-500', text: 'text-yellow-400', badge: 'bg-yellow-500/20' },
+    heavily_damaged: { bar: 'bg-red-500', text: 'text-red-400', badge: 'bg-red-500/20' },
+};
+
+// Hasar modeli adları
+const MODEL_LABELS: Record<string, string> = {
+    'rule-based': 'Kural Tabanlı',
+    'learned-mlp': 'Öğrenilmiş (MLP)',
+};
+
+// Hasar durumları (kırılganlık eğrileri)
+const DAMAGE_STATE_LABELS: Array<{ key: keyof NonNullable<PipelineResult['damageScore']['fragility']>['probabilities']; label: string; color: string }> = [
+    { key: 'none', label: 'Yok', color: 'bg-emerald-500' },
+    { key: 'slight', label: 'Hafif', color: 'bg-lime-500' },
+    { key: 'moderate', label: 'Orta', color: 'bg-yellow-500' },
+    { key: 'extensive', label: 'Ağır', color: 'bg-orange-500' },
+    { key: 'complete', label: 'Göçme', color: 'bg-red-500' },
+];
+
+const DESIGN_LEVEL_LABELS: Record<string, string> = {
+    'pre-code': '1975 öncesi',
+    'low-code': '1975-1997',
+    'moderate-code': '1998-2006',
+    'high-code': '2007 sonrası',
+};
+
+const HEIGHT_CLASS_LABELS: Record<string, string> = {
+    low: 'az katlı',
+    mid: 'orta katlı',
+    high: 'yüksek katlı',
+};
+
+const TREND_SOURCE_LABELS: Record<string, string> = {
+    recent: 'son ölçümler',
+    daily: 'günlük',
+    weekly: 'haftalık',
+};
+
+const STAGE_LABELS: Array<{ key: keyof PipelineResult['stages']; label: string }> = [
+    { key: 'raw', label: 'Ham' },
+    { key: 'filter', label: 'Filtre' },
+    { key: 'correlate', label: 'Korelasyon' },
+    { key: 'interpret', label: 'Yorum' },
+];
+
+export default function DamageEnginePanel({ result, comparison, activeModel, onSelectModel }: DamageEnginePanelProps) {
+    const { damageScore, shadowDamageScore, fatigueIndicator, intensityMeasures, stages } = result;
+    const { fragility } = damageScore;
+    const colors = CATEGORY_COLORS[damageScore.category];
+
+    // Skor bileşenleri - kural tabanlıda ağırlıklar, öğrenilmiş modelde örtme (occlusion) katkısı
+    const isRuleBased = damageScore.model === 'rule-based';
+    const components = [
+        { label: 'Frekans Kayması', weight: isRuleBased ? '50%' : 'katkı', value: damageScore.components.frequencyShiftScore },
+        { label: fragility ? 'Kırılganlık' : 'Tepe Enerji', weight: isRuleBased ? '35%' : 'katkı', value: damageScore.components.peakEnergyScore },
+        { label: 'Süre', weight: isRuleBased ? '15%' : 'katkı', value: damageScore.components.durationScore },
+    ];
+
+    return (
+        <div className="rounded-xl bg-slate-800/30 border border-slate-700/50 p-4">
+            <div className="flex items-center justify-between mb-3">
+                <h3 className="text-xs font-medium text-slate-400 uppercase tracking-wider">Hasar Motoru</h3>
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${colors.badge} ${colors.text}`}>
+                    {damageScore.categoryLabel}
+                </span>
+            </div>
+
+            {/* Model seçimi */}
+            <div className="flex gap-1 mb-3">
+                {DAMAGE_MODEL_NAMES.map((name) => (
+                    <button
+                        key={name}
+                        onClick={() => onSelectModel(name)}
+                        className={`flex-1 py-1 rounded text-[10px] font-medium transition-colors ${name === activeModel ? 'bg-blue-600 text-white' : 'bg-slate-900/50 text-slate-400 hover:bg-slate-800'}`}
+                    >
+                        {MODEL_LABELS[name] ?? name}
+                    </button>
+                ))}
+            </div>
+
+            {/* Ölçülen skor */}
+            <div className="flex items-end justify-between mb-2">
+                <div className={`text-2xl font-bold font-mono ${colors.text}`}>
+                    {damageScore.score}<span className="text-sm text-slate-500">/100</span>
+                </div>
+                <div className="text-[10px] text-slate-500 font-mono text-right">
+                    <div>{result.filteredMagnitude.toFixed(3)}g filtreli</div>
+                    <div>
+                        {result.frequencyEstimate.frequency.toFixed(2)} Hz
+                        <span className="text-slate-600"> (güven %{Math.round(result.frequencyEstimate.confidence * 100)})</span>
+                    </div>
+                    <div className={result.trigger.isTriggered ? 'text-red-400' : undefined}>
+                        STA/LTA {result.trigger.ratio.toFixed(1)}
+                        {result.trigger.onsetTime !== null && (
+                            <span> · onset {new Date(result.trigger.onsetTime).toLocaleTimeString('tr-TR')}</span>
+                        )}
+                    </div>
+                </div>
+            </div>
+
+            {/* Aynı öznitelikler, gölge model */}
+            {shadowDamageScore && (
+                <div className="flex items-center justify-between text-[10px] mb-3 px-2 py-1.5 bg-slate-900/50 rounded">
+                    <span className="text-slate-500">
+                        Gölge: {MODEL_LABELS[shadowDamageScore.model] ?? shadowDamageScore.model}
+                    </span>
+                    <span className="font-mono text-slate-300">
+                        {shadowDamageScore.score}/100
+                        <span className="text-slate-600"> (Δ {shadowDamageScore.score - damageScore.score >= 0 ? '+' : ''}{shadowDamageScore.score - damageScore.score})</span>
+                        {comparison && (
+                            <span className="text-slate-500"> · olay tepe {comparison.active} / {comparison.shadow}</span>
+                        )}
+                    </span>
+                </div>
+            )}
+
+            {/* Bileşenler */}
+            <div className="space-y-1.5 mb-3">
+                {components.map((c) => (
+                    <div key={c.label} className="text-[10px]">
+                        <div className="flex justify-between text-slate-500 mb-0.5">
+                            <span>{c.label} <span className="text-slate-600">({c.weight})</span></span>
+                            <span className="font-mono text-slate-300">{c.value}</span>
+                        </div>
+                        <div className="h-1 bg-slate-800 rounded-full overflow-hidden">
+                            <div className={`h-full ${colors.bar} transition-all`} style={{ width: `${c.value}%` }} />
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            {/* Bina sınıfına göre hasar durumu olasılıkları */}
+            {fragility && (
+                <div className="mb-3 text-[10px]">
+                    <div className="flex justify-between text-slate-500 mb-1">
+                        <span>Hasar Olasılığı</span>
+                        <span className="text-slate-600">
+                            {DESIGN_LEVEL_LABELS[fragility.designLevel]} · {HEIGHT_CLASS_LABELS[fragility.heightClass]} · PGA {fragility.pga.toFixed(2)} g
+                        </span>
+                    </div>
+                    <div className="flex h-2 rounded-full overflow-hidden bg-slate-800 mb-1">
+                        {DAMAGE_STATE_LABELS.map((s) => (
+                            <div key={s.key} className={s.color} style={{ width: `${fragility.probabilities[s.key] * 100}%` }} />
+                        ))}
+                    </div>
+                    <div className="flex justify-between font-mono text-slate-400">
+                        {DAMAGE_STATE_LABELS.map((s) => (
+                            <span key={s.key}>{s.label} %{Math.round(fragility.probabilities[s.key] * 100)}</span>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {/* Yer hareketi şiddet ölçüleri */}
+            {intensityMeasures && (
+                <div className="grid grid-cols-4 gap-2 text-xs mb-3">
+                    {[
+                        { label: 'PGA', value: `${intensityMeasures.pga.toFixed(3)} g` },
+                        { label: 'PGV', value: `${intensityMeasures.pgv.toFixed(1)} cm/s` },
+                        { label: 'PGD', value: `${intensityMeasures.pgd.toFixed(2)} cm` },
+                        { label: `Sa(${intensityMeasures.spectralPeriod.toFixed(2)}s)`, value: `${intensityMeasures.spectralAcceleration.toFixed(3)} g` },
+                        { label: 'Arias', value: `${intensityMeasures.ariasIntensity.toFixed(3)} m/s` },
+                        { label: 'CAV', value: `${intensityMeasures.cav.toFixed(2)} g·s` },
+                        { label: 'Sınırlı Süre', value: `${intensityMeasures.bracketedDuration.toFixed(1)} s` },
+                        { label: 'Kayıt', value: `${intensityMeasures.recordDuration.toFixed(0)} s` },
+                    ].map((m) => (
+                        <div key={m.label} className="bg-slate-900/50 rounded p-2">
+                            <div className="text-slate-500 text-[10px]">{m.label}</div>
+                            <div className="font-mono text-slate-300 text-[10px]">{m.value}</div>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {/* Yorulma göstergesi */}
+            <div className="grid grid-cols-4 gap-2 text-xs mb-3">
+                <div className="bg-slate-900/50 rounded p-2">
+                    <div className="text-slate-500 text-[10px]">Baz Frekans</div>
+                    <div className="font-mono text-slate-300">{fatigueIndicator.baselineFrequency !== null ? `${fatigueIndicator.baselineFrequency.toFixed(2)} Hz` : '—'}</div>
+                </div>
+                <div className="bg-slate-900/50 rounded p-2">
+                    <div className="text-slate-500 text-[10px]">Sapma{fatigueIndicator.temperatureCoefficient !== null && ' (telafili)'}</div>
+                    <div className="font-mono text-slate-300">
+                        {fatigueIndicator.deviationPercent.toFixed(1)}%
+                        {fatigueIndicator.temperatureCoefficient !== null && (
+                            <span className="text-slate-600 text-[10px]"> {(fatigueIndicator.temperatureCoefficient * 1000).toFixed(1)} mHz/°C</span>
+                        )}
+                    </div>
+                </div>
+                <div className="bg-slate-900/50 rounded p-2">
+                    <div className="text-slate-500 text-[10px]">
+                        Trend{fatigueIndicator.trendSource !== null && ` (${TREND_SOURCE_LABELS[fatigueIndicator.trendSource]})`}
+                    </div>
+                    <div className="font-mono text-slate-300">
+                        {fatigueIndicator.trendSource !== null ? `${fatigueIndicator.trendSlope.toFixed(4)} Hz/ay` : '—'}
+                        <span className="text-slate-600 text-[10px]"> R² {fatigueIndicator.trendConfidence.toFixed(2)}</span>
+                    </div>
+                </div>
+                <div className="bg-slate-900/50 rounded p-2">
+                    <div className="text-slate-500 text-[10px]">Sönüm</div>
+                    <div className="font-mono text-slate-300">
+                        {fatigueIndicator.dampingRatio !== null ? `%${(fatigueIndicator.dampingRatio * 100).toFixed(1)}` : '—'}
+                        {fatigueIndicator.baselineDampingRatio !== null && (
+                            <span className="text-slate-600 text-[10px]"> /%{(fatigueIndicator.baselineDampingRatio * 100).toFixed(1)}</span>
+                        )}
+                    </div>
+                </div>
+            </div>
+            {fatigueIndicator.lastComparison && (
+                <div className="flex items-center justify-between bg-slate-900/50 rounded p-2 text-xs mb-3">
+                    <span className="text-slate-500 text-[10px]">Son olay öncesi → sonrası</span>
+                    <span className="font-mono text-slate-300">
+                        {fatigueIndicator.lastComparison.preFrequency.toFixed(2)} → {fatigueIndicator.lastComparison.postFrequency.toFixed(2)} Hz
+                        <span className={fatigueIndicator.lastComparison.shiftPercent > 0 ? 'text-orange-400' : 'text-slate-500'}>
+                            {' '}(kalıcı kayma %{fatigueIndicator.lastComparison.shiftPercent.toFixed(1)})
+                        </span>
+                    </span>
+                </div>
+            )}
+            {fatigueIndicator.hasWarning && (
+                <div className="p-2 mb-3 bg-orange-900/30 border border-orange-500/30 rounded-lg text-center">
+                    <span className="text-orange-400 text-xs font-medium">
+                        {fatigueIndicator.lastChange?.direction === 'drop'
+                            ? `⚠ Ani frekans düşüşü (${fatigueIndicator.lastChange.magnitudePercent.toFixed(1)}%, `
+                                + `güven %${(fatigueIndicator.lastChange.confidence * 100).toFixed(0)}, `
+                                + `${new Date(fatigueIndicator.lastChange.changedAt).toLocaleTimeString('tr-TR')})`
+                            : fatigueIndicator.trendSlope < 0
+                            ? `⚠ Yorulma Uyarısı: Frekans düşüş trendi (${fatigueIndicator.trendSlope.toFixed(4)} Hz/ay, `
+                                + `${fatigueIndicator.thresholdFrequency.toFixed(2)} Hz eşiğine ~${Math.round(fatigueIndicator.projectedDaysToThreshold ?? 0)} gün)`
+                            : '⚠ Yorulma Uyarısı: Sönüm oranı baz değerin üzerinde'}
+                    </span>
+                </div>
+            )}
+
+            {/* İşleme hattı aşamaları */}
+            <div className="flex items-center justify-between text-[10px]">
+                {STAGE_LABELS.map(({ key, label }) => {
+                    const stage = stages[key];
+                    const offsetMs = stage.complete ? stage.timestamp - stages.raw.timestamp : null;
+                    return (
+                        <div key={key} className="flex-1 text-center">
+                            <div className={`mx-auto mb-1 w-2 h-2 rounded-full ${stage.complete ? 'bg-blue-400' : 'bg-slate-700'}`} />
+                            <div className="text-slate-500">{label}</div>
+                            <div className="font-mono text-slate-400">{offsetMs !== null ? `+${offsetMs}ms` : '—'}</div>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
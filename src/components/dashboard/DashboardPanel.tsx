@@ -2,7 +2,9 @@
 
 import { useState, useEffect } from 'react';
 import { useSeismosStore } from '@/lib/store';
-import { earthquakeSimulator, DEMO_NODES, BUILDING_METADATA, type SensorReading } from '@/lib/simulator';
+import { earthquakeSimulator, BUILDING_METADATA, DEFAULT_THERMAL_CYCLES } from '@/lib/simulator';
+import { consoleSync } from '@/lib/sync';
+import type { SensorReading, SignalType } from '@/lib/readings';
 
 type CategoryFilter = null | 'safe' | 'damaged' | 'critical' | 'collapsed';
 
@@ -17,6 +19,10 @@ import SystemInfoModal from '@/components/SystemInfoModal';
 import FFTChart from '@/components/dashboard/FFTChart';
 import FrequencySparkline from '@/components/dashboard/FrequencySparkline';
 import TriagePanel from '@/components/dashboard/TriagePanel';
+import DamageEnginePanel from '@/components/dashboard/DamageEnginePanel';
+import ScenarioPanel from '@/components/dashboard/ScenarioPanel';
+import { scenarioRunner } from '@/lib/scenario/runner';
+import { QUALITY_FLAG_LABELS, isCategoryCertain } from '@/lib/damage-score/quality';
 
 export default function DashboardPanel() {
     const {
@@ -26,12 +32,18 @@ export default function DashboardPanel() {
         selectNode,
         buildingSummary,
         isEarthquakeActive,
+        simulatedQuake,
         earthquakeProgress,
-        setEarthquakeActive,
-        setEarthquakeProgress,
-        applyEarthquakeDamage,
-        updateBuildingSummary,
+        triggerEarthquake,
         resetToSafe,
+        pipelineResults,
+        consensusEvidence,
+        syncRole,
+        annotations,
+        annotateNode,
+        damageModel,
+        damageComparison,
+        selectDamageModel,
     } = useSeismosStore();
 
     const [canReset, setCanReset] = useState(false);
@@ -39,12 +51,23 @@ export default function DashboardPanel() {
     const [liveReading, setLiveReading] = useState<SensorReading | null>(null);
     const [isInfoOpen, setIsInfoOpen] = useState(false);
     const [isTruckActive, setIsTruckActive] = useState(false);
-    const [truckFiltered, setTruckFiltered] = useState(false);
+    const [truckVerdict, setTruckVerdict] = useState<SignalType | null>(null);
+    const [isThermalActive, setIsThermalActive] = useState(() => earthquakeSimulator.getThermalCycles() !== null);
     const [frequencyHistory, setFrequencyHistory] = useState<number[]>([]);
 
     const node = selectedNodeId ? nodes.get(selectedNodeId) : null;
     const damage = selectedNodeId ? buildingDamages.get(selectedNodeId) : null;
     const metadata = selectedNodeId ? BUILDING_METADATA.get(selectedNodeId) : null;
+    const pipelineResult = selectedNodeId ? pipelineResults.get(selectedNodeId) : null;
+    const insdEvidence = selectedNodeId ? consensusEvidence.get(selectedNodeId) : null;
+    const annotation = selectedNodeId ? annotations.get(selectedNodeId) : undefined;
+    const isFollower = syncRole === 'follower';
+    // Follower'ın deprem bitişini göremediği için sıfırlama hasar varlığına bağlı
+    const showReset = isFollower
+        ? Array.from(buildingDamages.values()).some(d => d.earthquakeDamage > 0)
+        : canReset;
+    // Firmware frekansı yoksa (fiziksel node) işleme hattı tahminini göster
+    const dominantFrequency = liveReading?.features?.dominantFrequency ?? pipelineResult?.frequencyEstimate.frequency ?? null;
 
     // Canlı sensör verisi güncelleme
     useEffect(() => {
@@ -57,23 +80,19 @@ export default function DashboardPanel() {
         return unsubscribe;
     }, [selectedNodeId]);
 
-    // Seçili node değişince idle okuma göster
-    useEffect(() => {
-        if (selectedNodeId) {
-            setLiveReading(earthquakeSimulator.getReading(selectedNodeId));
-            setFrequencyHistory(earthquakeSimulator.getFrequencyHistory(selectedNodeId));
-        } else {
-            setFrequencyHistory([]);
-        }
-    }, [selectedNodeId]);
-
-    // Frekans geçmişini periyodik güncelle
+    // Seçili node değişince idle okuma göster, frekans geçmişini periyodik güncelle
     useEffect(() => {
         if (!selectedNodeId) return;
-        const interval = setInterval(() => {
-            setFrequencyHistory(earthquakeSimulator.getFrequencyHistory(selectedNodeId));
-        }, 1000); // Her saniye güncelle
-        return () => clearInterval(interval);
+        const refreshHistory = () => setFrequencyHistory(earthquakeSimulator.getFrequencyHistory(selectedNodeId));
+        const initial = setTimeout(() => {
+            setLiveReading(earthquakeSimulator.getReading(selectedNodeId));
+            refreshHistory();
+        }, 0);
+        const interval = setInterval(refreshHistory, 1000); // Her saniye güncelle
+        return () => {
+            clearTimeout(initial);
+            clearInterval(interval);
+        };
     }, [selectedNodeId]);
 
     const getFilteredBuildings = () => {
@@ -91,51 +110,64 @@ export default function DashboardPanel() {
     };
 
     const handleTriggerEarthquake = () => {
-        if (isEarthquakeActive) return;
-        setEarthquakeActive(true);
+        if (isEarthquakeActive || simulatedQuake) return;
         setCanReset(false);
 
-        // Mevcut toplam hasarı simülatöre bildir
-        const currentScores = new Map<string, number>();
-        buildingDamages.forEach((dmg, id) => {
-            currentScores.set(id, dmg.totalScore);
-        });
-
-        const epicenter = DEMO_NODES[Math.floor(Math.random() * DEMO_NODES.length)];
-        earthquakeSimulator.triggerEarthquake(
-            { intensity: 1.5 + Math.random() * 0.5, durationMs: 5000, epicenterLat: epicenter.lat, epicenterLng: epicenter.lng },
-            currentScores,
-            (progress) => setEarthquakeProgress(progress),
-            (damages) => {
-                applyEarthquakeDamage(damages);
-                setEarthquakeActive(false);
-                updateBuildingSummary();
-                setTimeout(() => setCanReset(true), 1000);
-            }
-        );
+        // Follower depremi kendisi oynatmaz - host'tan ister
+        if (isFollower) {
+            consoleSync.sendCommand('trigger-earthquake');
+            return;
+        }
+        triggerEarthquake(() => setTimeout(() => setCanReset(true), 1000));
     };
 
     const handleReset = () => {
-        resetToSafe();
+        if (isFollower) consoleSync.sendCommand('reset');
+        else {
+            scenarioRunner.stop();
+            resetToSafe();
+        }
         setCanReset(false);
         setActiveFilter(null);
-        setTruckFiltered(false);
+        setTruckVerdict(null);
     };
 
     // Kamyon Gürültüsü Simülasyonu
     const handleTruckNoise = () => {
         if (!selectedNodeId || isTruckActive || isEarthquakeActive) return;
         setIsTruckActive(true);
-        setTruckFiltered(false);
+        setTruckVerdict(null);
+
+        // Geçiş boyunca sınıflandırıcının bu node için verdiği etiketleri say
+        const nodeId = selectedNodeId;
+        const votes = new Map<SignalType, number>();
+        let lastResult = useSeismosStore.getState().pipelineResults.get(nodeId);
+        const unsubscribe = useSeismosStore.subscribe((state) => {
+            const result = state.pipelineResults.get(nodeId);
+            if (!result || result === lastResult) return;
+            lastResult = result;
+            const label = result.classification.label;
+            votes.set(label, (votes.get(label) ?? 0) + 1);
+        });
 
-        earthquakeSimulator.triggerTruckNoise(selectedNodeId, () => {
+        earthquakeSimulator.triggerTruckNoise(nodeId, () => {
+            unsubscribe();
             setIsTruckActive(false);
-            setTruckFiltered(true);
+            // Karar: boşta dışındaki en sık etiket (hiç yoksa sinyal fark edilmedi)
+            const detected = Array.from(votes.entries()).filter(([label]) => label !== 'idle');
+            setTruckVerdict(detected.length > 0 ? detected.sort((a, b) => b[1] - a[1])[0][0] : 'idle');
             // 3 saniye sonra mesajı kaldır
-            setTimeout(() => setTruckFiltered(false), 3000);
+            setTimeout(() => setTruckVerdict(null), 3000);
         });
     };
 
+    // Isıl döngü (gün içi + mevsimsel sıcaklık) - çevresel telafiyi denemek için
+    const handleThermalToggle = () => {
+        const next = !isThermalActive;
+        earthquakeSimulator.setThermalCycles(next ? DEFAULT_THERMAL_CYCLES : null);
+        setIsThermalActive(next);
+    };
+
     const getScoreColor = (score: number) => {
         if (score >= 90) return { bg: 'bg-red-500', text: 'text-red-400', label: 'Yıkılmış' };
         if (score >= 70) return { bg: 'bg-orange-500', text: 'text-orange-400', label: 'Ağır Hasarlı' };
@@ -160,7 +192,14 @@ export default function DashboardPanel() {
                         </div>
                         <div>
                             <h1 className="text-lg font-bold text-white">SEISMOS</h1>
-                            <p className="text-xs text-slate-500">Yapısal İzleme Sistemi</p>
+                            <p className="text-xs text-slate-500">
+                                Yapısal İzleme Sistemi
+                                {syncRole !== 'standalone' && (
+                                    <span className={`ml-2 px-1.5 py-0.5 rounded text-[10px] ${syncRole === 'host' ? 'bg-blue-500/20 text-blue-400' : 'bg-slate-700 text-slate-400'}`}>
+                                        {syncRole === 'host' ? 'Ana Konsol' : 'İzleyici Konsol'}
+                                    </span>
+                                )}
+                            </p>
                         </div>
                     </div>
                     <button
@@ -188,9 +227,9 @@ export default function DashboardPanel() {
                     </div>
                 ) : (
                     <div className="space-y-2">
-                        <button onClick={handleTriggerEarthquake} className="w-full py-3 px-4 bg-red-600 hover:bg-red-700 text-white font-medium rounded-xl transition-colors flex items-center justify-center gap-2">
+                        <button onClick={handleTriggerEarthquake} disabled={simulatedQuake !== null} className="w-full py-3 px-4 bg-red-600 hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed text-white font-medium rounded-xl transition-colors flex items-center justify-center gap-2">
                             <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path d="M13 10V3L4 14h7v7l9-11h-7z" /></svg>
-                            Deprem Simüle Et
+                            {simulatedQuake ? 'Ağ Tetiklemesi Bekleniyor...' : 'Deprem Simüle Et'}
                         </button>
                         {selectedNodeId && (
                             <button
@@ -202,18 +241,36 @@ export default function DashboardPanel() {
                                 {isTruckActive ? 'Kamyon Geçiyor...' : 'Kamyon Geçişi (Gürültü Testi)'}
                             </button>
                         )}
-                        {truckFiltered && (
+                        <button
+                            onClick={handleThermalToggle}
+                            className={`w-full py-2 px-4 text-sm font-medium rounded-lg transition-colors flex items-center justify-center gap-2 ${isThermalActive ? 'bg-sky-600/80 hover:bg-sky-600 text-white' : 'bg-slate-800 hover:bg-slate-700 text-slate-300'}`}
+                        >
+                            <span className="text-lg">🌡</span>
+                            {isThermalActive ? 'Isıl Döngü Açık (1 dk = 1 gün)' : 'Isıl Döngü (Çevresel Telafi Testi)'}
+                        </button>
+                        {truckVerdict === 'noise' && (
                             <div className="p-2 bg-emerald-900/30 border border-emerald-500/30 rounded-lg text-center">
-                                <span className="text-emerald-400 text-xs font-medium">✓ AI: Gürültü Filtrelendi (Deprem Değil)</span>
+                                <span className="text-emerald-400 text-xs font-medium">✓ Sınıflandırıcı: Gürültü Filtrelendi (Deprem Değil)</span>
                             </div>
                         )}
-                        {canReset && (
+                        {truckVerdict !== null && truckVerdict !== 'noise' && (
+                            <div className="p-2 bg-amber-900/30 border border-amber-500/30 rounded-lg text-center">
+                                <span className="text-amber-400 text-xs font-medium">
+                                    ⚠ Sınıflandırıcı: {truckVerdict === 'seismic' ? 'Sismik olarak algılandı' : truckVerdict === 'anomaly' ? 'Sensör anomalisi sandı' : 'Sinyal fark edilmedi'}
+                                </span>
+                            </div>
+                        )}
+                        {showReset && (
                             <button onClick={handleReset} className="w-full py-2 px-4 bg-slate-800 hover:bg-slate-700 text-slate-300 text-sm rounded-lg transition-colors">
                                 Sıfırla
                             </button>
                         )}
                     </div>
                 )}
+                {/* Senaryo bitince ya da yarıda sıfırlanabilsin */}
+                <div className="mt-3">
+                    <ScenarioPanel onStart={() => setCanReset(true)} />
+                </div>
             </div>
 
             {/* Özet */}
@@ -280,8 +337,23 @@ export default function DashboardPanel() {
                                 <div>
                                     <h4 className="text-red-400 font-bold text-sm">Sinyal Kaybı (INSD)</h4>
                                     <p className="text-red-400/80 text-xs mt-1">
-                                        Bu binadan sinyal alınamıyor. Çevredeki <b>{useSeismosStore.getState().consensusEvidence.get(node.id)?.length || 0} aktif sensör</b> verisine dayanarak yıkıldığı tahmin ediliyor.
+                                        Bu binadan sinyal alınamıyor. Çevredeki <b>{insdEvidence?.witnesses.length || 0} aktif sensör</b> verisine dayanarak yıkıldığı tahmin ediliyor.
                                     </p>
+                                    {insdEvidence && (
+                                        <div className="mt-2 space-y-1 text-[10px]">
+                                            <div className="text-red-300 font-mono">Yıkım olasılığı: %{Math.round(insdEvidence.probability * 100)}</div>
+                                            {([
+                                                ['eventGap', 'Olay korelasyon boşluğu'],
+                                                ['heartbeat', 'Heartbeat kaybı'],
+                                                ['neighborhood', 'Komşu titreşim anomalisi'],
+                                            ] as const).map(([key, label]) => (
+                                                <div key={key} className="flex justify-between text-red-400/70">
+                                                    <span>{label}</span>
+                                                    <span className="font-mono">+{Math.round(insdEvidence.contributions[key] * 100)}</span>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
                                 </div>
                             </div>
                         )}
@@ -304,6 +376,53 @@ export default function DashboardPanel() {
                                 <div className="bg-slate-800/50 rounded p-2"><span className="text-slate-500">Baz:</span> <span className="text-slate-300">{damage.baseScore}</span></div>
                                 <div className="bg-slate-800/50 rounded p-2"><span className="text-slate-500">Deprem:</span> <span className="text-red-400">+{damage.earthquakeDamage}</span></div>
                             </div>
+
+                            {/* Ölçülen skorun güven aralığı ve veri kalitesi */}
+                            {pipelineResult && (
+                                <div className="mt-3 text-[10px]">
+                                    <div className="flex justify-between text-slate-500">
+                                        <span>
+                                            Ölçülen <span className="font-mono text-slate-300">{pipelineResult.damageScore.score}</span>
+                                            <span className="font-mono"> (%95: {pipelineResult.damageScore.interval.lower}–{pipelineResult.damageScore.interval.upper})</span>
+                                        </span>
+                                        {isCategoryCertain(pipelineResult.damageScore)
+                                            ? <span className="text-emerald-400">Kategori kesin</span>
+                                            : <span className="text-amber-400">Belirsiz</span>}
+                                    </div>
+                                    {pipelineResult.damageScore.qualityFlags.length > 0 && (
+                                        <div className="flex flex-wrap gap-1 mt-1.5">
+                                            {pipelineResult.damageScore.qualityFlags.map((flag) => (
+                                                <span key={flag} className="px-1.5 py-0.5 rounded bg-amber-500/10 text-amber-400">
+                                                    {QUALITY_FLAG_LABELS[flag]}
+                                                </span>
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
+                            )}
+                        </div>
+
+                        {/* Operatör Notu (tüm konsollarda ortak) */}
+                        <div className="rounded-xl bg-slate-800/30 border border-slate-700/50 p-4">
+                            <div className="flex items-center justify-between mb-2">
+                                <h3 className="text-xs font-medium text-slate-400 uppercase tracking-wider">Operatör Notu</h3>
+                                {annotation && (
+                                    <span className="text-[10px] text-slate-500">
+                                        {new Date(annotation.updatedAt).toLocaleTimeString('tr-TR')}
+                                        {annotation.consoleId !== consoleSync.consoleId && ' · diğer konsol'}
+                                    </span>
+                                )}
+                            </div>
+                            <textarea
+                                key={`${node.id}-${annotation?.updatedAt ?? 0}`}
+                                defaultValue={annotation?.text ?? ''}
+                                onBlur={(e) => {
+                                    if (e.target.value !== (annotation?.text ?? '')) annotateNode(node.id, e.target.value);
+                                }}
+                                placeholder="Ekip yönlendirme, saha gözlemi..."
+                                rows={2}
+                                className="w-full bg-slate-900/50 border border-slate-700 rounded-lg p-2 text-xs text-slate-300 placeholder-slate-600 resize-none focus:outline-none focus:border-blue-500/50"
+                            />
                         </div>
 
                         {/* Bina Bilgileri */}
@@ -368,11 +487,20 @@ export default function DashboardPanel() {
                                         </div>
                                         <div className="bg-slate-900/50 rounded p-2">
                                             <div className="text-slate-500">Frekans</div>
-                                            <div className={`text-lg font-bold font-mono ${liveReading.frequency < 4 ? 'text-yellow-400' : 'text-emerald-400'}`}>
-                                                {liveReading.frequency.toFixed(1)}<span className="text-slate-500 text-xs">Hz</span>
+                                            <div className={`text-lg font-bold font-mono ${dominantFrequency !== null && dominantFrequency < 4 ? 'text-yellow-400' : 'text-emerald-400'}`}>
+                                                {dominantFrequency !== null ? dominantFrequency.toFixed(1) : '—'}<span className="text-slate-500 text-xs">Hz</span>
                                             </div>
                                         </div>
                                     </div>
+                                    {/* Ortam koşulları (sensörü olan node'lar) */}
+                                    {liveReading.environment?.temperature !== undefined && (
+                                        <div className="flex items-center justify-between text-xs text-slate-400 bg-slate-900/50 rounded px-2 py-1">
+                                            <span>Sıcaklık <span className="font-mono text-slate-300">{liveReading.environment.temperature.toFixed(1)} °C</span></span>
+                                            {liveReading.environment.humidity !== undefined && (
+                                                <span>Nem <span className="font-mono text-slate-300">%{liveReading.environment.humidity.toFixed(0)}</span></span>
+                                            )}
+                                        </div>
+                                    )}
                                 </div>
                             </div>
                         ) : (
@@ -386,12 +514,23 @@ export default function DashboardPanel() {
                             </div>
                         )}
 
+                        {/* Hasar Motoru (Sinyal İşleme Hattı) */}
+                        {liveReading && pipelineResult && (
+                            <DamageEnginePanel
+                                result={pipelineResult}
+                                comparison={selectedNodeId ? damageComparison.get(selectedNodeId) : undefined}
+                                activeModel={damageModel}
+                                onSelectModel={selectDamageModel}
+                            />
+                        )}
+
                         {/* FFT Spektrumu */}
-                        {liveReading && liveReading.fftSpectrum && (
+                        {liveReading?.features?.fftSpectrum && dominantFrequency !== null && (
                             <FFTChart
-                                spectrum={liveReading.fftSpectrum}
-                                signalType={liveReading.signalType}
-                                dominantFrequency={liveReading.frequency}
+                                spectrum={liveReading.features.fftSpectrum}
+                                signalType={pipelineResult?.classification.label ?? 'idle'}
+                                confidence={pipelineResult?.classification.probabilities[pipelineResult.classification.label]}
+                                dominantFrequency={dominantFrequency}
                             />
                         )}
 
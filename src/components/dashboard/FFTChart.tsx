@@ -1,11 +1,13 @@
 'use client';
 
 import { AreaChart, Area, XAxis, YAxis, ResponsiveContainer, ReferenceLine } from 'recharts';
-import type { SignalType } from '@/lib/simulator';
+import type { SignalType } from '@/lib/readings';
 
 interface FFTChartProps {
     spectrum: number[];
     signalType: SignalType;
+    /** Sınıflandırıcının bu etikete verdiği olasılık (0-1) */
+    confidence?: number;
     dominantFrequency: number;
 }
 
@@ -17,7 +19,7 @@ const SIGNAL_COLORS: Record<SignalType, { stroke: string; fill: string; label: s
     anomaly: { stroke: '#8b5cf6', fill: '#8b5cf633', label: 'Anomali' },
 };
 
-export default function FFTChart({ spectrum, signalType, dominantFrequency }: FFTChartProps) {
+export default function FFTChart({ spectrum, signalType, confidence, dominantFrequency }: FFTChartProps) {
     // Spectrum -> Chart data
     const data = spectrum.map((power, index) => ({
         hz: (index * 0.5).toFixed(1),
@@ -41,6 +43,7 @@ export default function FFTChart({ spectrum, signalType, dominantFrequency }: FF
                         style={{ backgroundColor: colors.fill, color: colors.stroke, border: `1px solid ${colors.stroke}` }}
                     >
                         {colors.label}
+                        {confidence !== undefined && ` %${Math.round(confidence * 100)}`}
                     </span>
                     <span className="text-xs text-slate-400 font-mono">
                         {dominantFrequency.toFixed(1)} Hz
@@ -0,0 +1,139 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useSeismosStore } from '@/lib/store';
+import {
+    parseScenarioText,
+    scenarioLength,
+    SCENARIO_DIRECTORY,
+    SCENARIO_EVENT_LABELS,
+    type Scenario,
+    type ScenarioManifestEntry,
+} from '@/lib/scenario';
+import { scenarioRunner, type ScenarioProgress } from '@/lib/scenario/runner';
+
+// Senaryo seçici: hazır tatbikatlar (public/scenarios) veya diskten JSON/YAML dosyası
+export default function ScenarioPanel({ onStart }: { onStart?: () => void }) {
+    const syncRole = useSeismosStore(state => state.syncRole);
+    const [manifest, setManifest] = useState<ScenarioManifestEntry[]>([]);
+    const [selected, setSelected] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [progress, setProgress] = useState<ScenarioProgress | null>(() => scenarioRunner.getProgress());
+    const [now, setNow] = useState(() => Date.now());
+
+    // Hazır senaryo listesi
+    useEffect(() => {
+        fetch(`${SCENARIO_DIRECTORY}/index.json`)
+            .then(res => (res.ok ? res.json() : []))
+            .then((entries: ScenarioManifestEntry[]) => {
+                setManifest(entries);
+                if (entries.length > 0) setSelected(entries[0].file);
+            })
+            .catch(() => setManifest([]));
+    }, []);
+
+    useEffect(() => scenarioRunner.subscribe(setProgress), []);
+
+    // Oynarken geçen süreyi göster
+    useEffect(() => {
+        if (!progress || progress.finished) return;
+        const interval = setInterval(() => setNow(Date.now()), 500);
+        return () => clearInterval(interval);
+    }, [progress]);
+
+    const start = (scenario: Scenario) => {
+        setError(null);
+        scenarioRunner.start(scenario);
+        onStart?.();
+    };
+
+    const playSelected = async () => {
+        if (!selected) return;
+        try {
+            const res = await fetch(`${SCENARIO_DIRECTORY}/${selected}`);
+            if (!res.ok) throw new Error(`${selected} yüklenemedi (${res.status})`);
+            start(parseScenarioText(await res.text(), selected));
+        } catch (e) {
+            setError((e as Error).message);
+        }
+    };
+
+    const playFile = async (file: File | undefined) => {
+        if (!file) return;
+        try {
+            start(parseScenarioText(await file.text(), file.name));
+        } catch (e) {
+            setError((e as Error).message);
+        }
+    };
+
+    // Senaryoyu host oynatır - izleyici sonucu senkronla görür
+    if (syncRole === 'follower') return null;
+
+    const elapsed = progress ? Math.min(now - progress.startedAt, scenarioLength(progress.scenario)) : 0;
+
+    return (
+        <div className="p-3 bg-slate-800/40 border border-slate-700/50 rounded-lg space-y-2">
+            <div className="flex items-center justify-between">
+                <span className="text-xs font-medium uppercase tracking-wider text-slate-500">Senaryo</span>
+                {progress && (
+                    <button onClick={() => scenarioRunner.stop()} className="text-xs text-slate-400 hover:text-slate-200">
+                        Durdur
+                    </button>
+                )}
+            </div>
+
+            {progress ? (
+                <div className="space-y-1">
+                    <div className="text-sm text-white">{progress.scenario.name}</div>
+                    <div className="text-xs text-slate-400">
+                        {progress.finished
+                            ? `Tamamlandı - ${progress.scenario.events.length} olay`
+                            : `${(elapsed / 1000).toFixed(0)} / ${(scenarioLength(progress.scenario) / 1000).toFixed(0)} s · ${progress.fired}/${progress.scenario.events.length} olay`}
+                    </div>
+                    {progress.lastEvent && (
+                        <div className="text-xs text-slate-500">
+                            Son: {SCENARIO_EVENT_LABELS[progress.lastEvent.type]} ({(progress.lastEvent.atMs / 1000).toFixed(0)} s)
+                        </div>
+                    )}
+                </div>
+            ) : (
+                <div className="flex gap-2">
+                    <select
+                        value={selected}
+                        onChange={(e) => setSelected(e.target.value)}
+                        className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-sm text-slate-200"
+                    >
+                        {manifest.map(entry => (
+                            <option key={entry.file} value={entry.file} title={entry.description}>{entry.name}</option>
+                        ))}
+                    </select>
+                    <button
+                        onClick={playSelected}
+                        disabled={!selected}
+                        className="px-3 py-1.5 bg-indigo-600/80 hover:bg-indigo-600 disabled:opacity-50 text-white text-sm rounded-lg transition-colors"
+                    >
+                        Oynat
+                    </button>
+                </div>
+            )}
+
+            {!progress && (
+                <label className="block text-xs text-slate-500 hover:text-slate-300 cursor-pointer">
+                    Dosyadan yükle (.json, .yaml)
+                    <input
+                        type="file"
+                        accept=".json,.yaml,.yml"
+                        className="hidden"
+                        onChange={(e) => {
+                            playFile(e.target.files?.[0]);
+                            e.target.value = '';
+                        }}
+                    />
+                </label>
+            )}
+
+            {error && <div className="text-xs text-red-400 break-words">{error}</div>}
+        </div>
+    );
+}
@@ -3,6 +3,7 @@
 import { useMemo } from 'react';
 import { useSeismosStore } from '@/lib/store';
 import { BUILDING_METADATA } from '@/lib/simulator';
+import { QUALITY_FLAG_LABELS, isCategoryCertain } from '@/lib/damage-score/quality';
 
 interface TriageBuilding {
     id: string;
@@ -13,6 +14,8 @@ interface TriageBuilding {
     yearBuilt: number;
     structureType: string;
     reason: string;
+    // Ölçüm kategoriyi kesinleştiremiyorsa (baz yok, eski veri, geniş aralık...)
+    uncertain: boolean;
 }
 
 const STRUCTURE_RISK: Record<string, number> = {
@@ -23,10 +26,12 @@ const STRUCTURE_RISK: Record<string, number> = {
 };
 
 export default function TriagePanel({ onSelectBuilding }: { onSelectBuilding: (id: string) => void }) {
-    const { nodes, buildingDamages } = useSeismosStore();
+    const { nodes, buildingDamages, pipelineResults } = useSeismosStore();
 
-    const triageList = useMemo(() => {
+    const { triageList, certainSafe, uncertainSafe } = useMemo(() => {
         const buildings: TriageBuilding[] = [];
+        let certainSafe = 0;
+        let uncertainSafe = 0;
 
         nodes.forEach((node, id) => {
             const damage = buildingDamages.get(id);
@@ -34,7 +39,30 @@ export default function TriagePanel({ onSelectBuilding }: { onSelectBuilding: (i
             if (!damage || !meta) return;
 
             const score = damage.totalScore;
-            if (score < 30) return; // Sadece hasarlı binalar
+            const result = pipelineResults.get(id);
+            const uncertain = !result || !isCategoryCertain(result.damageScore);
+            const flagLabels = result?.damageScore.qualityFlags.map(flag => QUALITY_FLAG_LABELS[flag]) ?? ['Veri yok'];
+
+            // Hasarsız görünen bina: kesin güvenliyse listeye girmez, belirsizse en sona eklenir
+            if (score < 30) {
+                if (!uncertain) {
+                    certainSafe++;
+                    return;
+                }
+                uncertainSafe++;
+                buildings.push({
+                    id,
+                    name: node.name,
+                    score,
+                    priority: 0,
+                    floors: meta.floors,
+                    yearBuilt: meta.yearBuilt,
+                    structureType: meta.structureType,
+                    reason: flagLabels.length > 0 ? flagLabels.slice(0, 2).join(' • ') : 'Geniş güven aralığı',
+                    uncertain,
+                });
+                return;
+            }
 
             // Öncelik hesaplama formülü
             // Faktörler: Hasar skoru, kat sayısı (nüfus yoğunluğu), yaş, yapı tipi
@@ -62,24 +90,31 @@ export default function TriagePanel({ onSelectBuilding }: { onSelectBuilding: (i
                 yearBuilt: meta.yearBuilt,
                 structureType: meta.structureType,
                 reason: reasons.slice(0, 2).join(' • '),
+                uncertain,
             });
         });
 
         // Önceliğe göre sırala (yüksek = acil)
-        return buildings.sort((a, b) => b.priority - a.priority).slice(0, 10);
-    }, [nodes, buildingDamages]);
-
-    if (triageList.length === 0) {
+        return {
+            triageList: buildings.sort((a, b) => b.priority - a.priority).slice(0, 10),
+            certainSafe,
+            uncertainSafe,
+        };
+    }, [nodes, buildingDamages, pipelineResults]);
+
+    if (!triageList.some(b => b.priority > 0)) {
         return null; // Hasarlı bina yoksa gösterme
     }
 
     const getPriorityColor = (priority: number) => {
+        if (priority === 0) return 'bg-slate-600';
         if (priority >= 100) return 'bg-red-500';
         if (priority >= 70) return 'bg-orange-500';
         return 'bg-yellow-500';
     };
 
     const getPriorityLabel = (priority: number) => {
+        if (priority === 0) return 'BELİRSİZ';
         if (priority >= 100) return 'ACİL';
         if (priority >= 70) return 'YÜKSEK';
         return 'ORTA';
@@ -124,8 +159,10 @@ export default function TriagePanel({ onSelectBuilding }: { onSelectBuilding: (i
 
                         {/* Skor */}
                         <div className="text-right">
-                            <div className="text-sm font-mono font-bold text-red-400">{building.score}</div>
-                            <div className="text-[10px] text-slate-500">hasar</div>
+                            <div className={`text-sm font-mono font-bold ${building.priority === 0 ? 'text-slate-400' : 'text-red-400'}`}>
+                                {building.uncertain && '~'}{building.score}
+                            </div>
+                            <div className="text-[10px] text-slate-500">{building.uncertain ? 'belirsiz' : 'hasar'}</div>
                         </div>
 
                         {/* Öncelik etiketi */}
@@ -138,7 +175,8 @@ export default function TriagePanel({ onSelectBuilding }: { onSelectBuilding: (i
 
             {/* Footer */}
             <div className="px-4 py-2 bg-slate-900/50 border-t border-slate-800/50 text-[10px] text-slate-500">
-                Öncelik = Hasar × Kat × Yaş × Yapı Tipi
+                <div>Öncelik = Hasar × Kat × Yaş × Yapı Tipi</div>
+                <div>Kesin güvenli: {certainSafe} · Belirsiz (ölçüm doğrulayamıyor): {uncertainSafe}</div>
             </div>
         </div>
     );
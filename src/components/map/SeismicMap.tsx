@@ -5,6 +5,8 @@ import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
 import 'leaflet.heat';
 import { useSeismosStore } from '@/lib/store';
+import { fromLocalKm } from '@/lib/geo';
+import type { EventLocation } from '@/lib/locator';
 
 // Leaflet.heat için tip genişletmesi
 declare module 'leaflet' {
@@ -29,13 +31,35 @@ function getColorByScore(score: number): string {
     return '#10b981'; // Güvenli
 }
 
+// Hata elipsini harita poligonuna çevir (yerel km düzleminde parametrik elips)
+function ellipsePolygon(estimate: EventLocation, points: number = 64): Array<[number, number]> {
+    const { semiMajorKm, semiMinorKm, azimuthDeg } = estimate.ellipse;
+    const az = (azimuthDeg * Math.PI) / 180;
+    const polygon: Array<[number, number]> = [];
+
+    for (let i = 0; i < points; i++) {
+        const theta = (i / points) * 2 * Math.PI;
+        const major = semiMajorKm * Math.cos(theta);
+        const minor = semiMinorKm * Math.sin(theta);
+        // Büyük eksen kuzeyden saat yönünde az, küçük eksen ona dik
+        const point = fromLocalKm({
+            x: major * Math.sin(az) + minor * Math.cos(az),
+            y: major * Math.cos(az) - minor * Math.sin(az),
+        }, estimate.lat, estimate.lng);
+        polygon.push([point.lat, point.lng]);
+    }
+
+    return polygon;
+}
+
 export default function SeismicMap() {
     const mapRef = useRef<L.Map | null>(null);
     const mapContainerRef = useRef<HTMLDivElement>(null);
     const markersRef = useRef<Map<string, L.CircleMarker | L.Marker>>(new Map());
     const heatLayerRef = useRef<L.Layer | null>(null);
 
-    const { nodes, selectedNodeId, selectNode, buildingDamages, isEarthquakeActive, consensusEvidence } = useSeismosStore();
+    const { nodes, selectedNodeId, selectNode, buildingDamages, isEarthquakeActive, consensusEvidence, eventLocation, seismicEvents, currentEventId } = useSeismosStore();
+    const currentEvent = seismicEvents.find(e => e.id === currentEventId);
     const [isMapReady, setIsMapReady] = useState(false);
     const [showHeatmap, setShowHeatmap] = useState(false);
 
@@ -73,14 +97,14 @@ export default function SeismicMap() {
         const evidenceLines: L.Polyline[] = [];
 
         // 1. Evidence Lines (Kanıt Çizgileri)
-        consensusEvidence.forEach((witnessIds, silentNodeId) => {
+        consensusEvidence.forEach((evidence, silentNodeId) => {
             const silentNode = nodes.get(silentNodeId);
             if (!silentNode) return;
 
             // Sadece seçili olan binanın kanıt ağını göster (Temiz görünüm)
             if (silentNodeId !== selectedNodeId) return;
 
-            witnessIds.forEach(witnessId => {
+            evidence.witnesses.forEach(witnessId => {
                 const witnessNode = nodes.get(witnessId);
                 if (!witnessNode) return;
 
@@ -241,14 +265,102 @@ export default function SeismicMap() {
         };
     }, [nodes, buildingDamages, isMapReady, showHeatmap]);
 
+    // Tahmini merkez, hata elipsi ve (demo) gerçek merkez
+    useEffect(() => {
+        if (!mapRef.current || !isMapReady || !eventLocation) return;
+
+        const map = mapRef.current;
+        const { estimate, trueEpicenter } = eventLocation;
+        const layers: L.Layer[] = [];
+
+        // Elips sadece sınırlıysa çizilir (ağ dışındaki kaynakta bir ekseni çok uzun olabilir)
+        if (Number.isFinite(estimate.ellipse.semiMajorKm) && estimate.ellipse.semiMajorKm < 5) {
+            layers.push(L.polygon(ellipsePolygon(estimate), {
+                color: '#f43f5e',
+                weight: 1.5,
+                fillColor: '#f43f5e',
+                fillOpacity: 0.12,
+                dashArray: '4, 4',
+                interactive: false,
+            }).addTo(map));
+        }
+
+        layers.push(L.marker([estimate.lat, estimate.lng], {
+            icon: L.divIcon({
+                html: `
+                    <svg width="26" height="26" viewBox="0 0 26 26" xmlns="http://www.w3.org/2000/svg">
+                        <path d="M13 2L16 10L24 13L16 16L13 24L10 16L2 13L10 10Z" fill="#f43f5e" stroke="#1e293b" stroke-width="1.5"/>
+                    </svg>
+                `,
+                className: 'collapsed-marker',
+                iconSize: [26, 26],
+                iconAnchor: [13, 13],
+            }),
+            interactive: false,
+            zIndexOffset: 1000,
+        }).addTo(map));
+
+        if (trueEpicenter) {
+            layers.push(L.circleMarker([trueEpicenter.lat, trueEpicenter.lng], {
+                radius: 7,
+                color: '#ffffff',
+                weight: 2,
+                fill: false,
+                interactive: false,
+            }).addTo(map));
+            layers.push(L.polyline([
+                [trueEpicenter.lat, trueEpicenter.lng],
+                [estimate.lat, estimate.lng],
+            ], {
+                color: '#ffffff',
+                weight: 1,
+                dashArray: '2, 4',
+                opacity: 0.7,
+                interactive: false,
+            }).addTo(map));
+        }
+
+        return () => {
+            layers.forEach(l => l.remove());
+        };
+    }, [eventLocation, isMapReady]);
+
     return (
         <div className="relative w-full h-full">
             <div ref={mapContainerRef} className="w-full h-full" />
 
+            {/* Konum çözümü */}
+            {eventLocation && (
+                <div className="absolute bottom-4 left-4 z-[1000] bg-slate-900/90 backdrop-blur-sm border border-slate-700/50 px-3 py-2 rounded-lg text-xs">
+                    <div className="text-rose-400 font-medium mb-1">Tahmini Merkez</div>
+                    <div className="font-mono text-slate-300 space-y-0.5">
+                        <div>{eventLocation.estimate.lat.toFixed(5)}, {eventLocation.estimate.lng.toFixed(5)}</div>
+                        <div>
+                            Oluş {new Date(eventLocation.estimate.originTime).toLocaleTimeString('tr-TR')}
+                            <span className="text-slate-500"> · {eventLocation.estimate.stationCount} node · RMS {(eventLocation.estimate.rmsResidual * 1000).toFixed(0)} ms</span>
+                        </div>
+                        {Number.isFinite(eventLocation.estimate.ellipse.semiMajorKm) && (
+                            <div className="text-slate-500">
+                                %95 elips {(eventLocation.estimate.ellipse.semiMajorKm * 1000).toFixed(0)} × {(eventLocation.estimate.ellipse.semiMinorKm * 1000).toFixed(0)} m
+                            </div>
+                        )}
+                        {eventLocation.errorKm !== null && (
+                            <div className="text-white">Konum hatası: {(eventLocation.errorKm * 1000).toFixed(0)} m</div>
+                        )}
+                    </div>
+                </div>
+            )}
+
             {isEarthquakeActive && (
                 <div className="absolute top-4 left-4 bg-red-600/90 backdrop-blur-sm px-4 py-2 rounded-lg flex items-center gap-2 animate-pulse">
                     <div className="w-2 h-2 rounded-full bg-white" />
                     <span className="text-white font-medium text-sm">Deprem Aktif</span>
+                    {currentEvent && currentEvent.magnitude !== null && (
+                        <span className="text-white font-mono text-sm">
+                            M {currentEvent.magnitude.toFixed(1)}
+                            {currentEvent.magnitudeUncertainty !== null && ` ± ${currentEvent.magnitudeUncertainty.toFixed(1)}`}
+                        </span>
+                    )}
                 </div>
             )}
 
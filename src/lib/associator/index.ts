@@ -0,0 +1,319 @@
+/**
+ * SEISMOS Network Associator
+ *
+ * Groups per-node STA/LTA triggers into network events. A single node can
+ * trigger on anything (a passing truck, a slammed door); an earthquake
+ * shakes many nodes, in an order that a wave travelling across the
+ * network could produce.
+ *
+ * Declaration rules (all must hold):
+ * - Travel-time consistency: every pair of onsets satisfies
+ *   |t_i - t_j| ≤ d_ij / v_min + tolerance, i.e. no wave slower than v_min
+ *   could have produced them, so unrelated local triggers do not combine
+ * - Enough stations: at least `minStations` distinct nodes
+ * - Spatial spread: the triggered nodes span at least `minApertureKm`
+ * - Regional consensus vote: within `voteRadiusKm` of the triggered
+ *   nodes' centroid, at least `minVoteFraction` of all stations triggered
+ *
+ * Lifecycle:
+ * - declared  → a stable event id is minted once, later picks that are
+ *               travel-time consistent with the event join it
+ * - ended     → every associated node has detriggered and the network
+ *               stayed quiet for `endGraceSeconds` (or `maxEventSeconds`)
+ */
+
+import { haversineKm } from '../geo';
+import type { TriggerEvent } from '../trigger';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Position of a node that can vote
+ */
+export interface Station {
+    id: string;
+    lat: number;
+    lng: number;
+}
+
+/**
+ * Onset pick attached to a network event
+ */
+export interface AssociatedPick {
+    nodeId: string;
+    lat: number;
+    lng: number;
+
+    /** Onset time (epoch ms) */
+    onsetTime: number;
+
+    /** Whether the onset came from the AIC picker */
+    picked: boolean;
+}
+
+export interface NetworkEvent {
+    /** Stable id, minted at declaration */
+    id: string;
+
+    /** Time of the pick that completed the declaration (epoch ms) */
+    declaredAt: number;
+
+    /** Earliest associated onset (epoch ms) */
+    firstOnset: number;
+
+    picks: AssociatedPick[];
+
+    /** Fraction of stations in the vote region that triggered at declaration */
+    voteFraction: number;
+
+    endedAt: number | null;
+}
+
+export type AssociatorUpdate =
+    | { type: 'declared'; event: NetworkEvent }
+    | { type: 'associated'; event: NetworkEvent; pick: AssociatedPick }
+    | { type: 'ended'; event: NetworkEvent };
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export interface AssociatorConfig {
+    /** Distinct triggered nodes needed to declare */
+    minStations: number;
+
+    /** Minimum distance between the two farthest triggered nodes (km) */
+    minApertureKm: number;
+
+    /** Radius of the consensus region around the triggered nodes (km) */
+    voteRadiusKm: number;
+
+    /** Share of the region's stations that must have triggered (0-1) */
+    minVoteFraction: number;
+
+    /**
+     * Slowest apparent velocity accepted between two onsets (km/s).
+     * Below S-wave speed in rock (~3.5 km/s), so P and S picks both pass.
+     */
+    minApparentVelocityKmS: number;
+
+    /** Slack on the travel-time check for pick and clock error (s) */
+    timingToleranceSeconds: number;
+
+    /** Unassociated picks are dropped after this long (s) */
+    pendingSeconds: number;
+
+    /** Quiet time after the last detrigger before the event ends (s) */
+    endGraceSeconds: number;
+
+    /** Events are closed after this long regardless (s) */
+    maxEventSeconds: number;
+}
+
+const DEFAULT_CONFIG: AssociatorConfig = {
+    minStations: 3,
+    minApertureKm: 0.05,
+    voteRadiusKm: 2,
+    minVoteFraction: 0.3,
+    minApparentVelocityKmS: 2,
+    timingToleranceSeconds: 1,
+    pendingSeconds: 30,
+    endGraceSeconds: 2,
+    maxEventSeconds: 300,
+};
+
+// ============================================================================
+// NETWORK ASSOCIATOR
+// ============================================================================
+
+export class NetworkAssociator {
+    private readonly config: AssociatorConfig;
+    private stations: Map<string, Station> = new Map();
+
+    /** Triggers not (yet) part of an event, one per node */
+    private pending: Map<string, AssociatedPick> = new Map();
+
+    /** Nodes currently triggered */
+    private open: Set<string> = new Set();
+
+    private active: NetworkEvent | null = null;
+    private lastActivity = 0;
+
+    constructor(config: Partial<AssociatorConfig> = {}) {
+        this.config = { ...DEFAULT_CONFIG, ...config };
+    }
+
+    setStations(stations: Iterable<Station>): void {
+        this.stations = new Map(Array.from(stations, s => [s.id, s]));
+    }
+
+    getActiveEvent(): NetworkEvent | null {
+        return this.active;
+    }
+
+    /**
+     * Feed trigger transitions (any order within the batch) and advance
+     * the event lifecycle to `now` (epoch ms)
+     */
+    process(events: TriggerEvent[], now: number): AssociatorUpdate[] {
+        const updates: AssociatorUpdate[] = [];
+
+        for (const event of events) {
+            if (event.type === 'detrigger') {
+                this.open.delete(event.nodeId);
+                this.lastActivity = Math.max(this.lastActivity, event.timestamp);
+                continue;
+            }
+
+            const station = this.stations.get(event.nodeId);
+            if (!station) continue; // A node without a position cannot vote
+
+            this.open.add(event.nodeId);
+            this.lastActivity = Math.max(this.lastActivity, event.timestamp);
+            const pick: AssociatedPick = {
+                nodeId: event.nodeId,
+                lat: station.lat,
+                lng: station.lng,
+                onsetTime: event.onsetTime,
+                picked: event.picked,
+            };
+
+            if (this.active && this.joins(this.active, pick)) {
+                this.active.picks = [...this.active.picks.filter(p => p.nodeId !== pick.nodeId), pick];
+                this.active.firstOnset = Math.min(this.active.firstOnset, pick.onsetTime);
+                updates.push({ type: 'associated', event: this.active, pick });
+            } else {
+                this.pending.set(pick.nodeId, pick);
+            }
+        }
+
+        // Expire stale picks (by onset; a slow upload still gets its window)
+        this.pending.forEach((pick, nodeId) => {
+            if (now - pick.onsetTime > this.config.pendingSeconds * 1000) this.pending.delete(nodeId);
+        });
+
+        if (!this.active) {
+            const declared = this.tryDeclare(now);
+            if (declared) updates.push({ type: 'declared', event: declared });
+        } else if (this.shouldEnd(this.active, now)) {
+            const ended = { ...this.active, endedAt: now };
+            this.active = null;
+            updates.push({ type: 'ended', event: ended });
+        }
+
+        return updates;
+    }
+
+    /**
+     * Close triggers of nodes that stopped reporting (`now` in epoch ms).
+     * A silent node never sends its detrigger, so a collapsed building
+     * would otherwise hold the event open until `maxEventSeconds`.
+     */
+    release(nodeIds: Iterable<string>, now: number): void {
+        for (const nodeId of nodeIds) {
+            if (this.open.delete(nodeId)) this.lastActivity = Math.max(this.lastActivity, now);
+        }
+    }
+
+    /**
+     * Whether two onsets could come from one wave
+     */
+    private consistent(a: AssociatedPick, b: AssociatedPick): boolean {
+        const { minApparentVelocityKmS, timingToleranceSeconds } = this.config;
+        const distanceKm = haversineKm(a.lat, a.lng, b.lat, b.lng);
+        const maxDeltaMs = (distanceKm / minApparentVelocityKmS + timingToleranceSeconds) * 1000;
+        return Math.abs(a.onsetTime - b.onsetTime) <= maxDeltaMs;
+    }
+
+    /**
+     * A pick joins the active event when it is consistent with the first arrivals
+     */
+    private joins(event: NetworkEvent, pick: AssociatedPick): boolean {
+        const earliest = [...event.picks].sort((a, b) => a.onsetTime - b.onsetTime).slice(0, this.config.minStations);
+        return earliest.every(p => p.nodeId === pick.nodeId || this.consistent(p, pick));
+    }
+
+    /**
+     * Largest travel-time consistent group of pending picks, declared if it
+     * passes the station count, aperture and regional vote
+     */
+    private tryDeclare(now: number): NetworkEvent | null {
+        const picks = Array.from(this.pending.values()).sort((a, b) => a.onsetTime - b.onsetTime);
+        if (picks.length < this.config.minStations) return null;
+
+        let best: AssociatedPick[] = [];
+        picks.forEach((seed, i) => {
+            const group = [seed];
+            for (let j = i + 1; j < picks.length; j++) {
+                if (group.every(member => this.consistent(member, picks[j]))) group.push(picks[j]);
+            }
+            if (group.length > best.length) best = group;
+        });
+
+        if (best.length < this.config.minStations) return null;
+        if (this.aperture(best) < this.config.minApertureKm) return null;
+
+        const voteFraction = this.vote(best);
+        if (voteFraction < this.config.minVoteFraction) return null;
+
+        best.forEach(p => this.pending.delete(p.nodeId));
+        this.active = {
+            id: crypto.randomUUID(),
+            declaredAt: now,
+            firstOnset: best[0].onsetTime,
+            picks: best,
+            voteFraction,
+            endedAt: null,
+        };
+        return this.active;
+    }
+
+    private aperture(picks: AssociatedPick[]): number {
+        let max = 0;
+        for (let i = 0; i < picks.length; i++) {
+            for (let j = i + 1; j < picks.length; j++) {
+                max = Math.max(max, haversineKm(picks[i].lat, picks[i].lng, picks[j].lat, picks[j].lng));
+            }
+        }
+        return max;
+    }
+
+    /**
+     * Share of stations around the group's centroid that are in the group
+     */
+    private vote(picks: AssociatedPick[]): number {
+        const lat = picks.reduce((sum, p) => sum + p.lat, 0) / picks.length;
+        const lng = picks.reduce((sum, p) => sum + p.lng, 0) / picks.length;
+        const members = new Set(picks.map(p => p.nodeId));
+
+        let region = 0;
+        let triggered = 0;
+        this.stations.forEach(station => {
+            if (haversineKm(lat, lng, station.lat, station.lng) > this.config.voteRadiusKm) return;
+            region++;
+            if (members.has(station.id)) triggered++;
+        });
+        return region > 0 ? triggered / region : 0;
+    }
+
+    private shouldEnd(event: NetworkEvent, now: number): boolean {
+        if (now - event.firstOnset > this.config.maxEventSeconds * 1000) return true;
+        const stillShaking = event.picks.some(p => this.open.has(p.nodeId));
+        return !stillShaking && now - this.lastActivity >= this.config.endGraceSeconds * 1000;
+    }
+
+    reset(): void {
+        this.pending.clear();
+        this.open.clear();
+        this.active = null;
+        this.lastActivity = 0;
+    }
+}
+
+// ============================================================================
+// SINGLETON INSTANCE
+// ============================================================================
+
+export const networkAssociator = new NetworkAssociator();
@@ -0,0 +1,237 @@
+/**
+ * SEISMOS Ground Motion Attenuation
+ *
+ * Expected shaking at each building for an earthquake of a given size and
+ * position: a ground-motion prediction equation (GMPE) that turns
+ * magnitude, distance and site into PGA and PGV, so simulated shaking
+ * maps scale with magnitude and can be checked against published curves.
+ *
+ * Physical Rationale:
+ * - Radiated energy grows roughly tenfold per magnitude unit; the median
+ *   ground motion grows with it, more slowly for large events whose
+ *   rupture no longer looks like a point (magnitude saturation)
+ * - Waves spread geometrically and lose energy to friction, so motion
+ *   falls off with the distance to the source, not with the epicentral
+ *   distance: a deeper source shakes its epicentre less
+ * - Close to the source the motion saturates; a fictitious depth h keeps
+ *   the prediction finite at zero distance
+ * - Soft soil (low Vs30) amplifies shaking, velocity more than acceleration
+ * - Two sites at the same distance still see different motion; the
+ *   residual is lognormal with the relation's σ
+ *
+ * Algorithm:
+ * - ln Y = c1 + c2·(M−6) + c3·(M−6)² + c4·ln(r) + c5·r + cV·ln(Vs30 / Vref),
+ *   r = √(R_hyp² + h²), R_hyp from the geodesic epicentral distance and
+ *   the source depth
+ * - PGA (g): Boore, Joyner & Fumal (1997), unspecified mechanism
+ * - PGV (cm/s): after Joyner & Boore (1988), their soil flag expressed as
+ *   a Vs30 slope (rock ≈ 620 m/s, soil ≈ 310 m/s)
+ * - Both relations were fit to Joyner-Boore distance; for the point
+ *   sources played here the hypocentral distance takes its place
+ * - A realisation draws one ε per site for both measures (their residuals
+ *   are strongly correlated), truncated at `truncationSigmas`
+ */
+
+import { geodesicKm, hypocentralKm } from '../geo';
+import type { SeededRandom } from '../random';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Point source
+ */
+export interface EarthquakeSource {
+    /** Moment magnitude */
+    magnitude: number;
+    depthKm: number;
+    lat: number;
+    lng: number;
+}
+
+/**
+ * Building site
+ */
+export interface SiteConditions {
+    lat: number;
+    lng: number;
+
+    /** Average shear-wave velocity of the top 30 m (m/s); the config default when absent */
+    vs30?: number;
+}
+
+/**
+ * Coefficients of one relation in natural-log form
+ */
+export interface GmpeCoefficients {
+    /** Reference the coefficients come from */
+    reference: string;
+
+    c1: number;
+    c2: number;
+    c3: number;
+    c4: number;
+
+    /** Anelastic term (per km) */
+    c5: number;
+
+    /** Site term slope and its reference velocity (m/s) */
+    cV: number;
+    vRef: number;
+
+    /** Fictitious depth (km) */
+    h: number;
+
+    /** Total standard deviation of ln Y */
+    sigma: number;
+
+    /** Magnitude and distance range of the data set behind the relation */
+    magnitudeRange: [number, number];
+    maxDistanceKm: number;
+}
+
+export interface GroundMotion {
+    epicentralKm: number;
+    hypocentralKm: number;
+
+    /** Peak ground acceleration (g) */
+    pga: number;
+
+    /** Peak ground velocity (cm/s) */
+    pgv: number;
+
+    /** Standard normal residual of this realisation, 0 for the median */
+    epsilon: number;
+
+    /** Magnitude or distance outside the range the relations were fit to */
+    extrapolated: boolean;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export interface AttenuationConfig {
+    /**
+     * Vs30 for sites without their own value (m/s). Balat sits on the
+     * Golden Horn shore: alluvium and fill, NEHRP class D.
+     */
+    defaultVs30: number;
+
+    /** Residuals beyond this many σ are clipped (common hazard practice) */
+    truncationSigmas: number;
+}
+
+const DEFAULT_CONFIG: AttenuationConfig = {
+    defaultVs30: 300,
+    truncationSigmas: 2,
+};
+
+/** Boore, Joyner & Fumal (1997), PGA, random horizontal component */
+export const BJF97_PGA: GmpeCoefficients = {
+    reference: 'Boore, Joyner & Fumal (1997)',
+    c1: -0.242,
+    c2: 0.527,
+    c3: 0,
+    c4: -0.778,
+    c5: 0,
+    cV: -0.371,
+    vRef: 1396,
+    h: 5.57,
+    sigma: 0.520,
+    magnitudeRange: [5.5, 7.5],
+    maxDistanceKm: 80,
+};
+
+/**
+ * Joyner & Boore (1988), PGV, published in log10:
+ * log v = 2.09 + 0.49 (M − 6) − log r − 0.0026 r, so every term but
+ * −log r (already ln r once scaled) is multiplied by ln 10, including the
+ * anelastic −0.0026 r
+ */
+export const JB88_PGV: GmpeCoefficients = {
+    reference: 'Joyner & Boore (1988)',
+    c1: 2.09 * Math.LN10,
+    c2: 0.49 * Math.LN10,
+    c3: 0,
+    c4: -1,
+    c5: -0.0026 * Math.LN10,
+    cV: -(0.17 * Math.LN10) / Math.log(2),
+    vRef: 620,
+    h: 4.0,
+    sigma: 0.33 * Math.LN10,
+    magnitudeRange: [5.0, 7.7],
+    maxDistanceKm: 100,
+};
+
+// ============================================================================
+// RELATIONS
+// ============================================================================
+
+/**
+ * Median ln Y of a relation at hypocentral distance `distanceKm`
+ */
+export function lnMedian(coefficients: GmpeCoefficients, magnitude: number, distanceKm: number, vs30: number): number {
+    const { c1, c2, c3, c4, c5, cV, vRef, h } = coefficients;
+    const r = Math.sqrt(distanceKm ** 2 + h ** 2);
+    return c1 + c2 * (magnitude - 6) + c3 * (magnitude - 6) ** 2 + c4 * Math.log(r) + c5 * r + cV * Math.log(vs30 / vRef);
+}
+
+function isExtrapolated(coefficients: GmpeCoefficients, magnitude: number, distanceKm: number): boolean {
+    const [min, max] = coefficients.magnitudeRange;
+    return magnitude < min || magnitude > max || distanceKm > coefficients.maxDistanceKm;
+}
+
+// ============================================================================
+// GROUND MOTION MODEL
+// ============================================================================
+
+export class GroundMotionModel {
+    private readonly config: AttenuationConfig;
+
+    constructor(
+        config: Partial<AttenuationConfig> = {},
+        private readonly pgaRelation: GmpeCoefficients = BJF97_PGA,
+        private readonly pgvRelation: GmpeCoefficients = JB88_PGV
+    ) {
+        this.config = { ...DEFAULT_CONFIG, ...config };
+        if (this.config.defaultVs30 <= 0 || this.config.truncationSigmas <= 0) {
+            throw new Error('[GroundMotionModel] defaultVs30 and truncationSigmas must be positive');
+        }
+    }
+
+    /**
+     * Median ground motion at a site
+     */
+    predict(source: EarthquakeSource, site: SiteConditions): GroundMotion {
+        return this.evaluate(source, site, 0);
+    }
+
+    /**
+     * One realisation: the median shifted by a truncated lognormal residual
+     */
+    sample(source: EarthquakeSource, site: SiteConditions, rng: SeededRandom): GroundMotion {
+        const limit = this.config.truncationSigmas;
+        return this.evaluate(source, site, Math.max(-limit, Math.min(limit, rng.normal())));
+    }
+
+    private evaluate(source: EarthquakeSource, site: SiteConditions, epsilon: number): GroundMotion {
+        const epicentralKm = geodesicKm(source.lat, source.lng, site.lat, site.lng);
+        const distanceKm = hypocentralKm(epicentralKm, source.depthKm);
+        const vs30 = site.vs30 ?? this.config.defaultVs30;
+        const { magnitude } = source;
+
+        return {
+            epicentralKm,
+            hypocentralKm: distanceKm,
+            pga: Math.exp(lnMedian(this.pgaRelation, magnitude, distanceKm, vs30) + epsilon * this.pgaRelation.sigma),
+            pgv: Math.exp(lnMedian(this.pgvRelation, magnitude, distanceKm, vs30) + epsilon * this.pgvRelation.sigma),
+            epsilon,
+            extrapolated: isExtrapolated(this.pgaRelation, magnitude, distanceKm) ||
+                isExtrapolated(this.pgvRelation, magnitude, distanceKm),
+        };
+    }
+}
+
+export const groundMotionModel = new GroundMotionModel();
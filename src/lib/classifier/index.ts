@@ -0,0 +1,335 @@
+/**
+ * SEISMOS Signal Classifier
+ *
+ * Labels what a node is currently recording (ambient, earthquake, local
+ * noise such as traffic, or a sensor fault) from features of its recent
+ * record, with a trained model instead of a hand-written rule.
+ *
+ * Physical Rationale:
+ * - Earthquake ground motion in the building band sits below a few Hz;
+ *   traffic, machinery and footsteps put their energy higher up
+ * - An earthquake shakes every building around a node within seconds;
+ *   a truck or a slammed door shakes one
+ * - Ground motion is roughly Gaussian; electrical glitches and knocks on
+ *   the sensor are isolated spikes, i.e. a heavy-tailed (high kurtosis)
+ *   amplitude distribution
+ * - Local noise is short; earthquake shaking lasts seconds to minutes
+ *
+ * Features (per node, over the last `windowSeconds`):
+ * - lowBandRatio / highBandRatio: spectral energy below `lowBandMaxHz`
+ *   and above `highBandMinHz` over the total (firmware spectrum when the
+ *   node sends one, Welch PSD of the vertical axis otherwise)
+ * - durationSeconds: time since the open trigger's onset (0 untriggered)
+ * - kurtosis: excess kurtosis of the offset-free axes
+ * - spatialCoherence: share of neighbours within `coherenceRadiusKm` that
+ *   were triggered during the last `coherenceSeconds`
+ * - logPeak: log10 of the peak offset-free acceleration (g)
+ * - logStaLta: log10(1 + STA/LTA ratio)
+ *
+ * The model is a JSON file (see ./model.ts); `scripts/train-signal-classifier.ts`
+ * produces the default one from labelled simulator runs.
+ */
+
+import type { SignalType } from '../readings';
+import type { VibrationSample } from '../damage-score';
+import type { TriggerState } from '../trigger';
+import { welchPsd } from '../dsp';
+import { haversineKm } from '../geo';
+import { predictProbabilities, validateModel, type SignalClassifierModel } from './model';
+import defaultModel from './models/signal-classifier.json';
+
+export type { SignalClassifierModel } from './model';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const SIGNAL_FEATURES = [
+    'lowBandRatio',
+    'highBandRatio',
+    'durationSeconds',
+    'kurtosis',
+    'spatialCoherence',
+    'logPeak',
+    'logStaLta',
+] as const;
+
+export type SignalFeatureName = typeof SIGNAL_FEATURES[number];
+
+export type SignalFeatures = Record<SignalFeatureName, number>;
+
+export interface SignalClassification {
+    /** Most probable class */
+    label: SignalType;
+
+    /** Probability per class (0-1, sums to 1) */
+    probabilities: Record<SignalType, number>;
+
+    /** Inputs the model saw */
+    features: SignalFeatures;
+}
+
+/**
+ * Position of a node for the spatial coherence feature
+ */
+export interface ClassifierStation {
+    id: string;
+    lat: number;
+    lng: number;
+}
+
+interface WindowSample {
+    timestamp: number;
+    x: number;
+    y: number;
+    z: number;
+    sampleRateHz: number;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export interface ClassifierConfig {
+    /** Record the features are computed over (s) */
+    windowSeconds: number;
+
+    /** Upper edge of the earthquake band (Hz) */
+    lowBandMaxHz: number;
+
+    /** Lower edge of the local-noise band (Hz) */
+    highBandMinHz: number;
+
+    /** Bin width of the firmware spectrum (Hz) */
+    firmwareBinHz: number;
+
+    /** Samples needed before a spectrum is estimated from the record */
+    minSpectrumSamples: number;
+
+    /** Neighbourhood for spatial coherence (km) */
+    coherenceRadiusKm: number;
+
+    /** A neighbour counts as coherent if it was triggered this recently (s) */
+    coherenceSeconds: number;
+}
+
+const DEFAULT_CONFIG: ClassifierConfig = {
+    windowSeconds: 2,
+    lowBandMaxHz: 4,
+    highBandMinHz: 7,
+    firmwareBinHz: 0.5,
+    minSpectrumSamples: 8,
+    coherenceRadiusKm: 0.2,
+    coherenceSeconds: 3,
+};
+
+const SIGNAL_TYPES: readonly SignalType[] = ['idle', 'seismic', 'noise', 'anomaly'];
+
+// ============================================================================
+// FEATURES
+// ============================================================================
+
+/**
+ * Share of spectral energy below `lowMaxHz` and at or above `highMinHz`
+ * (the DC bin is ignored)
+ */
+export function bandRatios(
+    power: number[],
+    binWidthHz: number,
+    lowMaxHz: number,
+    highMinHz: number
+): { low: number; high: number } {
+    let total = 0;
+    let low = 0;
+    let high = 0;
+    for (let k = 1; k < power.length; k++) {
+        const hz = k * binWidthHz;
+        total += power[k];
+        if (hz < lowMaxHz) low += power[k];
+        if (hz >= highMinHz) high += power[k];
+    }
+    return total > 0 ? { low: low / total, high: high / total } : { low: 0, high: 0 };
+}
+
+/**
+ * Excess kurtosis (0 for a Gaussian, -1.2 for uniform noise, large for spikes)
+ */
+export function excessKurtosis(values: number[]): number {
+    if (values.length < 4) return 0;
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    let m2 = 0;
+    let m4 = 0;
+    for (const v of values) {
+        const d = (v - mean) ** 2;
+        m2 += d;
+        m4 += d * d;
+    }
+    m2 /= values.length;
+    m4 /= values.length;
+    return m2 > 0 ? m4 / (m2 * m2) - 3 : 0;
+}
+
+function assertUsable(model: SignalClassifierModel): SignalClassifierModel {
+    const errors = validateModel(model, SIGNAL_FEATURES);
+    if (errors.length > 0) throw new Error(`Invalid signal classifier model: ${errors.join('; ')}`);
+    return model;
+}
+
+// ============================================================================
+// SIGNAL CLASSIFIER
+// ============================================================================
+
+export class SignalClassifier {
+    private readonly config: ClassifierConfig;
+    private model: SignalClassifierModel;
+    private windows: Map<string, WindowSample[]> = new Map();
+    private neighbours: Map<string, string[]> = new Map();
+
+    /** Last time each node was seen triggered (epoch ms) */
+    private lastTriggered: Map<string, number> = new Map();
+
+    /** Latest result per node, returned again for a repeated sample */
+    private lastResults: Map<string, { timestamp: number; classification: SignalClassification }> = new Map();
+
+    constructor(model: SignalClassifierModel = defaultModel as SignalClassifierModel, config: Partial<ClassifierConfig> = {}) {
+        this.config = { ...DEFAULT_CONFIG, ...config };
+        this.model = assertUsable(model);
+    }
+
+    /**
+     * Swap the model (e.g. one loaded from a file); throws if it cannot
+     * be evaluated on this classifier's features
+     */
+    setModel(model: SignalClassifierModel): void {
+        this.model = assertUsable(model);
+        this.lastResults.clear();
+    }
+
+    getModel(): SignalClassifierModel {
+        return this.model;
+    }
+
+    setStations(stations: Iterable<ClassifierStation>): void {
+        const list = Array.from(stations);
+        this.neighbours = new Map(list.map(station => [
+            station.id,
+            list
+                .filter(other => other.id !== station.id
+                    && haversineKm(station.lat, station.lng, other.lat, other.lng) <= this.config.coherenceRadiusKm)
+                .map(other => other.id),
+        ]));
+    }
+
+    /**
+     * Add a node's sample (`timestamp` on the node's clock, epoch ms) and
+     * classify its current record. `spectrum` is the firmware FFT, if any.
+     */
+    classify(
+        nodeId: string,
+        sample: VibrationSample,
+        trigger: TriggerState,
+        timestamp: number,
+        spectrum?: number[]
+    ): SignalClassification {
+        // The same reading can be delivered twice (live map re-emits)
+        const last = this.lastResults.get(nodeId);
+        if (last && timestamp <= last.timestamp) return last.classification;
+
+        if (trigger.isTriggered) this.lastTriggered.set(nodeId, timestamp);
+
+        const window = this.windows.get(nodeId) ?? [];
+        window.push({
+            timestamp,
+            x: sample.accelX,
+            y: sample.accelY,
+            z: sample.accelZ,
+            sampleRateHz: sample.sampleRateHz ?? 20,
+        });
+        const cutoff = timestamp - this.config.windowSeconds * 1000;
+        while (window.length > 0 && window[0].timestamp < cutoff) window.shift();
+        this.windows.set(nodeId, window);
+
+        const features = this.extractFeatures(nodeId, window, trigger, timestamp, spectrum);
+        const probabilities = predictProbabilities(this.model, this.model.features.map(name => features[name as SignalFeatureName]));
+
+        const byClass = Object.fromEntries(SIGNAL_TYPES.map(type => [type, 0])) as Record<SignalType, number>;
+        this.model.classes.forEach((type, i) => { byClass[type] = probabilities[i]; });
+        const label = this.model.classes[probabilities.indexOf(Math.max(...probabilities))];
+
+        const classification: SignalClassification = { label, probabilities: byClass, features };
+        this.lastResults.set(nodeId, { timestamp, classification });
+        return classification;
+    }
+
+    private extractFeatures(
+        nodeId: string,
+        window: WindowSample[],
+        trigger: TriggerState,
+        timestamp: number,
+        spectrum?: number[]
+    ): SignalFeatures {
+        const { lowBandMaxHz, highBandMinHz } = this.config;
+
+        // Spectral balance
+        let bands = { low: 0, high: 0 };
+        if (spectrum && spectrum.length > 1) {
+            bands = bandRatios(spectrum, this.config.firmwareBinHz, lowBandMaxHz, highBandMinHz);
+        } else {
+            // Uniform sampling only: the samples since the last rate change
+            const rate = window[window.length - 1].sampleRateHz;
+            const uniform = window.filter(s => s.sampleRateHz === rate).map(s => s.z);
+            if (uniform.length >= this.config.minSpectrumSamples) {
+                const segmentSize = 2 ** Math.floor(Math.log2(uniform.length));
+                const psd = welchPsd(uniform, rate, segmentSize);
+                bands = bandRatios(psd.power, psd.binWidthHz, lowBandMaxHz, highBandMinHz);
+            }
+        }
+
+        // Amplitude distribution of the offset-free record
+        const mean = (axis: 'x' | 'y' | 'z') => window.reduce((sum, s) => sum + s[axis], 0) / window.length;
+        const mx = mean('x');
+        const my = mean('y');
+        const mz = mean('z');
+        const centred = window.flatMap(s => [s.x - mx, s.y - my, s.z - mz]);
+        const peak = window.reduce((max, s) => Math.max(max, Math.hypot(s.x - mx, s.y - my, s.z - mz)), 0);
+
+        return {
+            lowBandRatio: bands.low,
+            highBandRatio: bands.high,
+            durationSeconds: trigger.onsetTime !== null ? Math.max(0, (timestamp - trigger.onsetTime) / 1000) : 0,
+            kurtosis: Math.max(-3, Math.min(30, excessKurtosis(centred))),
+            spatialCoherence: this.coherence(nodeId, timestamp),
+            logPeak: Math.log10(Math.max(peak, 1e-4)),
+            logStaLta: Math.log10(1 + trigger.ratio),
+        };
+    }
+
+    /**
+     * Share of the node's neighbours triggered within `coherenceSeconds`
+     */
+    private coherence(nodeId: string, timestamp: number): number {
+        const neighbours = this.neighbours.get(nodeId) ?? [];
+        if (neighbours.length === 0) return 0;
+        const since = timestamp - this.config.coherenceSeconds * 1000;
+        const active = neighbours.filter(id => (this.lastTriggered.get(id) ?? -Infinity) >= since).length;
+        return active / neighbours.length;
+    }
+
+    reset(nodeId?: string): void {
+        if (nodeId) {
+            this.windows.delete(nodeId);
+            this.lastTriggered.delete(nodeId);
+            this.lastResults.delete(nodeId);
+        } else {
+            this.windows.clear();
+            this.lastTriggered.clear();
+            this.lastResults.clear();
+        }
+    }
+}
+
+// ============================================================================
+// SINGLETON INSTANCE
+// ============================================================================
+
+export const signalClassifier = new SignalClassifier();
@@ -0,0 +1,141 @@
+/**
+ * SEISMOS Signal Classifier Models
+ *
+ * Serializable model formats for the signal classifier. A model is plain
+ * JSON, so the same file is bundled into the browser, loaded on the
+ * server, or swapped for one trained elsewhere.
+ *
+ * Formats:
+ * - logistic-regression: multinomial (softmax) regression on
+ *   standardized features, z = (x - mean) / scale
+ * - gradient-boosted-trees: one additive score per class, each the sum of
+ *   `learningRate`-scaled regression trees over the raw features
+ *   (XGBoost / LightGBM multiclass layout), probabilities by softmax
+ */
+
+import type { SignalType } from '../readings';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface LogisticRegressionModel {
+    format: 'logistic-regression';
+
+    /** Output classes, in the order of `weights` and `bias` */
+    classes: SignalType[];
+
+    /** Input feature names, in the order of every per-feature array */
+    features: string[];
+
+    /** Standardization applied before the linear layer */
+    mean: number[];
+    scale: number[];
+
+    /** weights[class][feature] */
+    weights: number[][];
+    bias: number[];
+
+    /** Free-form training provenance (data, accuracy); ignored at inference */
+    trainedOn?: Record<string, unknown>;
+}
+
+/**
+ * Regression tree node: an internal split or a leaf value
+ */
+export type TreeNode =
+    | {
+        /** Index into the model's `features` */
+        feature: number;
+
+        /** Samples with x[feature] < threshold go left */
+        threshold: number;
+
+        left: TreeNode;
+        right: TreeNode;
+    }
+    | { leaf: number };
+
+export interface GradientBoostedTreesModel {
+    format: 'gradient-boosted-trees';
+
+    classes: SignalType[];
+    features: string[];
+
+    learningRate: number;
+
+    /** Initial score per class */
+    baseScore: number[];
+
+    /** trees[class] are summed into that class's score */
+    trees: TreeNode[][];
+
+    trainedOn?: Record<string, unknown>;
+}
+
+export type SignalClassifierModel = LogisticRegressionModel | GradientBoostedTreesModel;
+
+// ============================================================================
+// INFERENCE
+// ============================================================================
+
+/**
+ * Class probabilities for one feature vector (ordered as `model.features`)
+ */
+export function predictProbabilities(model: SignalClassifierModel, x: number[]): number[] {
+    const scores = model.format === 'logistic-regression'
+        ? logisticScores(model, x)
+        : treeScores(model, x);
+    return softmax(scores);
+}
+
+function logisticScores(model: LogisticRegressionModel, x: number[]): number[] {
+    const z = x.map((value, i) => (value - model.mean[i]) / (model.scale[i] || 1));
+    return model.weights.map((row, c) => row.reduce((sum, w, i) => sum + w * z[i], model.bias[c]));
+}
+
+function treeScores(model: GradientBoostedTreesModel, x: number[]): number[] {
+    return model.trees.map((trees, c) =>
+        trees.reduce((sum, tree) => sum + model.learningRate * evaluateTree(tree, x), model.baseScore[c])
+    );
+}
+
+function evaluateTree(node: TreeNode, x: number[]): number {
+    let current = node;
+    while (!('leaf' in current)) {
+        current = x[current.feature] < current.threshold ? current.left : current.right;
+    }
+    return current.leaf;
+}
+
+export function softmax(scores: number[]): number[] {
+    const max = Math.max(...scores);
+    const exp = scores.map(s => Math.exp(s - max));
+    const total = exp.reduce((sum, e) => sum + e, 0);
+    return exp.map(e => e / total);
+}
+
+/**
+ * Structural check for a model loaded from an untrusted source.
+ * Returns a list of problems (empty when the model is usable).
+ */
+export function validateModel(model: SignalClassifierModel, expectedFeatures: readonly string[]): string[] {
+    const errors: string[] = [];
+    const missing = expectedFeatures.filter(f => !model.features.includes(f));
+    if (missing.length > 0) errors.push(`model lacks features: ${missing.join(', ')}`);
+    if (model.classes.length < 2) errors.push('model needs at least two classes');
+
+    if (model.format === 'logistic-regression') {
+        const n = model.features.length;
+        if (model.mean.length !== n || model.scale.length !== n) errors.push('mean/scale length must match features');
+        if (model.weights.length !== model.classes.length || model.bias.length !== model.classes.length) {
+            errors.push('weights/bias must have one row per class');
+        }
+        if (model.weights.some(row => row.length !== n)) errors.push('every weight row must match features');
+    } else {
+        if (model.trees.length !== model.classes.length || model.baseScore.length !== model.classes.length) {
+            errors.push('trees/baseScore must have one entry per class');
+        }
+    }
+    return errors;
+}
@@ -0,0 +1,172 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { SensorReading } from '../readings';
+import { crc16, decodeFrame, decodeFrames, encodeFrame, encodeFrames, FRAME_RESOLUTION, type FrameDecodeResult } from './index';
+
+const NOW = Date.UTC(2026, 9, 19, 12, 0, 0);
+
+function reading(overrides: Partial<SensorReading> = {}): SensorReading {
+    return {
+        nodeId: 'node-7',
+        sequence: 4242,
+        timestamp: NOW - 1000,
+        sampleRateHz: 20,
+        units: 'g',
+        orientation: 'building',
+        accelX: 0.0125,
+        accelY: -0.3,
+        accelZ: 1.02,
+        magnitude: 1.063,
+        features: {
+            dominantFrequency: 2.37,
+            fftSpectrum: [0.01, 0.2, 0.8, 0.15, 0.02],
+            signalType: 'seismic',
+            dampingRatio: 0.048,
+            damageClass: 'risky',
+        },
+        ...overrides,
+    };
+}
+
+function decoded(result: FrameDecodeResult): SensorReading {
+    assert.ok(result.ok, `decode failed: ${result.ok ? '' : result.errors.join('; ')}`);
+    return result.reading;
+}
+
+/** Within half a quantization step */
+function assertQuantized(actual: number | undefined, expected: number, step: number): void {
+    assert.ok(actual !== undefined, 'value missing');
+    assert.ok(Math.abs(actual - expected) <= step / 2 + 1e-12, `${actual} != ${expected} (±${step / 2})`);
+}
+
+/** Rewrite the version byte and refresh the CRC, as an older firmware would send */
+function asVersion(frame: Uint8Array, version: number): Uint8Array {
+    const copy = frame.slice();
+    copy[1] = version;
+    new DataView(copy.buffer).setUint16(copy.length - 2, crc16(copy, 0, copy.length - 2));
+    return copy;
+}
+
+describe('codec round trip', () => {
+    it('restores a reading without the environment channel', () => {
+        const input = reading();
+        const frame = encodeFrame(input);
+        const result = decodeFrame(frame, 0, NOW);
+        const output = decoded(result);
+
+        assert.equal(result.byteLength, frame.length);
+        assert.equal(frame[2] & 0x04, 0, 'environment flag must be clear');
+        assert.equal(output.nodeId, input.nodeId);
+        assert.equal(output.sequence, input.sequence);
+        assert.equal(output.timestamp, input.timestamp);
+        assert.equal(output.orientation, 'building');
+        assert.equal(output.units, 'g');
+        assertQuantized(output.sampleRateHz, input.sampleRateHz, FRAME_RESOLUTION.sampleRateHz);
+        assertQuantized(output.accelX, input.accelX, FRAME_RESOLUTION.accelG);
+        assertQuantized(output.accelY, input.accelY, FRAME_RESOLUTION.accelG);
+        assertQuantized(output.accelZ, input.accelZ, FRAME_RESOLUTION.accelG);
+        assertQuantized(output.magnitude, input.magnitude, FRAME_RESOLUTION.accelG);
+        assertQuantized(output.features?.dominantFrequency, 2.37, FRAME_RESOLUTION.frequencyHz);
+        assertQuantized(output.features?.dampingRatio, 0.048, FRAME_RESOLUTION.dampingRatio);
+        assert.equal(output.features?.signalType, 'seismic');
+        assert.equal(output.features?.damageClass, 'risky');
+        assert.equal(output.environment, undefined);
+
+        // Companded bins: the peak is exact, the rest within 1% of the peak
+        const spectrum = output.features?.fftSpectrum;
+        assert.equal(spectrum?.length, 5);
+        input.features!.fftSpectrum!.forEach((bin, i) => assert.ok(Math.abs(spectrum![i] - bin) <= 0.008, `bin ${i}`));
+        assert.equal(Math.fround(spectrum![2]), Math.fround(0.8));
+    });
+
+    it('restores the environment channel', () => {
+        const input = reading({ environment: { temperature: -3.27, humidity: 71.5 } });
+        const frame = encodeFrame(input);
+        const output = decoded(decodeFrame(frame, 0, NOW));
+
+        assert.equal(frame[2] & 0x04, 0x04);
+        assertQuantized(output.environment?.temperature, -3.27, FRAME_RESOLUTION.temperatureC);
+        assertQuantized(output.environment?.humidity, 71.5, FRAME_RESOLUTION.humidityPercent);
+    });
+
+    it('keeps an absent field of the environment channel absent', () => {
+        const output = decoded(decodeFrame(encodeFrame(reading({ environment: { temperature: 21.5 } })), 0, NOW));
+        assertQuantized(output.environment?.temperature, 21.5, FRAME_RESOLUTION.temperatureC);
+        assert.equal(output.environment?.humidity, undefined);
+    });
+
+    it('encodes a reading without firmware features in the bare body', () => {
+        const output = decoded(decodeFrame(encodeFrame(reading({ features: undefined, orientation: 'enu' })), 0, NOW));
+        assert.equal(output.features, undefined);
+        assert.equal(output.orientation, 'enu');
+    });
+});
+
+describe('codec rejects damaged frames', () => {
+    it('detects corruption through the CRC', () => {
+        const frame = encodeFrame(reading());
+        frame[12] ^= 0x10;
+        const result = decodeFrame(frame, 0, NOW);
+        assert.equal(result.ok, false);
+        assert.deepEqual(result.ok ? [] : result.errors, ['CRC mismatch']);
+        assert.equal(result.byteLength, frame.length, 'boundary stays known so a batch can skip the frame');
+    });
+
+    it('reports a truncated frame', () => {
+        const frame = encodeFrame(reading({ environment: { temperature: 20, humidity: 50 } }));
+        for (const length of [2, 10, frame.length - 1]) {
+            const result = decodeFrame(frame.subarray(0, length), 0, NOW);
+            assert.equal(result.ok, false, `length ${length}`);
+            assert.match(result.ok ? '' : result.errors[0], /truncated/);
+        }
+    });
+
+    it('accepts version 1 frames without the environment block', () => {
+        const output = decoded(decodeFrame(asVersion(encodeFrame(reading()), 1), 0, NOW));
+        assert.equal(output.sequence, 4242);
+    });
+
+    it('rejects the environment flag on version 1 frames', () => {
+        const frame = asVersion(encodeFrame(reading({ environment: { temperature: 20, humidity: 50 } })), 1);
+        const result = decodeFrame(frame, 0, NOW);
+        assert.equal(result.ok, false);
+        assert.match(result.ok ? '' : result.errors[0], /not defined in version 1/);
+    });
+
+    it('rejects unknown versions', () => {
+        const result = decodeFrame(asVersion(encodeFrame(reading()), 9), 0, NOW);
+        assert.equal(result.ok, false);
+        assert.match(result.ok ? '' : result.errors[0], /unsupported frame version 9/);
+    });
+});
+
+describe('codec multi-frame payloads', () => {
+    it('decodes frames back to back', () => {
+        const inputs = [
+            reading({ sequence: 1 }),
+            reading({ sequence: 2, nodeId: 'n', features: undefined, environment: { humidity: 40 } }),
+            reading({ sequence: 3, environment: { temperature: 18, humidity: 60 } }),
+        ];
+        const results = decodeFrames(encodeFrames(inputs), NOW);
+        assert.deepEqual(results.map(r => decoded(r).sequence), [1, 2, 3]);
+        assert.equal(decoded(results[1]).nodeId, 'n');
+    });
+
+    it('skips a corrupted frame and keeps decoding the rest', () => {
+        const first = encodeFrame(reading({ sequence: 1 }));
+        const payload = encodeFrames([reading({ sequence: 1 }), reading({ sequence: 2 })]);
+        payload[first.length - 3] ^= 0xff;
+        const results = decodeFrames(payload, NOW);
+        assert.equal(results.length, 2);
+        assert.equal(results[0].ok, false);
+        assert.equal(decoded(results[1]).sequence, 2);
+    });
+
+    it('stops at a truncated trailing frame', () => {
+        const payload = encodeFrames([reading({ sequence: 1 }), reading({ sequence: 2 })]);
+        const results = decodeFrames(payload.subarray(0, payload.length - 4), NOW);
+        assert.equal(results.length, 2);
+        assert.equal(decoded(results[0]).sequence, 1);
+        assert.equal(results[1].ok, false);
+    });
+});
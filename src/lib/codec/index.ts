@@ -0,0 +1,426 @@
+/**
+ * SEISMOS Binary Uplink Codec
+ *
+ * Packs a canonical reading into a compact, versioned binary frame for
+ * NB-IoT uplinks, where every byte is billed and payloads are small.
+ *
+ * Rationale:
+ * - The JSON wire shape spends ~400 bytes on a 20-float spectrum alone
+ * - Sensor resolution is far coarser than float64; quantizing to the
+ *   resolution the hardware actually has loses nothing real
+ * - A CRC lets the server drop frames corrupted over the radio instead of
+ *   feeding garbage into the damage pipeline
+ *
+ * Frame layout (version 2, big-endian):
+ *
+ *   off  size  field
+ *   0    1     magic (0x53 'S')
+ *   1    1     version
+ *   2    1     flags (bit0 spectrum present, bit1 building orientation,
+ *                bit2 environment present)
+ *   3    1     node id length L (1-32)
+ *   4    L     node id (UTF-8)
+ *   +0   4     sequence (uint32)
+ *   +4   6     timestamp, epoch ms (uint48)
+ *   +10  2     sample rate (uint16, 0.1 Hz)
+ *   +12  6     accel x/y/z (int16, 1/2048 g, ±16 g)
+ *   +18  2     PGA / magnitude (uint16, 1/2048 g)
+ *   +20  2     dominant frequency (uint16, 0.01 Hz, 0xFFFF = absent)
+ *   +22  1     damping ratio (uint8, 0.1% of critical, 0xFF = absent)
+ *   +23  1     class (high nibble signal type, low nibble damage class, 0 = absent)
+ *   [spectrum, when flagged]
+ *   +0   1     bin count N (1-255)
+ *   +1   4     peak bin value (float32)
+ *   +5   N     bins (uint8, square-root companded against the peak)
+ *   [environment, when flagged]
+ *   +0   2     temperature (int16, 0.01 °C, 0x8000 = absent)
+ *   +2   1     relative humidity (uint8, 0.5 %, 0xFF = absent)
+ *   [trailer]
+ *   +0   2     CRC-16/CCITT-FALSE over every preceding byte of the frame
+ *
+ * Frames are self-delimiting, so an uplink may carry several back to back.
+ * Decoded readings are always in g. Version 1 is version 2 without the
+ * environment block and is still accepted; a flag its version does not
+ * define rejects the frame.
+ */
+
+import {
+    toG,
+    validateReading,
+    type DamageClass,
+    type SensorReading,
+    type SignalType,
+} from '../readings';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type FrameDecodeResult =
+    | { ok: true; reading: SensorReading; byteLength: number }
+    | { ok: false; errors: string[]; byteLength?: number };
+
+/**
+ * Running byte counters for an uplink stream
+ */
+export interface UplinkStats {
+    messages: number;
+    bytes: number;
+
+    /** What the same messages would have cost as wire JSON */
+    jsonBytes: number;
+
+    bytesPerMessage: number;
+    jsonBytesPerMessage: number;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const FRAME_MAGIC = 0x53;
+export const FRAME_VERSION = 2;
+
+/** Oldest version the decoder accepts */
+const MIN_FRAME_VERSION = 1;
+
+const FLAG_SPECTRUM = 0x01;
+const FLAG_BUILDING = 0x02;
+const FLAG_ENVIRONMENT = 0x04;
+
+/** Flags each version defines; other bits make the frame invalid */
+const VERSION_FLAGS: Record<number, number> = {
+    1: FLAG_SPECTRUM | FLAG_BUILDING,
+    2: FLAG_SPECTRUM | FLAG_BUILDING | FLAG_ENVIRONMENT,
+};
+
+/**
+ * Quantization steps (one LSB)
+ */
+export const FRAME_RESOLUTION = {
+    /** Acceleration and PGA (g) - 2048 LSB/g, as a ±16 g MEMS range */
+    accelG: 1 / 2048,
+    sampleRateHz: 0.1,
+    frequencyHz: 0.01,
+    dampingRatio: 0.001,
+    temperatureC: 0.01,
+    humidityPercent: 0.5,
+} as const;
+
+/** Longest node id a frame carries (UTF-8 bytes) */
+export const MAX_NODE_ID_BYTES = 32;
+const MAX_SPECTRUM_BINS = 255;
+
+const ABSENT_U8 = 0xff;
+const ABSENT_U16 = 0xffff;
+const ABSENT_I16 = -0x8000;
+
+/** Bytes before the node id, and after it up to the optional spectrum */
+const HEADER_BYTES = 4;
+const BODY_BYTES = 24;
+const SPECTRUM_HEADER_BYTES = 5;
+const ENVIRONMENT_BYTES = 3;
+const CRC_BYTES = 2;
+
+// Nibble kodları - 0 "yok" demek, sıra değişirse sürüm artırılmalı
+const SIGNAL_CODES: readonly SignalType[] = ['idle', 'seismic', 'noise', 'anomaly'];
+const DAMAGE_CODES: readonly DamageClass[] = ['safe', 'risky', 'heavily_damaged'];
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder('utf-8', { fatal: true });
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * CRC-16/CCITT-FALSE (poly 0x1021, init 0xFFFF), cheap on any MCU
+ */
+export function crc16(bytes: Uint8Array, start: number = 0, end: number = bytes.length): number {
+    let crc = 0xffff;
+    for (let i = start; i < end; i++) {
+        crc ^= bytes[i] << 8;
+        for (let bit = 0; bit < 8; bit++) {
+            crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+        }
+    }
+    return crc;
+}
+
+function quantize(value: number, step: number, min: number, max: number): number {
+    return Math.max(min, Math.min(max, Math.round(value / step)));
+}
+
+// ============================================================================
+// ENCODER
+// ============================================================================
+
+/**
+ * Encode one reading into a binary frame.
+ * Throws when the reading cannot be represented (bad node id, oversized spectrum).
+ */
+export function encodeFrame(input: SensorReading): Uint8Array {
+    const reading = toG(input);
+    const features = reading.features ?? {};
+
+    const nodeId = textEncoder.encode(reading.nodeId);
+    if (nodeId.length === 0 || nodeId.length > MAX_NODE_ID_BYTES) {
+        throw new Error(`[Codec] node id must be 1-${MAX_NODE_ID_BYTES} bytes`);
+    }
+
+    const spectrum = features.fftSpectrum;
+    if (spectrum && spectrum.length > MAX_SPECTRUM_BINS) {
+        throw new Error(`[Codec] spectrum must have at most ${MAX_SPECTRUM_BINS} bins`);
+    }
+    const hasSpectrum = spectrum !== undefined && spectrum.length > 0;
+    const environment = reading.environment;
+    const hasEnvironment = environment !== undefined &&
+        (environment.temperature !== undefined || environment.humidity !== undefined);
+
+    const length = HEADER_BYTES + nodeId.length + BODY_BYTES +
+        (hasSpectrum ? SPECTRUM_HEADER_BYTES + spectrum.length : 0) +
+        (hasEnvironment ? ENVIRONMENT_BYTES : 0) + CRC_BYTES;
+    const bytes = new Uint8Array(length);
+    const view = new DataView(bytes.buffer);
+
+    // Header
+    view.setUint8(0, FRAME_MAGIC);
+    view.setUint8(1, FRAME_VERSION);
+    view.setUint8(2, (hasSpectrum ? FLAG_SPECTRUM : 0) |
+        (reading.orientation === 'building' ? FLAG_BUILDING : 0) |
+        (hasEnvironment ? FLAG_ENVIRONMENT : 0));
+    view.setUint8(3, nodeId.length);
+    bytes.set(nodeId, HEADER_BYTES);
+
+    // Body
+    let o = HEADER_BYTES + nodeId.length;
+    view.setUint32(o, reading.sequence >>> 0);
+    view.setUint16(o + 4, Math.floor(reading.timestamp / 2 ** 32) & 0xffff);
+    view.setUint32(o + 6, reading.timestamp % 2 ** 32);
+    view.setUint16(o + 10, quantize(reading.sampleRateHz, FRAME_RESOLUTION.sampleRateHz, 1, 0xffff));
+
+    const { accelG } = FRAME_RESOLUTION;
+    view.setInt16(o + 12, quantize(reading.accelX, accelG, -0x7fff, 0x7fff));
+    view.setInt16(o + 14, quantize(reading.accelY, accelG, -0x7fff, 0x7fff));
+    view.setInt16(o + 16, quantize(reading.accelZ, accelG, -0x7fff, 0x7fff));
+    view.setUint16(o + 18, quantize(reading.magnitude, accelG, 0, 0xffff));
+
+    view.setUint16(o + 20, features.dominantFrequency !== undefined
+        ? quantize(features.dominantFrequency, FRAME_RESOLUTION.frequencyHz, 0, ABSENT_U16 - 1)
+        : ABSENT_U16);
+    view.setUint8(o + 22, features.dampingRatio !== undefined
+        ? quantize(features.dampingRatio, FRAME_RESOLUTION.dampingRatio, 0, ABSENT_U8 - 1)
+        : ABSENT_U8);
+
+    const signalCode = features.signalType ? SIGNAL_CODES.indexOf(features.signalType) + 1 : 0;
+    const damageCode = features.damageClass ? DAMAGE_CODES.indexOf(features.damageClass) + 1 : 0;
+    view.setUint8(o + 23, (signalCode << 4) | damageCode);
+    o += BODY_BYTES;
+
+    // Spectrum: peak as float32, bins square-root companded so small bins keep detail
+    if (hasSpectrum) {
+        const peak = Math.max(0, ...spectrum);
+        view.setUint8(o, spectrum.length);
+        view.setFloat32(o + 1, peak);
+        o += SPECTRUM_HEADER_BYTES;
+        for (const value of spectrum) {
+            bytes[o++] = peak > 0 ? Math.round(255 * Math.sqrt(Math.max(0, value) / peak)) : 0;
+        }
+    }
+
+    if (hasEnvironment) {
+        view.setInt16(o, environment.temperature !== undefined
+            ? quantize(environment.temperature, FRAME_RESOLUTION.temperatureC, ABSENT_I16 + 1, 0x7fff)
+            : ABSENT_I16);
+        view.setUint8(o + 2, environment.humidity !== undefined
+            ? quantize(environment.humidity, FRAME_RESOLUTION.humidityPercent, 0, ABSENT_U8 - 1)
+            : ABSENT_U8);
+        o += ENVIRONMENT_BYTES;
+    }
+
+    view.setUint16(o, crc16(bytes, 0, o));
+    return bytes;
+}
+
+/**
+ * Encode several readings into one uplink payload
+ */
+export function encodeFrames(readings: SensorReading[]): Uint8Array {
+    const frames = readings.map(encodeFrame);
+    const payload = new Uint8Array(frames.reduce((sum, f) => sum + f.length, 0));
+    let offset = 0;
+    for (const frame of frames) {
+        payload.set(frame, offset);
+        offset += frame.length;
+    }
+    return payload;
+}
+
+// ============================================================================
+// DECODER
+// ============================================================================
+
+/**
+ * Decode the frame starting at `offset`.
+ * `byteLength` is set whenever the frame boundary is known, even if the
+ * frame itself is rejected, so a batch decoder can skip to the next one.
+ */
+export function decodeFrame(bytes: Uint8Array, offset: number = 0, now: number = Date.now()): FrameDecodeResult {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const available = bytes.length - offset;
+
+    if (available < HEADER_BYTES) {
+        return { ok: false, errors: ['frame truncated (header)'] };
+    }
+    if (view.getUint8(offset) !== FRAME_MAGIC) {
+        return { ok: false, errors: ['bad magic byte'] };
+    }
+    const version = view.getUint8(offset + 1);
+    if (version < MIN_FRAME_VERSION || version > FRAME_VERSION) {
+        return { ok: false, errors: [`unsupported frame version ${version}`] };
+    }
+
+    const flags = view.getUint8(offset + 2);
+    if (flags & ~VERSION_FLAGS[version]) {
+        // Layout of an undefined flag is unknown, so is the frame boundary
+        return { ok: false, errors: [`flags 0x${flags.toString(16).padStart(2, '0')} not defined in version ${version}`] };
+    }
+    const idLength = view.getUint8(offset + 3);
+    if (idLength === 0 || idLength > MAX_NODE_ID_BYTES) {
+        return { ok: false, errors: [`node id length must be 1-${MAX_NODE_ID_BYTES}`] };
+    }
+
+    // Frame length is known once the spectrum header (if any) is readable
+    const bodyStart = offset + HEADER_BYTES + idLength;
+    let end = bodyStart + BODY_BYTES;
+    if (flags & FLAG_SPECTRUM) {
+        if (bytes.length < end + 1) {
+            return { ok: false, errors: ['frame truncated (spectrum header)'] };
+        }
+        end += SPECTRUM_HEADER_BYTES + view.getUint8(end);
+    }
+    const environmentStart = end;
+    if (flags & FLAG_ENVIRONMENT) {
+        end += ENVIRONMENT_BYTES;
+    }
+    const byteLength = end + CRC_BYTES - offset;
+    if (available < byteLength) {
+        return { ok: false, errors: ['frame truncated'] };
+    }
+    if (view.getUint16(end) !== crc16(bytes, offset, end)) {
+        return { ok: false, errors: ['CRC mismatch'], byteLength };
+    }
+
+    let nodeId: string;
+    try {
+        nodeId = textDecoder.decode(bytes.subarray(offset + HEADER_BYTES, bodyStart));
+    } catch {
+        return { ok: false, errors: ['node id is not valid UTF-8'], byteLength };
+    }
+
+    const o = bodyStart;
+    const { accelG } = FRAME_RESOLUTION;
+    const reading: SensorReading = {
+        nodeId,
+        sequence: view.getUint32(o),
+        timestamp: view.getUint16(o + 4) * 2 ** 32 + view.getUint32(o + 6),
+        sampleRateHz: view.getUint16(o + 10) * FRAME_RESOLUTION.sampleRateHz,
+        units: 'g',
+        orientation: flags & FLAG_BUILDING ? 'building' : 'enu',
+        accelX: view.getInt16(o + 12) * accelG,
+        accelY: view.getInt16(o + 14) * accelG,
+        accelZ: view.getInt16(o + 16) * accelG,
+        magnitude: view.getUint16(o + 18) * accelG,
+    };
+
+    const frequency = view.getUint16(o + 20);
+    const damping = view.getUint8(o + 22);
+    const classByte = view.getUint8(o + 23);
+    const signalCode = classByte >> 4;
+    const damageCode = classByte & 0x0f;
+    if (signalCode > SIGNAL_CODES.length || damageCode > DAMAGE_CODES.length) {
+        return { ok: false, errors: ['unknown class code'], byteLength };
+    }
+
+    let fftSpectrum: number[] | undefined;
+    if (flags & FLAG_SPECTRUM) {
+        const binsStart = o + BODY_BYTES + SPECTRUM_HEADER_BYTES;
+        const peak = view.getFloat32(o + BODY_BYTES + 1);
+        fftSpectrum = Array.from(bytes.subarray(binsStart, environmentStart), q => peak * (q / 255) ** 2);
+    }
+
+    if (frequency !== ABSENT_U16 || damping !== ABSENT_U8 || classByte !== 0 || fftSpectrum) {
+        reading.features = {
+            dominantFrequency: frequency !== ABSENT_U16 ? frequency * FRAME_RESOLUTION.frequencyHz : undefined,
+            fftSpectrum,
+            signalType: signalCode > 0 ? SIGNAL_CODES[signalCode - 1] : undefined,
+            dampingRatio: damping !== ABSENT_U8 ? damping * FRAME_RESOLUTION.dampingRatio : undefined,
+            damageClass: damageCode > 0 ? DAMAGE_CODES[damageCode - 1] : undefined,
+        };
+    }
+
+    if (flags & FLAG_ENVIRONMENT) {
+        const temperature = view.getInt16(environmentStart);
+        const humidity = view.getUint8(environmentStart + 2);
+        reading.environment = {
+            temperature: temperature !== ABSENT_I16 ? temperature * FRAME_RESOLUTION.temperatureC : undefined,
+            humidity: humidity !== ABSENT_U8 ? humidity * FRAME_RESOLUTION.humidityPercent : undefined,
+        };
+    }
+
+    const errors = validateReading(reading, now);
+    return errors.length > 0
+        ? { ok: false, errors, byteLength }
+        : { ok: true, reading, byteLength };
+}
+
+/**
+ * Decode every frame in an uplink payload.
+ * Stops at the first frame whose boundary cannot be determined.
+ */
+export function decodeFrames(bytes: Uint8Array, now: number = Date.now()): FrameDecodeResult[] {
+    const results: FrameDecodeResult[] = [];
+    let offset = 0;
+    while (offset < bytes.length) {
+        const result = decodeFrame(bytes, offset, now);
+        results.push(result);
+        if (result.byteLength === undefined) break;
+        offset += result.byteLength;
+    }
+    return results;
+}
+
+// ============================================================================
+// TRAFFIC METER
+// ============================================================================
+
+/**
+ * Counts uplink bytes next to their JSON equivalent
+ */
+export class UplinkMeter {
+    private messages = 0;
+    private bytes = 0;
+    private jsonBytes = 0;
+
+    record(frameBytes: number, jsonBytes: number): void {
+        this.messages++;
+        this.bytes += frameBytes;
+        this.jsonBytes += jsonBytes;
+    }
+
+    getStats(): UplinkStats {
+        return {
+            messages: this.messages,
+            bytes: this.bytes,
+            jsonBytes: this.jsonBytes,
+            bytesPerMessage: this.messages > 0 ? this.bytes / this.messages : 0,
+            jsonBytesPerMessage: this.messages > 0 ? this.jsonBytes / this.messages : 0,
+        };
+    }
+
+    reset(): void {
+        this.messages = 0;
+        this.bytes = 0;
+        this.jsonBytes = 0;
+    }
+}
@@ -8,15 +8,60 @@
  * - Buildings have a natural frequency determined by their stiffness and mass
  * - As concrete fatigues, steel corrodes, or foundations settle, stiffness drops
  * - This causes the natural frequency to slowly decrease over weeks/months
+ * - Cracking also raises damping, often before the frequency moves
  * - Detecting this trend enables preventive maintenance before earthquake
  * 
  * Algorithm:
- * - Store rolling window of dominant frequency estimates
+ * - Store rolling window of timestamped dominant frequency estimates
  * - Calculate baseline from median of initial stable readings
- * - Use linear regression to detect downward trend
- * - Trigger warning if slope exceeds conservative threshold
+ * - Fold every estimate into daily and weekly aggregates (./trend), which
+ *   are persisted with the baseline so the history survives reloads
+ * - Where the node reports temperature, learn the building's thermal
+ *   sensitivity (./environment) and regress the compensated series, so
+ *   weather does not read as fatigue
+ * - Regress frequency against real time: on the aggregates once there are
+ *   enough of them (with the yearly cycle removed after a year), on the
+ *   recent window before that
+ * - Project when the trend reaches the fatigue threshold; warn when that
+ *   is close and the trend stands out of the residual scatter
+ * - Alongside, a sequential change-point test (./change-point) on the
+ *   compensated series catches sudden steps the regression would smear
+ *   out; a confident drop warns at once
+ * - Events: the level just before an event is kept as its pre-event
+ *   baseline; once the building has settled after it, a new baseline is
+ *   established from fresh estimates and the pre/post comparison (the
+ *   permanent shift) is kept as part of the node's history. Trends then
+ *   restart from the new baseline
+ * - Damping: baseline from the median of the first confident estimates,
+ *   current from the median of recent ones; warn on a sustained increase
  */
 
+import type { EnvironmentReading } from '../readings';
+import { ChangePointDetector, type FrequencyChangeEvent } from './change-point';
+import type { DampingEstimate } from './damping-estimator';
+import {
+    addTrainingSample,
+    compensateFrequency,
+    createTraining,
+    fitEnvironmentalModel,
+    isTrainingComplete,
+    type EnvironmentalModel,
+    type EnvironmentTraining,
+} from './environment';
+import {
+    accumulate,
+    aggregatePoints,
+    createAggregate,
+    fitTrend,
+    periodStart,
+    projectDaysToThreshold,
+    MS_PER_DAY,
+    MS_PER_MONTH,
+    type AggregatePeriod,
+    type FrequencyAggregate,
+    type TrendFit,
+} from './trend';
+
 // ============================================================================
 // TYPES
 // ============================================================================
@@ -29,26 +74,122 @@ export interface FatigueIndicator {
     hasWarning: boolean;
 
     /** 
-     * Trend slope (frequency change per sample)
+     * Trend slope (Hz per month)
      * Negative = degradation (frequency dropping)
      * Near zero = stable
      */
     trendSlope: number;
 
-    /** Baseline frequency established during initial period (Hz) */
-    baselineFrequency: number;
+    /** Data the trend was fitted on, null until there is enough */
+    trendSource: TrendSource | null;
+
+    /** Time covered by the trend fit (days) */
+    trendSpanDays: number;
+
+    /** Scatter left after removing the trend and the yearly cycle (Hz) */
+    residualStd: number;
+
+    /** Amplitude of the fitted yearly (thermal) cycle (Hz), null until a year of data */
+    seasonalAmplitude: number | null;
 
-    /** Current estimated frequency (Hz) */
-    currentFrequency: number;
+    /** Frequency the projection aims at: baseline lowered by the fatigue threshold (Hz) */
+    thresholdFrequency: number;
+
+    /** Days until the trend reaches thresholdFrequency, null when it is not heading there */
+    projectedDaysToThreshold: number | null;
+
+    /** Baseline frequency established during initial period (Hz), null when no frequency was measured */
+    baselineFrequency: number | null;
 
-    /** Percentage deviation from baseline */
+    /** Current estimated frequency (Hz), null when no frequency was measured */
+    currentFrequency: number | null;
+
+    /** Current frequency referred to the baseline's conditions (Hz); currentFrequency without a model */
+    compensatedFrequency: number | null;
+
+    /** Fitted thermal sensitivity (Hz/°C), null until the model is trained */
+    temperatureCoefficient: number | null;
+
+    /** Percentage deviation of the compensated frequency from baseline */
     deviationPercent: number;
 
-    /** Number of samples in history */
+    /** Number of samples in the recent window */
     sampleCount: number;
 
     /** Confidence level in the trend (0-1) based on R² */
     trendConfidence: number;
+
+    /** Current damping ratio (fraction of critical), null until estimated */
+    dampingRatio: number | null;
+
+    /** Baseline damping ratio established during initial period, null until set */
+    baselineDampingRatio: number | null;
+
+    /** Step change confirmed by this update, null otherwise */
+    changeEvent: FrequencyChangeEvent | null;
+
+    /**
+     * Most recent step change of the node, null when none was detected
+     * since the last post-event baseline (lastComparison records that shift)
+     */
+    lastChange: FrequencyChangeEvent | null;
+
+    /** Pre/post comparison of the latest settled event, null before the first */
+    lastComparison: EventComparison | null;
+}
+
+/**
+ * A building's natural frequency before an event against the baseline
+ * re-established after it settled
+ */
+export interface EventComparison {
+    eventId: string;
+    nodeId: string;
+    eventStartedAt: number;
+    eventEndedAt: number;
+
+    /** Level before the event and the new baseline after it (Hz, compensated) */
+    preFrequency: number;
+    postFrequency: number;
+
+    /** Permanent frequency loss, (pre − post) / pre × 100; negative when the building stiffened */
+    shiftPercent: number;
+
+    /** Damping ratio before and after, null when not estimated */
+    preDamping: number | null;
+    postDamping: number | null;
+
+    /** When the post-event baseline was established (epoch ms) */
+    establishedAt: number;
+}
+
+/**
+ * recent: the rolling sample window (seconds to minutes)
+ * daily / weekly: persisted aggregates (weeks to years)
+ */
+export type TrendSource = 'recent' | 'daily' | 'weekly';
+
+/**
+ * What is persisted per node so baselines and long-term history survive reloads
+ */
+export interface BaselineHistory {
+    nodeId: string;
+    baselineFrequency: number | null;
+    baselineDamping: number | null;
+
+    /** When the frequency baseline was established (epoch ms) */
+    establishedAt: number | null;
+
+    /** Mean conditions over the baseline window, null when the node reports none */
+    baselineTemperature: number | null;
+    baselineHumidity: number | null;
+
+    environmentalModel: EnvironmentalModel | null;
+
+    aggregates: FrequencyAggregate[];
+
+    /** Pre/post event comparisons, oldest first */
+    comparisons: EventComparison[];
 }
 
 // ============================================================================
@@ -75,21 +216,39 @@ const CONFIG = {
     historyWindowSize: 50,
 
     /**
-     * Fatigue warning slope threshold (Hz per sample)
-     * 
-     * Conservative choice: -0.005 Hz/sample
-     * 
-     * Rationale:
-     * - At 20 samples/sec, this means -0.1 Hz/sec if sustained
-     * - For a 5 Hz building, this would be -2% per second
-     * - In reality, fatigue happens over days/weeks, not seconds
-     * - For demo purposes, we scale this to be visible within minutes
-     * 
+     * Frequency loss (fraction of baseline) the projection aims at
+     *
+     * Conservative choice: 5%
+     * Thermal and moisture swings move the frequency by a few percent at
+     * most; a sustained 5% loss is a stiffness loss of about 10%
+     */
+    fatigueDropThreshold: 0.05,
+
+    /**
+     * Warn when the trend reaches the threshold within this many days
+     *
      * False positive avoidance:
      * - Require consistent trend (R² > 0.3)
-     * - Require minimum sample count (>30)
+     * - Require the fitted change to exceed twice the residual scatter
+     * - Require minimum sample count (>30) on the recent window
+     */
+    warningHorizonDays: 90,
+
+    /**
+     * Aggregates needed before the long-term fit replaces the recent window
+     */
+    minLongTermPoints: 7,
+
+    /**
+     * Time the recent window must cover before its slope is reported
+     * A fit over seconds of samples extrapolated to Hz/month is noise
+     * scaled by a factor of ~10^5, and would drive the projection too
      */
-    fatigueThresholdSlope: -0.005,
+    minTrendSpanDays: 1,
+
+    /** Aggregates kept per node (two years of days, ten of weeks) */
+    dailyRetention: 730,
+    weeklyRetention: 520,
 
     /**
      * Minimum R² to trust trend calculation
@@ -101,6 +260,47 @@ const CONFIG = {
      * Minimum samples before checking for fatigue
      */
     minSamplesForFatigue: 30,
+
+    /**
+     * Damping estimates below this confidence are not tracked
+     */
+    minDampingConfidence: 0.3,
+
+    /**
+     * Recent damping estimates whose median is the current value
+     * (single estimates scatter by ±20% on ambient records)
+     */
+    dampingSmoothingWindow: 10,
+
+    /**
+     * Relative damping increase that triggers a warning
+     *
+     * Conservative choice: +50%
+     * Estimate scatter and temperature swing stay well inside this; a
+     * sustained rise of this size means new energy dissipation (cracking)
+     */
+    dampingIncreaseThreshold: 0.5,
+
+    /**
+     * Step changes warn when they are drops of at least this fraction,
+     * confirmed with at least this confidence
+     *
+     * Conservative choice: 2% at 0.9
+     * Below 2% a step is within what a wet or frozen day can do at once;
+     * 2% in one step is a stiffness loss of about 4%
+     */
+    changeWarningDrop: 0.02,
+    minChangeConfidence: 0.9,
+
+    /**
+     * Time after an event ends before post-event estimates count (ms)
+     * Aftershocks and the slow recovery of cracked concrete move the
+     * frequency for a while after the shaking stops
+     */
+    postEventSettlingMs: 60_000,
+
+    /** Comparisons kept per node */
+    maxComparisons: 50,
 } as const;
 
 // ============================================================================
@@ -108,14 +308,57 @@ const CONFIG = {
 // ============================================================================
 
 interface NodeBaseline {
-    /** Rolling frequency history */
-    frequencyHistory: number[];
+    /** Rolling frequency history (epoch ms, Hz, conditions) */
+    frequencyHistory: Array<{ t: number; frequency: number; environment?: EnvironmentReading }>;
 
     /** Established baseline (median of first N readings) */
     baselineFrequency: number | null;
 
     /** Whether baseline has been established */
     isBaselineSet: boolean;
+
+    /** When the baseline was established (epoch ms) */
+    establishedAt: number | null;
+
+    /** Mean conditions over the baseline window (the compensation reference) */
+    baselineEnvironment: EnvironmentReading | null;
+
+    /** Thermal model, trained once and then frozen */
+    training: EnvironmentTraining;
+    environmentalModel: EnvironmentalModel | null;
+
+    /** Long-term history, oldest first */
+    daily: FrequencyAggregate[];
+    weekly: FrequencyAggregate[];
+
+    /** Rolling history of confident damping estimates */
+    dampingHistory: number[];
+
+    /** Established damping baseline (median of first N confident estimates) */
+    baselineDamping: number | null;
+
+    /** Last estimate tracked (the estimator repeats it between recomputations) */
+    lastDamping: DampingEstimate | null;
+
+    /** Most recent step change since the last post-event baseline */
+    lastChange: FrequencyChangeEvent | null;
+
+    /** Event in progress or settling, with the level before it */
+    openEvent: OpenEvent | null;
+
+    /** Pre/post comparisons of settled events, oldest first */
+    comparisons: EventComparison[];
+}
+
+interface OpenEvent {
+    eventId: string;
+    startedAt: number;
+    endedAt: number | null;
+    preFrequency: number;
+    preDamping: number | null;
+
+    /** Compensated estimates after settling, for the post-event baseline */
+    postSamples: number[];
 }
 
 /**
@@ -124,23 +367,23 @@ interface NodeBaseline {
 export class BaselineTracker {
     private nodeBaselines: Map<string, NodeBaseline> = new Map();
 
+    constructor(private readonly changeDetector: ChangePointDetector = new ChangePointDetector()) {}
+
     /**
-     * Update with new frequency reading and get fatigue indicator
+     * Update with new frequency reading (and damping estimate and ambient
+     * conditions, when available) and get fatigue indicator
      */
-    update(nodeId: string, frequency: number): FatigueIndicator {
-        // Initialize if new node
-        if (!this.nodeBaselines.has(nodeId)) {
-            this.nodeBaselines.set(nodeId, {
-                frequencyHistory: [],
-                baselineFrequency: null,
-                isBaselineSet: false,
-            });
-        }
-
-        const baseline = this.nodeBaselines.get(nodeId)!;
+    update(
+        nodeId: string,
+        frequency: number,
+        damping?: DampingEstimate,
+        timestamp: number = Date.now(),
+        environment?: EnvironmentReading
+    ): FatigueIndicator {
+        const baseline = this.getOrCreate(nodeId);
 
         // Add to history
-        baseline.frequencyHistory.push(frequency);
+        baseline.frequencyHistory.push({ t: timestamp, frequency, environment });
 
         // Trim to window size
         while (baseline.frequencyHistory.length > CONFIG.historyWindowSize) {
@@ -149,22 +392,343 @@ export class BaselineTracker {
 
         // Establish baseline from first N readings
         if (!baseline.isBaselineSet && baseline.frequencyHistory.length >= CONFIG.baselineWindowSize) {
-            baseline.baselineFrequency = this.calculateMedian(
-                baseline.frequencyHistory.slice(0, CONFIG.baselineWindowSize)
-            );
+            const window = baseline.frequencyHistory.slice(0, CONFIG.baselineWindowSize);
+            baseline.baselineFrequency = this.calculateMedian(window.map(s => s.frequency));
             baseline.isBaselineSet = true;
+            baseline.establishedAt = timestamp;
+            baseline.baselineEnvironment = this.meanEnvironment(window.map(s => s.environment));
+        }
+
+        if (!baseline.environmentalModel) {
+            addTrainingSample(baseline.training, frequency, environment);
+            if (isTrainingComplete(baseline.training)) {
+                baseline.environmentalModel = fitEnvironmentalModel(
+                    baseline.training,
+                    timestamp,
+                    baseline.baselineEnvironment ?? undefined
+                );
+            }
+        }
+
+        let trackedDamping: number | null = null;
+        if (damping && damping !== baseline.lastDamping && damping.confidence >= CONFIG.minDampingConfidence) {
+            baseline.lastDamping = damping;
+            this.updateDamping(baseline, damping.ratio);
+            trackedDamping = damping.ratio;
+        }
+
+        this.aggregate(baseline.daily, 'day', CONFIG.dailyRetention, frequency, trackedDamping, timestamp, environment);
+        this.aggregate(baseline.weekly, 'week', CONFIG.weeklyRetention, frequency, trackedDamping, timestamp, environment);
+
+        const { openEvent } = baseline;
+        if (openEvent && openEvent.endedAt !== null && timestamp - openEvent.endedAt >= CONFIG.postEventSettlingMs) {
+            openEvent.postSamples.push(compensateFrequency(baseline.environmentalModel, frequency, environment));
+            if (openEvent.postSamples.length >= CONFIG.baselineWindowSize) {
+                this.rebaseline(nodeId, baseline, openEvent, timestamp);
+            }
+        }
+
+        // Step detection on the compensated series; a node reporting
+        // temperature waits for its model, or switching compensation on
+        // would itself read as a step
+        let changeEvent: FrequencyChangeEvent | null = null;
+        if (environment?.temperature === undefined || baseline.environmentalModel) {
+            changeEvent = this.changeDetector.update(
+                nodeId,
+                compensateFrequency(baseline.environmentalModel, frequency, environment),
+                timestamp
+            );
+            if (changeEvent) baseline.lastChange = changeEvent;
         }
 
         // Calculate fatigue indicator
-        return this.calculateFatigueIndicator(nodeId, baseline, frequency);
+        return this.calculateFatigueIndicator(nodeId, baseline, frequency, environment, changeEvent);
+    }
+
+    /**
+     * Get current baseline for a node, null until established
+     */
+    getBaseline(nodeId: string): number | null {
+        return this.nodeBaselines.get(nodeId)?.baselineFrequency ?? null;
     }
 
     /**
-     * Get current baseline for a node (for feature extraction)
+     * Frequency damage is judged against (for feature extraction): the
+     * pre-event level of the open or latest event, the baseline before
+     * any event; null while the node has none
      */
-    getBaseline(nodeId: string): number {
+    getReferenceFrequency(nodeId: string): number | null {
         const baseline = this.nodeBaselines.get(nodeId);
-        return baseline?.baselineFrequency ?? 5.0; // Default 5 Hz
+        if (baseline?.openEvent) return baseline.openEvent.preFrequency;
+        const last = baseline?.comparisons[baseline.comparisons.length - 1];
+        return last?.preFrequency ?? this.getBaseline(nodeId);
+    }
+
+    /**
+     * Pre/post comparison of the latest settled event, null before the first
+     */
+    getLastComparison(nodeId: string): EventComparison | null {
+        const comparisons = this.nodeBaselines.get(nodeId)?.comparisons ?? [];
+        return comparisons[comparisons.length - 1] ?? null;
+    }
+
+    /**
+     * Snapshot every established node's current level as the pre-event
+     * baseline. An event that starts before the previous one settled takes
+     * over its pre-event level (the building never got back to rest).
+     */
+    beginEvent(eventId: string, startedAt: number): void {
+        this.nodeBaselines.forEach(baseline => {
+            if (!baseline.isBaselineSet) return;
+            const previous = baseline.openEvent;
+            baseline.openEvent = {
+                eventId,
+                startedAt,
+                endedAt: null,
+                preFrequency: previous?.preFrequency ?? this.currentLevel(baseline, startedAt),
+                preDamping: previous ? previous.preDamping : this.currentDamping(baseline),
+                postSamples: [],
+            };
+        });
+    }
+
+    /**
+     * Start the settling period of an event
+     */
+    endEvent(eventId: string, endedAt: number): void {
+        this.nodeBaselines.forEach(baseline => {
+            if (baseline.openEvent?.eventId === eventId) baseline.openEvent.endedAt = endedAt;
+        });
+    }
+
+    /**
+     * Whether the baseline frequency is established (getBaseline is null until then)
+     */
+    hasBaseline(nodeId: string): boolean {
+        return this.nodeBaselines.get(nodeId)?.isBaselineSet ?? false;
+    }
+
+    /**
+     * Fitted environmental model of a node, null until trained
+     */
+    getEnvironmentalModel(nodeId: string): EnvironmentalModel | null {
+        return this.nodeBaselines.get(nodeId)?.environmentalModel ?? null;
+    }
+
+    /**
+     * Persistable state of a node; only aggregates updated after `since`
+     */
+    exportHistory(nodeId: string, since: number = 0): BaselineHistory | null {
+        const baseline = this.nodeBaselines.get(nodeId);
+        if (!baseline) return null;
+        return {
+            nodeId,
+            baselineFrequency: baseline.baselineFrequency,
+            baselineDamping: baseline.baselineDamping,
+            establishedAt: baseline.establishedAt,
+            baselineTemperature: baseline.baselineEnvironment?.temperature ?? null,
+            baselineHumidity: baseline.baselineEnvironment?.humidity ?? null,
+            environmentalModel: baseline.environmentalModel,
+            aggregates: [...baseline.daily, ...baseline.weekly]
+                .filter(a => a.updatedAt > since)
+                .map(a => ({ ...a })),
+            comparisons: baseline.comparisons.filter(c => c.establishedAt > since),
+        };
+    }
+
+    /**
+     * Restore persisted baselines and history (e.g. after a reload).
+     * A stored baseline replaces one established since the page loaded;
+     * aggregates are merged, live ones win for the same period.
+     */
+    restore(histories: BaselineHistory[]): void {
+        for (const history of histories) {
+            const baseline = this.getOrCreate(history.nodeId);
+
+            if (history.baselineFrequency !== null) {
+                baseline.baselineFrequency = history.baselineFrequency;
+                baseline.isBaselineSet = true;
+                baseline.establishedAt = history.establishedAt;
+                baseline.baselineEnvironment = history.baselineTemperature !== null
+                    ? { temperature: history.baselineTemperature, humidity: history.baselineHumidity ?? undefined }
+                    : null;
+            }
+            if (history.baselineDamping !== null) {
+                baseline.baselineDamping = history.baselineDamping;
+            }
+            if (history.environmentalModel !== null) {
+                baseline.environmentalModel = history.environmentalModel;
+            }
+
+            const merge = (live: FrequencyAggregate[], period: AggregatePeriod, retention: number) => {
+                const livePeriods = new Set(live.map(a => a.periodStart));
+                const stored = history.aggregates
+                    .filter(a => a.period === period && !livePeriods.has(a.periodStart))
+                    .map(a => ({ ...a }));
+                return [...stored, ...live]
+                    .sort((a, b) => a.periodStart - b.periodStart)
+                    .slice(-retention);
+            };
+            baseline.daily = merge(baseline.daily, 'day', CONFIG.dailyRetention);
+            baseline.weekly = merge(baseline.weekly, 'week', CONFIG.weeklyRetention);
+
+            const liveEvents = new Set(baseline.comparisons.map(c => c.eventId));
+            baseline.comparisons = [...history.comparisons.filter(c => !liveEvents.has(c.eventId)), ...baseline.comparisons]
+                .sort((a, b) => a.establishedAt - b.establishedAt)
+                .slice(-CONFIG.maxComparisons);
+        }
+    }
+
+    /**
+     * Restore each node's latest persisted step change, so a confirmed drop
+     * keeps warning after a reload. Changes before the last post-event
+     * baseline are superseded by its comparison.
+     */
+    restoreChanges(events: FrequencyChangeEvent[]): void {
+        for (const event of events) {
+            const baseline = this.getOrCreate(event.nodeId);
+            const settledAt = baseline.comparisons[baseline.comparisons.length - 1]?.establishedAt ?? -Infinity;
+            if (event.changedAt < settledAt) continue;
+            if (!baseline.lastChange || event.changedAt > baseline.lastChange.changedAt) {
+                baseline.lastChange = event;
+            }
+        }
+    }
+
+    /**
+     * Get damping baseline for a node, null until established
+     */
+    getBaselineDamping(nodeId: string): number | null {
+        return this.nodeBaselines.get(nodeId)?.baselineDamping ?? null;
+    }
+
+    private getOrCreate(nodeId: string): NodeBaseline {
+        let baseline = this.nodeBaselines.get(nodeId);
+        if (!baseline) {
+            baseline = {
+                frequencyHistory: [],
+                baselineFrequency: null,
+                isBaselineSet: false,
+                establishedAt: null,
+                baselineEnvironment: null,
+                training: createTraining(),
+                environmentalModel: null,
+                daily: [],
+                weekly: [],
+                dampingHistory: [],
+                baselineDamping: null,
+                lastDamping: null,
+                lastChange: null,
+                openEvent: null,
+                comparisons: [],
+            };
+            this.nodeBaselines.set(nodeId, baseline);
+        }
+        return baseline;
+    }
+
+    /**
+     * Fold an estimate into the aggregate of its period, opening a new one when the period changed
+     */
+    private aggregate(
+        aggregates: FrequencyAggregate[],
+        period: AggregatePeriod,
+        retention: number,
+        frequency: number,
+        damping: number | null,
+        timestamp: number,
+        environment?: EnvironmentReading
+    ): void {
+        let current = aggregates[aggregates.length - 1];
+        if (!current || current.periodStart !== periodStart(timestamp, period)) {
+            current = createAggregate(period, timestamp);
+            aggregates.push(current);
+            while (aggregates.length > retention) aggregates.shift();
+        }
+        accumulate(current, frequency, damping, timestamp, environment);
+    }
+
+    /**
+     * Median compensated level of the recent estimates before a time, the
+     * baseline when there are none
+     */
+    private currentLevel(baseline: NodeBaseline, before: number): number {
+        const recent = baseline.frequencyHistory
+            .filter(s => s.t < before)
+            .slice(-CONFIG.baselineWindowSize)
+            .map(s => compensateFrequency(baseline.environmentalModel, s.frequency, s.environment));
+        return recent.length > 0 ? this.calculateMedian(recent) : baseline.baselineFrequency as number;
+    }
+
+    /**
+     * Median of the recent confident damping estimates, null when there are none
+     */
+    private currentDamping(baseline: NodeBaseline): number | null {
+        return baseline.dampingHistory.length > 0
+            ? this.calculateMedian(baseline.dampingHistory.slice(-CONFIG.dampingSmoothingWindow))
+            : null;
+    }
+
+    /**
+     * Record the pre/post comparison of a settled event and make the
+     * post-event level the new baseline
+     */
+    private rebaseline(nodeId: string, baseline: NodeBaseline, openEvent: OpenEvent, timestamp: number): void {
+        const postFrequency = this.calculateMedian(openEvent.postSamples);
+        const postDamping = this.currentDamping(baseline);
+
+        baseline.comparisons.push({
+            eventId: openEvent.eventId,
+            nodeId,
+            eventStartedAt: openEvent.startedAt,
+            eventEndedAt: openEvent.endedAt as number,
+            preFrequency: openEvent.preFrequency,
+            postFrequency,
+            shiftPercent: ((openEvent.preFrequency - postFrequency) / openEvent.preFrequency) * 100,
+            preDamping: openEvent.preDamping,
+            postDamping,
+            establishedAt: timestamp,
+        });
+        while (baseline.comparisons.length > CONFIG.maxComparisons) baseline.comparisons.shift();
+
+        // Compensated to the same reference conditions, so the environment stays
+        baseline.baselineFrequency = postFrequency;
+        baseline.establishedAt = timestamp;
+        if (postDamping !== null) baseline.baselineDamping = postDamping;
+        baseline.openEvent = null;
+
+        // The step the event caused is part of the new baseline; the
+        // comparison above is its record, so it no longer warns
+        baseline.lastChange = null;
+    }
+
+    /**
+     * Mean temperature and humidity over the samples that carry them, null when none does
+     */
+    private meanEnvironment(environments: Array<EnvironmentReading | undefined>): EnvironmentReading | null {
+        const mean = (values: Array<number | undefined>): number | undefined => {
+            const present = values.filter((v): v is number => v !== undefined);
+            return present.length > 0 ? present.reduce((sum, v) => sum + v, 0) / present.length : undefined;
+        };
+        const temperature = mean(environments.map(e => e?.temperature));
+        if (temperature === undefined) return null;
+        return { temperature, humidity: mean(environments.map(e => e?.humidity)) };
+    }
+
+    /**
+     * Track a confident damping estimate
+     */
+    private updateDamping(baseline: NodeBaseline, ratio: number): void {
+        baseline.dampingHistory.push(ratio);
+        while (baseline.dampingHistory.length > CONFIG.historyWindowSize) {
+            baseline.dampingHistory.shift();
+        }
+
+        if (baseline.baselineDamping === null && baseline.dampingHistory.length >= CONFIG.baselineWindowSize) {
+            baseline.baselineDamping = this.calculateMedian(
+                baseline.dampingHistory.slice(0, CONFIG.baselineWindowSize)
+            );
+        }
     }
 
     /**
@@ -173,100 +737,142 @@ export class BaselineTracker {
     private calculateFatigueIndicator(
         nodeId: string,
         baseline: NodeBaseline,
-        currentFrequency: number
+        currentFrequency: number,
+        environment: EnvironmentReading | undefined,
+        changeEvent: FrequencyChangeEvent | null
     ): FatigueIndicator {
         const sampleCount = baseline.frequencyHistory.length;
         const baselineFreq = baseline.baselineFrequency ?? currentFrequency;
 
-        // Calculate deviation
+        const dampingRatio = this.currentDamping(baseline);
+        const baselineDampingRatio = baseline.baselineDamping;
+
+        // Calculate deviation (under the baseline's conditions)
+        const model = baseline.environmentalModel;
+        const compensatedFrequency = compensateFrequency(model, currentFrequency, environment);
+        const temperatureCoefficient = model?.temperatureCoefficient ?? null;
         const deviationPercent = baselineFreq > 0
-            ? ((baselineFreq - currentFrequency) / baselineFreq) * 100
+            ? ((baselineFreq - compensatedFrequency) / baselineFreq) * 100
             : 0;
 
+        const thresholdFrequency = baselineFreq * (1 - CONFIG.fatigueDropThreshold);
+        const trend = this.fitLongestTrend(baseline);
+
+        // A confident step drop warns without waiting for the trend
+        const { lastChange } = baseline;
+        const changeWarning =
+            lastChange !== null &&
+            lastChange.direction === 'drop' &&
+            lastChange.confidence >= CONFIG.minChangeConfidence &&
+            -lastChange.magnitudePercent >= CONFIG.changeWarningDrop * 100;
+
         // Not enough data yet
-        if (sampleCount < CONFIG.minSamplesForFatigue) {
+        if (!trend) {
             return {
-                hasWarning: false,
+                hasWarning: changeWarning,
                 trendSlope: 0,
+                trendSource: null,
+                trendSpanDays: 0,
+                residualStd: 0,
+                seasonalAmplitude: null,
+                thresholdFrequency,
+                projectedDaysToThreshold: null,
                 baselineFrequency: baselineFreq,
                 currentFrequency,
+                compensatedFrequency,
+                temperatureCoefficient,
                 deviationPercent,
                 sampleCount,
                 trendConfidence: 0,
+                dampingRatio,
+                baselineDampingRatio,
+                changeEvent,
+                lastChange,
+                lastComparison: this.getLastComparison(nodeId),
             };
         }
 
-        // Calculate trend using linear regression
-        const { slope, rSquared } = this.linearRegression(baseline.frequencyHistory);
+        const { fit, source } = trend;
+        const projectedDaysToThreshold = projectDaysToThreshold(fit.levelAtEnd, fit.slopePerMonth, thresholdFrequency);
 
         // Determine if warning should trigger
-        // Conservative: only warn if slope is negative AND confident
-        const hasWarning =
-            slope < CONFIG.fatigueThresholdSlope &&
-            rSquared > CONFIG.minTrendConfidence;
+        // Conservative: the threshold is near, the fit is consistent and the
+        // fitted change stands out of the scatter around it
+        const fittedChange = Math.abs(fit.slopePerMonth) * (fit.spanDays * MS_PER_DAY) / MS_PER_MONTH;
+        const frequencyWarning =
+            fit.slopePerMonth < 0 &&
+            projectedDaysToThreshold !== null &&
+            projectedDaysToThreshold <= CONFIG.warningHorizonDays &&
+            fit.rSquared > CONFIG.minTrendConfidence &&
+            fittedChange > 2 * fit.residualStd;
+
+        // Damping rise, judged only once a baseline exists
+        const dampingWarning =
+            dampingRatio !== null &&
+            baselineDampingRatio !== null &&
+            baselineDampingRatio > 0 &&
+            (dampingRatio - baselineDampingRatio) / baselineDampingRatio > CONFIG.dampingIncreaseThreshold;
+
+        const hasWarning = frequencyWarning || dampingWarning || changeWarning;
 
         return {
             hasWarning,
-            trendSlope: slope,
+            trendSlope: fit.slopePerMonth,
+            trendSource: source,
+            trendSpanDays: fit.spanDays,
+            residualStd: fit.residualStd,
+            seasonalAmplitude: fit.seasonalAmplitude,
+            thresholdFrequency,
+            projectedDaysToThreshold,
             baselineFrequency: baselineFreq,
             currentFrequency,
+            compensatedFrequency,
+            temperatureCoefficient,
             deviationPercent,
             sampleCount,
-            trendConfidence: rSquared,
+            trendConfidence: fit.rSquared,
+            dampingRatio,
+            baselineDampingRatio,
+            changeEvent,
+            lastChange,
+            lastComparison: this.getLastComparison(nodeId),
         };
     }
 
     /**
-     * Simple linear regression to detect trend
-     * Returns slope and R² (coefficient of determination)
+     * Trend over the longest history available: aggregates once there are
+     * enough of them, the recent window before that (once it spans
+     * minTrendSpanDays; no trend until then). Frequencies are
+     * compensated when the environmental model is trained. Only data since
+     * the last post-event baseline counts: a trend across an event would
+     * read its permanent shift as fatigue.
      */
-    private linearRegression(values: number[]): { slope: number; rSquared: number } {
-        const n = values.length;
-        if (n < 2) return { slope: 0, rSquared: 0 };
-
-        // X values are just indices 0, 1, 2, ...
-        let sumX = 0;
-        let sumY = 0;
-        let sumXY = 0;
-        let sumX2 = 0;
-        let sumY2 = 0;
-
-        for (let i = 0; i < n; i++) {
-            sumX += i;
-            sumY += values[i];
-            sumXY += i * values[i];
-            sumX2 += i * i;
-            sumY2 += values[i] * values[i];
+    private fitLongestTrend(baseline: NodeBaseline): { fit: TrendFit; source: TrendSource } | null {
+        const model = baseline.environmentalModel;
+        const since = baseline.comparisons[baseline.comparisons.length - 1]?.establishedAt ?? -Infinity;
+        const candidates: Array<{ fit: TrendFit; source: TrendSource }> = [];
+        for (const [source, aggregates] of [['daily', baseline.daily], ['weekly', baseline.weekly]] as const) {
+            const points = aggregatePoints(aggregates.filter(a => a.periodStart >= since), a => compensateFrequency(model, a.meanFrequency, {
+                temperature: a.meanTemperature ?? undefined,
+                humidity: a.meanHumidity ?? undefined,
+            }));
+            if (points.length < CONFIG.minLongTermPoints) continue;
+            const fit = fitTrend(points);
+            if (fit) candidates.push({ fit, source });
         }
-
-        const meanX = sumX / n;
-        const meanY = sumY / n;
-
-        // Slope = Σ(xi - x̄)(yi - ȳ) / Σ(xi - x̄)²
-        const numerator = sumXY - n * meanX * meanY;
-        const denominator = sumX2 - n * meanX * meanX;
-
-        if (denominator === 0) return { slope: 0, rSquared: 0 };
-
-        const slope = numerator / denominator;
-
-        // R² = 1 - (SS_res / SS_tot)
-        // SS_res = Σ(yi - ŷi)²
-        // SS_tot = Σ(yi - ȳ)²
-        const intercept = meanY - slope * meanX;
-
-        let ssRes = 0;
-        let ssTot = 0;
-
-        for (let i = 0; i < n; i++) {
-            const predicted = slope * i + intercept;
-            ssRes += (values[i] - predicted) ** 2;
-            ssTot += (values[i] - meanY) ** 2;
+        if (candidates.length > 0) {
+            return candidates.reduce((best, c) => (c.fit.spanDays > best.fit.spanDays ? c : best));
         }
 
-        const rSquared = ssTot > 0 ? 1 - (ssRes / ssTot) : 0;
-
-        return { slope, rSquared: Math.max(0, rSquared) };
+        const recent = baseline.frequencyHistory.filter(s => s.t >= since);
+        if (recent.length < CONFIG.minSamplesForFatigue) return null;
+        if ((recent[recent.length - 1].t - recent[0].t) / MS_PER_DAY < CONFIG.minTrendSpanDays) return null;
+        const fit = fitTrend(recent.map(s => ({
+            t: s.t,
+            value: compensateFrequency(model, s.frequency, s.environment),
+            weight: 1,
+        })));
+        return fit ? { fit, source: 'recent' } : null;
     }
 
     /**
@@ -289,6 +895,7 @@ export class BaselineTracker {
         } else {
             this.nodeBaselines.clear();
         }
+        this.changeDetector.reset(nodeId);
     }
 }
 
@@ -0,0 +1,117 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SeededRandom } from '../random';
+import { BaselineTracker } from './baseline-tracker';
+import { ChangePointDetector, type FrequencyChangeEvent } from './change-point';
+
+const NOW = Date.UTC(2026, 9, 19, 12, 0, 0);
+
+/** Live estimate spacing (one per idle tick) */
+const TICK_MS = 200;
+
+const BASE_HZ = 4.5;
+
+/** Simulator idle scatter: uniform over 0.2 Hz (σ ≈ 1.3%) */
+const IDLE_SCATTER_HZ = 0.2;
+
+/** Estimates at `frequency(i)` with seeded idle scatter, starting at `from` */
+function* estimates(rng: SeededRandom, count: number, frequency: (i: number) => number, from: number = NOW) {
+    for (let i = 0; i < count; i++) {
+        yield { t: from + i * TICK_MS, frequency: frequency(i) + rng.range(-IDLE_SCATTER_HZ / 2, IDLE_SCATTER_HZ / 2) };
+    }
+}
+
+function run(detector: ChangePointDetector, nodeId: string, series: Iterable<{ t: number; frequency: number }>): FrequencyChangeEvent[] {
+    const events: FrequencyChangeEvent[] = [];
+    for (const { t, frequency } of series) {
+        const event = detector.update(nodeId, frequency, t);
+        if (event) events.push(event);
+    }
+    return events;
+}
+
+describe('change-point detector', () => {
+    it('detects a 2% step drop within a bounded delay', () => {
+        const rng = new SeededRandom(0x2a);
+        for (let trial = 0; trial < 20; trial++) {
+            const detector = new ChangePointDetector();
+            const stepAt = 1000;
+            const stepTime = NOW + stepAt * TICK_MS;
+            const events = run(detector, 'node-1', estimates(rng.fork(trial), 1500, i => (i < stepAt ? BASE_HZ : BASE_HZ * 0.98)));
+
+            assert.equal(events.length, 1, `trial ${trial}: ${events.length} events`);
+            const [event] = events;
+            assert.equal(event.direction, 'drop');
+            assert.ok(Math.abs(event.magnitudePercent + 2) < 1, `trial ${trial}: ${event.magnitudePercent}%`);
+            // Confirmed within a minute; the onset may trail a step this close to the noise
+            assert.ok(event.detectedAt - stepTime <= 60_000, `trial ${trial}: detected after ${event.detectedAt - stepTime} ms`);
+            assert.ok(Math.abs(event.changedAt - stepTime) <= 30_000, `trial ${trial}: onset off by ${event.changedAt - stepTime} ms`);
+        }
+    });
+
+    it('reports a rise as a rise', () => {
+        const detector = new ChangePointDetector();
+        const events = run(detector, 'node-1', estimates(new SeededRandom(7), 1500, i => (i < 1000 ? BASE_HZ : BASE_HZ * 1.03)));
+        assert.deepEqual(events.map(e => e.direction), ['rise']);
+    });
+
+    it('stays quiet on idle noise', () => {
+        const rng = new SeededRandom(0x5e15);
+        for (let node = 0; node < 20; node++) {
+            const detector = new ChangePointDetector();
+            // One hour of estimates per node
+            const events = run(detector, `node-${node}`, estimates(rng.fork(node), 18_000, () => BASE_HZ));
+            assert.equal(events.length, 0, `node ${node}: ${events.map(e => e.magnitudePercent.toFixed(2)).join(', ')}`);
+        }
+    });
+
+    it('follows a slow ramp without flagging it', () => {
+        const rng = new SeededRandom(99);
+        for (let node = 0; node < 5; node++) {
+            const detector = new ChangePointDetector();
+            // 2% over three hours - drift from temperature or slow fatigue, not a step
+            const count = 3 * 18_000;
+            const events = run(detector, `node-${node}`, estimates(rng.fork(node), count, i => BASE_HZ * (1 - 0.02 * i / count)));
+            assert.equal(events.length, 0, `node ${node}: ${events.map(e => e.magnitudePercent.toFixed(2)).join(', ')}`);
+        }
+    });
+
+    it('replays identically for the same seed', () => {
+        const series = (seed: number) => run(new ChangePointDetector(), 'node-1', estimates(new SeededRandom(seed), 1500, i => (i < 1000 ? BASE_HZ : BASE_HZ * 0.97)));
+        assert.deepEqual(series(3), series(3));
+    });
+});
+
+describe('baseline tracker step warning', () => {
+    it('warns on a step drop and clears once the event re-baselines', () => {
+        const rng = new SeededRandom(0xc0de);
+        const tracker = new BaselineTracker();
+        const feed = (count: number, frequency: number, from: number) => {
+            let indicator = null;
+            for (const sample of estimates(rng, count, () => frequency, from)) {
+                indicator = tracker.update('node-1', sample.frequency, undefined, sample.t);
+            }
+            return indicator!;
+        };
+
+        let t = NOW;
+        const before = feed(400, BASE_HZ, t);
+        assert.equal(before.lastChange, null);
+        assert.equal(before.hasWarning, false);
+
+        t += 400 * TICK_MS;
+        tracker.beginEvent('quake-1', t);
+        const during = feed(400, BASE_HZ * 0.95, t);
+        assert.equal(during.lastChange?.direction, 'drop');
+        assert.equal(during.hasWarning, true);
+
+        t += 400 * TICK_MS;
+        tracker.endEvent('quake-1', t);
+        // Settling, then enough post-event samples for the new baseline
+        t += 10 * 60_000;
+        const after = feed(400, BASE_HZ * 0.95, t);
+        assert.equal(after.lastChange, null);
+        assert.equal(after.hasWarning, false);
+        assert.ok(Math.abs((after.lastComparison?.shiftPercent ?? 0) - 5) < 0.5, `${after.lastComparison?.shiftPercent}`);
+    });
+});
@@ -0,0 +1,418 @@
+/**
+ * SEISMOS Frequency Change-Point Detector
+ *
+ * Per-node sequential test for a sudden shift of the natural frequency,
+ * running next to the trend regression of the baseline tracker.
+ *
+ * Physical Rationale:
+ * - Fatigue lowers the frequency gradually; an aftershock that cracks a
+ *   column or a failed connection lowers it in one step
+ * - A regression over months averages a step into a gentle slope and
+ *   needs weeks of new data to move; a sequential test reacts within a
+ *   handful of estimates and tells when the step happened
+ *
+ * Algorithm:
+ * - Estimates are reduced to medians of short blocks first: single live
+ *   estimates scatter by more than a percent and not normally (a test
+ *   tuned on them alarms every few minutes across a network), block
+ *   medians are tighter and close to normal
+ * - Reference: median and MAD-based scatter of the first blocks after
+ *   a (re)start; the level then follows slow drift with an exponential
+ *   average while no excursion is building up
+ * - Estimates are standardized against the reference, z = (f − μ) / σ
+ * - CUSUM: S⁻ = max(0, S⁻ − z − k), S⁺ = max(0, S⁺ + z − k); alarm when
+ *   either exceeds h. The onset is the last sample where the sum was 0
+ * - Page-Hinkley: m = Σ(z − z̄ ∓ δ) against its running extreme; alarm
+ *   when the distance exceeds λ. The onset is where the extreme was set
+ * - Both onsets drift early in noise, so the onset is moved up to the
+ *   start of the unbroken run of estimates beyond the reference that ends
+ *   at the alarm
+ * - Confirmation: an alarm becomes an event only once enough estimates
+ *   since the alarm agree (a single spike is dropped). Magnitude is the
+ *   post-onset median against the reference; confidence is the probability
+ *   that the shift exceeds the smallest relevant change given its
+ *   standard error
+ * - After an event the reference restarts at the new level, so a second
+ *   step is a second event
+ */
+
+import { normalCdf } from '../fragility';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ChangePointMethod = 'cusum' | 'page-hinkley';
+
+export type ChangeDirection = 'drop' | 'rise';
+
+/**
+ * A detected step in a node's natural frequency
+ */
+export interface FrequencyChangeEvent {
+    /** `${nodeId}:${changedAt}` - stable across consoles that see the same data */
+    id: string;
+    nodeId: string;
+
+    /** Estimated onset: first estimate at the new level (epoch ms) */
+    changedAt: number;
+
+    /** When the change was confirmed (epoch ms) */
+    detectedAt: number;
+
+    direction: ChangeDirection;
+
+    /** Reference level before and median level after the onset (Hz) */
+    beforeFrequency: number;
+    afterFrequency: number;
+
+    /** Relative change, (after − before) / before × 100 */
+    magnitudePercent: number;
+
+    /** Probability that the shift exceeds minRelevantShift (0-1) */
+    confidence: number;
+
+    method: ChangePointMethod;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export interface ChangePointConfig {
+    method: ChangePointMethod;
+
+    /** Estimates per block; the test runs on block medians (1 = every estimate) */
+    blockSize: number;
+
+    /** Blocks that establish a reference (after start and after every event) */
+    referenceWindow: number;
+
+    /** CUSUM allowance k and decision interval h (in σ) */
+    cusumK: number;
+    cusumH: number;
+
+    /** Page-Hinkley tolerance δ and threshold λ (in σ) */
+    phDelta: number;
+    phLambda: number;
+
+    /** Blocks since the alarm (itself included) needed to confirm it */
+    minConfirmSamples: number;
+
+    /**
+     * Deviation (in σ) that puts an estimate on the change side; the run
+     * of such estimates leading up to the alarm bounds the onset
+     */
+    onsetRunThreshold: number;
+
+    /** Smallest shift worth reporting, fraction of the reference */
+    minRelevantShift: number;
+
+    /** Events below this confidence are dropped */
+    minConfidence: number;
+
+    /**
+     * Floor of the reference scatter, fraction of the reference (a
+     * quantized estimator can report the same value for a whole window)
+     */
+    minRelativeSigma: number;
+
+    /** Weight of a new estimate in the reference level while no excursion builds */
+    driftAlpha: number;
+
+    /** Recent blocks kept for the post-onset level */
+    historySize: number;
+}
+
+const DEFAULT_CONFIG: ChangePointConfig = {
+    method: 'cusum',
+    blockSize: 5,
+    referenceWindow: 30,
+    cusumK: 0.5,
+    cusumH: 8,
+    phDelta: 0.5,
+    phLambda: 12,
+    minConfirmSamples: 8,
+    onsetRunThreshold: 0.5,
+    minRelevantShift: 0.015,
+    minConfidence: 0.5,
+    minRelativeSigma: 0.002,
+    driftAlpha: 0.01,
+    historySize: 200,
+};
+
+// ============================================================================
+// CHANGE-POINT DETECTOR
+// ============================================================================
+
+/** Standard error of a normal sample's median relative to its mean, √(π/2) */
+const MEDIAN_EFFICIENCY = 1.2533;
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 !== 0 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+interface Alarm {
+    direction: ChangeDirection;
+    onset: number;
+}
+
+interface NodeChangeState {
+    /** Estimates collected for the reference, null once it is set */
+    warmup: number[] | null;
+    mean: number;
+    sigma: number;
+
+    /** CUSUM sums and the time each last left zero */
+    low: number;
+    high: number;
+    lowStart: number;
+    highStart: number;
+
+    /** Page-Hinkley: sample count, running mean of z, cumulative sums and their extremes */
+    count: number;
+    zMean: number;
+    mDown: number;
+    mDownMax: number;
+    mDownAt: number;
+    mUp: number;
+    mUpMin: number;
+    mUpAt: number;
+
+    /** Alarm waiting for confirmation (onset = last block before the change) */
+    pending: (Alarm & { raisedAt: number }) | null;
+
+    /** Estimates of the block being filled */
+    block: Array<{ t: number; frequency: number }>;
+
+    history: Array<{ t: number; frequency: number }>;
+}
+
+/**
+ * Sequential step detector on each node's frequency estimates
+ */
+export class ChangePointDetector {
+    private readonly config: ChangePointConfig;
+    private nodes: Map<string, NodeChangeState> = new Map();
+
+    constructor(config: Partial<ChangePointConfig> = {}) {
+        this.config = { ...DEFAULT_CONFIG, ...config };
+        if (this.config.referenceWindow < 3 || this.config.minConfirmSamples < 1 || this.config.blockSize < 1) {
+            throw new Error('[ChangePointDetector] referenceWindow must be at least 3, minConfirmSamples and blockSize at least 1');
+        }
+    }
+
+    /**
+     * Feed one frequency estimate; returns an event when a change is confirmed
+     */
+    update(nodeId: string, estimate: number, estimatedAt: number): FrequencyChangeEvent | null {
+        const { config } = this;
+        let state = this.nodes.get(nodeId);
+        if (!state) {
+            state = this.createState([]);
+            this.nodes.set(nodeId, state);
+        }
+
+        // A block counts from its first estimate, so onsets stay on the change side
+        state.block.push({ t: estimatedAt, frequency: estimate });
+        if (state.block.length < config.blockSize) return null;
+        const timestamp = state.block[0].t;
+        const frequency = median(state.block.map(s => s.frequency));
+        state.block = [];
+
+        state.history.push({ t: timestamp, frequency });
+        while (state.history.length > config.historySize) state.history.shift();
+
+        if (state.warmup) {
+            state.warmup.push(frequency);
+            if (state.warmup.length >= config.referenceWindow) this.setReference(state, state.warmup);
+            return null;
+        }
+
+        if (state.pending) return this.confirm(nodeId, state, estimatedAt);
+
+        const z = (frequency - state.mean) / state.sigma;
+        const alarm = config.method === 'cusum'
+            ? this.cusum(state, z, timestamp)
+            : this.pageHinkley(state, z, timestamp);
+        if (alarm) {
+            state.pending = { ...alarm, raisedAt: timestamp };
+            return this.confirm(nodeId, state, estimatedAt);
+        }
+
+        // Follow slow drift only while nothing is building up
+        const building = config.method === 'cusum'
+            ? Math.max(state.low, state.high) > config.cusumH / 2
+            : Math.max(state.mDownMax - state.mDown, state.mUp - state.mUpMin) > config.phLambda / 2;
+        if (!building) state.mean += config.driftAlpha * (frequency - state.mean);
+        return null;
+    }
+
+    /**
+     * Reference level of a node (Hz), null during warm-up
+     */
+    getReference(nodeId: string): number | null {
+        const state = this.nodes.get(nodeId);
+        return state && !state.warmup ? state.mean : null;
+    }
+
+    reset(nodeId?: string): void {
+        if (nodeId) {
+            this.nodes.delete(nodeId);
+        } else {
+            this.nodes.clear();
+        }
+    }
+
+    private createState(warmup: number[]): NodeChangeState {
+        return {
+            warmup,
+            mean: 0,
+            sigma: 0,
+            low: 0,
+            high: 0,
+            lowStart: 0,
+            highStart: 0,
+            count: 0,
+            zMean: 0,
+            mDown: 0,
+            mDownMax: 0,
+            mDownAt: 0,
+            mUp: 0,
+            mUpMin: 0,
+            mUpAt: 0,
+            pending: null,
+            block: [],
+            history: [],
+        };
+    }
+
+    /**
+     * Median and MAD-based σ of the warm-up; statistics restart
+     */
+    private setReference(state: NodeChangeState, values: number[]): void {
+        const center = median(values);
+        const mad = median(values.map(v => Math.abs(v - center)));
+
+        state.warmup = null;
+        state.mean = center;
+        state.sigma = Math.max(1.4826 * mad, this.config.minRelativeSigma * Math.abs(center), Number.EPSILON);
+        this.restartStatistics(state);
+    }
+
+    /**
+     * Clear the test statistics and any pending alarm, keeping the reference
+     */
+    private restartStatistics(state: NodeChangeState): void {
+        Object.assign(state, {
+            low: 0,
+            high: 0,
+            count: 0,
+            zMean: 0,
+            mDown: 0,
+            mDownMax: 0,
+            mUp: 0,
+            mUpMin: 0,
+            pending: null,
+        });
+    }
+
+    private cusum(state: NodeChangeState, z: number, timestamp: number): Alarm | null {
+        const { cusumK, cusumH } = this.config;
+        state.low = Math.max(0, state.low - z - cusumK);
+        state.high = Math.max(0, state.high + z - cusumK);
+        if (state.low === 0) state.lowStart = timestamp;
+        if (state.high === 0) state.highStart = timestamp;
+
+        if (state.low > cusumH) return { direction: 'drop', onset: state.lowStart };
+        if (state.high > cusumH) return { direction: 'rise', onset: state.highStart };
+        return null;
+    }
+
+    private pageHinkley(state: NodeChangeState, z: number, timestamp: number): Alarm | null {
+        const { phDelta, phLambda } = this.config;
+        state.count++;
+        state.zMean += (z - state.zMean) / state.count;
+
+        // Drop: m falls away from its running maximum; rise: m climbs from its running minimum
+        state.mDown += z - state.zMean + phDelta;
+        if (state.mDown >= state.mDownMax) {
+            state.mDownMax = state.mDown;
+            state.mDownAt = timestamp;
+        }
+        state.mUp += z - state.zMean - phDelta;
+        if (state.mUp <= state.mUpMin) {
+            state.mUpMin = state.mUp;
+            state.mUpAt = timestamp;
+        }
+
+        if (state.mDownMax - state.mDown > phLambda) return { direction: 'drop', onset: state.mDownAt };
+        if (state.mUp - state.mUpMin > phLambda) return { direction: 'rise', onset: state.mUpAt };
+        return null;
+    }
+
+    /**
+     * Later of the statistic's onset and the last estimate before the run
+     * of change-side estimates that ends at the alarm
+     */
+    private refineOnset(state: NodeChangeState, pending: Alarm & { raisedAt: number }): number {
+        const sign = pending.direction === 'drop' ? -1 : 1;
+        const { history } = state;
+        let i = history.findIndex(s => s.t === pending.raisedAt);
+        while (i > 0 && sign * (history[i - 1].frequency - state.mean) / state.sigma > this.config.onsetRunThreshold) i--;
+        return i > 0 ? Math.max(pending.onset, history[i - 1].t) : pending.onset;
+    }
+
+    /**
+     * Turn a pending alarm into an event once enough estimates since the
+     * alarm agree, or drop it when they do not
+     */
+    private confirm(nodeId: string, state: NodeChangeState, detectedAt: number): FrequencyChangeEvent | null {
+        const { config } = this;
+        const pending = state.pending!;
+        const sinceAlarm = state.history.filter(s => s.t >= pending.raisedAt).length;
+        if (sinceAlarm < config.minConfirmSamples) return null;
+
+        const onset = this.refineOnset(state, pending);
+        const afterSamples = state.history.filter(s => s.t > onset);
+        const after = afterSamples.map(s => s.frequency);
+        // Median: a spike inside the window or an onset a little early does not move it
+        const afterLevel = median(after);
+        const shift = afterLevel - state.mean;
+        const standardError = MEDIAN_EFFICIENCY * state.sigma / Math.sqrt(after.length);
+        const minShift = config.minRelevantShift * Math.abs(state.mean);
+        const confidence = normalCdf((Math.abs(shift) - minShift) / standardError);
+        const agrees = pending.direction === 'drop' ? shift < 0 : shift > 0;
+
+        if (!agrees || confidence < config.minConfidence) {
+            // A spike or a shift too small to matter: keep the reference
+            this.restartStatistics(state);
+            return null;
+        }
+
+        const changedAt = afterSamples[0].t;
+        const event: FrequencyChangeEvent = {
+            id: `${nodeId}:${changedAt}`,
+            nodeId,
+            changedAt,
+            detectedAt,
+            direction: pending.direction,
+            beforeFrequency: state.mean,
+            afterFrequency: afterLevel,
+            magnitudePercent: (shift / state.mean) * 100,
+            confidence,
+            method: config.method,
+        };
+
+        // New level: the reference restarts from the post-onset estimates
+        this.restartStatistics(state);
+        if (after.length >= config.referenceWindow) {
+            this.setReference(state, after);
+        } else {
+            state.warmup = after;
+        }
+        return event;
+    }
+}
@@ -0,0 +1,234 @@
+/**
+ * SEISMOS Environmental Compensation
+ *
+ * Per-building regression of the natural frequency on temperature (and
+ * humidity, when the node reports it), used to bring every estimate back
+ * to the conditions the baseline was measured in before trend analysis.
+ *
+ * Physical Rationale:
+ * - Concrete stiffness drops as it warms, and frozen or hot-sealed joints
+ *   stiffen the boundary conditions: RC buildings typically lose 0.1-0.5%
+ *   of their frequency per °C, and daily swings of 10 °C are common
+ * - Absorbed moisture adds mass and softens masonry, lowering the
+ *   frequency a little further on wet days
+ * - Left in, a warm month reads as a stiffness loss and a cold one as
+ *   a recovery, and the fatigue trend follows the weather
+ *
+ * Algorithm:
+ * - Training: sufficient statistics of f = a + b·(T − T₀) [+ c·(RH − RH₀)]
+ *   are accumulated from the first estimates that carry a temperature
+ * - Fit once the training covers enough samples and a wide enough
+ *   temperature range, then freeze: a model that kept learning would
+ *   slowly absorb a real stiffness loss that happened to coincide with
+ *   a warm season
+ * - Humidity is only a regressor when every training sample had it and
+ *   it varied enough to be told apart from temperature
+ * - Compensation: f − b·(T − Tref) − c·(RH − RHref), with the reference
+ *   at the conditions the baseline frequency was established in
+ */
+
+import type { EnvironmentReading } from '../readings';
+import { solveLinear } from './trend';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Frequency sensitivity of one building to its environment
+ */
+export interface EnvironmentalModel {
+    /** Temperature the compensated series is referred to (°C) */
+    referenceTemperature: number;
+
+    /** Frequency change per degree (Hz/°C), usually negative */
+    temperatureCoefficient: number;
+
+    /** Humidity the compensated series is referred to (%), null when not modelled */
+    referenceHumidity: number | null;
+
+    /** Frequency change per percent of humidity (Hz/%), null when not modelled */
+    humidityCoefficient: number | null;
+
+    /** Share of the training variance the environment explains (0-1) */
+    rSquared: number;
+
+    /** Training samples the model was fitted on */
+    sampleCount: number;
+
+    /** Epoch ms of the fit */
+    fittedAt: number;
+}
+
+/**
+ * Running sums of a training period (centred on the first sample to keep
+ * the sums well conditioned)
+ */
+export interface EnvironmentTraining {
+    origin: { temperature: number; humidity: number | null; frequency: number } | null;
+    count: number;
+    humidityCount: number;
+    minTemperature: number;
+    maxTemperature: number;
+    minHumidity: number;
+    maxHumidity: number;
+
+    /** Σ x xᵀ and Σ x y over x = [1, ΔT, ΔRH], y = Δf */
+    xtx: number[][];
+    xty: number[];
+    yy: number;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const CONFIG = {
+    /** Estimates with a temperature needed before fitting */
+    minTrainingSamples: 200,
+
+    /** Temperature range the training must span (°C) */
+    minTemperatureSpan: 4,
+
+    /** Humidity range below which humidity is left out of the model (%) */
+    minHumiditySpan: 15,
+
+    /**
+     * Largest credible sensitivity, as a fraction of the frequency per °C
+     * (beyond this the fit is tracking something other than temperature)
+     */
+    maxRelativeTemperatureCoefficient: 0.01,
+} as const;
+
+// ============================================================================
+// TRAINING
+// ============================================================================
+
+export function createTraining(): EnvironmentTraining {
+    return {
+        origin: null,
+        count: 0,
+        humidityCount: 0,
+        minTemperature: Infinity,
+        maxTemperature: -Infinity,
+        minHumidity: Infinity,
+        maxHumidity: -Infinity,
+        xtx: Array.from({ length: 3 }, () => [0, 0, 0]),
+        xty: [0, 0, 0],
+        yy: 0,
+    };
+}
+
+/**
+ * Add one estimate to the training sums (in place); estimates without a
+ * temperature are skipped
+ */
+export function addTrainingSample(
+    training: EnvironmentTraining,
+    frequency: number,
+    environment: EnvironmentReading | undefined
+): void {
+    const temperature = environment?.temperature;
+    if (temperature === undefined) return;
+    const humidity = environment?.humidity ?? null;
+
+    if (!training.origin) {
+        training.origin = { temperature, humidity, frequency };
+    }
+    const { origin } = training;
+
+    training.count++;
+    training.minTemperature = Math.min(training.minTemperature, temperature);
+    training.maxTemperature = Math.max(training.maxTemperature, temperature);
+    if (humidity !== null) {
+        training.humidityCount++;
+        training.minHumidity = Math.min(training.minHumidity, humidity);
+        training.maxHumidity = Math.max(training.maxHumidity, humidity);
+    }
+
+    const x = [1, temperature - origin.temperature, humidity !== null && origin.humidity !== null ? humidity - origin.humidity : 0];
+    const y = frequency - origin.frequency;
+    for (let i = 0; i < 3; i++) {
+        training.xty[i] += x[i] * y;
+        for (let j = 0; j < 3; j++) training.xtx[i][j] += x[i] * x[j];
+    }
+    training.yy += y * y;
+}
+
+/**
+ * Whether the training covers enough samples and temperature range to fit
+ */
+export function isTrainingComplete(training: EnvironmentTraining): boolean {
+    return training.count >= CONFIG.minTrainingSamples &&
+        training.maxTemperature - training.minTemperature >= CONFIG.minTemperatureSpan;
+}
+
+/**
+ * Fit the model from complete training; null when the training is not
+ * complete or the fit is not credible. The reference defaults to the
+ * training's mean conditions.
+ */
+export function fitEnvironmentalModel(
+    training: EnvironmentTraining,
+    fittedAt: number,
+    reference?: EnvironmentReading
+): EnvironmentalModel | null {
+    if (!isTrainingComplete(training) || !training.origin) return null;
+    const { origin, count, xtx, xty } = training;
+
+    const withHumidity = origin.humidity !== null &&
+        training.humidityCount === count &&
+        training.maxHumidity - training.minHumidity >= CONFIG.minHumiditySpan;
+    const k = withHumidity ? 3 : 2;
+
+    const beta = solveLinear(
+        xtx.slice(0, k).map(row => row.slice(0, k)),
+        xty.slice(0, k)
+    );
+    if (!beta) return null;
+
+    // Credibility: more than 1% of the frequency per °C is not thermal
+    const meanFrequency = origin.frequency + xty[0] / count;
+    if (Math.abs(beta[1]) > CONFIG.maxRelativeTemperatureCoefficient * meanFrequency) return null;
+
+    // R² from the normal equations: SSres = yᵀy − βᵀXᵀy
+    const explained = beta.reduce((sum, b, i) => sum + b * xty[i], 0);
+    const meanY = xty[0] / count;
+    const ssTot = training.yy - count * meanY * meanY;
+    const ssRes = Math.max(0, training.yy - explained);
+
+    const meanTemperature = origin.temperature + xtx[0][1] / count;
+    const meanHumidity = withHumidity ? (origin.humidity as number) + xtx[0][2] / count : null;
+
+    return {
+        referenceTemperature: reference?.temperature ?? meanTemperature,
+        temperatureCoefficient: beta[1],
+        referenceHumidity: withHumidity ? reference?.humidity ?? meanHumidity : null,
+        humidityCoefficient: withHumidity ? beta[2] : null,
+        rSquared: ssTot > 0 ? Math.max(0, 1 - ssRes / ssTot) : 0,
+        sampleCount: count,
+        fittedAt,
+    };
+}
+
+// ============================================================================
+// COMPENSATION
+// ============================================================================
+
+/**
+ * Frequency referred to the model's reference conditions; unchanged when
+ * there is no model or the estimate carries no temperature
+ */
+export function compensateFrequency(
+    model: EnvironmentalModel | null,
+    frequency: number,
+    environment: EnvironmentReading | undefined
+): number {
+    if (!model || environment?.temperature === undefined) return frequency;
+
+    let compensated = frequency - model.temperatureCoefficient * (environment.temperature - model.referenceTemperature);
+    if (model.humidityCoefficient !== null && model.referenceHumidity !== null && environment.humidity !== undefined) {
+        compensated -= model.humidityCoefficient * (environment.humidity - model.referenceHumidity);
+    }
+    return compensated;
+}
@@ -0,0 +1,220 @@
+/**
+ * SEISMOS FFT Frequency Estimator
+ *
+ * Estimates the dominant (natural) frequency of a building from its
+ * acceleration time series using Welch's averaged periodogram.
+ *
+ * Physical Rationale:
+ * - Ambient and forced vibration concentrate energy at the building's modes
+ * - The first mode dominates the horizontal response, so the strongest
+ *   spectral peak in the structural band tracks the natural frequency
+ * - Working on per-axis acceleration (not magnitude) keeps the sign of the
+ *   motion, which magnitude-based methods throw away
+ *
+ * Algorithm:
+ * - Keep a rolling buffer per axis and per node
+ * - Welch PSD (Hann window, 50% overlap) per axis, summed across axes
+ * - Pick the strongest bin inside the structural band
+ * - Refine with parabolic interpolation
+ * - Confidence from peak prominence and buffer fill
+ */
+
+import { welchPsd, parabolicPeakOffset } from '../dsp';
+import type { FrequencyEstimate, FrequencyEstimator, VibrationSample } from './index';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export type Axis = 'x' | 'y' | 'z';
+
+export interface FFTEstimatorConfig {
+    /** Sampling rate used when samples do not carry their own (Hz) */
+    sampleRateHz: number;
+
+    /** Rolling buffer length per axis (samples) */
+    bufferSize: number;
+
+    /** Welch segment length (power of two) */
+    segmentSize: number;
+
+    /** Segment overlap ratio (0-1) */
+    overlap: number;
+
+    /** Axes whose spectra are summed (horizontal by default) */
+    axes: Axis[];
+
+    /** Structural band searched for the peak (Hz) */
+    minFrequencyHz: number;
+    maxFrequencyHz: number;
+
+    /**
+     * Peak-to-mean power ratio that yields full confidence.
+     * A flat (white noise) spectrum has ratio ~1 → confidence 0.
+     */
+    fullConfidencePeakRatio: number;
+}
+
+const DEFAULT_CONFIG: FFTEstimatorConfig = {
+    sampleRateHz: 20,
+    bufferSize: 128,
+    segmentSize: 64,
+    overlap: 0.5,
+    axes: ['x', 'y'],
+    minFrequencyHz: 0.5,
+    maxFrequencyHz: 20,
+    fullConfidencePeakRatio: 8,
+};
+
+/** Returned until enough samples are buffered (typical building ~5 Hz) */
+const DEFAULT_FREQUENCY = 5.0;
+
+// ============================================================================
+// ESTIMATOR
+// ============================================================================
+
+interface AxisBuffers {
+    x: number[];
+    y: number[];
+    z: number[];
+}
+
+export class FFTFrequencyEstimator implements FrequencyEstimator {
+    readonly name = 'fft-welch';
+    private readonly config: FFTEstimatorConfig;
+    private buffers: Map<string, AxisBuffers> = new Map();
+    private sampleRates: Map<string, number> = new Map();
+
+    constructor(config: Partial<FFTEstimatorConfig> = {}) {
+        this.config = { ...DEFAULT_CONFIG, ...config };
+        const { segmentSize, bufferSize } = this.config;
+        if ((segmentSize & (segmentSize - 1)) !== 0 || bufferSize < segmentSize) {
+            throw new Error('[FFTFrequencyEstimator] segmentSize must be a power of two and <= bufferSize');
+        }
+    }
+
+    /**
+     * Push a new sample and estimate the dominant frequency
+     */
+    estimate(nodeId: string, sample: VibrationSample): FrequencyEstimate {
+        const buffers = this.push(nodeId, sample);
+        const sampleRateHz = this.sampleRates.get(nodeId) ?? this.config.sampleRateHz;
+        return this.estimateFromBuffers(buffers.x.length, buffers, sampleRateHz);
+    }
+
+    /**
+     * Estimate from a complete per-axis record (e.g. a batch from a physical node)
+     * without touching the rolling buffers.
+     */
+    estimateFromSeries(
+        series: Partial<Record<Axis, number[]>>,
+        sampleRateHz: number = this.config.sampleRateHz
+    ): FrequencyEstimate {
+        const length = Math.max(0, ...this.config.axes.map(a => series[a]?.length ?? 0));
+        return this.estimateFromBuffers(length, {
+            x: series.x ?? [],
+            y: series.y ?? [],
+            z: series.z ?? [],
+        }, sampleRateHz);
+    }
+
+    private push(nodeId: string, sample: VibrationSample): AxisBuffers {
+        // A rate change makes the buffered series non-uniform: start over
+        const rate = sample.sampleRateHz ?? this.config.sampleRateHz;
+        if (this.sampleRates.get(nodeId) !== rate) {
+            this.sampleRates.set(nodeId, rate);
+            this.buffers.delete(nodeId);
+        }
+
+        if (!this.buffers.has(nodeId)) {
+            this.buffers.set(nodeId, { x: [], y: [], z: [] });
+        }
+
+        const buffers = this.buffers.get(nodeId)!;
+        buffers.x.push(sample.accelX);
+        buffers.y.push(sample.accelY);
+        buffers.z.push(sample.accelZ);
+
+        while (buffers.x.length > this.config.bufferSize) {
+            buffers.x.shift();
+            buffers.y.shift();
+            buffers.z.shift();
+        }
+
+        return buffers;
+    }
+
+    private estimateFromBuffers(length: number, buffers: AxisBuffers, sampleRateHz: number): FrequencyEstimate {
+        const { segmentSize, overlap, axes, bufferSize } = this.config;
+
+        if (length < segmentSize) {
+            return { frequency: DEFAULT_FREQUENCY, confidence: 0 };
+        }
+
+        // Sum PSDs of the selected axes
+        let combined: number[] | null = null;
+        let binWidthHz = 0;
+        for (const axis of axes) {
+            const series = buffers[axis];
+            if (series.length < segmentSize) continue;
+            const psd = welchPsd(series, sampleRateHz, segmentSize, overlap);
+            binWidthHz = psd.binWidthHz;
+            combined = combined
+                ? combined.map((p, k) => p + psd.power[k])
+                : psd.power;
+        }
+        if (!combined) {
+            return { frequency: DEFAULT_FREQUENCY, confidence: 0 };
+        }
+
+        // Structural band (never past Nyquist, never DC)
+        const nyquist = sampleRateHz / 2;
+        const firstBin = Math.max(1, Math.ceil(this.config.minFrequencyHz / binWidthHz));
+        const lastBin = Math.min(
+            combined.length - 2,
+            Math.floor(Math.min(this.config.maxFrequencyHz, nyquist) / binWidthHz)
+        );
+        if (lastBin <= firstBin) {
+            return { frequency: DEFAULT_FREQUENCY, confidence: 0 };
+        }
+
+        let peakBin = firstBin;
+        let bandPower = 0;
+        for (let k = firstBin; k <= lastBin; k++) {
+            bandPower += combined[k];
+            if (combined[k] > combined[peakBin]) peakBin = k;
+        }
+
+        const offset = parabolicPeakOffset(
+            combined[peakBin - 1],
+            combined[peakBin],
+            combined[peakBin + 1]
+        );
+        const frequency = (peakBin + offset) * binWidthHz;
+
+        // Confidence: how far the peak stands above the band average,
+        // scaled by how full the buffer is
+        const meanPower = bandPower / (lastBin - firstBin + 1);
+        const peakRatio = meanPower > 0 ? combined[peakBin] / meanPower : 0;
+        const prominence = Math.max(0, Math.min(1,
+            (peakRatio - 1) / (this.config.fullConfidencePeakRatio - 1)
+        ));
+        const fill = Math.min(1, length / bufferSize);
+
+        return {
+            frequency: Math.max(this.config.minFrequencyHz, Math.min(this.config.maxFrequencyHz, frequency)),
+            confidence: prominence * fill,
+            snr: peakRatio,
+        };
+    }
+
+    reset(nodeId?: string): void {
+        if (nodeId) {
+            this.buffers.delete(nodeId);
+            this.sampleRates.delete(nodeId);
+        } else {
+            this.buffers.clear();
+            this.sampleRates.clear();
+        }
+    }
+}
@@ -2,15 +2,28 @@
  * SEISMOS Damage Score Engine
  * 
  * Calculates a numerical damage score (0-100) based on structural behavior.
- * Designed to be rule-based for MVP but ML-ready via DamageFeatures.
+ * Scoring sits behind the DamageModel interface: the rule-based calculator
+ * below is the baseline, a trained model (./learned-model) scores the same
+ * DamageFeatures and can run next to it for comparison.
  * 
  * Physical Rationale:
  * - Frequency shift: Building stiffness loss causes natural frequency to drop
- * - Peak energy: Higher vibration energy = more structural stress
+ * - Peak energy: Spectral acceleration at the building's own period is
+ *   the demand its first mode actually feels
  * - Duration: Sustained stress causes more damage than brief spikes
+ * - Damping: Cracking dissipates more energy per cycle, so a damping rise
+ *   flags damage the frequency alone misses
+ * - Building class: When the building's structure type, age and height are
+ *   known, the demand term comes from its fragility curves (../fragility),
+ *   so the same shaking scores higher for old masonry than for a modern frame
  */
 
 import type { NodeStatus } from '../supabase/types';
+import { FFTFrequencyEstimator } from './fft-estimator';
+import type { IntensityMeasures } from '../intensity';
+import type { FatigueIndicator } from './baseline-tracker';
+import { assessFragility, type BuildingProfile, type FragilityAssessment } from '../fragility';
+import type { QualityFlag, ScoreInterval } from './quality';
 
 // ============================================================================
 // TYPES - ML-Ready Feature Extraction
@@ -25,17 +38,48 @@ export interface DamageFeatures {
     /** Percentage deviation from baseline frequency (0-100+) */
     frequencyShift: number;
 
-    /** Normalized peak vibration energy (0-1 scale) */
+    /** Normalized peak demand (0-1 scale), from PSA when intensity measures exist */
     peakEnergy: number;
 
     /** Seconds of sustained abnormal vibration (sliding window) */
     abnormalDuration: number;
 
-    /** Current estimated dominant frequency (Hz) via zero-crossing */
-    currentFrequency: number;
+    /** Current estimated dominant frequency (Hz) from the active FrequencyEstimator, null when none was measured */
+    currentFrequency: number | null;
 
-    /** Baseline dominant frequency (Hz) established during stable period */
-    baselineFrequency: number;
+    /**
+     * Reference dominant frequency (Hz): the level before the open or
+     * latest event, the stable-period baseline before any event; null
+     * when no frequency was measured
+     */
+    baselineFrequency: number | null;
+
+    /** Current damping ratio (fraction of critical), 0 until estimated */
+    dampingRatio: number;
+
+    /** Percentage increase of damping over its baseline, 0 until both are known */
+    dampingIncrease: number;
+
+    /** Peak ground acceleration, larger horizontal (g) */
+    pga: number;
+
+    /** Peak ground velocity (cm/s) */
+    pgv: number;
+
+    /** Peak ground displacement (cm) */
+    pgd: number;
+
+    /** Arias intensity (m/s) */
+    ariasIntensity: number;
+
+    /** Cumulative absolute velocity (g·s) */
+    cav: number;
+
+    /** Bracketed duration above 0.05 g (s) */
+    bracketedDuration: number;
+
+    /** 5%-damped pseudo-spectral acceleration at the baseline period (g) */
+    spectralAcceleration: number;
 }
 
 /**
@@ -63,6 +107,29 @@ export interface DamageScore {
 
     /** Maps to existing NodeStatus for backward compatibility */
     legacyStatus: NodeStatus;
+
+    /** Name of the DamageModel that produced the score */
+    model: string;
+
+    /** Damage state probabilities for the building, null when it is unknown or unshaken */
+    fragility: FragilityAssessment | null;
+
+    /** 95% interval of the score; collapses to the score until the pipeline assesses it */
+    interval: ScoreInterval;
+
+    /** Data problems that limit trust in the score (see ./quality) */
+    qualityFlags: QualityFlag[];
+}
+
+/**
+ * Common contract so damage models can be swapped and compared on the same features
+ */
+export interface DamageModel {
+    /** Short identifier for logs and comparisons */
+    readonly name: string;
+
+    /** building: structural profile of the instrumented building, when known */
+    calculate(features: DamageFeatures, building?: BuildingProfile): DamageScore;
 }
 
 // ============================================================================
@@ -124,26 +191,99 @@ const THRESHOLDS = {
  */
 const ABNORMAL_MAGNITUDE_THRESHOLD = 0.5; // g
 
+/**
+ * Spectral acceleration mapped to peakEnergy = 1 (g)
+ * Roughly twice the short-period design level of a high-hazard TBDY-2018
+ * site, i.e. well beyond what a code-conforming frame is designed for
+ */
+const PSA_FULL_SCALE = 2.0; // g
+
 // ============================================================================
-// DAMAGE SCORE CALCULATOR
+// SCORE INTERPRETATION
 // ============================================================================
 
-export class DamageScoreCalculator {
+/**
+ * Wrap a 0-100 score into a DamageScore (category, label, legacy status).
+ * Shared by every DamageModel so categories mean the same thing.
+ */
+export function buildDamageScore(
+    model: string,
+    score: number,
+    components: DamageScore['components'],
+    features: DamageFeatures,
+    fragility: FragilityAssessment | null = null
+): DamageScore {
+    const finalScore = Math.max(0, Math.min(100, Math.round(score)));
+    return {
+        score: finalScore,
+        ...categorize(finalScore),
+        components: {
+            frequencyShiftScore: Math.round(components.frequencyShiftScore),
+            peakEnergyScore: Math.round(components.peakEnergyScore),
+            durationScore: Math.round(components.durationScore),
+        },
+        features,
+        legacyStatus: toLegacyStatus(finalScore),
+        model,
+        fragility,
+        interval: { lower: finalScore, upper: finalScore },
+        qualityFlags: [],
+    };
+}
+
+/**
+ * Categorize score into Safe/Risky/Heavily Damaged
+ */
+function categorize(score: number): { category: DamageScore['category']; categoryLabel: string } {
+    if (score < THRESHOLDS.safe) {
+        return { category: 'safe', categoryLabel: 'Güvenli' };
+    }
+    if (score < THRESHOLDS.risky) {
+        return { category: 'risky', categoryLabel: 'Riskli' };
+    }
+    return { category: 'heavily_damaged', categoryLabel: 'Ağır Hasarlı' };
+}
+
+/**
+ * Map damage score to legacy NodeStatus for backward compatibility
+ */
+function toLegacyStatus(score: number): NodeStatus {
+    if (score < 15) return 'stable';
+    if (score < 30) return 'anomaly';
+    if (score < 50) return 'warning';
+    if (score < 70) return 'critical';
+    return 'collapse';
+}
+
+// ============================================================================
+// DAMAGE SCORE CALCULATOR (Rule-Based Baseline)
+// ============================================================================
+
+export class DamageScoreCalculator implements DamageModel {
+    readonly name = 'rule-based';
+
     /**
      * Calculate damage score from extracted features
      * 
      * Formula:
      * DamageScore = (FreqShiftScore × 0.5) + (EnergyScore × 0.35) + (DurationScore × 0.15)
+     *
+     * With a known building and measured PGA, EnergyScore is the expected
+     * score of its fragility curves instead of the class-blind PSA scaling.
      */
-    calculate(features: DamageFeatures): DamageScore {
+    calculate(features: DamageFeatures, building?: BuildingProfile): DamageScore {
         // Calculate individual component scores (each 0-100)
         const frequencyShiftScore = Math.min(100,
             Math.abs(features.frequencyShift) * SCALING.frequencyShift
         );
 
-        const peakEnergyScore = Math.min(100,
-            features.peakEnergy * SCALING.energy
-        );
+        const fragility = building && features.pga > 0
+            ? assessFragility(building, features.pga)
+            : null;
+
+        const peakEnergyScore = fragility
+            ? fragility.expectedScore
+            : Math.min(100, features.peakEnergy * SCALING.energy);
 
         const durationScore = Math.min(100,
             features.abnormalDuration * SCALING.duration
@@ -156,51 +296,13 @@ export class DamageScoreCalculator {
             (durationScore * WEIGHTS.duration)
         );
 
-        // Clamp to 0-100
-        const finalScore = Math.max(0, Math.min(100, score));
-
-        // Categorize
-        const { category, categoryLabel } = this.categorize(finalScore);
-
-        // Map to legacy status for backward compatibility
-        const legacyStatus = this.toLegacyStatus(finalScore);
-
-        return {
-            score: finalScore,
-            category,
-            categoryLabel,
-            components: {
-                frequencyShiftScore: Math.round(frequencyShiftScore),
-                peakEnergyScore: Math.round(peakEnergyScore),
-                durationScore: Math.round(durationScore),
-            },
+        return buildDamageScore(
+            this.name,
+            score,
+            { frequencyShiftScore, peakEnergyScore, durationScore },
             features,
-            legacyStatus,
-        };
-    }
-
-    /**
-     * Categorize score into Safe/Risky/Heavily Damaged
-     */
-    private categorize(score: number): { category: DamageScore['category']; categoryLabel: string } {
-        if (score < THRESHOLDS.safe) {
-            return { category: 'safe', categoryLabel: 'Güvenli' };
-        }
-        if (score < THRESHOLDS.risky) {
-            return { category: 'risky', categoryLabel: 'Riskli' };
-        }
-        return { category: 'heavily_damaged', categoryLabel: 'Ağır Hasarlı' };
-    }
-
-    /**
-     * Map damage score to legacy NodeStatus for backward compatibility
-     */
-    private toLegacyStatus(score: number): NodeStatus {
-        if (score < 15) return 'stable';
-        if (score < 30) return 'anomaly';
-        if (score < 50) return 'warning';
-        if (score < 70) return 'critical';
-        return 'collapse';
+            fragility
+        );
     }
 }
 
@@ -230,30 +332,50 @@ export class FeatureExtractor {
     extract(
         nodeId: string,
         currentMagnitude: number,
-        currentFrequency: number,
-        baselineFrequency: number,
-        timestamp: number
+        currentFrequency: number | null,
+        baselineFrequency: number | null,
+        timestamp: number,
+        intensity: IntensityMeasures | null = null,
+        damping: Pick<FatigueIndicator, 'dampingRatio' | 'baselineDampingRatio'> | null = null
     ): DamageFeatures {
         // Update magnitude history for this node
         this.updateHistory(nodeId, currentMagnitude, timestamp);
 
-        // Calculate frequency shift (percentage)
-        const frequencyShift = baselineFrequency > 0
+        // Calculate frequency shift (percentage), none without a measured frequency or a baseline
+        const frequencyShift = currentFrequency !== null && baselineFrequency !== null && baselineFrequency > 0
             ? ((baselineFrequency - currentFrequency) / baselineFrequency) * 100
             : 0;
 
-        // Peak energy: normalize magnitude (assuming 2g is max expected)
-        const peakEnergy = Math.min(1, currentMagnitude / 2.0);
+        // Peak energy: PSA at the building period; magnitude until the record is long enough
+        const peakEnergy = intensity
+            ? Math.min(1, intensity.spectralAcceleration / PSA_FULL_SCALE)
+            : Math.min(1, currentMagnitude / 2.0);
 
         // Abnormal duration: count time above threshold in sliding window
         const abnormalDuration = this.calculateAbnormalDuration(nodeId, timestamp);
 
+        // Damping increase (percentage), mirrors frequencyShift
+        const dampingRatio = damping?.dampingRatio ?? 0;
+        const baselineDamping = damping?.baselineDampingRatio ?? 0;
+        const dampingIncrease = dampingRatio > 0 && baselineDamping > 0
+            ? ((dampingRatio - baselineDamping) / baselineDamping) * 100
+            : 0;
+
         return {
             frequencyShift,
             peakEnergy,
             abnormalDuration,
             currentFrequency,
             baselineFrequency,
+            dampingRatio,
+            dampingIncrease,
+            pga: intensity?.pga ?? 0,
+            pgv: intensity?.pgv ?? 0,
+            pgd: intensity?.pgd ?? 0,
+            ariasIntensity: intensity?.ariasIntensity ?? 0,
+            cav: intensity?.cav ?? 0,
+            bracketedDuration: intensity?.bracketedDuration ?? 0,
+            spectralAcceleration: intensity?.spectralAcceleration ?? 0,
         };
     }
 
@@ -316,6 +438,53 @@ export class FeatureExtractor {
     }
 }
 
+// ============================================================================
+// FREQUENCY ESTIMATOR INTERFACE
+// ============================================================================
+
+/**
+ * One vibration sample as seen by a frequency estimator
+ */
+export interface VibrationSample {
+    /** Per-axis acceleration (g) */
+    accelX: number;
+    accelY: number;
+    accelZ: number;
+
+    /** Filtered vector magnitude (g) */
+    magnitude: number;
+
+    /** Sampling rate of the stream (Hz); estimator default when absent */
+    sampleRateHz?: number;
+}
+
+/**
+ * Dominant frequency estimate with a trust level
+ */
+export interface FrequencyEstimate {
+    /** Estimated dominant frequency (Hz) */
+    frequency: number;
+
+    /** Confidence in the estimate (0-1), 0 until enough data is buffered */
+    confidence: number;
+
+    /** Spectral peak-to-band-mean power ratio, when the estimator measures one */
+    snr?: number;
+}
+
+/**
+ * Common contract so estimators can be swapped and compared on the same stream
+ */
+export interface FrequencyEstimator {
+    /** Short identifier for logs and comparisons */
+    readonly name: string;
+
+    /** Push a sample for a node and return the current estimate */
+    estimate(nodeId: string, sample: VibrationSample): FrequencyEstimate;
+
+    reset(nodeId?: string): void;
+}
+
 // ============================================================================
 // FREQUENCY ESTIMATOR (Zero-Crossing Method)
 // ============================================================================
@@ -324,21 +493,23 @@ export class FeatureExtractor {
  * Estimates dominant frequency using zero-crossing method.
  * 
  * This is a simplified approach suitable for MVP demo.
- * For production, FFT-based peak detection would be more accurate.
+ * Kept as a cheap reference; FFTFrequencyEstimator is the default.
  * 
  * How it works:
  * - Count how many times the signal crosses zero (or mean)
  * - Frequency ≈ (zero crossings / 2) / time period
  */
-export class ZeroCrossingFrequencyEstimator {
+export class ZeroCrossingFrequencyEstimator implements FrequencyEstimator {
+    readonly name = 'zero-crossing';
     private signalHistory: Map<string, number[]> = new Map();
     private readonly windowSize = 50; // samples
-    private readonly sampleRateHz = 20; // 20 Hz from simulator
+    private readonly sampleRateHz = 20; // Default when the sample carries no rate
 
     /**
      * Update with new reading and estimate frequency
      */
-    estimate(nodeId: string, magnitude: number): number {
+    estimate(nodeId: string, sample: VibrationSample): FrequencyEstimate {
+        const magnitude = sample.magnitude;
         if (!this.signalHistory.has(nodeId)) {
             this.signalHistory.set(nodeId, []);
         }
@@ -353,7 +524,8 @@ export class ZeroCrossingFrequencyEstimator {
 
         // Need at least 10 samples for estimation
         if (history.length < 10) {
-            return 5.0; // Default to ~5 Hz (typical building natural frequency)
+            // Default to ~5 Hz (typical building natural frequency)
+            return { frequency: 5.0, confidence: 0 };
         }
 
         // Calculate mean
@@ -370,11 +542,15 @@ export class ZeroCrossingFrequencyEstimator {
         }
 
         // Frequency = (crossings / 2) / observation time
-        const observationTimeSec = history.length / this.sampleRateHz;
+        const observationTimeSec = history.length / (sample.sampleRateHz ?? this.sampleRateHz);
         const frequency = (crossings / 2) / observationTimeSec;
 
         // Clamp to reasonable building frequency range (0.5 - 20 Hz)
-        return Math.max(0.5, Math.min(20, frequency));
+        // Confidence only reflects window fill; crossings carry no quality measure
+        return {
+            frequency: Math.max(0.5, Math.min(20, frequency)),
+            confidence: 0.5 * (history.length / this.windowSize),
+        };
     }
 
     reset(nodeId?: string): void {
@@ -392,4 +568,8 @@ export class ZeroCrossingFrequencyEstimator {
 
 export const damageScoreCalculator = new DamageScoreCalculator();
 export const featureExtractor = new FeatureExtractor();
-export const frequencyEstimator = new ZeroCrossingFrequencyEstimator();
+export const zeroCrossingEstimator = new ZeroCrossingFrequencyEstimator();
+export const fftFrequencyEstimator = new FFTFrequencyEstimator();
+
+/** Estimator used by the live pipeline */
+export const frequencyEstimator: FrequencyEstimator = fftFrequencyEstimator;
@@ -0,0 +1,171 @@
+/**
+ * SEISMOS Learned Damage Model
+ *
+ * A DamageModel whose weights are loaded from a JSON file instead of
+ * being written in code, so a model trained offline can replace or run
+ * next to the rule-based calculator on the same DamageFeatures.
+ *
+ * Format (`seismos-damage-mlp`):
+ * - `features`: DamageFeatures keys, in input order
+ * - `mean` / `scale`: standardization, z = (x - mean) / scale
+ * - `layers`: dense layers, weights[out][in], each with an activation;
+ *   the last layer has a single sigmoid unit
+ * - score = output × `outputScale` (100 → the 0-100 damage scale)
+ *
+ * Explainability:
+ * - A network has no per-term weights, so components are occlusion
+ *   scores: how much the score drops when a feature group is set to its
+ *   quiet value (no shift, no shaking, no duration)
+ */
+
+import { buildDamageScore, type DamageFeatures, type DamageModel, type DamageScore } from './index';
+import defaultModel from './models/damage-mlp.json';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Features a model can read: the numeric ones (the frequencies are null when none was measured) */
+export type DamageFeatureName = {
+    [K in keyof DamageFeatures]: DamageFeatures[K] extends number ? K : never;
+}[keyof DamageFeatures];
+
+export type Activation = 'linear' | 'relu' | 'tanh' | 'sigmoid';
+
+export interface DenseLayer {
+    /** weights[output][input] */
+    weights: number[][];
+    bias: number[];
+    activation: Activation;
+}
+
+export interface DamageModelFile {
+    format: 'seismos-damage-mlp';
+
+    /** Identifier reported in DamageScore.model */
+    name: string;
+
+    features: DamageFeatureName[];
+    mean: number[];
+    scale: number[];
+    layers: DenseLayer[];
+
+    /** Multiplies the single output unit into the score range */
+    outputScale: number;
+
+    /** Free-form training provenance; ignored at inference */
+    trainedOn?: Record<string, unknown>;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Feature groups behind the three DamageScore components
+ */
+const COMPONENT_GROUPS: Record<keyof DamageScore['components'], DamageFeatureName[]> = {
+    frequencyShiftScore: ['frequencyShift', 'dampingRatio', 'dampingIncrease'],
+    peakEnergyScore: ['peakEnergy', 'pga', 'pgv', 'pgd', 'ariasIntensity', 'cav', 'spectralAcceleration'],
+    durationScore: ['abnormalDuration', 'bracketedDuration'],
+};
+
+const ACTIVATIONS: Record<Activation, (v: number) => number> = {
+    linear: v => v,
+    relu: v => Math.max(0, v),
+    tanh: v => Math.tanh(v),
+    sigmoid: v => 1 / (1 + Math.exp(-v)),
+};
+
+// ============================================================================
+// LOADING
+// ============================================================================
+
+/**
+ * Validate a parsed JSON model; throws with every problem found
+ */
+export function parseDamageModel(json: unknown): DamageModelFile {
+    const file = json as DamageModelFile;
+    const errors: string[] = [];
+
+    if (!file || typeof file !== 'object') throw new Error('Invalid damage model: not an object');
+    if (file.format !== 'seismos-damage-mlp') errors.push(`unsupported format ${String(file.format)}`);
+    if (typeof file.name !== 'string' || file.name.length === 0) errors.push('name is required');
+    if (!Array.isArray(file.features) || file.features.length === 0) errors.push('features must be a non-empty array');
+    if (!Array.isArray(file.layers) || file.layers.length === 0) errors.push('layers must be a non-empty array');
+    if (errors.length > 0) throw new Error(`Invalid damage model: ${errors.join('; ')}`);
+
+    const inputs = file.features.length;
+    if (file.mean?.length !== inputs || file.scale?.length !== inputs) errors.push('mean/scale length must match features');
+
+    let width = inputs;
+    file.layers.forEach((layer, i) => {
+        if (!(layer.activation in ACTIVATIONS)) errors.push(`layer ${i}: unknown activation ${layer.activation}`);
+        if (layer.weights.length !== layer.bias.length) errors.push(`layer ${i}: one bias per output`);
+        if (layer.weights.some(row => row.length !== width)) errors.push(`layer ${i}: expected ${width} inputs`);
+        width = layer.bias.length;
+    });
+    if (width !== 1) errors.push('last layer must have a single output');
+
+    if (errors.length > 0) throw new Error(`Invalid damage model: ${errors.join('; ')}`);
+    return file;
+}
+
+// ============================================================================
+// LEARNED DAMAGE MODEL
+// ============================================================================
+
+export class LearnedDamageModel implements DamageModel {
+    readonly name: string;
+    private readonly file: DamageModelFile;
+
+    constructor(file: DamageModelFile) {
+        this.file = parseDamageModel(file);
+        this.name = file.name;
+    }
+
+    calculate(features: DamageFeatures): DamageScore {
+        const score = this.evaluate(features);
+
+        // Occlusion: score lost when a group is quiet
+        const occluded = (group: DamageFeatureName[]) => {
+            const quiet = { ...features };
+            group.forEach(name => { quiet[name] = 0; });
+            return Math.max(0, score - this.evaluate(quiet));
+        };
+
+        return buildDamageScore(
+            this.name,
+            score,
+            {
+                frequencyShiftScore: occluded(COMPONENT_GROUPS.frequencyShiftScore),
+                peakEnergyScore: occluded(COMPONENT_GROUPS.peakEnergyScore),
+                durationScore: occluded(COMPONENT_GROUPS.durationScore),
+            },
+            features
+        );
+    }
+
+    /**
+     * Forward pass, 0-`outputScale`
+     */
+    private evaluate(features: DamageFeatures): number {
+        const { mean, scale, layers, outputScale } = this.file;
+        let activations = this.file.features.map((name, i) => (features[name] - mean[i]) / (scale[i] || 1));
+
+        for (const layer of layers) {
+            const activate = ACTIVATIONS[layer.activation];
+            activations = layer.weights.map((row, j) =>
+                activate(row.reduce((sum, w, i) => sum + w * activations[i], layer.bias[j]))
+            );
+        }
+        return activations[0] * outputScale;
+    }
+}
+
+// ============================================================================
+// SINGLETON INSTANCE
+// ============================================================================
+
+/** Model trained on simulator events (scripts/train-damage-model.ts) */
+export const learnedDamageModel = new LearnedDamageModel(defaultModel as DamageModelFile);
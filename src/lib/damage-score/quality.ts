@@ -0,0 +1,267 @@
+/**
+ * SEISMOS Score Quality
+ *
+ * How much a damage score can be trusted: a 95% interval around the score
+ * and the data problems behind it, computed from the same pipeline state
+ * that produced the score.
+ *
+ * Quality Flags:
+ * - no_baseline: the node has no established baseline frequency, so the
+ *   frequency shift is measured against the 5 Hz default
+ * - short_record: fewer seconds of data than the frequency estimator buffers
+ * - clipped: flat-topped samples (the same value repeated at a peak), so
+ *   peak measures are lower bounds
+ * - low_snr: the spectral peak barely rises above the band average
+ * - stale: the reading arrived long after it was recorded
+ *
+ * Interval:
+ * - Frequency shift ± 1.96 σ, σ from the frequency estimate's confidence;
+ *   without a baseline the shift spans 0 to the full-score shift
+ * - Shaking measures ± 10% (measurement scatter), up to ×2 when clipped
+ * - The model is evaluated at the corners of these ranges; min and max
+ *   are the bounds, so any DamageModel gets an interval without knowing
+ *   its internals
+ */
+
+import type { SensorReading } from '../readings';
+import type { BuildingProfile } from '../fragility';
+import type { DamageFeatures, DamageModel, DamageScore, FrequencyEstimate } from './index';
+import type { DamageFeatureName } from './learned-model';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type QualityFlag = 'no_baseline' | 'short_record' | 'clipped' | 'low_snr' | 'stale';
+
+/**
+ * 95% interval of the damage score (0-100)
+ */
+export interface ScoreInterval {
+    lower: number;
+    upper: number;
+}
+
+/**
+ * Pipeline state the flags are computed from
+ */
+export interface QualityContext {
+    /** Whether the node's baseline frequency is established */
+    hasBaseline: boolean;
+
+    frequencyEstimate: FrequencyEstimate;
+
+    /** Processing time (epoch ms) */
+    now: number;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const CONFIG = {
+    /** FFT estimator buffer: 128 samples at 20 Hz */
+    minRecordSeconds: 6.4,
+
+    /** Repeated identical samples on an axis that count as a flat top */
+    clipRunLength: 3,
+
+    /** Flat tops below this are quantization of ambient noise, not clipping (g) */
+    clipFloorG: 0.05,
+
+    /** A clip taints the peak measures of the record that follows it (ms) */
+    clipHoldMs: 30000,
+
+    /** Spectral peak-to-mean power ratio below which the peak is noise */
+    minSnr: 3,
+
+    /** Without an SNR, frequency confidence below this counts as low SNR */
+    minFrequencyConfidence: 0.2,
+
+    /** Reading age beyond which the score no longer describes the present (ms) */
+    staleAfterMs: 5000,
+
+    /** Relative frequency uncertainty at full / zero estimator confidence */
+    minFrequencySigma: 0.02,
+    maxFrequencySigma: 0.12,
+
+    /** Frequency shift (%) that saturates the rule-based frequency score */
+    fullScaleShift: 25,
+
+    /** Relative scatter of measured shaking, and the upper factor when clipped */
+    intensityScatter: 0.1,
+    clippedUpperFactor: 2,
+} as const;
+
+/** Turkish labels for UI */
+export const QUALITY_FLAG_LABELS: Record<QualityFlag, string> = {
+    no_baseline: 'Baz frekans yok',
+    short_record: 'Kısa kayıt',
+    clipped: 'Sensör doygun',
+    low_snr: 'Düşük SNR',
+    stale: 'Eski veri',
+};
+
+/** Flags that leave the score's category open regardless of the interval */
+const BLOCKING_FLAGS: readonly QualityFlag[] = ['no_baseline', 'clipped', 'stale'];
+
+/** Features that scale with the measured shaking */
+const SHAKING_FEATURES: DamageFeatureName[] = [
+    'peakEnergy',
+    'pga',
+    'pgv',
+    'pgd',
+    'ariasIntensity',
+    'cav',
+    'spectralAcceleration',
+];
+
+/** Category boundaries of the damage score (see damage-score THRESHOLDS) */
+const CATEGORY_BOUNDARIES = [30, 60];
+
+// ============================================================================
+// SCORE QUALITY ASSESSOR
+// ============================================================================
+
+interface NodeQualityState {
+    firstTimestamp: number;
+    lastSequence: number;
+    lastAbs: [number, number, number];
+    runs: [number, number, number];
+    clippedAt: number | null;
+}
+
+/**
+ * Tracks record length and clipping per node and flags each score
+ */
+export class ScoreQualityAssessor {
+    private nodes: Map<string, NodeQualityState> = new Map();
+
+    /**
+     * Push a reading (in g); repeated sequences are ignored
+     */
+    observe(reading: SensorReading): void {
+        let state = this.nodes.get(reading.nodeId);
+        if (!state) {
+            state = {
+                firstTimestamp: reading.timestamp,
+                lastSequence: -1,
+                lastAbs: [0, 0, 0],
+                runs: [0, 0, 0],
+                clippedAt: null,
+            };
+            this.nodes.set(reading.nodeId, state);
+        }
+        if (reading.sequence === state.lastSequence) return;
+        state.lastSequence = reading.sequence;
+
+        const axes = [reading.accelX, reading.accelY, reading.accelZ];
+        axes.forEach((value, i) => {
+            const abs = Math.abs(value);
+            state.runs[i] = abs >= CONFIG.clipFloorG && abs === state.lastAbs[i] ? state.runs[i] + 1 : 0;
+            state.lastAbs[i] = abs;
+            if (state.runs[i] + 1 >= CONFIG.clipRunLength) state.clippedAt = reading.timestamp;
+        });
+    }
+
+    /**
+     * Quality flags for the node's current score
+     */
+    flags(reading: SensorReading, context: QualityContext): QualityFlag[] {
+        const state = this.nodes.get(reading.nodeId);
+        const flags: QualityFlag[] = [];
+        const { frequencyEstimate } = context;
+
+        if (!context.hasBaseline) flags.push('no_baseline');
+        if (!state || (reading.timestamp - state.firstTimestamp) / 1000 < CONFIG.minRecordSeconds) {
+            flags.push('short_record');
+        }
+        if (state && state.clippedAt !== null && reading.timestamp - state.clippedAt <= CONFIG.clipHoldMs) {
+            flags.push('clipped');
+        }
+        const lowSnr = frequencyEstimate.snr !== undefined
+            ? frequencyEstimate.snr < CONFIG.minSnr
+            : frequencyEstimate.confidence < CONFIG.minFrequencyConfidence;
+        if (lowSnr) flags.push('low_snr');
+        if (context.now - reading.timestamp > CONFIG.staleAfterMs) flags.push('stale');
+
+        return flags;
+    }
+
+    reset(nodeId?: string): void {
+        if (nodeId) {
+            this.nodes.delete(nodeId);
+        } else {
+            this.nodes.clear();
+        }
+    }
+}
+
+// ============================================================================
+// INTERVAL
+// ============================================================================
+
+/**
+ * 95% interval of a model's score, from the corners of the feature ranges
+ */
+export function scoreInterval(
+    model: DamageModel,
+    score: DamageScore,
+    building: BuildingProfile | undefined,
+    flags: QualityFlag[],
+    frequencyEstimate: FrequencyEstimate
+): ScoreInterval {
+    const { features } = score;
+
+    // Frequency shift range (%)
+    let shifts: [number, number];
+    if (flags.includes('no_baseline')) {
+        shifts = [0, CONFIG.fullScaleShift];
+    } else {
+        const sigma = CONFIG.minFrequencySigma
+            + (CONFIG.maxFrequencySigma - CONFIG.minFrequencySigma) * (1 - frequencyEstimate.confidence);
+        const halfWidth = 1.96 * sigma * 100;
+        shifts = [features.frequencyShift - halfWidth, features.frequencyShift + halfWidth];
+    }
+
+    // Shaking range (clipped peaks are lower bounds)
+    const factors: [number, number] = [
+        1 - CONFIG.intensityScatter,
+        flags.includes('clipped') ? CONFIG.clippedUpperFactor : 1 + CONFIG.intensityScatter,
+    ];
+
+    let lower = score.score;
+    let upper = score.score;
+    for (const frequencyShift of shifts) {
+        for (const factor of factors) {
+            const corner: DamageFeatures = { ...features, frequencyShift };
+            SHAKING_FEATURES.forEach(name => {
+                corner[name] = features[name] * factor;
+            });
+            corner.peakEnergy = Math.min(1, corner.peakEnergy);
+
+            const value = model.calculate(corner, building).score;
+            lower = Math.min(lower, value);
+            upper = Math.max(upper, value);
+        }
+    }
+
+    return { lower, upper };
+}
+
+/**
+ * Whether the score's category holds across its interval and no flag
+ * leaves the building's state open (e.g. "certainly safe" vs "unknown")
+ */
+export function isCategoryCertain(score: Pick<DamageScore, 'interval' | 'qualityFlags'>): boolean {
+    if (score.qualityFlags.some(flag => BLOCKING_FLAGS.includes(flag))) return false;
+    return !CATEGORY_BOUNDARIES.some(boundary =>
+        score.interval.lower < boundary && score.interval.upper >= boundary
+    );
+}
+
+// ============================================================================
+// SINGLETON INSTANCE
+// ============================================================================
+
+export const scoreQualityAssessor = new ScoreQualityAssessor();
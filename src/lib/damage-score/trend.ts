@@ -0,0 +1,302 @@
+/**
+ * SEISMOS Frequency Trend
+ *
+ * Long-term view of a building's natural frequency: daily and weekly
+ * aggregates of the estimates, and a regression against real time that
+ * separates a slow stiffness loss from the yearly thermal cycle.
+ *
+ * Physical Rationale:
+ * - Fatigue, corrosion and settlement lower the frequency over weeks to
+ *   years, so the slope is only meaningful per unit of time (Hz/month),
+ *   never per sample
+ * - Stiffness follows temperature (concrete modulus, boundary conditions),
+ *   which shows up as a yearly cycle; fitting it explicitly keeps summer
+ *   from reading as recovery and winter as damage. Where nodes report
+ *   temperature the series is compensated first (./environment) and the
+ *   cycle term only picks up what the regression left
+ *
+ * Algorithm:
+ * - Aggregates: running count / mean / variance (Welford) per UTC day and
+ *   per ISO week, so months of 20 Hz estimates fit in a few hundred rows;
+ *   mean temperature and humidity alongside, so a compensation model
+ *   fitted later still applies to old periods
+ * - Weighted least squares, f(t) = a + b·t [+ c·sin ωt + d·cos ωt],
+ *   t in months, ω one cycle per year; the harmonic terms are only fitted
+ *   once the points span a full year (shorter spans cannot tell a season
+ *   from a trend)
+ * - Residuals: standard deviation of what the model leaves unexplained
+ * - Projection: time until the trend line reaches a threshold frequency
+ */
+
+import type { EnvironmentReading } from '../readings';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type AggregatePeriod = 'day' | 'week';
+
+/**
+ * Frequency statistics of one node over one day or week
+ */
+export interface FrequencyAggregate {
+    period: AggregatePeriod;
+
+    /** Start of the period, epoch ms (UTC midnight; Monday for weeks) */
+    periodStart: number;
+
+    sampleCount: number;
+    meanFrequency: number;
+    minFrequency: number;
+    maxFrequency: number;
+
+    /** Population standard deviation of the estimates (Hz) */
+    stdFrequency: number;
+
+    /** Mean confident damping ratio, null when none was tracked */
+    meanDamping: number | null;
+
+    /** Mean temperature (°C) and humidity (%), null when the node reports none */
+    meanTemperature: number | null;
+    meanHumidity: number | null;
+
+    /** Time of the last estimate folded in (epoch ms) */
+    updatedAt: number;
+}
+
+export interface TrendPoint {
+    /** Epoch ms */
+    t: number;
+    value: number;
+    weight: number;
+}
+
+export interface TrendFit {
+    /** Trend slope (Hz per month) */
+    slopePerMonth: number;
+
+    /** Trend value at the last point, seasonal term excluded (Hz) */
+    levelAtEnd: number;
+
+    /** Coefficient of determination of the full model */
+    rSquared: number;
+
+    /** Weighted standard deviation of the residuals (Hz) */
+    residualStd: number;
+
+    /** Amplitude of the yearly cycle (Hz), null when not fitted */
+    seasonalAmplitude: number | null;
+
+    /** Time covered by the points (days) */
+    spanDays: number;
+
+    pointCount: number;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/** Average Gregorian month */
+export const MS_PER_MONTH = 30.436875 * MS_PER_DAY;
+
+const DAYS_PER_YEAR = 365.25;
+
+// ============================================================================
+// AGGREGATION
+// ============================================================================
+
+/**
+ * Start of the UTC day or ISO week (Monday) containing a timestamp
+ */
+export function periodStart(timestamp: number, period: AggregatePeriod): number {
+    const day = Math.floor(timestamp / MS_PER_DAY) * MS_PER_DAY;
+    if (period === 'day') return day;
+    // 1970-01-01 was a Thursday: shift so weeks start on Monday
+    const weekday = (new Date(day).getUTCDay() + 6) % 7;
+    return day - weekday * MS_PER_DAY;
+}
+
+export function createAggregate(period: AggregatePeriod, timestamp: number): FrequencyAggregate {
+    return {
+        period,
+        periodStart: periodStart(timestamp, period),
+        sampleCount: 0,
+        meanFrequency: 0,
+        minFrequency: Infinity,
+        maxFrequency: -Infinity,
+        stdFrequency: 0,
+        meanDamping: null,
+        meanTemperature: null,
+        meanHumidity: null,
+        updatedAt: timestamp,
+    };
+}
+
+/**
+ * Fold one estimate into an aggregate (in place)
+ */
+export function accumulate(
+    aggregate: FrequencyAggregate,
+    frequency: number,
+    damping: number | null,
+    timestamp: number,
+    environment?: EnvironmentReading
+): void {
+    const n = aggregate.sampleCount + 1;
+    const delta = frequency - aggregate.meanFrequency;
+    const mean = aggregate.meanFrequency + delta / n;
+
+    // Welford: M2 carried as variance × count
+    const m2 = aggregate.stdFrequency ** 2 * aggregate.sampleCount + delta * (frequency - mean);
+    aggregate.sampleCount = n;
+    aggregate.meanFrequency = mean;
+    aggregate.stdFrequency = Math.sqrt(m2 / n);
+    aggregate.minFrequency = Math.min(aggregate.minFrequency, frequency);
+    aggregate.maxFrequency = Math.max(aggregate.maxFrequency, frequency);
+    aggregate.updatedAt = timestamp;
+
+    if (damping !== null) {
+        // Damping is tracked far less often; a plain running mean is enough
+        aggregate.meanDamping = aggregate.meanDamping === null
+            ? damping
+            : aggregate.meanDamping + (damping - aggregate.meanDamping) / n;
+    }
+
+    // Nodes with an environmental sensor report it on every reading, so n counts these too
+    const { temperature, humidity } = environment ?? {};
+    if (temperature !== undefined) {
+        aggregate.meanTemperature = aggregate.meanTemperature === null
+            ? temperature
+            : aggregate.meanTemperature + (temperature - aggregate.meanTemperature) / n;
+    }
+    if (humidity !== undefined) {
+        aggregate.meanHumidity = aggregate.meanHumidity === null
+            ? humidity
+            : aggregate.meanHumidity + (humidity - aggregate.meanHumidity) / n;
+    }
+}
+
+/**
+ * Regression points from aggregates, weighted by sample count, at mid-period;
+ * `value` maps an aggregate to the regressed frequency (e.g. compensated)
+ */
+export function aggregatePoints(
+    aggregates: FrequencyAggregate[],
+    value: (aggregate: FrequencyAggregate) => number = a => a.meanFrequency
+): TrendPoint[] {
+    return aggregates
+        .filter(a => a.sampleCount > 0)
+        .map(a => ({
+            t: a.periodStart + (a.period === 'day' ? 0.5 : 3.5) * MS_PER_DAY,
+            value: value(a),
+            weight: a.sampleCount,
+        }));
+}
+
+// ============================================================================
+// REGRESSION
+// ============================================================================
+
+/**
+ * Solve A x = b by Gaussian elimination with partial pivoting, null if singular
+ */
+export function solveLinear(a: number[][], b: number[]): number[] | null {
+    const n = b.length;
+    const m = a.map((row, i) => [...row, b[i]]);
+
+    for (let col = 0; col < n; col++) {
+        let pivot = col;
+        for (let row = col + 1; row < n; row++) {
+            if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+        }
+        if (Math.abs(m[pivot][col]) < 1e-12) return null;
+        [m[col], m[pivot]] = [m[pivot], m[col]];
+
+        for (let row = col + 1; row < n; row++) {
+            const factor = m[row][col] / m[col][col];
+            for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k];
+        }
+    }
+
+    const x = new Array<number>(n).fill(0);
+    for (let row = n - 1; row >= 0; row--) {
+        let sum = m[row][n];
+        for (let k = row + 1; k < n; k++) sum -= m[row][k] * x[k];
+        x[row] = sum / m[row][row];
+    }
+    return x;
+}
+
+/**
+ * Weighted least-squares trend against time; null with fewer than 3 points
+ * or a degenerate (zero-span) series
+ */
+export function fitTrend(points: TrendPoint[]): TrendFit | null {
+    if (points.length < 3) return null;
+
+    const start = points[0].t;
+    const end = points[points.length - 1].t;
+    const spanDays = (end - start) / MS_PER_DAY;
+    if (spanDays <= 0) return null;
+
+    // Only a full year of data separates the yearly cycle from the trend
+    const seasonal = spanDays >= DAYS_PER_YEAR && points.length >= 6;
+    const omega = (2 * Math.PI) / (DAYS_PER_YEAR * MS_PER_DAY);
+    const basis = (t: number): number[] => {
+        const months = (t - start) / MS_PER_MONTH;
+        return seasonal
+            ? [1, months, Math.sin(omega * t), Math.cos(omega * t)]
+            : [1, months];
+    };
+
+    // Normal equations (Xᵀ W X) β = Xᵀ W y
+    const k = seasonal ? 4 : 2;
+    const xtx = Array.from({ length: k }, () => new Array<number>(k).fill(0));
+    const xty = new Array<number>(k).fill(0);
+    let sumW = 0;
+    let sumWY = 0;
+    for (const p of points) {
+        const x = basis(p.t);
+        for (let i = 0; i < k; i++) {
+            xty[i] += p.weight * x[i] * p.value;
+            for (let j = 0; j < k; j++) xtx[i][j] += p.weight * x[i] * x[j];
+        }
+        sumW += p.weight;
+        sumWY += p.weight * p.value;
+    }
+    const beta = solveLinear(xtx, xty);
+    if (!beta || sumW <= 0) return null;
+
+    const meanY = sumWY / sumW;
+    let ssRes = 0;
+    let ssTot = 0;
+    for (const p of points) {
+        const predicted = basis(p.t).reduce((sum, x, i) => sum + x * beta[i], 0);
+        ssRes += p.weight * (p.value - predicted) ** 2;
+        ssTot += p.weight * (p.value - meanY) ** 2;
+    }
+
+    return {
+        slopePerMonth: beta[1],
+        levelAtEnd: beta[0] + beta[1] * ((end - start) / MS_PER_MONTH),
+        rSquared: ssTot > 0 ? Math.max(0, 1 - ssRes / ssTot) : 0,
+        residualStd: Math.sqrt(ssRes / sumW),
+        seasonalAmplitude: seasonal ? Math.hypot(beta[2], beta[3]) : null,
+        spanDays,
+        pointCount: points.length,
+    };
+}
+
+/**
+ * Days until the trend line reaches `threshold` from `level`; 0 when it
+ * is already there, null when the trend does not head toward it
+ */
+export function projectDaysToThreshold(level: number, slopePerMonth: number, threshold: number): number | null {
+    if (level <= threshold) return 0;
+    if (slopePerMonth >= 0) return null;
+    const months = (level - threshold) / -slopePerMonth;
+    return (months * MS_PER_MONTH) / MS_PER_DAY;
+}
@@ -0,0 +1,196 @@
+/**
+ * SEISMOS DSP Primitives
+ *
+ * Small, dependency-free spectral helpers shared by the estimators.
+ * Runs identically in the browser and on the server.
+ *
+ * Contents:
+ * - Radix-2 FFT (in place, iterative)
+ * - Hann window
+ * - Welch power spectral density (averaged, windowed, overlapping segments)
+ * - Parabolic interpolation of spectral peaks
+ * - Time-domain integration and trend removal
+ */
+
+// ============================================================================
+// FFT
+// ============================================================================
+
+/**
+ * In-place iterative radix-2 Cooley-Tukey FFT.
+ * Length of `re` and `im` must be the same power of two.
+ */
+export function fft(re: number[], im: number[]): void {
+    const n = re.length;
+    if (n !== im.length || (n & (n - 1)) !== 0) {
+        throw new Error(`[DSP] FFT length must be a power of two, got ${n}`);
+    }
+
+    // Bit reversal permutation
+    for (let i = 1, j = 0; i < n; i++) {
+        let bit = n >> 1;
+        for (; j & bit; bit >>= 1) {
+            j ^= bit;
+        }
+        j ^= bit;
+        if (i < j) {
+            [re[i], re[j]] = [re[j], re[i]];
+            [im[i], im[j]] = [im[j], im[i]];
+        }
+    }
+
+    // Butterflies
+    for (let size = 2; size <= n; size <<= 1) {
+        const angle = (-2 * Math.PI) / size;
+        const wRe = Math.cos(angle);
+        const wIm = Math.sin(angle);
+        for (let start = 0; start < n; start += size) {
+            let curRe = 1;
+            let curIm = 0;
+            for (let k = 0; k < size / 2; k++) {
+                const a = start + k;
+                const b = a + size / 2;
+                const tRe = re[b] * curRe - im[b] * curIm;
+                const tIm = re[b] * curIm + im[b] * curRe;
+                re[b] = re[a] - tRe;
+                im[b] = im[a] - tIm;
+                re[a] += tRe;
+                im[a] += tIm;
+                const nextRe = curRe * wRe - curIm * wIm;
+                curIm = curRe * wIm + curIm * wRe;
+                curRe = nextRe;
+            }
+        }
+    }
+}
+
+// ============================================================================
+// WINDOWS
+// ============================================================================
+
+/**
+ * Hann window coefficients (periodic form, suited to spectral analysis)
+ */
+export function hannWindow(size: number): number[] {
+    const window: number[] = [];
+    for (let i = 0; i < size; i++) {
+        window.push(0.5 * (1 - Math.cos((2 * Math.PI * i) / size)));
+    }
+    return window;
+}
+
+// ============================================================================
+// WELCH PSD
+// ============================================================================
+
+export interface PowerSpectrum {
+    /** One-sided power spectral density, bins 0..N/2 */
+    power: number[];
+
+    /** Frequency resolution (Hz per bin) */
+    binWidthHz: number;
+
+    /** Number of averaged segments */
+    segmentCount: number;
+}
+
+/**
+ * Welch's method: split the signal into overlapping segments, remove the
+ * mean, apply a Hann window, FFT each segment and average the power.
+ *
+ * Averaging trades frequency resolution for a much lower variance than a
+ * single periodogram, which matters for noisy ambient vibration.
+ */
+export function welchPsd(
+    signal: number[],
+    sampleRateHz: number,
+    segmentSize: number,
+    overlap: number = 0.5
+): PowerSpectrum {
+    const bins = segmentSize / 2 + 1;
+    const power = new Array<number>(bins).fill(0);
+    const binWidthHz = sampleRateHz / segmentSize;
+
+    if (signal.length < segmentSize) {
+        return { power, binWidthHz, segmentCount: 0 };
+    }
+
+    const window = hannWindow(segmentSize);
+    const windowPower = window.reduce((sum, w) => sum + w * w, 0);
+    const step = Math.max(1, Math.round(segmentSize * (1 - overlap)));
+
+    let segmentCount = 0;
+    for (let start = 0; start + segmentSize <= signal.length; start += step) {
+        const segment = signal.slice(start, start + segmentSize);
+        const mean = segment.reduce((a, b) => a + b, 0) / segmentSize;
+
+        const re = segment.map((v, i) => (v - mean) * window[i]);
+        const im = new Array<number>(segmentSize).fill(0);
+        fft(re, im);
+
+        for (let k = 0; k < bins; k++) {
+            // One-sided: double everything except DC and Nyquist
+            const scale = k === 0 || k === bins - 1 ? 1 : 2;
+            power[k] += (scale * (re[k] * re[k] + im[k] * im[k])) / (windowPower * sampleRateHz);
+        }
+        segmentCount++;
+    }
+
+    for (let k = 0; k < bins; k++) {
+        power[k] /= segmentCount;
+    }
+
+    return { power, binWidthHz, segmentCount };
+}
+
+// ============================================================================
+// PEAK INTERPOLATION
+// ============================================================================
+
+/**
+ * Refine a spectral peak location by fitting a parabola through the peak bin
+ * and its two neighbours. Returns the fractional bin offset in [-0.5, 0.5].
+ */
+export function parabolicPeakOffset(left: number, center: number, right: number): number {
+    const denominator = left - 2 * center + right;
+    if (denominator === 0) return 0;
+    const offset = (0.5 * (left - right)) / denominator;
+    return Math.max(-0.5, Math.min(0.5, offset));
+}
+
+// ============================================================================
+// INTEGRATION
+// ============================================================================
+
+/**
+ * Cumulative trapezoidal integral of a uniformly sampled series (starts at 0)
+ */
+export function cumulativeTrapezoid(series: number[], dt: number): number[] {
+    const out = new Array<number>(series.length).fill(0);
+    for (let i = 1; i < series.length; i++) {
+        out[i] = out[i - 1] + 0.5 * (series[i - 1] + series[i]) * dt;
+    }
+    return out;
+}
+
+/**
+ * Subtract the least-squares straight line from a series.
+ * Used as baseline correction between integration steps: a small offset
+ * in acceleration grows linearly in velocity and quadratically in
+ * displacement, and would otherwise dominate the peaks.
+ */
+export function removeLinearTrend(series: number[]): number[] {
+    const n = series.length;
+    if (n < 2) return series.map(() => 0);
+
+    const meanX = (n - 1) / 2;
+    const meanY = series.reduce((a, b) => a + b, 0) / n;
+    let covariance = 0;
+    let variance = 0;
+    for (let i = 0; i < n; i++) {
+        covariance += (i - meanX) * (series[i] - meanY);
+        variance += (i - meanX) * (i - meanX);
+    }
+    const slope = covariance / variance;
+    return series.map((v, i) => v - (meanY + slope * (i - meanX)));
+}
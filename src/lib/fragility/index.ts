@@ -0,0 +1,208 @@
+/**
+ * SEISMOS Fragility Curves
+ *
+ * Probability of each damage state given the shaking a building felt,
+ * per structural system, design era and height. The same 0.4 g means
+ * little to a 2015 steel frame and a lot to a 1965 masonry house.
+ *
+ * Physical Rationale:
+ * - Capacity scatters around a median for every building class; a
+ *   lognormal curve P(DS ≥ ds | IM) = Φ(ln(IM / θ) / β) captures that
+ *   scatter (θ median capacity, β logarithmic standard deviation)
+ * - Design era sets the detailing: Turkish codes of 1975, 1998 and 2007
+ *   mark the steps from no seismic design to ductile detailing
+ * - Taller buildings of the same system reach a damage state at lower
+ *   ground acceleration (longer period, higher drift demand per g)
+ *
+ * Curves:
+ * - PGA-based medians after HAZUS-MH (Table 5.16, low-rise rows):
+ *   betonarme ≈ C1L, yigma ≈ URML, celik ≈ S1L, ahsap ≈ W1
+ * - HAZUS has no moderate/high-code URM; those rows are extrapolated
+ *   (confined masonry under a modern code)
+ * - Height class scales every median by `HEIGHT_FACTORS`
+ * - β = 0.64 for all states (HAZUS PGA-based value)
+ *
+ * Output:
+ * - Discrete state probabilities and an expected score on the 0-100
+ *   damage scale, each state mapped to the centre of its score band
+ */
+
+import type { BuildingMetadata } from '../simulator';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type DamageState = 'slight' | 'moderate' | 'extensive' | 'complete';
+
+export type DesignLevel = 'pre-code' | 'low-code' | 'moderate-code' | 'high-code';
+
+export type HeightClass = 'low' | 'mid' | 'high';
+
+/**
+ * Building attributes the curves depend on
+ */
+export type BuildingProfile = Pick<BuildingMetadata, 'structureType' | 'yearBuilt' | 'floors'>;
+
+/**
+ * Lognormal fragility curve
+ */
+export interface FragilityCurve {
+    /** Median capacity (PGA, g) */
+    median: number;
+
+    /** Logarithmic standard deviation */
+    beta: number;
+}
+
+export interface FragilityAssessment {
+    designLevel: DesignLevel;
+    heightClass: HeightClass;
+
+    /** Intensity measure the curves were evaluated at (PGA, g) */
+    pga: number;
+
+    /** P(DS ≥ state) */
+    exceedance: Record<DamageState, number>;
+
+    /** P(DS = state), including no damage */
+    probabilities: Record<DamageState | 'none', number>;
+
+    /** Probability-weighted damage score (0-100) */
+    expectedScore: number;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const DAMAGE_STATES: readonly DamageState[] = ['slight', 'moderate', 'extensive', 'complete'];
+
+/** Median PGA (g) per damage state, low-rise */
+type MedianTable = Record<DesignLevel, [number, number, number, number]>;
+
+const MEDIANS: Record<BuildingProfile['structureType'], MedianTable> = {
+    betonarme: {
+        'pre-code': [0.12, 0.15, 0.24, 0.39],
+        'low-code': [0.14, 0.19, 0.30, 0.49],
+        'moderate-code': [0.16, 0.23, 0.41, 0.77],
+        'high-code': [0.21, 0.35, 0.70, 1.37],
+    },
+    yigma: {
+        'pre-code': [0.13, 0.17, 0.26, 0.37],
+        'low-code': [0.14, 0.20, 0.32, 0.46],
+        'moderate-code': [0.16, 0.23, 0.37, 0.53],
+        'high-code': [0.18, 0.26, 0.42, 0.60],
+    },
+    celik: {
+        'pre-code': [0.10, 0.15, 0.24, 0.44],
+        'low-code': [0.12, 0.18, 0.30, 0.55],
+        'moderate-code': [0.14, 0.24, 0.45, 0.90],
+        'high-code': [0.19, 0.31, 0.64, 1.49],
+    },
+    ahsap: {
+        'pre-code': [0.18, 0.29, 0.51, 0.77],
+        'low-code': [0.20, 0.34, 0.61, 0.95],
+        'moderate-code': [0.24, 0.43, 0.91, 1.34],
+        'high-code': [0.26, 0.55, 1.28, 2.01],
+    },
+};
+
+const HEIGHT_FACTORS: Record<HeightClass, number> = {
+    low: 1.0,
+    mid: 0.85,
+    high: 0.7,
+};
+
+const BETA = 0.64;
+
+/** Score assigned to each state (centre of its band on the 0-100 scale) */
+const STATE_SCORES: Record<DamageState | 'none', number> = {
+    none: 0,
+    slight: 15,
+    moderate: 45,
+    extensive: 75,
+    complete: 100,
+};
+
+// ============================================================================
+// CLASSIFICATION
+// ============================================================================
+
+/**
+ * Seismic design level from the construction year (Turkish code history)
+ */
+export function designLevel(yearBuilt: number): DesignLevel {
+    if (yearBuilt < 1975) return 'pre-code';
+    if (yearBuilt < 1998) return 'low-code';
+    if (yearBuilt < 2007) return 'moderate-code';
+    return 'high-code';
+}
+
+/**
+ * Height class (HAZUS: low 1-3, mid 4-7, high 8+ stories)
+ */
+export function heightClass(floors: number): HeightClass {
+    if (floors <= 3) return 'low';
+    if (floors <= 7) return 'mid';
+    return 'high';
+}
+
+export function fragilityCurves(building: BuildingProfile): Record<DamageState, FragilityCurve> {
+    const medians = MEDIANS[building.structureType][designLevel(building.yearBuilt)];
+    const factor = HEIGHT_FACTORS[heightClass(building.floors)];
+    return Object.fromEntries(
+        DAMAGE_STATES.map((state, i) => [state, { median: medians[i] * factor, beta: BETA }])
+    ) as Record<DamageState, FragilityCurve>;
+}
+
+// ============================================================================
+// ASSESSMENT
+// ============================================================================
+
+/**
+ * Standard normal CDF (Abramowitz & Stegun 7.1.26, |error| < 1.5e-7)
+ */
+export function normalCdf(x: number): number {
+    const t = 1 / (1 + 0.3275911 * Math.abs(x) / Math.SQRT2);
+    const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+    const erf = 1 - poly * Math.exp(-(x * x) / 2);
+    return x >= 0 ? 0.5 * (1 + erf) : 0.5 * (1 - erf);
+}
+
+/**
+ * P(DS ≥ state | PGA) for one curve
+ */
+export function exceedanceProbability(curve: FragilityCurve, pga: number): number {
+    if (pga <= 0) return 0;
+    return normalCdf(Math.log(pga / curve.median) / curve.beta);
+}
+
+/**
+ * Damage state probabilities of a building for the observed PGA (g)
+ */
+export function assessFragility(building: BuildingProfile, pga: number): FragilityAssessment {
+    const curves = fragilityCurves(building);
+    const exceedance = Object.fromEntries(
+        DAMAGE_STATES.map(state => [state, exceedanceProbability(curves[state], pga)])
+    ) as Record<DamageState, number>;
+
+    const probabilities = {
+        none: 1 - exceedance.slight,
+        slight: exceedance.slight - exceedance.moderate,
+        moderate: exceedance.moderate - exceedance.extensive,
+        extensive: exceedance.extensive - exceedance.complete,
+        complete: exceedance.complete,
+    };
+    const expectedScore = (Object.keys(probabilities) as Array<keyof typeof probabilities>)
+        .reduce((sum, state) => sum + probabilities[state] * STATE_SCORES[state], 0);
+
+    return {
+        designLevel: designLevel(building.yearBuilt),
+        heightClass: heightClass(building.floors),
+        pga,
+        exceedance,
+        probabilities,
+        expectedScore,
+    };
+}
@@ -0,0 +1,129 @@
+/**
+ * SEISMOS Geo Utilities
+ *
+ * Distances between node coordinates in kilometres. Node positions are
+ * WGS84 latitude / longitude in degrees; everything that reasons about
+ * travel times or attenuation needs real distances instead of degrees.
+ */
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Mean Earth radius (km) */
+export const EARTH_RADIUS_KM = 6371.0088;
+
+/** WGS84 ellipsoid: semi-major axis (km) and flattening */
+const WGS84_A_KM = 6378.137;
+const WGS84_F = 1 / 298.257223563;
+const WGS84_B_KM = WGS84_A_KM * (1 - WGS84_F);
+
+/** Vincenty iteration limits; nearly antipodal points may not converge */
+const VINCENTY_TOLERANCE = 1e-12;
+const VINCENTY_MAX_ITERATIONS = 200;
+
+const toRadians = (deg: number) => (deg * Math.PI) / 180;
+
+// ============================================================================
+// DISTANCE
+// ============================================================================
+
+/**
+ * Great-circle distance on a sphere (haversine), accurate to ~0.5%
+ */
+export function haversineKm(lat1: number, lng1: number, lat2: number, lng2: number): number {
+    const dLat = toRadians(lat2 - lat1);
+    const dLng = toRadians(lng2 - lng1);
+    const a = Math.sin(dLat / 2) ** 2 +
+        Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+    return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * Geodesic distance on the WGS84 ellipsoid (Vincenty 1975 inverse
+ * formula), accurate to well under a metre. Falls back to the haversine
+ * distance for nearly antipodal points where the iteration does not
+ * converge.
+ */
+export function geodesicKm(lat1: number, lng1: number, lat2: number, lng2: number): number {
+    if (lat1 === lat2 && lng1 === lng2) return 0;
+
+    const L = toRadians(lng2 - lng1);
+    const U1 = Math.atan((1 - WGS84_F) * Math.tan(toRadians(lat1)));
+    const U2 = Math.atan((1 - WGS84_F) * Math.tan(toRadians(lat2)));
+    const sinU1 = Math.sin(U1), cosU1 = Math.cos(U1);
+    const sinU2 = Math.sin(U2), cosU2 = Math.cos(U2);
+
+    let lambda = L;
+    for (let i = 0; i < VINCENTY_MAX_ITERATIONS; i++) {
+        const sinLambda = Math.sin(lambda), cosLambda = Math.cos(lambda);
+        const sinSigma = Math.sqrt((cosU2 * sinLambda) ** 2 + (cosU1 * sinU2 - sinU1 * cosU2 * cosLambda) ** 2);
+        if (sinSigma === 0) return 0;
+        const cosSigma = sinU1 * sinU2 + cosU1 * cosU2 * cosLambda;
+        const sigma = Math.atan2(sinSigma, cosSigma);
+        const sinAlpha = (cosU1 * cosU2 * sinLambda) / sinSigma;
+        const cos2Alpha = 1 - sinAlpha ** 2;
+        // Both points on the equator: cos²α = 0 and the term vanishes
+        const cos2SigmaM = cos2Alpha !== 0 ? cosSigma - (2 * sinU1 * sinU2) / cos2Alpha : 0;
+        const C = (WGS84_F / 16) * cos2Alpha * (4 + WGS84_F * (4 - 3 * cos2Alpha));
+
+        const previous = lambda;
+        lambda = L + (1 - C) * WGS84_F * sinAlpha *
+            (sigma + C * sinSigma * (cos2SigmaM + C * cosSigma * (-1 + 2 * cos2SigmaM ** 2)));
+
+        if (Math.abs(lambda - previous) < VINCENTY_TOLERANCE) {
+            const u2 = (cos2Alpha * (WGS84_A_KM ** 2 - WGS84_B_KM ** 2)) / WGS84_B_KM ** 2;
+            const A = 1 + (u2 / 16384) * (4096 + u2 * (-768 + u2 * (320 - 175 * u2)));
+            const B = (u2 / 1024) * (256 + u2 * (-128 + u2 * (74 - 47 * u2)));
+            const deltaSigma = B * sinSigma * (cos2SigmaM + (B / 4) * (
+                cosSigma * (-1 + 2 * cos2SigmaM ** 2) -
+                (B / 6) * cos2SigmaM * (-3 + 4 * sinSigma ** 2) * (-3 + 4 * cos2SigmaM ** 2)
+            ));
+            return WGS84_B_KM * A * (sigma - deltaSigma);
+        }
+    }
+    return haversineKm(lat1, lng1, lat2, lng2);
+}
+
+/**
+ * Straight-line distance from a source at depth to a point at the
+ * surface, given the epicentral distance (km)
+ */
+export function hypocentralKm(epicentralKm: number, depthKm: number): number {
+    return Math.sqrt(epicentralKm ** 2 + depthKm ** 2);
+}
+
+// ============================================================================
+// LOCAL PROJECTION
+// ============================================================================
+
+/**
+ * Point on a local tangent plane (km east / north of an origin)
+ */
+export interface LocalPoint {
+    x: number;
+    y: number;
+}
+
+/**
+ * Equirectangular projection around an origin. Exact enough (<0.1%) over
+ * the few kilometres a node network spans, and keeps distances Euclidean
+ * for least-squares work.
+ */
+export function toLocalKm(lat: number, lng: number, originLat: number, originLng: number): LocalPoint {
+    return {
+        x: toRadians(lng - originLng) * Math.cos(toRadians(originLat)) * EARTH_RADIUS_KM,
+        y: toRadians(lat - originLat) * EARTH_RADIUS_KM,
+    };
+}
+
+/**
+ * Inverse of toLocalKm
+ */
+export function fromLocalKm(point: LocalPoint, originLat: number, originLng: number): { lat: number; lng: number } {
+    const toDegrees = (rad: number) => (rad * 180) / Math.PI;
+    return {
+        lat: originLat + toDegrees(point.y / EARTH_RADIUS_KM),
+        lng: originLng + toDegrees(point.x / (EARTH_RADIUS_KM * Math.cos(toRadians(originLat)))),
+    };
+}
@@ -0,0 +1,24 @@
+import type { SensorReading } from '../readings';
+import type { Heartbeat } from './index';
+
+export interface PhysicalFeedHandlers {
+    onReadings: (readings: SensorReading[]) => void;
+    onHeartbeats: (heartbeats: Heartbeat[]) => void;
+}
+
+// Fiziksel node akışına (/api/ingest/stream) bağlan - tarayıcıda çalışır
+// EventSource bağlantı koparsa kendisi yeniden dener
+export function subscribeToPhysicalFeed(handlers: PhysicalFeedHandlers): () => void {
+    if (typeof EventSource === 'undefined') return () => {};
+
+    const source = new EventSource('/api/ingest/stream');
+
+    source.addEventListener('readings', (event) => {
+        handlers.onReadings(JSON.parse((event as MessageEvent<string>).data) as SensorReading[]);
+    });
+    source.addEventListener('heartbeat', (event) => {
+        handlers.onHeartbeats(JSON.parse((event as MessageEvent<string>).data) as Heartbeat[]);
+    });
+
+    return () => source.close();
+}
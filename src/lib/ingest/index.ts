@@ -0,0 +1,270 @@
+/**
+ * SEISMOS Ingestion Hub
+ *
+ * Entry point for physical sensor nodes. Route handlers under
+ * /api/ingest validate batches here; accepted items are fanned out to
+ * every connected dashboard over the /api/ingest/stream event stream,
+ * where they enter the same store pipeline the simulator feeds.
+ * JSON batches and binary NB-IoT uplinks (see ../codec) share one path.
+ *
+ * The hub is server-side, in-memory and single-process: enough for a bench
+ * device on the LAN. Durable storage is the persistence layer's job.
+ */
+
+import { parseWireReading, type ReadingValidation, type SensorReading } from '../readings';
+import { decodeFrames } from '../codec';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Health ping from a field node ("yaşıyorum" paketi)
+ */
+export interface Heartbeat {
+    nodeId: string;
+
+    /** Epoch ms at the node */
+    timestamp: number;
+
+    /** Battery level (0-100), if reported */
+    battery?: number;
+
+    /** Signal strength (dBm), if reported */
+    rssi?: number;
+
+    /** Seconds since boot, if reported */
+    uptimeSec?: number;
+
+    /** Location and name, sent by nodes on first contact so they can be registered */
+    name?: string;
+    lat?: number;
+    lng?: number;
+}
+
+/**
+ * Compact JSON shape of a heartbeat on the wire
+ */
+export interface WireHeartbeat {
+    n: string;
+    t: number;
+    b?: number;
+    r?: number;
+    up?: number;
+    name?: string;
+    lat?: number;
+    lng?: number;
+}
+
+/**
+ * Per-item outcome returned to the device
+ */
+export type IngestItemResult =
+    | { index: number; status: 'accepted'; nodeId: string; sequence?: number }
+    | { index: number; status: 'duplicate'; nodeId: string; sequence: number }
+    | { index: number; status: 'rejected'; errors: string[] };
+
+export interface IngestResponse {
+    accepted: number;
+    rejected: number;
+    duplicates: number;
+    results: IngestItemResult[];
+}
+
+export type IngestEvent =
+    | { type: 'readings'; readings: SensorReading[] }
+    | { type: 'heartbeat'; heartbeats: Heartbeat[] };
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const INGEST_LIMITS = {
+    /** Max items per POST */
+    maxBatchSize: 500,
+
+    /** Max binary uplink body (bytes) */
+    maxUplinkBytes: 32 * 1024,
+} as const;
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+function isFiniteNumber(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value);
+}
+
+export function parseWireHeartbeat(input: unknown):
+    { ok: true; heartbeat: Heartbeat } | { ok: false; errors: string[] } {
+    if (typeof input !== 'object' || input === null) {
+        return { ok: false, errors: ['heartbeat must be an object'] };
+    }
+
+    const wire = input as Partial<WireHeartbeat>;
+    const errors: string[] = [];
+
+    if (typeof wire.n !== 'string' || wire.n.length === 0) errors.push('n (node id) must be a string');
+    if (!isFiniteNumber(wire.t) || wire.t <= 0) errors.push('t must be epoch milliseconds');
+    if (wire.b !== undefined && !(isFiniteNumber(wire.b) && wire.b >= 0 && wire.b <= 100)) {
+        errors.push('b (battery) must be 0-100');
+    }
+    if (wire.r !== undefined && !isFiniteNumber(wire.r)) errors.push('r (rssi) must be a number');
+    if (wire.up !== undefined && !(isFiniteNumber(wire.up) && wire.up >= 0)) errors.push('up must be non-negative');
+    if ((wire.lat === undefined) !== (wire.lng === undefined)) errors.push('lat and lng must be sent together');
+    if (wire.lat !== undefined && !(isFiniteNumber(wire.lat) && Math.abs(wire.lat) <= 90)) errors.push('lat out of range');
+    if (wire.lng !== undefined && !(isFiniteNumber(wire.lng) && Math.abs(wire.lng) <= 180)) errors.push('lng out of range');
+
+    if (errors.length > 0) return { ok: false, errors };
+
+    return {
+        ok: true,
+        heartbeat: {
+            nodeId: wire.n!,
+            timestamp: wire.t!,
+            battery: wire.b,
+            rssi: wire.r,
+            uptimeSec: wire.up,
+            name: wire.name,
+            lat: wire.lat,
+            lng: wire.lng,
+        },
+    };
+}
+
+/**
+ * Pull the item array out of a request body.
+ * Accepts `{ [key]: [...] }`, a bare array, or a single object.
+ */
+export function extractBatch(body: unknown, key: string): unknown[] | null {
+    if (Array.isArray(body)) return body;
+    if (typeof body === 'object' && body !== null) {
+        const items = (body as Record<string, unknown>)[key];
+        if (Array.isArray(items)) return items;
+        if (items === undefined) return [body];
+    }
+    return null;
+}
+
+// ============================================================================
+// HUB
+// ============================================================================
+
+/**
+ * A sequence this far below the last accepted one is a restart (reboot,
+ * or the uint32 counter wrapping), not a replay
+ */
+const SEQUENCE_RESTART_GAP = 1000;
+
+export class IngestionHub {
+    private listeners: Set<(event: IngestEvent) => void> = new Set();
+    private lastSequence: Map<string, number> = new Map();
+    private lastUptime: Map<string, number> = new Map();
+
+    subscribe(listener: (event: IngestEvent) => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    /**
+     * Validate a batch of wire readings, drop replays, fan out the rest
+     */
+    ingestReadings(items: unknown[], now: number = Date.now()): IngestResponse {
+        return this.ingestParsed(items.map(item => parseWireReading(item, now)));
+    }
+
+    /**
+     * Decode a binary uplink (one or more codec frames) and ingest it like a JSON batch
+     */
+    ingestFrames(payload: Uint8Array, now: number = Date.now()): IngestResponse {
+        return this.ingestParsed(decodeFrames(payload, now));
+    }
+
+    private ingestParsed(items: ReadingValidation[]): IngestResponse {
+        const results: IngestItemResult[] = [];
+        const valid: Array<{ index: number; reading: SensorReading }> = [];
+
+        items.forEach((parsed, index) => {
+            if (parsed.ok) valid.push({ index, reading: parsed.reading });
+            else results.push({ index, status: 'rejected', errors: parsed.errors });
+        });
+
+        // Cihaz sırası bozuk gönderebilir - önce zaman sırasına koy, sonra tekrarları ayıkla
+        valid.sort((a, b) => a.reading.timestamp - b.reading.timestamp || a.reading.sequence - b.reading.sequence);
+
+        const accepted: SensorReading[] = [];
+        valid.forEach(({ index, reading }) => {
+            const last = this.lastSequence.get(reading.nodeId);
+            const restarted = last !== undefined && last - reading.sequence > SEQUENCE_RESTART_GAP;
+            if (last !== undefined && reading.sequence <= last && !restarted) {
+                results.push({ index, status: 'duplicate', nodeId: reading.nodeId, sequence: reading.sequence });
+                return;
+            }
+
+            this.lastSequence.set(reading.nodeId, reading.sequence);
+            accepted.push(reading);
+            results.push({ index, status: 'accepted', nodeId: reading.nodeId, sequence: reading.sequence });
+        });
+        results.sort((a, b) => a.index - b.index);
+
+        if (accepted.length > 0) {
+            this.emit({ type: 'readings', readings: accepted });
+        }
+
+        return this.summarize(results);
+    }
+
+    /**
+     * Validate a batch of health pings and fan them out
+     */
+    ingestHeartbeats(items: unknown[]): IngestResponse {
+        const results: IngestItemResult[] = [];
+        const accepted: Heartbeat[] = [];
+
+        items.forEach((item, index) => {
+            const parsed = parseWireHeartbeat(item);
+            if (!parsed.ok) {
+                results.push({ index, status: 'rejected', errors: parsed.errors });
+                return;
+            }
+            const { nodeId, uptimeSec } = parsed.heartbeat;
+            if (uptimeSec !== undefined) {
+                // Çalışma süresi geri gittiyse cihaz yeniden başladı - sıra numarası da sıfırdan başlar
+                const lastUptime = this.lastUptime.get(nodeId);
+                if (lastUptime !== undefined && uptimeSec < lastUptime) this.lastSequence.delete(nodeId);
+                this.lastUptime.set(nodeId, uptimeSec);
+            }
+            accepted.push(parsed.heartbeat);
+            results.push({ index, status: 'accepted', nodeId });
+        });
+
+        if (accepted.length > 0) {
+            this.emit({ type: 'heartbeat', heartbeats: accepted });
+        }
+
+        return this.summarize(results);
+    }
+
+    private emit(event: IngestEvent): void {
+        this.listeners.forEach(listener => listener(event));
+    }
+
+    private summarize(results: IngestItemResult[]): IngestResponse {
+        return {
+            accepted: results.filter(r => r.status === 'accepted').length,
+            rejected: results.filter(r => r.status === 'rejected').length,
+            duplicates: results.filter(r => r.status === 'duplicate').length,
+            results,
+        };
+    }
+}
+
+// ============================================================================
+// SINGLETON INSTANCE
+// ============================================================================
+
+// Dev modunda HMR modülü yeniden yükler - hub'ı global'de tut ki stream bağlantıları kopmasın
+const globalForHub = globalThis as unknown as { seismosIngestionHub?: IngestionHub };
+
+export const ingestionHub = globalForHub.seismosIngestionHub ?? new IngestionHub();
+globalForHub.seismosIngestionHub = ingestionHub;
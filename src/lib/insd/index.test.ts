@@ -0,0 +1,193 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Node } from '../supabase/types';
+import { STANDARD_GRAVITY, type SensorReading } from '../readings';
+import { InsdEngine } from './index';
+
+const NOW = Date.UTC(2026, 9, 19, 12, 0, 0);
+
+/** About 55 m north of the target per step, well inside the 150 m radius */
+const NEIGHBOR_STEP_DEG = 0.0005;
+
+function node(id: string, lat: number, lng: number): Node {
+    return { id, name: id, status: 'stable', lat, lng, is_physical: false };
+}
+
+function reading(nodeId: string, magnitude: number, overrides: Partial<SensorReading> = {}): SensorReading {
+    return {
+        nodeId,
+        sequence: 0,
+        timestamp: NOW,
+        sampleRateHz: 20,
+        units: 'g',
+        orientation: 'building',
+        accelX: 0,
+        accelY: 0,
+        accelZ: magnitude,
+        magnitude,
+        features: { dominantFrequency: 4.5, fftSpectrum: [] },
+        ...overrides,
+    };
+}
+
+/**
+ * Target building `target` with three neighbours and one building 1 km
+ * away; every node but the target sent its last heartbeat at `now`
+ */
+function neighbourhood(targetSilentForMs: number, now: number = NOW) {
+    const nodes = new Map<string, Node>([
+        ['target', node('target', 41.03, 28.95)],
+        ['n1', node('n1', 41.03 + NEIGHBOR_STEP_DEG, 28.95)],
+        ['n2', node('n2', 41.03 - NEIGHBOR_STEP_DEG, 28.95)],
+        ['n3', node('n3', 41.03, 28.95 + NEIGHBOR_STEP_DEG)],
+        ['far', node('far', 41.039, 28.95)],
+    ]);
+    const lastHeartbeat = new Map<string, number>(Array.from(nodes.keys(), id => [id, now]));
+    lastHeartbeat.set('target', now - targetSilentForMs);
+    return { nodes, lastHeartbeat, target: nodes.get('target')! };
+}
+
+/** Feed one reading per node and receive time (200 ms ticks) */
+function feed(engine: InsdEngine, nodeIds: string[], from: number, to: number, magnitude: (t: number) => number, frequency: (t: number) => number = () => 4.5): void {
+    for (let t = from; t <= to; t += 200) {
+        engine.observe(nodeIds.map(id => reading(id, magnitude(t), {
+            timestamp: t,
+            features: { dominantFrequency: frequency(t), fftSpectrum: [] },
+        })), t);
+    }
+}
+
+describe('heartbeat gate', () => {
+    it('never infers collapse for a node that is still talking', () => {
+        const engine = new InsdEngine();
+        const { nodes, lastHeartbeat, target } = neighbourhood(0);
+        feed(engine, ['n1', 'n2', 'n3', 'far'], NOW - 5000, NOW, () => 0.5);
+
+        const inference = engine.evaluate(target, nodes, lastHeartbeat, NOW);
+        assert.equal(inference.channels.eventGap, 1);
+        assert.equal(inference.channels.heartbeat, 0);
+        assert.equal(inference.probability, 0);
+        assert.equal(inference.isCollapse, false);
+    });
+
+    it('ramps the heartbeat channel from the silence threshold to full silence', () => {
+        const engine = new InsdEngine();
+        const scoreAfter = (silentForMs: number) => {
+            const { nodes, lastHeartbeat, target } = neighbourhood(silentForMs);
+            return engine.evaluate(target, nodes, lastHeartbeat, NOW).channels.heartbeat;
+        };
+        assert.equal(scoreAfter(1000), 0);
+        assert.equal(scoreAfter(2000), 0.5);
+        assert.equal(scoreAfter(3000), 1);
+        assert.equal(scoreAfter(60000), 1);
+    });
+
+    it('does not promote on heartbeat loss alone', () => {
+        const engine = new InsdEngine();
+        const { nodes, lastHeartbeat, target } = neighbourhood(10000);
+        feed(engine, ['n1', 'n2', 'n3'], NOW - 5000, NOW, () => 0.02);
+
+        const inference = engine.evaluate(target, nodes, lastHeartbeat, NOW);
+        assert.equal(inference.probability, 0.35);
+        assert.equal(inference.isCollapse, false);
+    });
+});
+
+describe('event gap channel', () => {
+    it('reaches the collapse threshold with heartbeat loss and a full event gap', () => {
+        const engine = new InsdEngine();
+        const { nodes, lastHeartbeat, target } = neighbourhood(3000);
+        feed(engine, ['n1', 'n2', 'n3'], NOW - 5000, NOW, () => 0.5);
+
+        const inference = engine.evaluate(target, nodes, lastHeartbeat, NOW);
+        assert.equal(inference.channels.eventGap, 1);
+        assert.ok(Math.abs(inference.probability - 0.75) < 1e-9, `${inference.probability}`);
+        assert.ok(inference.probability >= 0.6);
+        assert.equal(inference.isCollapse, true);
+        assert.deepEqual(inference.shakingNeighbors.sort(), ['n1', 'n2', 'n3']);
+    });
+
+    it('scales with the number of shaking witnesses', () => {
+        const engine = new InsdEngine();
+        const { nodes, lastHeartbeat, target } = neighbourhood(3000);
+        feed(engine, ['n1'], NOW - 5000, NOW, () => 0.5);
+        feed(engine, ['n2', 'n3'], NOW - 5000, NOW, () => 0.02);
+
+        const inference = engine.evaluate(target, nodes, lastHeartbeat, NOW);
+        assert.ok(Math.abs(inference.channels.eventGap - 1 / 3) < 1e-9);
+        assert.equal(inference.isCollapse, false);
+    });
+
+    it('ignores buildings outside the radius and silent neighbours', () => {
+        const engine = new InsdEngine();
+        const { nodes, lastHeartbeat, target } = neighbourhood(3000);
+        feed(engine, ['n1', 'n2', 'far'], NOW - 5000, NOW, () => 0.5);
+        lastHeartbeat.set('n2', NOW - 5000);
+
+        const inference = engine.evaluate(target, nodes, lastHeartbeat, NOW);
+        assert.deepEqual(inference.shakingNeighbors, ['n1']);
+    });
+
+    it('forgets shaking older than the event window', () => {
+        const engine = new InsdEngine();
+        const { nodes, lastHeartbeat, target } = neighbourhood(3000);
+        feed(engine, ['n1', 'n2', 'n3'], NOW - 14000, NOW - 11000, () => 0.5);
+        feed(engine, ['n1', 'n2', 'n3'], NOW - 10800, NOW, () => 0.02);
+
+        assert.equal(engine.evaluate(target, nodes, lastHeartbeat, NOW).channels.eventGap, 0);
+    });
+
+    it('compares magnitudes in g whatever units the sensor sends', () => {
+        const engine = new InsdEngine();
+        const { nodes, lastHeartbeat, target } = neighbourhood(3000);
+        const inMs2 = (id: string, g: number) => reading(id, g * STANDARD_GRAVITY, { units: 'm/s2' });
+        // 0.5 g shaking in n1, 0.05 g (0.49 m/s²) ambient in n2 and n3
+        engine.observe([inMs2('n1', 0.5), inMs2('n2', 0.05), inMs2('n3', 0.05)], NOW);
+
+        assert.deepEqual(engine.evaluate(target, nodes, lastHeartbeat, NOW).shakingNeighbors, ['n1']);
+    });
+
+    it('times readings by receipt, not by the sensor clock', () => {
+        const engine = new InsdEngine();
+        const { nodes, lastHeartbeat, target } = neighbourhood(3000);
+        // Sensor clocks an hour behind the receiver
+        engine.observe(['n1', 'n2', 'n3'].map(id => reading(id, 0.5, { timestamp: NOW - 3_600_000 })), NOW);
+
+        assert.equal(engine.evaluate(target, nodes, lastHeartbeat, NOW).channels.eventGap, 1);
+    });
+});
+
+describe('neighbourhood anomaly channel', () => {
+    it('counts an amplitude jump right after the target fell silent', () => {
+        const engine = new InsdEngine();
+        const onset = NOW - 3000;
+        const { nodes, lastHeartbeat, target } = neighbourhood(3000);
+        // Below the shaking threshold, so only the load release testifies
+        feed(engine, ['n1', 'n2', 'n3'], onset - 1000, onset + 1000, t => (t < onset ? 0.05 : 0.1));
+
+        const inference = engine.evaluate(target, nodes, lastHeartbeat, NOW);
+        assert.equal(inference.channels.eventGap, 0);
+        assert.equal(inference.channels.neighborhood, 1);
+        assert.ok(Math.abs(inference.probability - 0.6) < 1e-9, `${inference.probability}`);
+        assert.deepEqual(inference.witnesses.sort(), ['n1', 'n2', 'n3']);
+    });
+
+    it('counts a dominant frequency drop', () => {
+        const engine = new InsdEngine();
+        const onset = NOW - 3000;
+        const { nodes, lastHeartbeat, target } = neighbourhood(3000);
+        feed(engine, ['n1', 'n2'], onset - 1000, onset + 1000, () => 0.05, t => (t < onset ? 4.5 : 3.6));
+        feed(engine, ['n3'], onset - 1000, onset + 1000, () => 0.05);
+
+        assert.deepEqual(engine.evaluate(target, nodes, lastHeartbeat, NOW).anomalousNeighbors.sort(), ['n1', 'n2']);
+    });
+
+    it('ignores steady neighbours', () => {
+        const engine = new InsdEngine();
+        const onset = NOW - 3000;
+        const { nodes, lastHeartbeat, target } = neighbourhood(3000);
+        feed(engine, ['n1', 'n2', 'n3'], onset - 1000, onset + 1000, () => 0.05);
+
+        assert.equal(engine.evaluate(target, nodes, lastHeartbeat, NOW).channels.neighborhood, 0);
+    });
+});
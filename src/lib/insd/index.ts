@@ -0,0 +1,333 @@
+/**
+ * SEISMOS Implicit Node Silence Detection (INSD)
+ *
+ * Infers that a building has collapsed when its node goes quiet, using
+ * indirect evidence from the neighbourhood instead of the node itself.
+ *
+ * Three channels (from the design doc):
+ * 1. Event correlation gap - neighbours report strong shaking, this node reports nothing
+ * 2. Heartbeat loss        - no health ping for longer than the silence threshold
+ * 3. Neighbourhood anomaly - adjacent buildings see a sudden load release
+ *                            (amplitude jump / frequency drop) when the node goes quiet
+ *
+ * Each channel is scored 0-1 on its own and the scores are fused into a
+ * probability of collapse. Heartbeat loss gates the fusion: a node that is
+ * still talking is never inferred as collapsed.
+ */
+
+import type { Node } from '../supabase/types';
+import { toG, type SensorReading } from '../readings';
+import { haversineKm } from '../geo';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface InsdChannelScores {
+    /** Channel 1: share of required neighbours that felt the event (0-1) */
+    eventGap: number;
+
+    /** Channel 2: heartbeat silence, ramps from threshold to full silence (0-1) */
+    heartbeat: number;
+
+    /** Channel 3: share of required neighbours showing a load-release anomaly (0-1) */
+    neighborhood: number;
+}
+
+/**
+ * INSD verdict for a single silent node, stored as consensus evidence
+ */
+export interface InsdInference {
+    nodeId: string;
+
+    /** Fused probability of collapse (0-1) */
+    probability: number;
+
+    /** Whether probability passed the promotion threshold */
+    isCollapse: boolean;
+
+    /** Per-channel scores (before weighting) */
+    channels: InsdChannelScores;
+
+    /** Weighted contribution of each channel to the probability */
+    contributions: InsdChannelScores;
+
+    /** Live neighbours that reported strong shaking */
+    shakingNeighbors: string[];
+
+    /** Live neighbours that saw a load-release anomaly */
+    anomalousNeighbors: string[];
+
+    /** All live neighbours that testified (union of the above) */
+    witnesses: string[];
+
+    /** How long the node has been silent (ms) */
+    silentForMs: number;
+
+    evaluatedAt: number;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export interface InsdConfig {
+    /** Neighbour search radius (km, great-circle) */
+    neighborRadiusKm: number;
+
+    /** N: neighbours needed for a channel to reach full score */
+    minWitnesses: number;
+
+    /** No data for this long = silent (ms) */
+    silenceThresholdMs: number;
+
+    /** Silence at which the heartbeat channel reaches 1 (ms) */
+    fullSilenceMs: number;
+
+    /** How far back a neighbour's shaking still counts as "felt the event" (ms) */
+    eventWindowMs: number;
+
+    /** Magnitude a neighbour must exceed to count as shaking (g) */
+    eventMagnitudeThreshold: number;
+
+    /** Window before / after silence onset compared for load release (ms) */
+    anomalyWindowMs: number;
+
+    /** Post/pre mean magnitude ratio that counts as a load release */
+    loadReleaseRatio: number;
+
+    /** Relative dominant frequency drop that counts as a load release */
+    frequencyDropRatio: number;
+
+    /** Fusion weights (sum to 1) */
+    weights: InsdChannelScores;
+
+    /** Probability needed to promote a node to collapse_inferred */
+    collapseThreshold: number;
+
+    /** Per-node history kept for the anomaly channel (ms) */
+    historyMs: number;
+}
+
+/**
+ * Defaults
+ *
+ * Weights: event gap carries the most (it is the first suspicion flag),
+ * heartbeat next, neighbourhood anomaly last because it is the noisiest.
+ * With threshold 0.6, heartbeat + full event gap (0.75) promotes on its own,
+ * heartbeat + full anomaly (0.6) just does, anything without heartbeat never does.
+ */
+export const DEFAULT_INSD_CONFIG: InsdConfig = {
+    neighborRadiusKm: 0.15,
+    minWitnesses: 3,
+    silenceThresholdMs: 1000,
+    fullSilenceMs: 3000,
+    eventWindowMs: 10000,
+    eventMagnitudeThreshold: 0.2,
+    anomalyWindowMs: 1000,
+    loadReleaseRatio: 1.6,
+    frequencyDropRatio: 0.15,
+    weights: {
+        eventGap: 0.4,
+        heartbeat: 0.35,
+        neighborhood: 0.25,
+    },
+    collapseThreshold: 0.6,
+    historyMs: 15000,
+};
+
+// ============================================================================
+// INSD ENGINE
+// ============================================================================
+
+interface HistoryEntry {
+    /** Receive time, on the same clock as the heartbeats */
+    receivedAt: number;
+
+    /** Sensor timestamp, only to recognise re-emitted readings */
+    timestamp: number;
+
+    magnitude: number;
+    frequency: number | null;
+}
+
+function clamp01(value: number): number {
+    return Math.max(0, Math.min(1, value));
+}
+
+function mean(values: number[]): number {
+    return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+export class InsdEngine {
+    readonly config: InsdConfig;
+    private history: Map<string, HistoryEntry[]> = new Map();
+
+    constructor(config: Partial<InsdConfig> = {}) {
+        this.config = { ...DEFAULT_INSD_CONFIG, ...config };
+    }
+
+    /**
+     * Record the latest readings (feeds channels 1 and 3). `receivedAt` must
+     * come from the clock the heartbeats are stamped with, since the windows
+     * are compared against silence onset and `now`
+     */
+    observe(readings: Iterable<SensorReading>, receivedAt: number = Date.now()): void {
+        for (const reading of readings) {
+            const nodeId = reading.nodeId;
+            if (!this.history.has(nodeId)) {
+                this.history.set(nodeId, []);
+            }
+            const entries = this.history.get(nodeId)!;
+
+            // Same reading re-emitted (idle tick during an event) - skip
+            const last = entries[entries.length - 1];
+            if (last && last.timestamp === reading.timestamp) continue;
+
+            entries.push({
+                receivedAt,
+                timestamp: reading.timestamp,
+                // Thresholds are in g; readings sent in m/s² are scaled first
+                magnitude: toG(reading).magnitude,
+                frequency: reading.features?.dominantFrequency ?? null,
+            });
+
+            const cutoff = receivedAt - this.config.historyMs;
+            while (entries.length > 0 && entries[0].receivedAt < cutoff) {
+                entries.shift();
+            }
+        }
+    }
+
+    isSilent(lastSeen: number, now: number): boolean {
+        return now - lastSeen > this.config.silenceThresholdMs;
+    }
+
+    /**
+     * Score all three channels for one node and fuse them
+     */
+    evaluate(
+        node: Node,
+        nodes: Map<string, Node>,
+        lastHeartbeat: Map<string, number>,
+        now: number = Date.now()
+    ): InsdInference {
+        const { config } = this;
+        const lastSeen = lastHeartbeat.get(node.id) ?? 0;
+        const silentForMs = now - lastSeen;
+
+        const liveNeighbors = this.findLiveNeighbors(node, nodes, lastHeartbeat, now);
+
+        // Channel 1: neighbours felt an event the node did not report
+        const shakingNeighbors = liveNeighbors.filter(id => this.feltEvent(id, now));
+        const nodeReportedEvent = this.feltEvent(node.id, now) && !this.isSilent(lastSeen, now);
+        const eventGap = nodeReportedEvent
+            ? 0
+            : clamp01(shakingNeighbors.length / config.minWitnesses);
+
+        // Channel 2: heartbeat loss
+        const heartbeat = silentForMs <= config.silenceThresholdMs
+            ? 0
+            : clamp01((silentForMs - config.silenceThresholdMs) / (config.fullSilenceMs - config.silenceThresholdMs));
+
+        // Channel 3: load release seen by neighbours around silence onset
+        const anomalousNeighbors = heartbeat > 0
+            ? liveNeighbors.filter(id => this.sawLoadRelease(id, lastSeen))
+            : [];
+        const neighborhood = clamp01(anomalousNeighbors.length / config.minWitnesses);
+
+        const channels: InsdChannelScores = { eventGap, heartbeat, neighborhood };
+        const contributions: InsdChannelScores = {
+            eventGap: eventGap * config.weights.eventGap,
+            heartbeat: heartbeat * config.weights.heartbeat,
+            neighborhood: neighborhood * config.weights.neighborhood,
+        };
+
+        // Heartbeat gates everything: a talking node has not collapsed
+        const probability = heartbeat > 0
+            ? clamp01(contributions.eventGap + contributions.heartbeat + contributions.neighborhood)
+            : 0;
+
+        return {
+            nodeId: node.id,
+            probability,
+            isCollapse: probability >= config.collapseThreshold,
+            channels,
+            contributions,
+            shakingNeighbors,
+            anomalousNeighbors,
+            witnesses: Array.from(new Set([...shakingNeighbors, ...anomalousNeighbors])),
+            silentForMs,
+            evaluatedAt: now,
+        };
+    }
+
+    private findLiveNeighbors(
+        node: Node,
+        nodes: Map<string, Node>,
+        lastHeartbeat: Map<string, number>,
+        now: number
+    ): string[] {
+        const neighbors: string[] = [];
+        nodes.forEach((neighbor, neighborId) => {
+            if (neighborId === node.id) return;
+            // Ölüler tanıklık edemez
+            if (this.isSilent(lastHeartbeat.get(neighborId) ?? 0, now)) return;
+
+            const dist = haversineKm(node.lat, node.lng, neighbor.lat, neighbor.lng);
+            if (dist < this.config.neighborRadiusKm) {
+                neighbors.push(neighborId);
+            }
+        });
+        return neighbors;
+    }
+
+    /**
+     * Did this node report strong shaking within the event window?
+     */
+    private feltEvent(nodeId: string, now: number): boolean {
+        const entries = this.history.get(nodeId);
+        if (!entries) return false;
+        const cutoff = now - this.config.eventWindowMs;
+        return entries.some(e => e.receivedAt >= cutoff && e.magnitude >= this.config.eventMagnitudeThreshold);
+    }
+
+    /**
+     * Did this neighbour's vibration signature change abruptly right after `onset`?
+     * Sudden amplitude jump or dominant frequency drop = load redistribution.
+     */
+    private sawLoadRelease(nodeId: string, onset: number): boolean {
+        const entries = this.history.get(nodeId);
+        if (!entries || onset <= 0) return false;
+
+        const span = this.config.anomalyWindowMs;
+        const before = entries.filter(e => e.receivedAt >= onset - span && e.receivedAt < onset);
+        const after = entries.filter(e => e.receivedAt >= onset && e.receivedAt <= onset + span);
+        if (before.length === 0 || after.length === 0) return false;
+
+        const magBefore = mean(before.map(e => e.magnitude));
+        const magAfter = mean(after.map(e => e.magnitude));
+        if (magBefore > 0 && magAfter / magBefore >= this.config.loadReleaseRatio) {
+            return true;
+        }
+
+        const freqBefore = mean(before.flatMap(e => e.frequency !== null ? [e.frequency] : []));
+        const freqAfter = mean(after.flatMap(e => e.frequency !== null ? [e.frequency] : []));
+        return freqBefore > 0 && freqAfter > 0 &&
+            (freqBefore - freqAfter) / freqBefore >= this.config.frequencyDropRatio;
+    }
+
+    reset(nodeId?: string): void {
+        if (nodeId) {
+            this.history.delete(nodeId);
+        } else {
+            this.history.clear();
+        }
+    }
+}
+
+// ============================================================================
+// SINGLETON INSTANCE
+// ============================================================================
+
+export const insdEngine = new InsdEngine();
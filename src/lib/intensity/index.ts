@@ -0,0 +1,301 @@
+/**
+ * SEISMOS Intensity Measures
+ *
+ * Standard ground-motion intensity measures computed from a node's
+ * acceleration record, so damage scoring rests on quantities engineers
+ * already use instead of raw vector magnitude.
+ *
+ * Measures (horizontal = larger of the two horizontal axes unless noted):
+ * - PGA  - peak ground acceleration per axis (g)
+ * - PGV  - peak ground velocity (cm/s), integrated with baseline correction
+ * - PGD  - peak ground displacement (cm), integrated with baseline correction
+ * - Ia   - Arias intensity, sum of both horizontals (m/s)
+ * - CAV  - cumulative absolute velocity (g·s)
+ * - Bracketed duration - first to last exceedance of a threshold (s)
+ * - PSA  - 5%-damped pseudo-spectral acceleration at the building's
+ *          baseline period (g), i.e. the demand on its first mode
+ *
+ * Algorithm:
+ * - Rolling per-node buffer per axis (reset when the sample rate changes)
+ * - Each axis is demeaned first so gravity and tilt offsets drop out
+ * - Velocity/displacement: demean → integrate → detrend → integrate → detrend
+ * - PSA: linear SDOF oscillator integrated with Newmark's average
+ *   acceleration method (unconditionally stable), PSA = ω² · max|u|
+ */
+
+import { cumulativeTrapezoid, removeLinearTrend } from '../dsp';
+import { STANDARD_GRAVITY } from '../readings';
+import type { VibrationSample } from '../damage-score';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type Axis = 'x' | 'y' | 'z';
+
+/**
+ * Uniformly sampled three-axis acceleration record (g)
+ */
+export interface AccelerationRecord {
+    x: number[];
+    y: number[];
+    z: number[];
+    sampleRateHz: number;
+}
+
+export interface IntensityMeasures {
+    /** Peak absolute acceleration per axis (g) */
+    pgaAxes: Record<Axis, number>;
+
+    /** Peak ground acceleration, larger horizontal (g) */
+    pga: number;
+
+    /** Peak ground velocity, larger horizontal (cm/s) */
+    pgv: number;
+
+    /** Peak ground displacement, larger horizontal (cm) */
+    pgd: number;
+
+    /** Arias intensity, sum of horizontals (m/s) */
+    ariasIntensity: number;
+
+    /** Cumulative absolute velocity, larger horizontal (g·s) */
+    cav: number;
+
+    /** Time between first and last threshold exceedance on any horizontal (s) */
+    bracketedDuration: number;
+
+    /** Pseudo-spectral acceleration at `spectralPeriod`, larger horizontal (g) */
+    spectralAcceleration: number;
+
+    /** Oscillator period used for the spectral ordinate (s) */
+    spectralPeriod: number;
+
+    /** Length of the record the measures were computed over (s) */
+    recordDuration: number;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export interface IntensityConfig {
+    /** Horizontal axes (both orientations keep z vertical) */
+    horizontalAxes: Axis[];
+
+    /** Threshold for bracketed duration (g), 0.05 g is the customary value */
+    bracketThresholdG: number;
+
+    /** Oscillator damping ratio for PSA (fraction of critical) */
+    damping: number;
+
+    /** Rolling record length per node (s) */
+    bufferSeconds: number;
+
+    /** Minimum record length before measures are reported (samples) */
+    minSamples: number;
+
+    /** Sampling rate used when samples do not carry their own (Hz) */
+    sampleRateHz: number;
+}
+
+const DEFAULT_CONFIG: IntensityConfig = {
+    horizontalAxes: ['x', 'y'],
+    bracketThresholdG: 0.05,
+    damping: 0.05,
+    bufferSeconds: 30,
+    minSamples: 16,
+    sampleRateHz: 20,
+};
+
+// ============================================================================
+// MEASURES
+// ============================================================================
+
+function demean(series: number[]): number[] {
+    const mean = series.reduce((a, b) => a + b, 0) / Math.max(1, series.length);
+    return series.map(v => v - mean);
+}
+
+function peakAbs(series: number[]): number {
+    let peak = 0;
+    for (const v of series) peak = Math.max(peak, Math.abs(v));
+    return peak;
+}
+
+/**
+ * Velocity (m/s) and displacement (m) from acceleration (g) with a simple
+ * baseline correction at every stage
+ */
+export function integrateMotion(accelG: number[], dt: number): { velocity: number[]; displacement: number[] } {
+    const accel = demean(accelG).map(a => a * STANDARD_GRAVITY);
+    const velocity = removeLinearTrend(cumulativeTrapezoid(accel, dt));
+    const displacement = removeLinearTrend(cumulativeTrapezoid(velocity, dt));
+    return { velocity, displacement };
+}
+
+/**
+ * 5%-damped (by default) pseudo-spectral acceleration of a linear SDOF
+ * oscillator with period `periodS` under base acceleration `accelG` (g).
+ * Newmark average acceleration (γ = 1/2, β = 1/4), unit mass.
+ */
+export function pseudoSpectralAcceleration(
+    accelG: number[],
+    dt: number,
+    periodS: number,
+    damping: number = DEFAULT_CONFIG.damping
+): number {
+    if (accelG.length < 2 || periodS <= 0) return 0;
+
+    const omega = (2 * Math.PI) / periodS;
+    const k = omega * omega;
+    const c = 2 * damping * omega;
+    const gamma = 0.5;
+    const beta = 0.25;
+
+    const kHat = k + (gamma / (beta * dt)) * c + 1 / (beta * dt * dt);
+    const a1 = 1 / (beta * dt) + (gamma / beta) * c;
+    const b1 = 1 / (2 * beta) + dt * (gamma / (2 * beta) - 1) * c;
+
+    // Effective load p = -ag; units stay in g (the system is linear)
+    let u = 0;
+    let v = 0;
+    let a = -accelG[0];
+    let peak = 0;
+
+    for (let i = 0; i < accelG.length - 1; i++) {
+        const dp = -(accelG[i + 1] - accelG[i]);
+        const du = (dp + a1 * v + b1 * a) / kHat;
+        const dv = (gamma / (beta * dt)) * du - (gamma / beta) * v + dt * (1 - gamma / (2 * beta)) * a;
+        const da = du / (beta * dt * dt) - v / (beta * dt) - a / (2 * beta);
+        u += du;
+        v += dv;
+        a += da;
+        peak = Math.max(peak, Math.abs(u));
+    }
+
+    return k * peak;
+}
+
+/**
+ * Compute every measure for one record
+ */
+export function computeIntensityMeasures(
+    record: AccelerationRecord,
+    periodS: number,
+    config: Partial<IntensityConfig> = {}
+): IntensityMeasures {
+    const { horizontalAxes, bracketThresholdG, damping } = { ...DEFAULT_CONFIG, ...config };
+    const dt = 1 / record.sampleRateHz;
+    const length = Math.max(record.x.length, record.y.length, record.z.length);
+
+    // Static offset (gravity, mounting tilt) is not ground motion
+    const motion: Record<Axis, number[]> = { x: demean(record.x), y: demean(record.y), z: demean(record.z) };
+    const pgaAxes = { x: peakAbs(motion.x), y: peakAbs(motion.y), z: peakAbs(motion.z) };
+
+    let pgv = 0;
+    let pgd = 0;
+    let ariasIntensity = 0;
+    let cav = 0;
+    let spectralAcceleration = 0;
+    let firstExceedance = Infinity;
+    let lastExceedance = -Infinity;
+
+    for (const axis of horizontalAxes) {
+        const accel = motion[axis];
+        if (accel.length < 2) continue;
+
+        const { velocity, displacement } = integrateMotion(accel, dt);
+        pgv = Math.max(pgv, peakAbs(velocity) * 100);
+        pgd = Math.max(pgd, peakAbs(displacement) * 100);
+
+        // Ia = π / (2g) ∫ a² dt, with a in m/s²  →  π g / 2 ∫ a_g² dt
+        const squared = cumulativeTrapezoid(accel.map(v => v * v), dt);
+        ariasIntensity += (Math.PI * STANDARD_GRAVITY / 2) * squared[squared.length - 1];
+
+        const absolute = cumulativeTrapezoid(accel.map(Math.abs), dt);
+        cav = Math.max(cav, absolute[absolute.length - 1]);
+
+        accel.forEach((v, i) => {
+            if (Math.abs(v) >= bracketThresholdG) {
+                firstExceedance = Math.min(firstExceedance, i);
+                lastExceedance = Math.max(lastExceedance, i);
+            }
+        });
+
+        spectralAcceleration = Math.max(spectralAcceleration, pseudoSpectralAcceleration(accel, dt, periodS, damping));
+    }
+
+    return {
+        pgaAxes,
+        pga: Math.max(...horizontalAxes.map(axis => pgaAxes[axis])),
+        pgv,
+        pgd,
+        ariasIntensity,
+        cav,
+        bracketedDuration: lastExceedance >= firstExceedance ? (lastExceedance - firstExceedance) * dt : 0,
+        spectralAcceleration,
+        spectralPeriod: periodS,
+        recordDuration: length * dt,
+    };
+}
+
+// ============================================================================
+// INTENSITY TRACKER
+// ============================================================================
+
+/**
+ * Keeps a rolling acceleration record per node and computes measures on demand
+ */
+export class IntensityTracker {
+    private readonly config: IntensityConfig;
+    private records: Map<string, AccelerationRecord> = new Map();
+
+    constructor(config: Partial<IntensityConfig> = {}) {
+        this.config = { ...DEFAULT_CONFIG, ...config };
+    }
+
+    push(nodeId: string, sample: VibrationSample): void {
+        // A rate change breaks uniform sampling - start a new record
+        const rate = sample.sampleRateHz ?? this.config.sampleRateHz;
+        let record = this.records.get(nodeId);
+        if (!record || record.sampleRateHz !== rate) {
+            record = { x: [], y: [], z: [], sampleRateHz: rate };
+            this.records.set(nodeId, record);
+        }
+
+        record.x.push(sample.accelX);
+        record.y.push(sample.accelY);
+        record.z.push(sample.accelZ);
+
+        const maxSamples = Math.ceil(this.config.bufferSeconds * rate);
+        if (record.x.length > maxSamples) {
+            record.x.shift();
+            record.y.shift();
+            record.z.shift();
+        }
+    }
+
+    /**
+     * Measures over the buffered record, or null until enough samples arrived
+     */
+    compute(nodeId: string, periodS: number): IntensityMeasures | null {
+        const record = this.records.get(nodeId);
+        if (!record || record.x.length < this.config.minSamples) return null;
+        return computeIntensityMeasures(record, periodS, this.config);
+    }
+
+    reset(nodeId?: string): void {
+        if (nodeId) {
+            this.records.delete(nodeId);
+        } else {
+            this.records.clear();
+        }
+    }
+}
+
+// ============================================================================
+// SINGLETON INSTANCE
+// ============================================================================
+
+export const intensityTracker = new IntensityTracker();
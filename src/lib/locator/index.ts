@@ -0,0 +1,354 @@
+/**
+ * SEISMOS Event Locator
+ *
+ * Estimates where and when an event started from the onset times the
+ * network picked. The simulator (or the real earth) knows the epicenter;
+ * the dashboard only knows which node started shaking when.
+ *
+ * Physical Rationale:
+ * - In a homogeneous medium the wave reaches node i at
+ *   t_i = t0 + √((x - x_i)² + (y - y_i)² + h²) / v
+ * - Four or more onsets over-determine (x, y, t0); the misfit tells how
+ *   much the picks and the velocity model can be trusted
+ * - Nodes spread around the source constrain it well; a source outside
+ *   the network is poorly constrained along the line away from it, which
+ *   shows up as an elongated error ellipse
+ *
+ * Algorithm:
+ * - Project nodes onto a local km plane around their centroid
+ * - Grid search: for each grid point t0 is the mean of (t_i - tt_i)
+ *   (the L2-optimal origin time), keep the point with the lowest RMS
+ * - Geiger refinement: damped Gauss-Newton on (x, y, t0) from the best
+ *   grid point
+ * - Covariance σ²(GᵀG)⁻¹ with σ from the residuals (floored at the pick
+ *   uncertainty); its horizontal block gives the confidence ellipse
+ */
+
+import { fromLocalKm, toLocalKm, type LocalPoint } from '../geo';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Onset time at a node position (an AssociatedPick satisfies this)
+ */
+export interface ArrivalPick {
+    nodeId: string;
+    lat: number;
+    lng: number;
+
+    /** Onset time (epoch ms) */
+    onsetTime: number;
+}
+
+/**
+ * Horizontal confidence ellipse
+ */
+export interface ErrorEllipse {
+    semiMajorKm: number;
+    semiMinorKm: number;
+
+    /** Direction of the major axis, degrees clockwise from north (0-180) */
+    azimuthDeg: number;
+}
+
+export interface EventLocation {
+    lat: number;
+    lng: number;
+
+    /** Estimated origin time (epoch ms) */
+    originTime: number;
+
+    /** Fixed source depth used by the model (km) */
+    depthKm: number;
+
+    /** RMS of the travel-time residuals (s) */
+    rmsResidual: number;
+
+    /** Observed minus predicted onset per node (s) */
+    residuals: Array<{ nodeId: string; residual: number }>;
+
+    ellipse: ErrorEllipse;
+
+    stationCount: number;
+
+    /** Gauss-Newton iterations run after the grid search */
+    iterations: number;
+
+    /** Whether the refinement step fell below the convergence threshold */
+    converged: boolean;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export interface LocatorConfig {
+    /**
+     * Homogeneous wave velocity (km/s). Urban nodes on soft ground pick the
+     * slow shear / surface arrival, not the P wave.
+     */
+    velocityKmS: number;
+
+    /** Source depth held fixed - a small network cannot resolve it (km) */
+    depthKm: number;
+
+    /** Onsets needed: three unknowns plus one degree of freedom */
+    minStations: number;
+
+    /** Grid extends this far beyond the nodes (km) */
+    gridMarginKm: number;
+
+    /** Grid spacing (km) */
+    gridStepKm: number;
+
+    maxIterations: number;
+
+    /** Refinement stops when the horizontal step is smaller (km) */
+    convergenceKm: number;
+
+    /** Floor on the residual σ (s) - pick timing is never exact */
+    pickUncertaintySeconds: number;
+
+    /** Ellipse scale: √χ²(2 dof), 2.4477 → 95% confidence */
+    confidenceScale: number;
+}
+
+const DEFAULT_CONFIG: LocatorConfig = {
+    velocityKmS: 1.0,
+    depthKm: 0,
+    minStations: 4,
+    gridMarginKm: 1,
+    gridStepKm: 0.05,
+    maxIterations: 10,
+    convergenceKm: 0.001,
+    pickUncertaintySeconds: 0.05,
+    confidenceScale: 2.4477,
+};
+
+// ============================================================================
+// LINEAR ALGEBRA (3x3)
+// ============================================================================
+
+type Matrix3 = [[number, number, number], [number, number, number], [number, number, number]];
+
+/**
+ * Inverse of a symmetric 3x3 matrix via the adjugate, null if singular
+ */
+function invert3(m: Matrix3): Matrix3 | null {
+    const [[a, b, c], [d, e, f], [g, h, i]] = m;
+    const A = e * i - f * h;
+    const B = -(d * i - f * g);
+    const C = d * h - e * g;
+    const det = a * A + b * B + c * C;
+    if (!Number.isFinite(det) || Math.abs(det) < 1e-12) return null;
+
+    return [
+        [A / det, -(b * i - c * h) / det, (b * f - c * e) / det],
+        [B / det, (a * i - c * g) / det, -(a * f - c * d) / det],
+        [C / det, -(a * h - b * g) / det, (a * e - b * d) / det],
+    ];
+}
+
+// ============================================================================
+// EVENT LOCATOR
+// ============================================================================
+
+interface Station extends LocalPoint {
+    nodeId: string;
+
+    /** Onset relative to the earliest pick (s) */
+    t: number;
+}
+
+export class EventLocator {
+    private readonly config: LocatorConfig;
+
+    constructor(config: Partial<LocatorConfig> = {}) {
+        this.config = { ...DEFAULT_CONFIG, ...config };
+    }
+
+    /**
+     * Locate from onset picks, null with too few distinct nodes
+     */
+    locate(picks: ArrivalPick[]): EventLocation | null {
+        const unique = Array.from(new Map(picks.map(p => [p.nodeId, p])).values());
+        if (unique.length < this.config.minStations) return null;
+
+        const originLat = unique.reduce((sum, p) => sum + p.lat, 0) / unique.length;
+        const originLng = unique.reduce((sum, p) => sum + p.lng, 0) / unique.length;
+        const reference = Math.min(...unique.map(p => p.onsetTime));
+        const stations: Station[] = unique.map(p => ({
+            nodeId: p.nodeId,
+            ...toLocalKm(p.lat, p.lng, originLat, originLng),
+            t: (p.onsetTime - reference) / 1000,
+        }));
+
+        // 1. Grid search
+        let best = this.gridSearch(stations);
+
+        // 2. Geiger refinement
+        let iterations = 0;
+        let converged = false;
+        while (iterations < this.config.maxIterations) {
+            iterations++;
+            const step = this.gaussNewtonStep(stations, best);
+            if (!step) break;
+
+            const candidate = { x: best.x + step.dx, y: best.y + step.dy, t0: best.t0 + step.dt };
+            if (this.misfit(stations, candidate) > this.misfit(stations, best)) break; // Do not walk uphill
+            best = candidate;
+
+            if (Math.hypot(step.dx, step.dy) < this.config.convergenceKm) {
+                converged = true;
+                break;
+            }
+        }
+
+        // 3. Residuals and uncertainty at the final point
+        const residuals = stations.map(s => ({ nodeId: s.nodeId, residual: s.t - best.t0 - this.travelTime(best, s) }));
+        const sumSquares = residuals.reduce((sum, r) => sum + r.residual ** 2, 0);
+        const dof = Math.max(1, stations.length - 3);
+        const sigma = Math.max(Math.sqrt(sumSquares / dof), this.config.pickUncertaintySeconds);
+        const ellipse = this.errorEllipse(this.normalMatrix(stations, best), sigma);
+
+        const { lat, lng } = fromLocalKm(best, originLat, originLng);
+        return {
+            lat,
+            lng,
+            originTime: reference + best.t0 * 1000,
+            depthKm: this.config.depthKm,
+            rmsResidual: Math.sqrt(sumSquares / stations.length),
+            residuals,
+            ellipse,
+            stationCount: stations.length,
+            iterations,
+            converged,
+        };
+    }
+
+    private travelTime(source: LocalPoint, station: LocalPoint): number {
+        const distance = Math.sqrt((source.x - station.x) ** 2 + (source.y - station.y) ** 2 + this.config.depthKm ** 2);
+        return distance / this.config.velocityKmS;
+    }
+
+    /**
+     * L2-optimal origin time for a trial source
+     */
+    private originTime(stations: Station[], source: LocalPoint): number {
+        return stations.reduce((sum, s) => sum + s.t - this.travelTime(source, s), 0) / stations.length;
+    }
+
+    private misfit(stations: Station[], trial: LocalPoint & { t0: number }): number {
+        return stations.reduce((sum, s) => sum + (s.t - trial.t0 - this.travelTime(trial, s)) ** 2, 0);
+    }
+
+    private gridSearch(stations: Station[]): LocalPoint & { t0: number } {
+        const { gridMarginKm, gridStepKm } = this.config;
+        const minX = Math.min(...stations.map(s => s.x)) - gridMarginKm;
+        const maxX = Math.max(...stations.map(s => s.x)) + gridMarginKm;
+        const minY = Math.min(...stations.map(s => s.y)) - gridMarginKm;
+        const maxY = Math.max(...stations.map(s => s.y)) + gridMarginKm;
+
+        let best = { x: 0, y: 0, t0: 0 };
+        let bestMisfit = Infinity;
+        for (let x = minX; x <= maxX; x += gridStepKm) {
+            for (let y = minY; y <= maxY; y += gridStepKm) {
+                const t0 = this.originTime(stations, { x, y });
+                const misfit = this.misfit(stations, { x, y, t0 });
+                if (misfit < bestMisfit) {
+                    bestMisfit = misfit;
+                    best = { x, y, t0 };
+                }
+            }
+        }
+        return best;
+    }
+
+    /**
+     * Jacobian rows [∂t/∂x, ∂t/∂y, ∂t/∂t0] at a trial source
+     */
+    private jacobian(stations: Station[], source: LocalPoint): Array<[number, number, number]> {
+        const { velocityKmS, depthKm } = this.config;
+        return stations.map(s => {
+            const distance = Math.max(1e-6, Math.sqrt((source.x - s.x) ** 2 + (source.y - s.y) ** 2 + depthKm ** 2));
+            return [(source.x - s.x) / (velocityKmS * distance), (source.y - s.y) / (velocityKmS * distance), 1];
+        });
+    }
+
+    /**
+     * GᵀG at a trial source
+     */
+    private normalMatrix(stations: Station[], source: LocalPoint): Matrix3 {
+        const normal: Matrix3 = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+        this.jacobian(stations, source).forEach(row => {
+            for (let i = 0; i < 3; i++) {
+                for (let j = 0; j < 3; j++) normal[i][j] += row[i] * row[j];
+            }
+        });
+        return normal;
+    }
+
+    /**
+     * One damped Gauss-Newton step (GᵀG + λI) δ = Gᵀr
+     */
+    private gaussNewtonStep(
+        stations: Station[],
+        trial: LocalPoint & { t0: number }
+    ): { dx: number; dy: number; dt: number } | null {
+        const rows = this.jacobian(stations, trial);
+        const normal: Matrix3 = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+        const rhs = [0, 0, 0];
+
+        rows.forEach((row, k) => {
+            const residual = stations[k].t - trial.t0 - this.travelTime(trial, stations[k]);
+            for (let i = 0; i < 3; i++) {
+                rhs[i] += row[i] * residual;
+                for (let j = 0; j < 3; j++) normal[i][j] += row[i] * row[j];
+            }
+        });
+
+        // Small damping keeps the step bounded when the source sits on a node
+        const damped = normal.map((row, i) => row.map((v, j) => (i === j ? v * 1.001 + 1e-9 : v))) as Matrix3;
+        const inverse = invert3(damped);
+        if (!inverse) return null;
+
+        const delta = inverse.map(row => row[0] * rhs[0] + row[1] * rhs[1] + row[2] * rhs[2]);
+        return { dx: delta[0], dy: delta[1], dt: delta[2] };
+    }
+
+    /**
+     * Confidence ellipse from the horizontal block of σ²(GᵀG)⁻¹
+     */
+    private errorEllipse(normal: Matrix3, sigma: number): ErrorEllipse {
+        const covariance = invert3(normal);
+        if (!covariance) return { semiMajorKm: Infinity, semiMinorKm: Infinity, azimuthDeg: 0 };
+
+        const cxx = covariance[0][0] * sigma ** 2;
+        const cyy = covariance[1][1] * sigma ** 2;
+        const cxy = covariance[0][1] * sigma ** 2;
+
+        // Eigenvalues of the 2x2 block
+        const mean = (cxx + cyy) / 2;
+        const spread = Math.sqrt(((cxx - cyy) / 2) ** 2 + cxy ** 2);
+        const major = Math.max(0, mean + spread);
+        const minor = Math.max(0, mean - spread);
+
+        // Major axis direction: angle from x (east), converted to azimuth from north
+        const angleFromEast = 0.5 * Math.atan2(2 * cxy, cxx - cyy);
+        const azimuth = (90 - (angleFromEast * 180) / Math.PI + 180) % 180;
+
+        return {
+            semiMajorKm: this.config.confidenceScale * Math.sqrt(major),
+            semiMinorKm: this.config.confidenceScale * Math.sqrt(minor),
+            azimuthDeg: azimuth,
+        };
+    }
+}
+
+// ============================================================================
+// SINGLETON INSTANCE
+// ============================================================================
+
+export const eventLocator = new EventLocator();
@@ -0,0 +1,270 @@
+/**
+ * SEISMOS Magnitude Estimator
+ *
+ * Turns per-node ground motion into a network magnitude. A building
+ * sensor does not record a Wood-Anderson seismogram, so both estimates
+ * are proxies built from the intensity measures every node already has.
+ *
+ * Physical Rationale:
+ * - Amplitude decays with distance; correcting the observed amplitude
+ *   for the hypocentral distance leaves the source size
+ * - Displacement (PGD) tracks the long-period energy a local magnitude
+ *   measures; PGA saturates for large nearby events, so its estimate is
+ *   only trusted below the saturation plateau
+ * - Every station is an independent estimate; the scatter between them
+ *   is the honest uncertainty of the network value
+ *
+ * Algorithm:
+ * - Keep each node's peak PGA / PGD over the event (intensity records
+ *   restart when the node drops back to its idle rate)
+ * - ML (IASPEI, Hutton & Boore 1987 attenuation):
+ *   ML = log10(A) + 1.11·log10(R) + 0.00189·R − 2.09, A = PGD in nm
+ * - M_PGA: invert Fukushima & Tanaka (1990)
+ *   log10(PGA) = 0.41·M − log10(R + 0.032·10^(0.41·M)) − 0.0034·R + 1.30
+ *   (PGA in cm/s²) for M by bisection
+ * - Network value: mean of all station estimates after dropping those
+ *   more than `outlierSigmas` robust deviations from the median
+ */
+
+import { geodesicKm, hypocentralKm } from '../geo';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Peak ground motion at a node
+ */
+export interface PeakMotion {
+    /** Peak ground acceleration (g) */
+    pga: number;
+
+    /** Peak ground displacement (cm) */
+    pgd: number;
+}
+
+/**
+ * Node position
+ */
+export interface StationPosition {
+    nodeId: string;
+    lat: number;
+    lng: number;
+}
+
+export interface StationMagnitude {
+    nodeId: string;
+    hypocentralDistanceKm: number;
+
+    /** Local magnitude from displacement, null without displacement */
+    ml: number | null;
+
+    /** Magnitude from PGA, null when saturated or without acceleration */
+    mPga: number | null;
+
+    /** Whether the PGA lies on the saturation plateau of the relation */
+    saturated: boolean;
+}
+
+export interface NetworkMagnitude {
+    /** Network magnitude (mean of the retained station estimates) */
+    value: number;
+
+    /** Scatter of the retained station estimates (1σ) */
+    uncertainty: number;
+
+    /** Network means per estimator, null when no station produced one */
+    ml: number | null;
+    mPga: number | null;
+
+    /** Stations that contributed at least one retained estimate */
+    stationCount: number;
+
+    stations: StationMagnitude[];
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export interface MagnitudeConfig {
+    /**
+     * Assumed source depth (km). The locator cannot resolve depth from a
+     * neighbourhood-sized network; Marmara crustal events sit at 5-15 km.
+     */
+    depthKm: number;
+
+    /** Search range for the PGA inversion */
+    minMagnitude: number;
+    maxMagnitude: number;
+
+    /** Uncertainty reported for a single estimate (typical relation σ) */
+    singleStationSigma: number;
+
+    /** Station estimates farther than this many robust σ from the median are dropped */
+    outlierSigmas: number;
+}
+
+const DEFAULT_CONFIG: MagnitudeConfig = {
+    depthKm: 10,
+    minMagnitude: 0,
+    maxMagnitude: 9,
+    singleStationSigma: 0.3,
+    outlierSigmas: 2.5,
+};
+
+/** Standard gravity (cm/s²) */
+const G_CM_S2 = 980.665;
+
+// ============================================================================
+// STATION RELATIONS
+// ============================================================================
+
+/**
+ * IASPEI local magnitude with ground displacement amplitude
+ */
+export function localMagnitude(pgdCm: number, hypocentralKm: number): number | null {
+    if (pgdCm <= 0 || hypocentralKm <= 0) return null;
+    const amplitudeNm = pgdCm * 1e7;
+    return Math.log10(amplitudeNm) + 1.11 * Math.log10(hypocentralKm) + 0.00189 * hypocentralKm - 2.09;
+}
+
+/**
+ * Fukushima & Tanaka (1990) predicted log10 PGA (cm/s²)
+ */
+function logPgaPrediction(magnitude: number, distanceKm: number): number {
+    return 0.41 * magnitude - Math.log10(distanceKm + 0.032 * 10 ** (0.41 * magnitude)) - 0.0034 * distanceKm + 1.30;
+}
+
+/**
+ * Median PGA (g) the PGA estimate assumes, for comparison with other relations
+ */
+export function predictedPga(magnitude: number, distanceKm: number): number {
+    return 10 ** logPgaPrediction(magnitude, distanceKm) / G_CM_S2;
+}
+
+/**
+ * Magnitude whose predicted PGA matches the observation.
+ * The prediction grows monotonically but flattens for large M; an
+ * observation above the plateau cannot be inverted (saturated).
+ */
+export function pgaMagnitude(
+    pgaG: number,
+    distanceKm: number,
+    range: { min: number; max: number } = { min: DEFAULT_CONFIG.minMagnitude, max: DEFAULT_CONFIG.maxMagnitude }
+): { magnitude: number | null; saturated: boolean } {
+    if (pgaG <= 0 || distanceKm <= 0) return { magnitude: null, saturated: false };
+
+    const target = Math.log10(pgaG * G_CM_S2);
+    if (target >= logPgaPrediction(range.max, distanceKm)) return { magnitude: null, saturated: true };
+    if (target <= logPgaPrediction(range.min, distanceKm)) return { magnitude: range.min, saturated: false };
+
+    let low = range.min;
+    let high = range.max;
+    for (let i = 0; i < 40; i++) {
+        const mid = (low + high) / 2;
+        if (logPgaPrediction(mid, distanceKm) < target) low = mid;
+        else high = mid;
+    }
+    return { magnitude: (low + high) / 2, saturated: false };
+}
+
+// ============================================================================
+// MAGNITUDE ESTIMATOR
+// ============================================================================
+
+export class MagnitudeEstimator {
+    private readonly config: MagnitudeConfig;
+    private peaks: Map<string, PeakMotion> = new Map();
+
+    constructor(config: Partial<MagnitudeConfig> = {}) {
+        this.config = { ...DEFAULT_CONFIG, ...config };
+    }
+
+    /**
+     * Record a node's current intensity measures, keeping the event peak
+     */
+    observe(nodeId: string, motion: PeakMotion): void {
+        const peak = this.peaks.get(nodeId);
+        this.peaks.set(nodeId, {
+            pga: Math.max(peak?.pga ?? 0, motion.pga),
+            pgd: Math.max(peak?.pgd ?? 0, motion.pgd),
+        });
+    }
+
+    /**
+     * Station and network magnitudes for an event located at `epicenter`
+     * from the observed peaks of `stations`, null when none yields an estimate
+     */
+    estimate(epicenter: { lat: number; lng: number }, stations: StationPosition[]): NetworkMagnitude | null {
+        const { depthKm, minMagnitude, maxMagnitude } = this.config;
+
+        const estimates: StationMagnitude[] = stations.flatMap(station => {
+            const peak = this.peaks.get(station.nodeId);
+            if (!peak) return [];
+
+            const distanceKm = hypocentralKm(geodesicKm(epicenter.lat, epicenter.lng, station.lat, station.lng), depthKm);
+            const { magnitude, saturated } = pgaMagnitude(peak.pga, distanceKm, { min: minMagnitude, max: maxMagnitude });
+            return [{
+                nodeId: station.nodeId,
+                hypocentralDistanceKm: distanceKm,
+                ml: localMagnitude(peak.pgd, distanceKm),
+                mPga: magnitude,
+                saturated,
+            }];
+        });
+
+        const pooled = estimates.flatMap(s => [
+            ...(s.ml !== null ? [{ nodeId: s.nodeId, kind: 'ml' as const, value: s.ml }] : []),
+            ...(s.mPga !== null ? [{ nodeId: s.nodeId, kind: 'mPga' as const, value: s.mPga }] : []),
+        ]);
+        if (pooled.length === 0) return null;
+
+        // Robust outlier rejection around the median (1.4826·MAD ≈ σ)
+        const med = median(pooled.map(p => p.value));
+        const robustSigma = Math.max(1.4826 * median(pooled.map(p => Math.abs(p.value - med))), 0.1);
+        const retained = pooled.filter(p => Math.abs(p.value - med) <= this.config.outlierSigmas * robustSigma);
+
+        const value = mean(retained.map(p => p.value));
+        const uncertainty = retained.length > 1
+            ? Math.sqrt(retained.reduce((sum, p) => sum + (p.value - value) ** 2, 0) / (retained.length - 1))
+            : this.config.singleStationSigma;
+
+        const byKind = (kind: 'ml' | 'mPga') => {
+            const values = retained.filter(p => p.kind === kind).map(p => p.value);
+            return values.length > 0 ? mean(values) : null;
+        };
+
+        return {
+            value,
+            uncertainty,
+            ml: byKind('ml'),
+            mPga: byKind('mPga'),
+            stationCount: new Set(retained.map(p => p.nodeId)).size,
+            stations: estimates,
+        };
+    }
+
+    /**
+     * Forget the peaks (a new event starts)
+     */
+    reset(): void {
+        this.peaks.clear();
+    }
+}
+
+function mean(values: number[]): number {
+    return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 !== 0 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+// ============================================================================
+// SINGLETON INSTANCE
+// ============================================================================
+
+export const magnitudeEstimator = new MagnitudeEstimator();
@@ -0,0 +1,291 @@
+/**
+ * SEISMOS Persistence
+ *
+ * Write-behind recorder between the store and the Supabase repositories.
+ * The store calls it synchronously from its actions; rows are queued and
+ * flushed in batches so a 20 Hz pipeline never waits on the network.
+ *
+ * Policy:
+ * - Event start / end are written immediately (later rows reference them)
+ * - Assessments, heartbeats and INSD inferences are queued and batched
+ * - Fatigue indicators are throttled per node: written when the warning
+ *   flips, otherwise at most once per interval
+ * - Baselines are upserted per node at most once per interval, with only
+ *   the daily/weekly aggregates and pre/post event comparisons that
+ *   changed since the last write
+ * - Frequency change events are queued and batched; one another console
+ *   already wrote is skipped
+ * - A failed write is logged and dropped; the dashboard keeps running
+ *
+ * Disabled (every call is a no-op) when Supabase is not configured.
+ */
+
+import { isSupabaseConfigured } from '../supabase/client';
+import type { Node } from '../supabase/types';
+import {
+    damageAssessmentRepository,
+    fatigueIndicatorRepository,
+    frequencyChangeRepository,
+    heartbeatRepository,
+    insdInferenceRepository,
+    nodeBaselineRepository,
+    nodeRepository,
+    seismicEventRepository,
+    type DamageAssessment,
+    type FatigueRecord,
+    type SeismicEvent,
+    type SeismicEventSolution,
+} from '../supabase/repositories';
+import type { BaselineHistory, FatigueIndicator } from '../damage-score/baseline-tracker';
+import type { FrequencyChangeEvent } from '../damage-score/change-point';
+import { MS_PER_DAY } from '../damage-score/trend';
+import type { InsdInference } from '../insd';
+import type { Heartbeat } from '../ingest';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * What the store needs to restore itself after a reload
+ */
+export interface PersistenceSnapshot {
+    /** Latest assessment per building */
+    assessments: DamageAssessment[];
+
+    /** Most recent events, newest first */
+    events: SeismicEvent[];
+
+    /** Frequency baselines and long-term history per node */
+    baselines: BaselineHistory[];
+
+    /** Most recent frequency change events, newest first */
+    changes: FrequencyChangeEvent[];
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export interface PersistenceConfig {
+    /** Delay between the first queued row and the batch write (ms) */
+    flushIntervalMs: number;
+
+    /** Minimum spacing of routine fatigue rows per node (ms) */
+    fatigueIntervalMs: number;
+
+    /** Minimum spacing of baseline writes per node (ms) */
+    baselineIntervalMs: number;
+
+    /** Events loaded on hydration */
+    recentEventLimit: number;
+
+    /** Frequency change events loaded on hydration */
+    recentChangeLimit: number;
+
+    /** Frequency history loaded on hydration (days) */
+    baselineHistoryDays: number;
+}
+
+const DEFAULT_CONFIG: PersistenceConfig = {
+    flushIntervalMs: 2000,
+    fatigueIntervalMs: 60000,
+    baselineIntervalMs: 60000,
+    recentEventLimit: 20,
+    recentChangeLimit: 50,
+    baselineHistoryDays: 730,
+};
+
+// ============================================================================
+// RECORDER
+// ============================================================================
+
+export class PersistenceRecorder {
+    readonly enabled: boolean;
+    private readonly config: PersistenceConfig;
+
+    private assessments: DamageAssessment[] = [];
+    private heartbeats: Heartbeat[] = [];
+    private inferences: Array<{ inference: InsdInference; eventId: string | null }> = [];
+    private fatigue: FatigueRecord[] = [];
+    private lastFatigue: Map<string, { at: number; hasWarning: boolean }> = new Map();
+    private baselines: Map<string, BaselineHistory> = new Map();
+    private lastBaseline: Map<string, number> = new Map();
+    private changes: FrequencyChangeEvent[] = [];
+
+    /** Writes that queued rows depend on (node registration, event creation) */
+    private pending: Promise<unknown> = Promise.resolve();
+    private flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+    constructor(enabled: boolean = isSupabaseConfigured, config: Partial<PersistenceConfig> = {}) {
+        this.enabled = enabled;
+        this.config = { ...DEFAULT_CONFIG, ...config };
+    }
+
+    /**
+     * Load the latest state, or null when persistence is off or unreachable
+     */
+    async loadSnapshot(): Promise<PersistenceSnapshot | null> {
+        if (!this.enabled) return null;
+        try {
+            const [assessments, events, baselines, changes] = await Promise.all([
+                damageAssessmentRepository.listLatest(),
+                seismicEventRepository.listRecent(this.config.recentEventLimit),
+                nodeBaselineRepository.listAll(Date.now() - this.config.baselineHistoryDays * MS_PER_DAY),
+                frequencyChangeRepository.listRecent(this.config.recentChangeLimit),
+            ]);
+            return { assessments, events, baselines, changes };
+        } catch (error) {
+            console.warn('[SEISMOS] Could not load persisted state:', error);
+            return null;
+        }
+    }
+
+    registerNodes(nodes: Node[]): void {
+        if (!this.enabled || nodes.length === 0) return;
+        this.chain(() => nodeRepository.register(nodes), 'register nodes');
+    }
+
+    startEvent(event: SeismicEvent): void {
+        if (!this.enabled) return;
+        this.chain(() => seismicEventRepository.create(event), 'create event');
+    }
+
+    endEvent(id: string, endedAt: number): void {
+        if (!this.enabled) return;
+        this.chain(() => seismicEventRepository.close(id, endedAt), 'close event');
+    }
+
+    updateEventSolution(id: string, solution: SeismicEventSolution): void {
+        if (!this.enabled) return;
+        this.chain(() => seismicEventRepository.updateSolution(id, solution), 'update event solution');
+    }
+
+    recordAssessments(assessments: DamageAssessment[]): void {
+        if (!this.enabled || assessments.length === 0) return;
+        this.assessments.push(...assessments);
+        this.scheduleFlush();
+    }
+
+    recordHeartbeats(heartbeats: Heartbeat[]): void {
+        if (!this.enabled || heartbeats.length === 0) return;
+        this.heartbeats.push(...heartbeats);
+        this.scheduleFlush();
+    }
+
+    recordInference(inference: InsdInference, eventId: string | null): void {
+        if (!this.enabled) return;
+        this.inferences.push({ inference, eventId });
+        this.scheduleFlush();
+    }
+
+    recordFatigue(nodeId: string, indicator: FatigueIndicator, now: number = Date.now()): void {
+        if (!this.enabled) return;
+
+        // Nothing measured (quiet reading without a frequency) - nothing to store
+        const { baselineFrequency, currentFrequency } = indicator;
+        if (baselineFrequency === null || currentFrequency === null) return;
+
+        const last = this.lastFatigue.get(nodeId);
+        const flipped = last !== undefined && last.hasWarning !== indicator.hasWarning;
+        if (last && !flipped && now - last.at < this.config.fatigueIntervalMs) return;
+
+        this.lastFatigue.set(nodeId, { at: now, hasWarning: indicator.hasWarning });
+        this.fatigue.push({ nodeId, recordedAt: now, indicator: { ...indicator, baselineFrequency, currentFrequency } });
+        this.scheduleFlush();
+    }
+
+    /**
+     * Queue a node's baseline; `history(since)` exports it with the
+     * aggregates updated after `since` and is only called when a write is due
+     */
+    recordBaseline(nodeId: string, history: (since: number) => BaselineHistory | null, now: number = Date.now()): void {
+        if (!this.enabled) return;
+
+        const last = this.lastBaseline.get(nodeId);
+        if (last !== undefined && now - last < this.config.baselineIntervalMs) return;
+
+        const snapshot = history(last ?? 0);
+        if (!snapshot) return;
+        this.lastBaseline.set(nodeId, now);
+
+        // Unflushed aggregates and comparisons of an earlier snapshot stay queued unless this one has a newer copy
+        const queued = this.baselines.get(nodeId);
+        if (queued) {
+            const key = (a: BaselineHistory['aggregates'][number]) => `${a.period}:${a.periodStart}`;
+            const fresh = new Set(snapshot.aggregates.map(key));
+            snapshot.aggregates.unshift(...queued.aggregates.filter(a => !fresh.has(key(a))));
+            const freshEvents = new Set(snapshot.comparisons.map(c => c.eventId));
+            snapshot.comparisons.unshift(...queued.comparisons.filter(c => !freshEvents.has(c.eventId)));
+        }
+        this.baselines.set(nodeId, snapshot);
+        this.scheduleFlush();
+    }
+
+    recordChange(event: FrequencyChangeEvent): void {
+        if (!this.enabled) return;
+        this.changes.push(event);
+        this.scheduleFlush();
+    }
+
+    /**
+     * Write everything queued so far
+     */
+    async flush(): Promise<void> {
+        if (this.flushTimer) {
+            clearTimeout(this.flushTimer);
+            this.flushTimer = null;
+        }
+
+        const assessments = this.assessments.splice(0);
+        const heartbeats = this.heartbeats.splice(0);
+        const inferences = this.inferences.splice(0);
+        const fatigue = this.fatigue.splice(0);
+        const baselines = Array.from(this.baselines.values());
+        this.baselines.clear();
+        const changes = this.changes.splice(0);
+
+        // Satırlar olay ve node kayıtlarına referans veriyor - önce onlar yazılsın
+        await this.pending;
+
+        const writes: Array<[string, Promise<void>]> = [
+            ['damage assessments', damageAssessmentRepository.insertMany(assessments)],
+            ['heartbeats', heartbeatRepository.insertMany(heartbeats)],
+            ['INSD inferences', insdInferenceRepository.insertMany(inferences)],
+            ['fatigue indicators', fatigueIndicatorRepository.insertMany(fatigue)],
+            ['baselines', nodeBaselineRepository.upsertMany(baselines)],
+            ['frequency changes', frequencyChangeRepository.insertMany(changes)],
+        ];
+        const results = await Promise.allSettled(writes.map(([, write]) => write));
+        results.forEach((result, i) => {
+            if (result.status === 'rejected') {
+                console.warn(`[SEISMOS] Failed to persist ${writes[i][0]}:`, result.reason);
+            }
+        });
+    }
+
+    private chain(write: () => Promise<void>, label: string): void {
+        this.pending = this.pending.then(write).catch(error => {
+            console.warn(`[SEISMOS] Failed to ${label}:`, error);
+        });
+    }
+
+    private scheduleFlush(): void {
+        if (this.flushTimer) return;
+        this.flushTimer = setTimeout(() => {
+            this.flushTimer = null;
+            void this.flush();
+        }, this.config.flushIntervalMs);
+    }
+
+    reset(): void {
+        this.lastFatigue.clear();
+        this.lastBaseline.clear();
+    }
+}
+
+// ============================================================================
+// SINGLETON INSTANCE
+// ============================================================================
+
+export const persistence = new PersistenceRecorder();
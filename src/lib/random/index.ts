@@ -0,0 +1,186 @@
+/**
+ * SEISMOS Seeded Random
+ *
+ * Reproducible pseudo-random numbers for the demo simulator and store.
+ * A run is identified by one 32-bit seed: the same seed gives the same
+ * buildings, the same ambient readings and the same earthquake outcomes,
+ * so a run seen in a bug report can be replayed from its URL.
+ *
+ * Algorithm:
+ * - mulberry32: 32-bit state, full period 2^32, passes the usual
+ *   statistical batteries well enough for simulation noise
+ * - Streams are forked by label (e.g. 'ambient', 'quake' + index); a fork is
+ *   seeded from a hash of the parent seed and the labels, not from the
+ *   parent's state, so consuming one stream never shifts another. How many
+ *   idle ticks ran before a quake does not change that quake's damage.
+ */
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Seed used before a run seed is chosen (server render, offline scripts) */
+export const DEFAULT_RUN_SEED = 0x5e15;
+
+/** Seeds are displayed and encoded in URLs in base 36 */
+const SEED_RADIX = 36;
+
+const UINT32_RANGE = 0x1_0000_0000;
+
+// ============================================================================
+// HASHING
+// ============================================================================
+
+/**
+ * Derive a 32-bit seed from a parent seed and labels (FNV-1a, then a
+ * murmur3 finaliser so nearby labels give unrelated seeds)
+ */
+export function hashSeed(seed: number, ...labels: Array<string | number>): number {
+    let hash = 0x811c9dc5 ^ (seed >>> 0);
+    const text = labels.join('\u0000');
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    hash ^= hash >>> 16;
+    hash = Math.imul(hash, 0x85ebca6b);
+    hash ^= hash >>> 13;
+    hash = Math.imul(hash, 0xc2b2ae35);
+    hash ^= hash >>> 16;
+    return hash >>> 0;
+}
+
+// ============================================================================
+// GENERATOR
+// ============================================================================
+
+export class SeededRandom {
+    private state: number;
+
+    constructor(readonly seed: number) {
+        this.state = seed >>> 0;
+    }
+
+    /**
+     * Uniform in [0, 1) - drop-in for Math.random()
+     */
+    next(): number {
+        this.state = (this.state + 0x6d2b79f5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / UINT32_RANGE;
+    }
+
+    /**
+     * Uniform in [min, max)
+     */
+    range(min: number, max: number): number {
+        return min + this.next() * (max - min);
+    }
+
+    /**
+     * Integer in [0, count)
+     */
+    int(count: number): number {
+        return Math.floor(this.next() * count);
+    }
+
+    /**
+     * True with probability p
+     */
+    chance(p: number): boolean {
+        return this.next() < p;
+    }
+
+    /**
+     * Standard normal draw (Box-Muller)
+     */
+    normal(): number {
+        const u = 1 - this.next(); // (0, 1] - log(0) is undefined
+        return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * this.next());
+    }
+
+    pick<T>(items: readonly T[]): T {
+        return items[this.int(items.length)];
+    }
+
+    /**
+     * Independent stream for a purpose; the same labels always give the
+     * same stream regardless of how much of this one has been consumed
+     */
+    fork(...labels: Array<string | number>): SeededRandom {
+        return new SeededRandom(hashSeed(this.seed, ...labels));
+    }
+}
+
+// ============================================================================
+// RUN SEEDS
+// ============================================================================
+
+/**
+ * Fresh seed for a new run (the only non-reproducible draw)
+ */
+export function randomSeed(): number {
+    return Math.floor(Math.random() * UINT32_RANGE);
+}
+
+export function formatSeed(seed: number): string {
+    return (seed >>> 0).toString(SEED_RADIX);
+}
+
+/**
+ * Parse a seed as written by formatSeed (e.g. from `?seed=`); null when
+ * missing or malformed
+ */
+export function parseSeed(text: string | null | undefined): number | null {
+    if (!text || !/^[0-9a-z]{1,7}$/i.test(text)) return null;
+    const seed = parseInt(text, SEED_RADIX);
+    return seed < UINT32_RANGE ? seed : null;
+}
+
+// ============================================================================
+// URL
+// ============================================================================
+
+/** Query parameter that carries the run seed */
+export const SEED_PARAM = 'seed';
+
+/** Seed already running in this tab (client-side navigation drops the query) */
+let sessionSeed: number | null = null;
+
+/**
+ * Run seed of the current page: `?seed=` when present and valid, otherwise
+ * the tab's running seed or a fresh one, written back into the URL (without
+ * a history entry) so the address bar always replays the run
+ */
+export function resolveRunSeed(): number {
+    const url = new URL(window.location.href);
+    const requested = parseSeed(url.searchParams.get(SEED_PARAM));
+    if (requested !== null) return (sessionSeed = requested);
+
+    const seed = sessionSeed ?? randomSeed();
+    rememberRunSeed(seed);
+    return seed;
+}
+
+/**
+ * Make a seed chosen in the page (e.g. by a scenario) the tab's run seed
+ * and put it in the address bar
+ */
+export function rememberRunSeed(seed: number): void {
+    sessionSeed = seed;
+    const url = new URL(window.location.href);
+    url.searchParams.set(SEED_PARAM, formatSeed(seed));
+    window.history.replaceState(window.history.state, '', url);
+}
+
+/**
+ * Link that replays a run
+ */
+export function runSeedUrl(seed: number): string {
+    const url = new URL(window.location.href);
+    url.search = '';
+    url.searchParams.set(SEED_PARAM, formatSeed(seed));
+    return url.toString();
+}
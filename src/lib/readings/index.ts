@@ -0,0 +1,399 @@
+/**
+ * SEISMOS Canonical Reading Model
+ *
+ * One reading type shared by the simulator, the signal processor, the store
+ * and the persistence layer. Other shapes only exist at the edges:
+ * - Row shape: snake_case columns in Supabase (`sensor_readings`)
+ * - Wire shape: compact JSON posted by field nodes
+ *
+ * Converters in this module are the only place that translates between them.
+ */
+
+import type { SensorReadingRow } from '../supabase/types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+// Sinyal tipi - AI tarafından sınıflandırılır
+export type SignalType = 'idle' | 'seismic' | 'noise' | 'anomaly';
+
+/** Acceleration units a node may report in. The pipeline works in g. */
+export type AccelerationUnit = 'g' | 'm/s2';
+
+/**
+ * Sensor axis orientation
+ * - enu: x = east, y = north, z = up (geographic, mounted with compass)
+ * - building: x = longitudinal, y = transverse, z = vertical (building axes)
+ */
+export type AxisOrientation = 'enu' | 'building';
+
+/** On-device damage class (mirrors the damage score categories) */
+export type DamageClass = 'safe' | 'risky' | 'heavily_damaged';
+
+/**
+ * Features computed on the node itself (firmware side).
+ * All optional: a bare accelerometer sends none of them.
+ */
+export interface FirmwareFeatures {
+    /** Dominant frequency (Hz) */
+    dominantFrequency?: number;
+
+    /** FFT spectrum, 0-10 Hz in 20 bins of 0.5 Hz */
+    fftSpectrum?: number[];
+
+    /** On-device signal classification */
+    signalType?: SignalType;
+
+    /** Damping ratio of the dominant mode (fraction of critical, e.g. 0.05) */
+    dampingRatio?: number;
+
+    /** On-device damage class */
+    damageClass?: DamageClass;
+}
+
+/**
+ * Ambient conditions measured next to the accelerometer.
+ * All optional: most nodes carry no environmental sensor.
+ */
+export interface EnvironmentReading {
+    /** Air temperature (°C) */
+    temperature?: number;
+
+    /** Relative humidity (%) */
+    humidity?: number;
+}
+
+/**
+ * Canonical sensor reading
+ */
+export interface SensorReading {
+    nodeId: string;
+
+    /** Per-node monotonically increasing counter (gap = lost packet) */
+    sequence: number;
+
+    /** Epoch milliseconds at the node */
+    timestamp: number;
+
+    /** Sampling rate of the stream this reading belongs to (Hz) */
+    sampleRateHz: number;
+
+    units: AccelerationUnit;
+    orientation: AxisOrientation;
+
+    accelX: number;
+    accelY: number;
+    accelZ: number;
+
+    /** Vector magnitude in the same units as the axes */
+    magnitude: number;
+
+    features?: FirmwareFeatures;
+
+    environment?: EnvironmentReading;
+}
+
+/**
+ * Compact JSON shape posted by field nodes
+ */
+export interface WireReading {
+    /** Node id */
+    n: string;
+    /** Sequence number */
+    s: number;
+    /** Epoch ms */
+    t: number;
+    /** Sample rate (Hz) */
+    sr: number;
+    /** Units, defaults to 'g' */
+    u?: AccelerationUnit;
+    /** Orientation, defaults to 'enu' */
+    o?: AxisOrientation;
+    /** [x, y, z] acceleration */
+    a: [number, number, number];
+    /** Magnitude, computed when absent */
+    m?: number;
+    /** Firmware features */
+    f?: {
+        f0?: number;
+        fft?: number[];
+        cls?: SignalType;
+        /** Damping ratio */
+        zeta?: number;
+        dmg?: DamageClass;
+    };
+    /** Environment */
+    e?: {
+        /** Temperature (°C) */
+        tc?: number;
+        /** Relative humidity (%) */
+        rh?: number;
+    };
+}
+
+export type ReadingValidation =
+    | { ok: true; reading: SensorReading }
+    | { ok: false; errors: string[] };
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/** Standard gravity (m/s² per g) */
+export const STANDARD_GRAVITY = 9.80665;
+
+const SIGNAL_TYPES: readonly SignalType[] = ['idle', 'seismic', 'noise', 'anomaly'];
+const UNITS: readonly AccelerationUnit[] = ['g', 'm/s2'];
+const ORIENTATIONS: readonly AxisOrientation[] = ['enu', 'building'];
+const DAMAGE_CLASSES: readonly DamageClass[] = ['safe', 'risky', 'heavily_damaged'];
+
+/**
+ * Sanity limits for incoming data
+ */
+const LIMITS = {
+    /** Above ±16 g is beyond any MEMS range we deploy */
+    maxAbsAccelG: 16,
+    maxSampleRateHz: 1000,
+    /** Reject readings more than 1 day in the future (clock drift) */
+    maxFutureSkewMs: 24 * 60 * 60 * 1000,
+    /** Operating range of the enclosure's temperature sensor (°C) */
+    minTemperatureC: -40,
+    maxTemperatureC: 85,
+} as const;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export function vectorMagnitude(x: number, y: number, z: number): number {
+    return Math.sqrt(x * x + y * y + z * z);
+}
+
+/**
+ * Return the reading in g (no-op when it already is)
+ */
+export function toG(reading: SensorReading): SensorReading {
+    if (reading.units === 'g') return reading;
+    const k = 1 / STANDARD_GRAVITY;
+    return {
+        ...reading,
+        units: 'g',
+        accelX: reading.accelX * k,
+        accelY: reading.accelY * k,
+        accelZ: reading.accelZ * k,
+        magnitude: reading.magnitude * k,
+    };
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+function isFiniteNumber(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value);
+}
+
+/**
+ * Check a canonical reading. Returns a list of problems (empty = valid).
+ */
+export function validateReading(reading: SensorReading, now: number = Date.now()): string[] {
+    const errors: string[] = [];
+
+    if (!reading.nodeId) errors.push('nodeId is required');
+    if (!Number.isInteger(reading.sequence) || reading.sequence < 0) {
+        errors.push('sequence must be a non-negative integer');
+    }
+    if (!isFiniteNumber(reading.timestamp) || reading.timestamp <= 0) {
+        errors.push('timestamp must be epoch milliseconds');
+    } else if (reading.timestamp - now > LIMITS.maxFutureSkewMs) {
+        errors.push('timestamp is too far in the future');
+    }
+    if (!isFiniteNumber(reading.sampleRateHz) || reading.sampleRateHz <= 0 || reading.sampleRateHz > LIMITS.maxSampleRateHz) {
+        errors.push(`sampleRateHz must be in (0, ${LIMITS.maxSampleRateHz}]`);
+    }
+    if (!UNITS.includes(reading.units)) errors.push(`units must be one of ${UNITS.join(', ')}`);
+    if (!ORIENTATIONS.includes(reading.orientation)) {
+        errors.push(`orientation must be one of ${ORIENTATIONS.join(', ')}`);
+    }
+
+    const limit = reading.units === 'g' ? LIMITS.maxAbsAccelG : LIMITS.maxAbsAccelG * STANDARD_GRAVITY;
+    for (const [axis, value] of [['accelX', reading.accelX], ['accelY', reading.accelY], ['accelZ', reading.accelZ]] as const) {
+        if (!isFiniteNumber(value)) errors.push(`${axis} must be a finite number`);
+        else if (Math.abs(value) > limit) errors.push(`${axis} exceeds sensor range`);
+    }
+    if (!isFiniteNumber(reading.magnitude) || reading.magnitude < 0) {
+        errors.push('magnitude must be a non-negative number');
+    }
+
+    const features = reading.features;
+    if (features) {
+        if (features.dominantFrequency !== undefined && !(isFiniteNumber(features.dominantFrequency) && features.dominantFrequency >= 0)) {
+            errors.push('features.dominantFrequency must be a non-negative number');
+        }
+        if (features.fftSpectrum !== undefined && !(Array.isArray(features.fftSpectrum) && features.fftSpectrum.every(isFiniteNumber))) {
+            errors.push('features.fftSpectrum must be an array of numbers');
+        }
+        if (features.signalType !== undefined && !SIGNAL_TYPES.includes(features.signalType)) {
+            errors.push(`features.signalType must be one of ${SIGNAL_TYPES.join(', ')}`);
+        }
+        if (features.dampingRatio !== undefined && !(isFiniteNumber(features.dampingRatio) && features.dampingRatio >= 0 && features.dampingRatio < 1)) {
+            errors.push('features.dampingRatio must be in [0, 1)');
+        }
+        if (features.damageClass !== undefined && !DAMAGE_CLASSES.includes(features.damageClass)) {
+            errors.push(`features.damageClass must be one of ${DAMAGE_CLASSES.join(', ')}`);
+        }
+    }
+
+    const environment = reading.environment;
+    if (environment) {
+        if (environment.temperature !== undefined && !(isFiniteNumber(environment.temperature) &&
+            environment.temperature >= LIMITS.minTemperatureC && environment.temperature <= LIMITS.maxTemperatureC)) {
+            errors.push(`environment.temperature must be in [${LIMITS.minTemperatureC}, ${LIMITS.maxTemperatureC}] °C`);
+        }
+        if (environment.humidity !== undefined && !(isFiniteNumber(environment.humidity) && environment.humidity >= 0 && environment.humidity <= 100)) {
+            errors.push('environment.humidity must be in [0, 100] %');
+        }
+    }
+
+    return errors;
+}
+
+// ============================================================================
+// WIRE SHAPE
+// ============================================================================
+
+/**
+ * Parse and validate an untrusted wire payload into a canonical reading
+ */
+export function parseWireReading(input: unknown, now: number = Date.now()): ReadingValidation {
+    if (typeof input !== 'object' || input === null) {
+        return { ok: false, errors: ['reading must be an object'] };
+    }
+
+    const wire = input as Partial<WireReading>;
+    if (typeof wire.n !== 'string') {
+        return { ok: false, errors: ['n (node id) must be a string'] };
+    }
+    if (!Array.isArray(wire.a) || wire.a.length !== 3) {
+        return { ok: false, errors: ['a must be an [x, y, z] array'] };
+    }
+
+    const [accelX, accelY, accelZ] = wire.a;
+    const reading: SensorReading = {
+        nodeId: wire.n,
+        sequence: wire.s as number,
+        timestamp: wire.t as number,
+        sampleRateHz: wire.sr as number,
+        units: wire.u ?? 'g',
+        orientation: wire.o ?? 'enu',
+        accelX,
+        accelY,
+        accelZ,
+        magnitude: wire.m ?? vectorMagnitude(accelX, accelY, accelZ),
+    };
+
+    if (wire.f) {
+        reading.features = {
+            dominantFrequency: wire.f.f0,
+            fftSpectrum: wire.f.fft,
+            signalType: wire.f.cls,
+            dampingRatio: wire.f.zeta,
+            damageClass: wire.f.dmg,
+        };
+    }
+    if (wire.e) {
+        reading.environment = { temperature: wire.e.tc, humidity: wire.e.rh };
+    }
+
+    const errors = validateReading(reading, now);
+    return errors.length > 0 ? { ok: false, errors } : { ok: true, reading };
+}
+
+export function toWireReading(reading: SensorReading): WireReading {
+    const wire: WireReading = {
+        n: reading.nodeId,
+        s: reading.sequence,
+        t: reading.timestamp,
+        sr: reading.sampleRateHz,
+        u: reading.units,
+        o: reading.orientation,
+        a: [reading.accelX, reading.accelY, reading.accelZ],
+        m: reading.magnitude,
+    };
+
+    if (reading.features) {
+        wire.f = {
+            f0: reading.features.dominantFrequency,
+            fft: reading.features.fftSpectrum,
+            cls: reading.features.signalType,
+            zeta: reading.features.dampingRatio,
+            dmg: reading.features.damageClass,
+        };
+    }
+    if (reading.environment) {
+        wire.e = { tc: reading.environment.temperature, rh: reading.environment.humidity };
+    }
+
+    return wire;
+}
+
+// ============================================================================
+// ROW SHAPE (Supabase)
+// ============================================================================
+
+export function toReadingRow(reading: SensorReading): Omit<SensorReadingRow, 'id'> {
+    return {
+        node_id: reading.nodeId,
+        sequence: reading.sequence,
+        timestamp: new Date(reading.timestamp).toISOString(),
+        sample_rate_hz: reading.sampleRateHz,
+        units: reading.units,
+        orientation: reading.orientation,
+        accel_x: reading.accelX,
+        accel_y: reading.accelY,
+        accel_z: reading.accelZ,
+        magnitude: reading.magnitude,
+        dominant_frequency: reading.features?.dominantFrequency ?? null,
+        fft_spectrum: reading.features?.fftSpectrum ?? null,
+        signal_type: reading.features?.signalType ?? null,
+        damping_ratio: reading.features?.dampingRatio ?? null,
+        damage_class: reading.features?.damageClass ?? null,
+        temperature: reading.environment?.temperature ?? null,
+        humidity: reading.environment?.humidity ?? null,
+    };
+}
+
+export function fromReadingRow(row: SensorReadingRow): SensorReading {
+    const reading: SensorReading = {
+        nodeId: row.node_id,
+        sequence: row.sequence,
+        timestamp: Date.parse(row.timestamp),
+        sampleRateHz: row.sample_rate_hz,
+        units: row.units,
+        orientation: row.orientation,
+        accelX: row.accel_x,
+        accelY: row.accel_y,
+        accelZ: row.accel_z,
+        magnitude: row.magnitude,
+    };
+
+    if (row.dominant_frequency !== null || row.fft_spectrum !== null || row.signal_type !== null ||
+        row.damping_ratio !== null || row.damage_class !== null) {
+        reading.features = {
+            dominantFrequency: row.dominant_frequency ?? undefined,
+            fftSpectrum: row.fft_spectrum ?? undefined,
+            signalType: row.signal_type ?? undefined,
+            dampingRatio: row.damping_ratio ?? undefined,
+            damageClass: row.damage_class ?? undefined,
+        };
+    }
+    if (row.temperature !== null || row.humidity !== null) {
+        reading.environment = {
+            temperature: row.temperature ?? undefined,
+            humidity: row.humidity ?? undefined,
+        };
+    }
+
+    return reading;
+}
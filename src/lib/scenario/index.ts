@@ -0,0 +1,369 @@
+/**
+ * SEISMOS Scenario Format
+ *
+ * Scripted simulation runs for training exercises: a file describes the
+ * building inventory and a timeline of events, the ScenarioRunner plays it
+ * back on the demo simulator. Exercises are authored as JSON or YAML files
+ * without touching code.
+ *
+ * Format (`seismos-scenario`, times and durations in seconds):
+ * - `name`, `description`
+ * - `seed`: run seed as shown in the UI (base 36); fixes the generated
+ *   buildings and every random draw, so a scenario replays identically.
+ *   Must be text: YAML reads `5e3` as 5000, so quote seeds that look
+ *   like numbers. Without it the default run seed is used
+ * - `buildings`: optional inventory (id of at most 32 UTF-8 bytes, the
+ *   sensor frame limit, name, lat, lng, structureType, floors, yearBuilt,
+ *   optional baseScore and vs30); without it the seed's demo
+ *   buildings are used and events refer to them as `node-1` ... `node-80`
+ * - `events`: timeline, each with `at` and a `type`:
+ *   - `mainshock` / `aftershock`: `magnitude` (Mw), `depth` (km),
+ *     `duration`, `epicenter` ({lat, lng} or a building id); omitted
+ *     fields are drawn from the seed
+ *   - `truck`: traffic noise at `node`
+ *   - `sensor-failure`: `node`, `mode` glitch (spikes) or silent (no data)
+ *     for `duration`
+ *   - `network-outage`: `nodes` or `area` ({lat, lng, radiusKm}) stop
+ *     reporting for `duration`; the buildings are intact
+ */
+
+import { parseSeed } from '../random';
+import { MAX_NODE_ID_BYTES } from '../codec';
+import { DEMO_NODE_COUNT, type StructureType } from '../simulator';
+import { parseYaml } from './yaml';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ScenarioLocation {
+    lat: number;
+    lng: number;
+}
+
+export interface ScenarioBuilding extends ScenarioLocation {
+    id: string;
+    name: string;
+    structureType: StructureType;
+    floors: number;
+    yearBuilt: number;
+
+    /** Pre-existing damage score (0-100); drawn from the seed when absent */
+    baseScore?: number;
+
+    /** Site shear-wave velocity (m/s); the simulator's regional default when absent */
+    vs30?: number;
+}
+
+export interface ShockEvent {
+    type: 'mainshock' | 'aftershock';
+    atMs: number;
+    magnitude?: number;
+    depthKm?: number;
+    durationMs?: number;
+
+    /** Coordinates or the id of the building above the source */
+    epicenter?: ScenarioLocation | string;
+}
+
+export interface TruckEvent {
+    type: 'truck';
+    atMs: number;
+    node: string;
+}
+
+export interface SensorFailureEvent {
+    type: 'sensor-failure';
+    atMs: number;
+    node: string;
+    mode: 'glitch' | 'silent';
+    durationMs: number;
+}
+
+export interface NetworkOutageEvent {
+    type: 'network-outage';
+    atMs: number;
+    durationMs: number;
+    nodes?: string[];
+    area?: ScenarioLocation & { radiusKm: number };
+}
+
+export type ScenarioEvent = ShockEvent | TruckEvent | SensorFailureEvent | NetworkOutageEvent;
+
+export type ScenarioEventType = ScenarioEvent['type'];
+
+export interface Scenario {
+    name: string;
+    description: string;
+    seed: number | null;
+
+    /** Custom inventory, null for the seed's demo buildings */
+    buildings: ScenarioBuilding[] | null;
+
+    /** Ordered by atMs */
+    events: ScenarioEvent[];
+}
+
+/**
+ * Entry of the built-in scenario list (`public/scenarios/index.json`)
+ */
+export interface ScenarioManifestEntry {
+    file: string;
+    name: string;
+    description?: string;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const SCENARIO_FORMAT = 'seismos-scenario';
+
+/** Where the dashboard looks for built-in scenarios */
+export const SCENARIO_DIRECTORY = '/scenarios';
+
+export const SCENARIO_EVENT_LABELS: Record<ScenarioEventType, string> = {
+    'mainshock': 'Ana şok',
+    'aftershock': 'Artçı',
+    'truck': 'Kamyon geçişi',
+    'sensor-failure': 'Sensör arızası',
+    'network-outage': 'Ağ kesintisi',
+};
+
+const STRUCTURE_TYPES: StructureType[] = ['betonarme', 'yigma', 'celik', 'ahsap'];
+
+/** Defaults (s) for events that leave their duration out */
+const DEFAULT_DURATION_S = {
+    glitch: 1.5,
+    silent: 30,
+    outage: 30,
+};
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Parse scenario file contents; YAML for .yaml/.yml names, JSON otherwise
+ */
+export function parseScenarioText(text: string, fileName: string = 'scenario.json'): Scenario {
+    const yaml = /\.ya?ml$/i.test(fileName);
+    let json: unknown;
+    try {
+        json = yaml ? parseYaml(text) : JSON.parse(text);
+    } catch (error) {
+        throw new Error(`Invalid scenario: ${fileName}: ${(error as Error).message}`);
+    }
+    return parseScenario(json);
+}
+
+/**
+ * Validate a parsed scenario document; throws with every problem found
+ */
+export function parseScenario(json: unknown): Scenario {
+    if (!isRecord(json)) throw new Error('Invalid scenario: not an object');
+    const errors: string[] = [];
+    const check = new Checker(errors);
+
+    if (json.format !== SCENARIO_FORMAT) errors.push(`unsupported format ${String(json.format)}`);
+    const name = check.string(json.name, 'name');
+
+    let seed: number | null = null;
+    if (json.seed !== undefined && json.seed !== null) {
+        if (typeof json.seed !== 'string') {
+            errors.push(`seed: ${String(json.seed)} must be text; quote seeds that look like numbers`);
+        } else {
+            seed = parseSeed(json.seed);
+            if (seed === null) errors.push(`seed: "${json.seed}" is not a run seed`);
+        }
+    }
+
+    let buildings: ScenarioBuilding[] | null = null;
+    if (json.buildings !== undefined && json.buildings !== null) {
+        if (!Array.isArray(json.buildings) || json.buildings.length === 0) {
+            errors.push('buildings must be a non-empty list');
+        } else {
+            buildings = json.buildings.map((b, i) => parseBuilding(check, b, `buildings[${i}]`));
+            const ids = new Set<string>();
+            buildings.forEach((b, i) => {
+                if (ids.has(b.id)) errors.push(`buildings[${i}].id: duplicate "${b.id}"`);
+                ids.add(b.id);
+            });
+        }
+    }
+
+    // Events can only name buildings that exist in the inventory (the demo one without a list);
+    // empty ids were already reported as missing
+    const ids = new Set(buildings
+        ? buildings.map(b => b.id)
+        : Array.from({ length: DEMO_NODE_COUNT }, (_, i) => `node-${i + 1}`));
+
+    const events: ScenarioEvent[] = [];
+    if (!Array.isArray(json.events) || json.events.length === 0) {
+        errors.push('events must be a non-empty list');
+    } else {
+        json.events.forEach((e, i) => {
+            const event = parseEvent(check, e, `events[${i}]`);
+            if (!event) return;
+            referencedNodes(event).forEach(id => {
+                if (id.length > 0 && !ids.has(id)) errors.push(`events[${i}]: unknown building "${id}"`);
+            });
+            events.push(event);
+        });
+    }
+
+    if (errors.length > 0) throw new Error(`Invalid scenario: ${errors.join('; ')}`);
+    return {
+        name,
+        description: typeof json.description === 'string' ? json.description : '',
+        seed,
+        buildings,
+        events: events.sort((a, b) => a.atMs - b.atMs),
+    };
+}
+
+/**
+ * Building ids an event refers to (epicenter by id, targets, outage list)
+ */
+export function referencedNodes(event: ScenarioEvent): string[] {
+    switch (event.type) {
+        case 'mainshock':
+        case 'aftershock':
+            return typeof event.epicenter === 'string' ? [event.epicenter] : [];
+        case 'truck':
+        case 'sensor-failure':
+            return [event.node];
+        case 'network-outage':
+            return event.nodes ?? [];
+    }
+}
+
+/**
+ * Time at which the last event is over (ms from start)
+ */
+export function scenarioLength(scenario: Scenario): number {
+    return Math.max(0, ...scenario.events.map(event => event.atMs + ('durationMs' in event ? event.durationMs ?? 0 : 0)));
+}
+
+function parseBuilding(check: Checker, value: unknown, path: string): ScenarioBuilding {
+    const b = check.record(value, path);
+    const building: ScenarioBuilding = {
+        id: check.nodeId(b.id, `${path}.id`),
+        name: typeof b.name === 'string' ? b.name : String(b.id ?? ''),
+        lat: check.number(b.lat, `${path}.lat`, -90, 90),
+        lng: check.number(b.lng, `${path}.lng`, -180, 180),
+        structureType: check.oneOf(b.structureType, `${path}.structureType`, STRUCTURE_TYPES),
+        floors: Math.round(check.number(b.floors, `${path}.floors`, 1, 60)),
+        yearBuilt: Math.round(check.number(b.yearBuilt, `${path}.yearBuilt`, 1800, 2100)),
+    };
+    if (b.baseScore !== undefined) building.baseScore = check.number(b.baseScore, `${path}.baseScore`, 0, 100);
+    if (b.vs30 !== undefined) building.vs30 = check.number(b.vs30, `${path}.vs30`, 100, 3000);
+    return building;
+}
+
+function parseEvent(check: Checker, value: unknown, path: string): ScenarioEvent | null {
+    const e = check.record(value, path);
+    const atMs = check.number(e.at, `${path}.at`, 0) * 1000;
+    const duration = (fallback: number) =>
+        (e.duration === undefined ? fallback : check.number(e.duration, `${path}.duration`, 0.05)) * 1000;
+
+    switch (e.type) {
+        case 'mainshock':
+        case 'aftershock': {
+            const shock: ShockEvent = { type: e.type, atMs };
+            if (e.magnitude !== undefined) shock.magnitude = check.number(e.magnitude, `${path}.magnitude`, 3, 8);
+            if (e.depth !== undefined) shock.depthKm = check.number(e.depth, `${path}.depth`, 0, 100);
+            if (e.duration !== undefined) shock.durationMs = check.number(e.duration, `${path}.duration`, 0.05) * 1000;
+            if (typeof e.epicenter === 'string') shock.epicenter = e.epicenter;
+            else if (e.epicenter !== undefined) shock.epicenter = check.location(e.epicenter, `${path}.epicenter`);
+            return shock;
+        }
+        case 'truck':
+            return { type: 'truck', atMs, node: check.string(e.node, `${path}.node`) };
+        case 'sensor-failure': {
+            const mode = e.mode === undefined ? 'glitch' : check.oneOf(e.mode, `${path}.mode`, ['glitch', 'silent'] as const);
+            return {
+                type: 'sensor-failure',
+                atMs,
+                node: check.string(e.node, `${path}.node`),
+                mode,
+                durationMs: duration(mode === 'glitch' ? DEFAULT_DURATION_S.glitch : DEFAULT_DURATION_S.silent),
+            };
+        }
+        case 'network-outage': {
+            const outage: NetworkOutageEvent = { type: 'network-outage', atMs, durationMs: duration(DEFAULT_DURATION_S.outage) };
+            if (Array.isArray(e.nodes)) {
+                outage.nodes = e.nodes.map((id, i) => check.string(id, `${path}.nodes[${i}]`));
+            } else if (e.nodes !== undefined) {
+                check.fail(`${path}.nodes must be a list of building ids`);
+            }
+            if (e.area !== undefined) {
+                const area = check.record(e.area, `${path}.area`);
+                outage.area = { ...check.location(area, `${path}.area`), radiusKm: check.number(area.radiusKm, `${path}.area.radiusKm`, 0) };
+            }
+            if (!outage.nodes && !outage.area) check.fail(`${path}: network-outage needs nodes or area`);
+            return outage;
+        }
+        default:
+            check.fail(`${path}.type: unknown event type ${String(e.type)}`);
+            return null;
+    }
+}
+
+// ============================================================================
+// FIELD CHECKS
+// ============================================================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Field readers that record a problem and return a placeholder, so one
+ * pass reports every error in the file
+ */
+class Checker {
+    constructor(private readonly errors: string[]) {}
+
+    fail(message: string): void {
+        this.errors.push(message);
+    }
+
+    record(value: unknown, path: string): Record<string, unknown> {
+        if (isRecord(value)) return value;
+        this.fail(`${path} must be an object`);
+        return {};
+    }
+
+    string(value: unknown, path: string): string {
+        if (typeof value === 'string' && value.length > 0) return value;
+        this.fail(`${path} is required`);
+        return '';
+    }
+
+    /** Building id the sensor frame can carry */
+    nodeId(value: unknown, path: string): string {
+        const id = this.string(value, path);
+        if (new TextEncoder().encode(id).length > MAX_NODE_ID_BYTES) {
+            this.fail(`${path}: "${id}" is longer than ${MAX_NODE_ID_BYTES} bytes (sensor frame limit)`);
+        }
+        return id;
+    }
+
+    number(value: unknown, path: string, min: number = -Infinity, max: number = Infinity): number {
+        if (typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max) return value;
+        this.fail(`${path} must be a number${min > -Infinity ? ` >= ${min}` : ''}${max < Infinity ? ` and <= ${max}` : ''}`);
+        return Math.max(min, Math.min(max, 0));
+    }
+
+    oneOf<T extends string>(value: unknown, path: string, allowed: readonly T[]): T {
+        if (allowed.includes(value as T)) return value as T;
+        this.fail(`${path} must be one of ${allowed.join(', ')}`);
+        return allowed[0];
+    }
+
+    location(value: unknown, path: string): ScenarioLocation {
+        const v = this.record(value, path);
+        return { lat: this.number(v.lat, `${path}.lat`, -90, 90), lng: this.number(v.lng, `${path}.lng`, -180, 180) };
+    }
+}
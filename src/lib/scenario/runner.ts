@@ -0,0 +1,171 @@
+import { useSeismosStore } from '../store';
+import { applyRunSeed, DEMO_NODES, earthquakeSimulator, setDemoNodes, type DemoNode, type EarthquakeConfig } from '../simulator';
+import { haversineKm } from '../geo';
+import { DEFAULT_RUN_SEED, rememberRunSeed } from '../random';
+import type { Node } from '../supabase/types';
+import { scenarioLength, type Scenario, type ScenarioBuilding, type ScenarioEvent, type ShockEvent } from './index';
+
+// Sarsıntı sürerken sırası gelen şok bu aralıkla tekrar denenir
+const BUSY_RETRY_MS = 250;
+
+// Senaryo verilmezse sarsıntı süresi (simülatörün rastgele depremiyle aynı)
+const DEFAULT_SHOCK_MS = 5000;
+
+export interface ScenarioProgress {
+    scenario: Scenario;
+    startedAt: number;
+    fired: number;
+    lastEvent: ScenarioEvent | null;
+    finished: boolean;
+}
+
+// Senaryo dosyasını simülatör ve store üzerinde zaman çizelgesine göre oynatır (sadece host/tek konsol)
+export class ScenarioRunner {
+    private timers: Set<ReturnType<typeof setTimeout>> = new Set();
+    private progress: ScenarioProgress | null = null;
+    private listeners: Set<(progress: ScenarioProgress | null) => void> = new Set();
+
+    subscribe(listener: (progress: ScenarioProgress | null) => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    getProgress(): ScenarioProgress | null {
+        return this.progress;
+    }
+
+    start(scenario: Scenario): void {
+        this.stop();
+        const store = useSeismosStore.getState();
+        if (store.syncRole === 'follower') return;
+
+        // Tohum ve bina envanteri: aynı senaryo her seferinde aynı koşuyu üretir.
+        // Tohumsuz senaryo varsayılan tohumla, envantersiz senaryo tohumun demo binalarıyla oynar
+        // (önceki koşunun tohumu ve binaları taşınmaz)
+        const seed = scenario.seed ?? DEFAULT_RUN_SEED;
+        applyRunSeed(seed);
+        store.setRunSeed(seed);
+        rememberRunSeed(seed);
+        if (scenario.buildings) setDemoNodes(scenario.buildings.map(toDemoNode));
+
+        // Temiz başlangıç: hat sıfırlanır, yeni binalar yüklenir
+        store.resetToSafe();
+        const presetScores = new Map(
+            (scenario.buildings ?? []).flatMap(b => (b.baseScore !== undefined ? [[b.id, b.baseScore] as const] : []))
+        );
+        store.setNodes(DEMO_NODES as Array<Node & Pick<DemoNode, 'metadata'>>, presetScores);
+
+        this.progress = { scenario, startedAt: Date.now(), fired: 0, lastEvent: null, finished: false };
+        scenario.events.forEach(event => this.schedule(() => this.fire(event), event.atMs));
+        this.schedule(() => this.finishWhenDone(), scenarioLength(scenario));
+        this.emit();
+    }
+
+    stop(): void {
+        this.timers.forEach(timer => clearTimeout(timer));
+        this.timers.clear();
+        if (this.progress) {
+            this.progress = null;
+            this.emit();
+        }
+    }
+
+    // Son olay da bitince senaryo tamamlanmış sayılır (bekleyen artçı varsa onu da bekle)
+    private finishWhenDone(): void {
+        if (!this.progress) return;
+        if (this.progress.fired < this.progress.scenario.events.length) {
+            this.schedule(() => this.finishWhenDone(), BUSY_RETRY_MS);
+            return;
+        }
+        this.update({ finished: true });
+    }
+
+    private schedule(action: () => void, delayMs: number): void {
+        const timer = setTimeout(() => {
+            this.timers.delete(timer);
+            action();
+        }, delayMs);
+        this.timers.add(timer);
+    }
+
+    private fire(event: ScenarioEvent): void {
+        switch (event.type) {
+            case 'mainshock':
+            case 'aftershock': {
+                // Önceki sarsıntı hâlâ oynuyorsa bitmesini bekle
+                if (useSeismosStore.getState().simulatedQuake) {
+                    this.schedule(() => this.fire(event), BUSY_RETRY_MS);
+                    return;
+                }
+                useSeismosStore.getState().triggerEarthquake(undefined, this.shockConfig(event));
+                break;
+            }
+            case 'truck':
+                earthquakeSimulator.triggerTruckNoise(event.node, () => {});
+                break;
+            case 'sensor-failure':
+                if (event.mode === 'glitch') earthquakeSimulator.triggerSensorGlitch(event.node, () => {}, event.durationMs);
+                else earthquakeSimulator.setOffline([event.node], event.durationMs);
+                break;
+            case 'network-outage': {
+                const { area } = event;
+                const inArea = area
+                    ? DEMO_NODES.filter(node => haversineKm(node.lat, node.lng, area.lat, area.lng) <= area.radiusKm).map(node => node.id)
+                    : [];
+                earthquakeSimulator.setOffline([...(event.nodes ?? []), ...inArea], event.durationMs);
+                break;
+            }
+        }
+        this.update({ fired: (this.progress?.fired ?? 0) + 1, lastEvent: event });
+    }
+
+    // Dosyada olmayan parametreler tohumdan çekilir
+    private shockConfig(event: ShockEvent): EarthquakeConfig {
+        const config = earthquakeSimulator.randomEarthquake();
+        if (event.magnitude !== undefined) config.magnitude = event.magnitude;
+        if (event.depthKm !== undefined) config.depthKm = event.depthKm;
+        config.durationMs = event.durationMs ?? DEFAULT_SHOCK_MS;
+
+        const epicenter = typeof event.epicenter === 'string'
+            ? DEMO_NODES.find(node => node.id === event.epicenter)
+            : event.epicenter;
+        // Bina kimliği doğrulamada kontrol edildi
+        if (epicenter) {
+            config.epicenterLat = epicenter.lat;
+            config.epicenterLng = epicenter.lng;
+        }
+        return config;
+    }
+
+    private update(patch: Partial<ScenarioProgress>): void {
+        if (!this.progress) return;
+        this.progress = { ...this.progress, ...patch };
+        this.emit();
+    }
+
+    private emit(): void {
+        this.listeners.forEach(listener => listener(this.progress));
+    }
+}
+
+// Senaryo binası → simülatör binası
+function toDemoNode(building: ScenarioBuilding, index: number): DemoNode {
+    return {
+        id: building.id,
+        name: building.name,
+        status: 'stable',
+        lat: building.lat,
+        lng: building.lng,
+        is_physical: false,
+        metadata: {
+            floors: building.floors,
+            yearBuilt: building.yearBuilt,
+            structureType: building.structureType,
+            lastInspection: '-',
+            sensorId: `SEN-${(index + 1).toString().padStart(3, '0')}`,
+            vs30: building.vs30,
+        },
+    };
+}
+
+export const scenarioRunner = new ScenarioRunner();
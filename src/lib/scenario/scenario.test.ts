@@ -0,0 +1,135 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { parseSeed } from '../random';
+import { parseScenarioText, referencedNodes, scenarioLength, type Scenario } from './index';
+
+const SHIPPED_DIRECTORY = join(__dirname, '..', '..', '..', 'public', 'scenarios');
+
+function shipped(file: string): Scenario {
+    return parseScenarioText(readFileSync(join(SHIPPED_DIRECTORY, file), 'utf8'), file);
+}
+
+/** Minimal valid YAML scenario with the given lines appended to its header and event */
+function yamlScenario(header: string[] = [], event: string[] = ['  - at: 5', '    type: mainshock']): string {
+    return ['format: seismos-scenario', 'name: Test', ...header, 'events:', ...event].join('\n');
+}
+
+/** Run `fn`, which must throw an `Invalid scenario` error, and return its message */
+function invalid(fn: () => unknown): string {
+    try {
+        fn();
+    } catch (error) {
+        const message = (error as Error).message;
+        assert.match(message, /^Invalid scenario: /);
+        return message;
+    }
+    assert.fail('scenario was accepted');
+}
+
+describe('shipped scenarios', () => {
+    it('lists only files that parse', () => {
+        const manifest = JSON.parse(readFileSync(join(SHIPPED_DIRECTORY, 'index.json'), 'utf8')) as Array<{ file: string; name: string }>;
+        manifest.forEach(entry => assert.equal(shipped(entry.file).name, entry.name));
+    });
+
+    it('reads ana-sok-artcilar.yaml on the demo inventory', () => {
+        const scenario = shipped('ana-sok-artcilar.yaml');
+        assert.equal(scenario.seed, parseSeed('balat1'));
+        assert.equal(scenario.buildings, null);
+        assert.deepEqual(scenario.events.map(e => e.type), ['mainshock', 'aftershock', 'aftershock']);
+        assert.deepEqual(scenario.events[0].type === 'mainshock' && scenario.events[0].epicenter, { lat: 41.0295, lng: 28.9465 });
+    });
+
+    it('reads okul-tatbikati.yaml with its own buildings', () => {
+        const scenario = shipped('okul-tatbikati.yaml');
+        assert.equal(scenario.seed, parseSeed('okul1'));
+        assert.deepEqual(scenario.buildings?.map(b => b.id), ['okul', 'cami', 'konut-a', 'konut-b', 'han', 'kosk']);
+        assert.equal(scenario.buildings?.[0].vs30, 240);
+        assert.deepEqual(scenario.events.flatMap(referencedNodes), ['okul', 'konut-a', 'konut-b', 'han']);
+        assert.deepEqual(scenario.events.map(e => e.atMs), [8000, 11000, 40000]);
+    });
+
+    it('reads gurultu-ve-arizalar.json with default durations filled in', () => {
+        const scenario = shipped('gurultu-ve-arizalar.json');
+        assert.equal(scenario.seed, parseSeed('ariza1'));
+        assert.deepEqual(scenario.events.map(e => e.type), ['truck', 'sensor-failure', 'truck', 'sensor-failure', 'network-outage']);
+        assert.equal(scenarioLength(scenario), 70000);
+    });
+});
+
+describe('scenario validation', () => {
+    it('rejects an unknown event type', () => {
+        const message = invalid(() => parseScenarioText(yamlScenario([], ['  - at: 5', '    type: flood']), 'x.yaml'));
+        assert.match(message, /events\[0\]\.type: unknown event type flood/);
+    });
+
+    it('rejects a negative or missing time', () => {
+        assert.match(invalid(() => parseScenarioText(yamlScenario([], ['  - at: -1', '    type: mainshock']), 'x.yaml')),
+            /events\[0\]\.at must be a number >= 0/);
+        assert.match(invalid(() => parseScenarioText(yamlScenario([], ['  - at: "5"', '    type: mainshock']), 'x.yaml')),
+            /events\[0\]\.at must be a number/);
+    });
+
+    it('rejects building ids longer than the sensor frame allows', () => {
+        const id = 'b'.repeat(33);
+        const header = ['buildings:', `  - id: ${id}`, '    lat: 41', '    lng: 29', '    structureType: celik', '    floors: 2', '    yearBuilt: 2000'];
+        const message = invalid(() => parseScenarioText(yamlScenario(header, ['  - at: 5', '    type: truck', `    node: ${id}`]), 'x.yaml'));
+        assert.match(message, /buildings\[0\]\.id: "b{33}" is longer than 32 bytes/);
+    });
+
+    it('counts id length in UTF-8 bytes', () => {
+        const id = 'ş'.repeat(17);
+        const header = ['buildings:', `  - id: ${id}`, '    lat: 41', '    lng: 29', '    structureType: celik', '    floors: 2', '    yearBuilt: 2000'];
+        assert.match(invalid(() => parseScenarioText(yamlScenario(header, ['  - at: 5', '    type: truck', `    node: ${id}`]), 'x.yaml')),
+            /is longer than 32 bytes/);
+    });
+
+    it('rejects buildings missing from the inventory', () => {
+        const message = invalid(() => parseScenarioText(yamlScenario([], ['  - at: 5', '    type: mainshock', '    epicenter: node-81']), 'x.yaml'));
+        assert.match(message, /events\[0\]: unknown building "node-81"/);
+    });
+
+    it('reports every problem in one message', () => {
+        const message = invalid(() => parseScenarioText(yamlScenario([], ['  - at: -1', '    type: flood', '  - type: truck']), 'x.yaml'));
+        assert.deepEqual(message.replace('Invalid scenario: ', '').split('; '), [
+            'events[0].at must be a number >= 0',
+            'events[0].type: unknown event type flood',
+            'events[1].at must be a number >= 0',
+            'events[1].node is required',
+        ]);
+    });
+
+    it('points unknown buildings at the event that names them', () => {
+        const event = ['  - at: 1', '    type: flood', '  - at: 2', '    type: truck', '    node: node-99'];
+        assert.match(invalid(() => parseScenarioText(yamlScenario([], event), 'x.yaml')), /events\[1\]: unknown building "node-99"/);
+    });
+});
+
+describe('scenario scalars', () => {
+    it('accepts quoted seeds that look like numbers', () => {
+        assert.equal(parseScenarioText(yamlScenario(['seed: "5e3"']), 'x.yaml').seed, parseSeed('5e3'));
+        assert.equal(parseScenarioText(yamlScenario(["seed: '123'"]), 'x.yaml').seed, parseSeed('123'));
+    });
+
+    it('rejects unquoted seeds that YAML reads as numbers', () => {
+        assert.match(invalid(() => parseScenarioText(yamlScenario(['seed: 5e3']), 'x.yaml')), /seed: 5000 must be text/);
+        assert.match(invalid(() => parseScenarioText(yamlScenario(['seed: 123']), 'x.yaml')), /seed: 123 must be text/);
+    });
+
+    it('reads quoted and unquoted building ids alike', () => {
+        const event = ['  - at: 5', '    type: network-outage', '    nodes: ["node-1", node-2]', '  - at: 6', '    type: truck', "    node: 'node-3'"];
+        const scenario = parseScenarioText(yamlScenario([], event), 'x.yaml');
+        assert.deepEqual(scenario.events.flatMap(referencedNodes), ['node-1', 'node-2', 'node-3']);
+    });
+
+    it('rejects a quoted number where a number is expected', () => {
+        assert.match(invalid(() => parseScenarioText(yamlScenario([], ['  - at: 5', '    type: mainshock', '    magnitude: "6.1"']), 'x.yaml')),
+            /events\[0\]\.magnitude must be a number/);
+    });
+
+    it('names the YAML line of a syntax error', () => {
+        assert.match(invalid(() => parseScenarioText('format: seismos-scenario\nname: &a x', 'x.yaml')), /x\.yaml: \[YAML\] line 2/);
+    });
+});
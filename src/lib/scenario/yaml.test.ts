@@ -0,0 +1,61 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseYaml } from './yaml';
+
+describe('yaml scalars', () => {
+    it('reads plain numbers, booleans and null as values', () => {
+        assert.deepEqual(parseYaml('a: 12\nb: -0.5\nc: 5e3\nd: true\ne: false\nf: null\ng: ~'), {
+            a: 12, b: -0.5, c: 5000, d: true, e: false, f: null, g: null,
+        });
+    });
+
+    it('keeps quoted scalars as text', () => {
+        assert.deepEqual(parseYaml(`a: "12"\nb: '5e3'\nc: "true"\nd: 'null'`), {
+            a: '12', b: '5e3', c: 'true', d: 'null',
+        });
+    });
+
+    it('unescapes double quotes and doubled single quotes', () => {
+        assert.deepEqual(parseYaml(`a: "say \\"hi\\"\\nbye"\nb: 'it''s'`), { a: 'say "hi"\nbye', b: "it's" });
+    });
+
+    it('keeps # inside quotes and drops trailing comments', () => {
+        assert.deepEqual(parseYaml(`a: "x # y"\nb: plain text   # note`), { a: 'x # y', b: 'plain text' });
+    });
+});
+
+describe('yaml structure', () => {
+    it('nests sequences of mappings and flow collections', () => {
+        const text = [
+            'events:',
+            '  - at: 8',
+            '    nodes: [konut-a, "konut-b"]',
+            '  - at: 10',
+            '    epicenter: { lat: 41.03, lng: 28.95 }',
+        ].join('\n');
+        assert.deepEqual(parseYaml(text), {
+            events: [
+                { at: 8, nodes: ['konut-a', 'konut-b'] },
+                { at: 10, epicenter: { lat: 41.03, lng: 28.95 } },
+            ],
+        });
+    });
+
+    it('returns null for an empty document', () => {
+        assert.equal(parseYaml('# only a comment\n\n'), null);
+    });
+});
+
+describe('yaml errors', () => {
+    it('names the line of unsupported syntax', () => {
+        assert.throws(() => parseYaml('a: 1\nb: &anchor 2'), /line 2: unsupported YAML syntax/);
+    });
+
+    it('rejects tab indentation', () => {
+        assert.throws(() => parseYaml('a:\n\tb: 1'), /line 2: tabs are not allowed/);
+    });
+
+    it('rejects an unterminated string', () => {
+        assert.throws(() => parseYaml('a: "open'), /line 1: unterminated string/);
+    });
+});
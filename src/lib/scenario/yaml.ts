@@ -0,0 +1,233 @@
+/**
+ * SEISMOS Scenario YAML
+ *
+ * Parser for the block-style YAML subset scenario files are written in,
+ * so exercises can be authored in YAML without a YAML dependency in the
+ * browser bundle.
+ *
+ * Supported:
+ * - mappings (`key: value`) and sequences (`- item`) nested by indentation,
+ *   including sequence items that open a mapping (`- type: truck`)
+ * - one-line flow collections of scalars (`[a, b]`, `{ lat: 41.03, lng: 28.95 }`)
+ * - plain, 'single' and "double" quoted scalars; numbers, true/false, null
+ * - `#` comments
+ *
+ * Not supported: anchors/aliases, tags, multi-line scalars, nested flow
+ * collections, multiple documents. Anything outside the subset is an error
+ * with its line number rather than a silent misread.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface Line {
+    /** 1-based line number in the source, for messages */
+    number: number;
+    indent: number;
+    content: string;
+}
+
+const NUMBER = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+const KEY_VALUE = /^("[^"]*"|'[^']*'|[^\s:'"#[{][^:#]*?)\s*:(?:\s+(.*))?$/;
+
+// ============================================================================
+// PARSER
+// ============================================================================
+
+/**
+ * Parse a YAML document of the supported subset; throws with the line of
+ * the first problem
+ */
+export function parseYaml(text: string): unknown {
+    const lines = tokenize(text);
+    if (lines.length === 0) return null;
+
+    const [value, next] = parseBlock(lines, 0, lines[0].indent);
+    if (next < lines.length) {
+        fail(lines[next], lines[next].indent === lines[0].indent
+            ? 'sequence items and keys cannot be mixed at the same level'
+            : 'unexpected indentation');
+    }
+    return value;
+}
+
+function fail(line: Line, message: string): never {
+    throw new Error(`[YAML] line ${line.number}: ${message}`);
+}
+
+function tokenize(text: string): Line[] {
+    const lines: Line[] = [];
+    text.split(/\r?\n/).forEach((raw, i) => {
+        const number = i + 1;
+        if (raw.trim() === '---' && lines.length === 0) return;
+        const leading = raw.match(/^[ \t]*/)![0];
+        if (leading.includes('\t')) throw new Error(`[YAML] line ${number}: tabs are not allowed for indentation`);
+        const content = stripComment(raw.slice(leading.length)).trimEnd();
+        if (content.length > 0) lines.push({ number, indent: leading.length, content });
+    });
+    return lines;
+}
+
+/** Drop a `#` comment that is not inside quotes */
+function stripComment(text: string): string {
+    let quote: string | null = null;
+    for (let i = 0; i < text.length; i++) {
+        const c = text[i];
+        if (quote !== null) {
+            if (c === '\\' && quote === '"') i++;
+            else if (c === quote) quote = null;
+        } else if (c === '"' || c === "'") {
+            quote = c;
+        } else if (c === '#' && (i === 0 || text[i - 1] === ' ')) {
+            return text.slice(0, i);
+        }
+    }
+    return text;
+}
+
+const isSequenceItem = (content: string) => content === '-' || content.startsWith('- ');
+
+function parseBlock(lines: Line[], index: number, indent: number): [unknown, number] {
+    return isSequenceItem(lines[index].content)
+        ? parseSequence(lines, index, indent)
+        : parseMapping(lines, index, indent);
+}
+
+function parseSequence(lines: Line[], index: number, indent: number): [unknown[], number] {
+    const items: unknown[] = [];
+    let i = index;
+    while (i < lines.length && lines[i].indent === indent && isSequenceItem(lines[i].content)) {
+        const line = lines[i];
+        const rest = line.content.slice(1).trimStart();
+
+        if (rest.length === 0) {
+            // Item on the following, deeper lines
+            const child = lines[i + 1];
+            if (!child || child.indent <= indent) {
+                items.push(null);
+                i++;
+                continue;
+            }
+            const [value, next] = parseBlock(lines, i + 1, child.indent);
+            items.push(value);
+            i = next;
+        } else if (KEY_VALUE.test(rest) || isSequenceItem(rest)) {
+            // "- key: value" opens a mapping whose keys align with "key"
+            const offset = indent + line.content.length - rest.length;
+            const nested = [...lines];
+            nested[i] = { number: line.number, indent: offset, content: rest };
+            const [value, next] = parseBlock(nested, i, offset);
+            items.push(value);
+            i = next;
+        } else {
+            items.push(parseInline(line, rest));
+            i++;
+        }
+    }
+    if (i < lines.length && lines[i].indent > indent) fail(lines[i], 'unexpected indentation');
+    return [items, i];
+}
+
+function parseMapping(lines: Line[], index: number, indent: number): [Record<string, unknown>, number] {
+    const map: Record<string, unknown> = {};
+    let i = index;
+    while (i < lines.length && lines[i].indent === indent && !isSequenceItem(lines[i].content)) {
+        const line = lines[i];
+        const match = line.content.match(KEY_VALUE);
+        if (!match) fail(line, `expected "key: value", got "${line.content}"`);
+
+        const key = unquote(match[1]);
+        if (key in map) fail(line, `duplicate key "${key}"`);
+        const value = match[2];
+        i++;
+
+        if (value !== undefined && value.length > 0) {
+            map[key] = parseInline(line, value);
+            continue;
+        }
+
+        // Value on the following lines: deeper block, or a sequence at the same indent
+        const child = lines[i];
+        if (child && (child.indent > indent || (child.indent === indent && isSequenceItem(child.content)))) {
+            const [nested, next] = parseBlock(lines, i, child.indent);
+            map[key] = nested;
+            i = next;
+        } else {
+            map[key] = null;
+        }
+    }
+    if (i < lines.length && lines[i].indent > indent) fail(lines[i], 'unexpected indentation');
+    return [map, i];
+}
+
+// ============================================================================
+// SCALARS
+// ============================================================================
+
+function parseInline(line: Line, text: string): unknown {
+    const trimmed = text.trim();
+    if (trimmed.startsWith('[')) {
+        if (!trimmed.endsWith(']')) fail(line, 'unterminated flow sequence');
+        return splitFlow(line, trimmed.slice(1, -1)).map(item => parseScalar(line, item));
+    }
+    if (trimmed.startsWith('{')) {
+        if (!trimmed.endsWith('}')) fail(line, 'unterminated flow mapping');
+        const map: Record<string, unknown> = {};
+        for (const entry of splitFlow(line, trimmed.slice(1, -1))) {
+            const match = entry.match(/^("[^"]*"|'[^']*'|[^:]+?)\s*:\s*(.*)$/);
+            if (!match) fail(line, `expected "key: value" in flow mapping, got "${entry}"`);
+            map[unquote(match[1])] = parseScalar(line, match[2]);
+        }
+        return map;
+    }
+    return parseScalar(line, trimmed);
+}
+
+/** Split flow collection contents on top-level commas */
+function splitFlow(line: Line, body: string): string[] {
+    const parts: string[] = [];
+    let quote: string | null = null;
+    let current = '';
+    for (const c of body) {
+        if (quote !== null) {
+            if (c === quote) quote = null;
+        } else if (c === '"' || c === "'") {
+            quote = c;
+        } else if (c === '[' || c === '{') {
+            fail(line, 'nested flow collections are not supported');
+        } else if (c === ',') {
+            parts.push(current.trim());
+            current = '';
+            continue;
+        }
+        current += c;
+    }
+    if (current.trim().length > 0) parts.push(current.trim());
+    return parts;
+}
+
+function parseScalar(line: Line, text: string): unknown {
+    if (text.startsWith('"') || text.startsWith("'")) {
+        if (text.length < 2 || !text.endsWith(text[0])) fail(line, `unterminated string ${text}`);
+        return unquote(text);
+    }
+    if (text.startsWith('&') || text.startsWith('*') || text.startsWith('!') || text === '|' || text === '>') {
+        fail(line, `unsupported YAML syntax "${text}"`);
+    }
+    if (text === 'null' || text === '~') return null;
+    if (text === 'true') return true;
+    if (text === 'false') return false;
+    if (NUMBER.test(text)) return Number(text);
+    return text;
+}
+
+function unquote(text: string): string {
+    if (text.startsWith('"') && text.endsWith('"') && text.length >= 2) {
+        return text.slice(1, -1).replace(/\\(["\\n])/g, (_, c: string) => (c === 'n' ? '\n' : c));
+    }
+    if (text.startsWith("'") && text.endsWith("'") && text.length >= 2) {
+        return text.slice(1, -1).replace(/''/g, "'");
+    }
+    return text.trim();
+}
@@ -1,12 +1,21 @@
-import type { SensorReading, NodeStatus } from '../supabase/types';
+import type { NodeStatus } from '../supabase/types';
+import { toG, type SensorReading } from '../readings';
 import {
     damageScoreCalculator,
     featureExtractor,
     frequencyEstimator,
+    type DamageModel,
     type DamageScore,
-    type DamageFeatures
+    type FrequencyEstimate,
+    type FrequencyEstimator
 } from '../damage-score';
 import { baselineTracker, type FatigueIndicator } from '../damage-score/baseline-tracker';
+import { scoreInterval, scoreQualityAssessor, type QualityFlag } from '../damage-score/quality';
+import { dampingEstimator, type DampingEstimate } from '../damage-score/damping-estimator';
+import { intensityTracker, type IntensityMeasures } from '../intensity';
+import { staLtaTrigger, type StaLtaTrigger, type TriggerState } from '../trigger';
+import { signalClassifier, type SignalClassification, type SignalClassifier } from '../classifier';
+import type { BuildingProfile } from '../fragility';
 
 export interface FilteredReading extends SensorReading {
     filteredMagnitude: number;
@@ -38,15 +47,23 @@ export class MovingAverageFilter {
 
 // High-pass filter to remove DC offset
 export class HighPassFilter {
-    private alpha: number;
+    private alpha: number = 0;
     private previousFiltered: number = 0;
     private previousRaw: number = 0;
+    private sampleRate: number = 0;
 
-    constructor(cutoffFrequency: number = 0.5, sampleRate: number = 100) {
+    constructor(private readonly cutoffFrequency: number = 0.5, sampleRate: number = 100) {
+        this.setSampleRate(sampleRate);
+    }
+
+    // Nodes switch rates (idle 5 Hz, event 20 Hz); the state carries over
+    setSampleRate(sampleRate: number): void {
+        if (sampleRate === this.sampleRate) return;
         // RC time constant
-        const rc = 1 / (2 * Math.PI * cutoffFrequency);
+        const rc = 1 / (2 * Math.PI * this.cutoffFrequency);
         const dt = 1 / sampleRate;
         this.alpha = rc / (rc + dt);
+        this.sampleRate = sampleRate;
     }
 
     apply(value: number): number {
@@ -80,7 +97,6 @@ export function interpretMagnitude(magnitude: number): NodeStatus {
 export interface CorrelationResult {
     isCorrelated: boolean;
     correlatedNodes: string[];
-    eventId?: string;
 }
 
 // Check for correlated events across nodes
@@ -102,7 +118,35 @@ export function checkCorrelation(
     return {
         isCorrelated: recentHighMagnitude.length >= 2,
         correlatedNodes: recentHighMagnitude,
-        eventId: recentHighMagnitude.length >= 2 ? `event_${now}` : undefined,
+    };
+}
+
+/**
+ * Fatigue indicator of a reading without a usable frequency: nothing
+ * measured, nothing compared, the baseline tracker is not fed
+ */
+function unmeasuredFatigue(): FatigueIndicator {
+    return {
+        hasWarning: false,
+        trendSlope: 0,
+        trendSource: null,
+        trendSpanDays: 0,
+        residualStd: 0,
+        seasonalAmplitude: null,
+        thresholdFrequency: 0,
+        projectedDaysToThreshold: null,
+        baselineFrequency: null,
+        currentFrequency: null,
+        compensatedFrequency: null,
+        temperatureCoefficient: null,
+        deviationPercent: 0,
+        sampleCount: 0,
+        trendConfidence: 0,
+        dampingRatio: null,
+        baselineDampingRatio: null,
+        changeEvent: null,
+        lastChange: null,
+        lastComparison: null,
     };
 }
 
@@ -116,8 +160,29 @@ export interface PipelineResult {
 
     // NEW: Damage scoring
     damageScore: DamageScore;
+
+    /** Same features through the shadow damage model, when one is set (for comparison) */
+    shadowDamageScore?: DamageScore;
     fatigueIndicator: FatigueIndicator;
 
+    /** Dominant frequency from the active estimator */
+    frequencyEstimate: FrequencyEstimate;
+
+    /** Same stream through the shadow estimator, when one is set (for comparison) */
+    shadowFrequencyEstimate?: FrequencyEstimate;
+
+    /** Damping ratio of the dominant mode (firmware value when the node sends one) */
+    dampingEstimate: DampingEstimate;
+
+    /** STA/LTA detector state; `trigger.event` is set on the sample that opened or closed a trigger */
+    trigger: TriggerState;
+
+    /** Ground-motion intensity over the node's recent record (null when idle or too short) */
+    intensityMeasures: IntensityMeasures | null;
+
+    /** What the node is recording (ambient, earthquake, local noise, sensor fault) */
+    classification: SignalClassification;
+
     stages: {
         raw: { complete: boolean; timestamp: number };
         filter: { complete: boolean; timestamp: number };
@@ -129,19 +194,89 @@ export interface PipelineResult {
 export class SignalProcessor {
     private filters: Map<string, { ma: MovingAverageFilter; hp: HighPassFilter }> = new Map();
     private recentReadings: Map<string, { timestamp: number; magnitude: number }> = new Map();
+    private estimator: FrequencyEstimator;
+    private shadowEstimator: FrequencyEstimator | null = null;
+    private damageModel: DamageModel = damageScoreCalculator;
+    private shadowDamageModel: DamageModel | null = null;
+    private buildings: Map<string, BuildingProfile> = new Map();
+    private trigger: StaLtaTrigger;
+    private classifier: SignalClassifier;
+
+    constructor(
+        estimator: FrequencyEstimator = frequencyEstimator,
+        trigger: StaLtaTrigger = staLtaTrigger,
+        classifier: SignalClassifier = signalClassifier
+    ) {
+        this.estimator = estimator;
+        this.trigger = trigger;
+        this.classifier = classifier;
+    }
 
-    getOrCreateFilters(nodeId: string) {
-        if (!this.filters.has(nodeId)) {
-            this.filters.set(nodeId, {
-                ma: new MovingAverageFilter(5),
-                hp: new HighPassFilter(0.5, 100),
-            });
+    /**
+     * Swap the estimator feeding the damage score
+     */
+    setFrequencyEstimator(estimator: FrequencyEstimator): void {
+        this.estimator = estimator;
+    }
+
+    getFrequencyEstimator(): FrequencyEstimator {
+        return this.estimator;
+    }
+
+    /**
+     * Run a second estimator on the same samples without affecting scoring
+     */
+    setShadowEstimator(estimator: FrequencyEstimator | null): void {
+        this.shadowEstimator = estimator;
+    }
+
+    /**
+     * Swap the model producing the damage score (and the node status)
+     */
+    setDamageModel(model: DamageModel): void {
+        this.damageModel = model;
+    }
+
+    getDamageModel(): DamageModel {
+        return this.damageModel;
+    }
+
+    /**
+     * Score the same features with a second model without affecting status
+     */
+    setShadowDamageModel(model: DamageModel | null): void {
+        this.shadowDamageModel = model;
+    }
+
+    getShadowDamageModel(): DamageModel | null {
+        return this.shadowDamageModel;
+    }
+
+    /**
+     * Structural profile per node, handed to the damage models (fragility curves)
+     */
+    setBuildings(buildings: Iterable<[string, BuildingProfile]>): void {
+        this.buildings = new Map(buildings);
+    }
+
+    getOrCreateFilters(nodeId: string, sampleRateHz: number) {
+        const filters = this.filters.get(nodeId);
+        if (filters) {
+            filters.hp.setSampleRate(sampleRateHz);
+            return filters;
         }
-        return this.filters.get(nodeId)!;
+        const created = {
+            ma: new MovingAverageFilter(5),
+            hp: new HighPassFilter(0.5, sampleRateHz),
+        };
+        this.filters.set(nodeId, created);
+        return created;
     }
 
-    process(reading: SensorReading): PipelineResult {
+    process(input: SensorReading): PipelineResult {
         const now = Date.now();
+        // Pipeline thresholds are in g
+        const reading = toG(input);
         const stages = {
             raw: { complete: false, timestamp: 0 },
             filter: { complete: false, timestamp: 0 },
@@ -154,13 +289,41 @@ export class SignalProcessor {
         stages.raw = { complete: true, timestamp: now };
 
         // Stage 2: FILTER
-        const { ma, hp } = this.getOrCreateFilters(reading.node_id);
+        const { ma, hp } = this.getOrCreateFilters(reading.nodeId, reading.sampleRateHz);
         const hpFiltered = hp.apply(rawMagnitude);
         const filteredMagnitude = Math.abs(ma.apply(hpFiltered));
         stages.filter = { complete: true, timestamp: Date.now() };
 
+        // Every sample goes to the estimators so their time series stay contiguous
+        const sample = {
+            accelX: reading.accelX,
+            accelY: reading.accelY,
+            accelZ: reading.accelZ,
+            magnitude: filteredMagnitude,
+            sampleRateHz: reading.sampleRateHz,
+        };
+        const frequencyEstimate = this.estimator.estimate(reading.nodeId, sample);
+        const shadowFrequencyEstimate = this.shadowEstimator?.estimate(reading.nodeId, sample);
+        intensityTracker.push(reading.nodeId, sample);
+        const firmwareDamping = reading.features?.dampingRatio;
+        const estimatedDamping = dampingEstimator.estimate(reading.nodeId, sample);
+        const dampingEstimate: DampingEstimate = firmwareDamping !== undefined
+            ? { ratio: firmwareDamping, confidence: 1, halfPower: null, randomDecrement: null }
+            : estimatedDamping;
+
+        // Event detection runs on the node's own clock so batched uploads pick correctly
+        const trigger = this.trigger.process(reading.nodeId, sample, reading.timestamp);
+        const classification = this.classifier.classify(
+            reading.nodeId,
+            sample,
+            trigger,
+            reading.timestamp,
+            reading.features?.fftSpectrum
+        );
+        scoreQualityAssessor.observe(reading);
+
         // Stage 3: CORRELATE
-        this.recentReadings.set(reading.node_id, {
+        this.recentReadings.set(reading.nodeId, {
             timestamp: now,
             magnitude: filteredMagnitude,
         });
@@ -170,10 +333,69 @@ export class SignalProcessor {
         // Stage 4: INTERPRET
         // CRITICAL: Skip damage calculation for very low magnitudes (normal background noise)
         const MIN_MAGNITUDE_FOR_DAMAGE = 0.05; // Below this, always safe
+        const MIN_FREQUENCY_CONFIDENCE = 0.5; // Spectral estimates below this are noise (or the warm-up placeholder)
+        const building = this.buildings.get(reading.nodeId);
+        const qualityFlags = scoreQualityAssessor.flags(reading, {
+            hasBaseline: baselineTracker.hasBaseline(reading.nodeId),
+            frequencyEstimate,
+            now,
+        });
+        const qualify = (model: DamageModel, score: DamageScore, flags: QualityFlag[] = qualityFlags): DamageScore => ({
+            ...score,
+            interval: scoreInterval(model, score, building, flags, frequencyEstimate),
+            qualityFlags: flags,
+        });
+
+        // Frequency the reading measured: the node's own dominant frequency
+        // when it reports one, a confident spectral estimate otherwise. The
+        // estimator's buffer restarts when the sample rate switches at an
+        // event onset, so its early output must not count as a shift.
+        const measuredFrequency = reading.features?.dominantFrequency ??
+            (frequencyEstimate.confidence >= MIN_FREQUENCY_CONFIDENCE ? frequencyEstimate.frequency : null);
 
         if (filteredMagnitude < MIN_MAGNITUDE_FOR_DAMAGE) {
             // Return safe score for idle/background noise
             stages.interpret = { complete: true, timestamp: Date.now() };
+
+            // Ambient estimates keep the baseline tracker (fatigue, change
+            // points, post-event baselines) fed between events
+            // Without a frequency there is nothing to compare: the
+            // frequencies stay null and the score carries no_baseline
+            const quietFlags: QualityFlag[] = measuredFrequency !== null || qualityFlags.includes('no_baseline')
+                ? qualityFlags
+                : ['no_baseline', ...qualityFlags];
+            const fatigueIndicator: FatigueIndicator = measuredFrequency !== null
+                ? baselineTracker.update(reading.nodeId, measuredFrequency, dampingEstimate, reading.timestamp, reading.environment)
+                : unmeasuredFatigue();
+
+            const quietScore = (model: string): DamageScore => ({
+                score: 0,
+                category: 'safe',
+                categoryLabel: 'Güvenli',
+                components: { frequencyShiftScore: 0, peakEnergyScore: 0, durationScore: 0 },
+                features: {
+                    frequencyShift: 0,
+                    peakEnergy: 0,
+                    abnormalDuration: 0,
+                    currentFrequency: measuredFrequency,
+                    baselineFrequency: quietFlags.includes('no_baseline') ? null : baselineTracker.getReferenceFrequency(reading.nodeId),
+                    dampingRatio: 0,
+                    dampingIncrease: 0,
+                    pga: 0,
+                    pgv: 0,
+                    pgd: 0,
+                    ariasIntensity: 0,
+                    cav: 0,
+                    bracketedDuration: 0,
+                    spectralAcceleration: 0,
+                },
+                legacyStatus: 'stable',
+                model,
+                fragility: null,
+                interval: { lower: 0, upper: 0 },
+                qualityFlags: [],
+            });
+
             return {
                 reading,
                 rawMagnitude,
@@ -181,47 +403,52 @@ export class SignalProcessor {
                 isCorrelated: false,
                 correlatedNodes: [],
                 status: 'stable',
-                damageScore: {
-                    score: 0,
-                    category: 'safe',
-                    categoryLabel: 'Güvenli',
-                    components: { frequencyShiftScore: 0, peakEnergyScore: 0, durationScore: 0 },
-                    features: {
-                        frequencyShift: 0,
-                        peakEnergy: 0,
-                        abnormalDuration: 0,
-                        currentFrequency: 5.0,
-                        baselineFrequency: 5.0,
-                    },
-                    legacyStatus: 'stable',
-                },
-                fatigueIndicator: {
-                    hasWarning: false,
-                    trendSlope: 0,
-                    baselineFrequency: 5.0,
-                    currentFrequency: 5.0,
-                    deviationPercent: 0,
-                    sampleCount: 0,
-                    trendConfidence: 0,
-                },
+                damageScore: qualify(this.damageModel, quietScore(this.damageModel.name), quietFlags),
+                shadowDamageScore: this.shadowDamageModel
+                    ? qualify(this.shadowDamageModel, quietScore(this.shadowDamageModel.name), quietFlags)
+                    : undefined,
+                fatigueIndicator,
+                frequencyEstimate,
+                shadowFrequencyEstimate,
+                dampingEstimate,
+                trigger,
+                intensityMeasures: null,
+                classification,
                 stages,
             };
         }
 
-        // Full damage calculation only for significant readings
-        const currentFrequency = frequencyEstimator.estimate(reading.node_id, filteredMagnitude);
-        const fatigueIndicator = baselineTracker.update(reading.node_id, currentFrequency);
-        const baselineFrequency = baselineTracker.getBaseline(reading.node_id);
+        // Full damage calculation only for significant readings; without a
+        // measured frequency the shift term stays out and the tracker is not fed
+        const currentFrequency = measuredFrequency;
+        const fatigueIndicator = currentFrequency !== null
+            ? baselineTracker.update(reading.nodeId, currentFrequency, dampingEstimate, reading.timestamp, reading.environment)
+            : unmeasuredFatigue();
+        // Damage is judged against the building's level before the event (pre/post comparison).
+        // Without one there is no shift to score; PSA then falls back to the measured period.
+        const baselineFrequency = baselineTracker.getReferenceFrequency(reading.nodeId);
+        const shakingFlags: QualityFlag[] = baselineFrequency !== null || qualityFlags.includes('no_baseline')
+            ? qualityFlags
+            : ['no_baseline', ...qualityFlags];
+        const periodFrequency = baselineFrequency ?? currentFrequency;
+        const intensityMeasures = periodFrequency !== null && periodFrequency > 0
+            ? intensityTracker.compute(reading.nodeId, 1 / periodFrequency)
+            : null;
 
         const features = featureExtractor.extract(
-            reading.node_id,
+            reading.nodeId,
             filteredMagnitude,
             currentFrequency,
             baselineFrequency,
-            now
+            now,
+            intensityMeasures,
+            fatigueIndicator
         );
 
-        const damageScore = damageScoreCalculator.calculate(features);
+        const damageScore = qualify(this.damageModel, this.damageModel.calculate(features, building), shakingFlags);
+        const shadowDamageScore = this.shadowDamageModel
+            ? qualify(this.shadowDamageModel, this.shadowDamageModel.calculate(features, building), shakingFlags)
+            : undefined;
         const status = damageScore.legacyStatus;
         stages.interpret = { complete: true, timestamp: Date.now() };
 
@@ -233,7 +460,14 @@ export class SignalProcessor {
             correlatedNodes: correlation.correlatedNodes,
             status,
             damageScore,
+            shadowDamageScore,
             fatigueIndicator,
+            frequencyEstimate,
+            shadowFrequencyEstimate,
+            dampingEstimate,
+            trigger,
+            intensityMeasures,
+            classification,
             stages,
         };
     }
@@ -250,6 +484,13 @@ export class SignalProcessor {
     reset(): void {
         this.filters.clear();
         this.recentReadings.clear();
+        this.estimator.reset();
+        this.shadowEstimator?.reset();
+        intensityTracker.reset();
+        dampingEstimator.reset();
+        this.trigger.reset();
+        this.classifier.reset();
+        scoreQualityAssessor.reset();
     }
 }
 
@@ -1,4 +1,10 @@
 import type { Node } from '../supabase/types';
+import { toWireReading, vectorMagnitude, type EnvironmentReading, type SensorReading, type SignalType } from '../readings';
+import { encodeFrame, UplinkMeter, type UplinkStats } from '../codec';
+import { haversineKm } from '../geo';
+import { DEFAULT_RUN_SEED, SeededRandom } from '../random';
+import { groundMotionModel, type EarthquakeSource, type GroundMotion } from '../attenuation';
+import { assessFragility } from '../fragility';
 
 // Bina yapı tipleri
 export type StructureType = 'betonarme' | 'yigma' | 'celik' | 'ahsap';
@@ -9,20 +15,78 @@ export interface BuildingMetadata {
     structureType: StructureType;
     lastInspection: string;   // Son denetim tarihi
     sensorId: string;         // Sensör ID
+    vs30?: number;            // Zemin kayma dalgası hızı (m/s) - yoksa bölge varsayılanı (Haliç kıyısı, D sınıfı)
 }
 
-// Sinyal tipi - AI tarafından sınıflandırılır
-export type SignalType = 'idle' | 'seismic' | 'noise' | 'anomaly';
-
-export interface SensorReading {
-    timestamp: number;
-    accelX: number;
-    accelY: number;
-    accelZ: number;
-    magnitude: number;
-    frequency: number;           // Dominant frekans (Hz)
-    fftSpectrum: number[];       // FFT spektrumu (0-10 Hz, 20 bin)
-    signalType: SignalType;      // AI sınıflandırması
+// Örnekleme hızları - boşta 200ms, olay sırasında 50ms aralıkla okuma
+const IDLE_SAMPLE_RATE_HZ = 5;
+const EVENT_SAMPLE_RATE_HZ = 20;
+
+// Sarsıntının yayılma hızı (km/s) - Haliç kıyısı yumuşak zemin, sığ kaynak.
+// Her node sarsıntıyı merkezden uzaklığı / hız kadar geç alır (konum tahmini buna dayanır)
+export const SIMULATED_WAVE_VELOCITY_KM_S = 1.0;
+
+// Simülasyon saati - okuma zaman damgaları, ısıl döngü ve kesinti süreleri buradan okunur.
+// Canlı demoda duvar saati; tekrar oynatmada sabit bir başlangıçtan elle ilerletilen saat
+export type SimulationClock = () => number;
+
+// Tekrar oynatma ve testler için sabit başlangıç anı
+export const SIMULATION_EPOCH = Date.UTC(2026, 0, 1);
+
+// Elle ilerletilen saat: aynı adımlar aynı zaman damgalarını verir
+export class ManualClock {
+    constructor(private time: number = SIMULATION_EPOCH) { }
+
+    readonly now: SimulationClock = () => this.time;
+
+    advance(ms: number): void {
+        this.time += ms;
+    }
+}
+
+// Isıl döngü - ortam sıcaklığı/nemi ve doğal frekansa etkisi (çevresel telafi testi için)
+export interface ThermalCycleConfig {
+    meanTemperature: number;      // Yıllık ortalama sıcaklık (°C)
+    dailyAmplitude: number;       // Gün içi salınım genliği (°C), tepe 15:00'te
+    seasonalAmplitude: number;    // Mevsimsel salınım genliği (°C), tepe temmuz sonunda
+    meanHumidity: number;         // Ortalama bağıl nem (%)
+    humidityAmplitude: number;    // Hava durumu kaynaklı nem salınımı (%), sıcaklıktan bağımsız
+    temperatureCoefficient: number; // °C başına frekans değişimi (oran, betonarme ~ -0.001..-0.005)
+    humidityCoefficient: number;  // %RH başına frekans değişimi (oran)
+    timeScale: number;            // Simülasyon saati hızı (1 = gerçek zaman, 1440 = dakikada bir gün)
+}
+
+// İstanbul iklimine yakın varsayılanlar - canlı demoda bir gün bir dakikada geçer
+export const DEFAULT_THERMAL_CYCLES: ThermalCycleConfig = {
+    meanTemperature: 15,
+    dailyAmplitude: 5,
+    seasonalAmplitude: 9,
+    meanHumidity: 70,
+    humidityAmplitude: 12,
+    temperatureCoefficient: -0.003,
+    humidityCoefficient: -0.0005,
+    timeScale: 1440,
+};
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const WEATHER_PERIOD_DAYS = 3.7; // Nemli/kuru hava geçişlerinin periyodu
+
+// Verilen andaki ortam koşulları (gürültüsüz)
+export function thermalConditions(timestamp: number, config: ThermalCycleConfig): { temperature: number; humidity: number } {
+    const days = timestamp / MS_PER_DAY;
+    const hourOfDay = (days % 1) * 24;
+    const dayOfYear = days % 365.25;
+
+    const daily = config.dailyAmplitude * Math.sin((2 * Math.PI * (hourOfDay - 9)) / 24);
+    const seasonal = config.seasonalAmplitude * Math.cos((2 * Math.PI * (dayOfYear - 205)) / 365.25);
+    // Gün içinde ısınınca nem düşer; hava durumu döngüsü sıcaklıktan bağımsız ekler
+    const weather = config.humidityAmplitude * Math.sin((2 * Math.PI * days) / WEATHER_PERIOD_DAYS);
+    const humidity = config.meanHumidity - 1.5 * daily + weather;
+
+    return {
+        temperature: config.meanTemperature + daily + seasonal,
+        humidity: Math.max(5, Math.min(100, humidity)),
+    };
 }
 
 // Balat bölgesi - denize taşmayan sıkı sınırlar
@@ -34,12 +98,12 @@ const BOUNDS = {
 };
 
 // Rastgele bina meta verisi oluştur
-function generateBuildingMetadata(id: number): BuildingMetadata {
+function generateBuildingMetadata(id: number, rng: SeededRandom): BuildingMetadata {
     const types: StructureType[] = ['betonarme', 'yigma', 'celik', 'ahsap'];
     const typeWeights = [0.5, 0.35, 0.1, 0.05]; // Betonarme en yaygın
 
     let typeIndex = 0;
-    const rand = Math.random();
+    const rand = rng.next();
     let cumWeight = 0;
     for (let i = 0; i < typeWeights.length; i++) {
         cumWeight += typeWeights[i];
@@ -50,55 +114,94 @@ function generateBuildingMetadata(id: number): BuildingMetadata {
     }
 
     return {
-        floors: 1 + Math.floor(Math.random() * 6), // 1-6 kat
-        yearBuilt: 1960 + Math.floor(Math.random() * 60), // 1960-2020
+        floors: 1 + rng.int(6), // 1-6 kat
+        yearBuilt: 1960 + rng.int(60), // 1960-2020
         structureType: types[typeIndex],
-        lastInspection: `${2020 + Math.floor(Math.random() * 4)}-0${1 + Math.floor(Math.random() * 9)}-${10 + Math.floor(Math.random() * 18)}`,
+        lastInspection: `${2020 + rng.int(4)}-0${1 + rng.int(9)}-${10 + rng.int(18)}`,
         sensorId: `SEN-${id.toString().padStart(3, '0')}`,
     };
 }
 
-// Balat bölgesinde rastgele binalar
-function generateBalatNodes(count: number): Array<Omit<Node, 'created_at'> & { metadata: BuildingMetadata }> {
-    const nodes: Array<Omit<Node, 'created_at'> & { metadata: BuildingMetadata }> = [];
+// Simülasyondaki bina + sensör
+export type DemoNode = Omit<Node, 'created_at'> & { metadata: BuildingMetadata };
+
+// Balat bölgesinde rastgele binalar (aynı tohum → aynı konum ve yapı)
+function generateBalatNodes(count: number, rng: SeededRandom): DemoNode[] {
+    const nodes: DemoNode[] = [];
 
     for (let i = 1; i <= count; i++) {
         nodes.push({
             id: `node-${i}`,
             name: `Bina ${i}`,
             status: 'stable',
-            lat: BOUNDS.minLat + Math.random() * (BOUNDS.maxLat - BOUNDS.minLat),
-            lng: BOUNDS.minLng + Math.random() * (BOUNDS.maxLng - BOUNDS.minLng),
+            lat: rng.range(BOUNDS.minLat, BOUNDS.maxLat),
+            lng: rng.range(BOUNDS.minLng, BOUNDS.maxLng),
             is_physical: false,
-            metadata: generateBuildingMetadata(i),
+            metadata: generateBuildingMetadata(i, rng),
         });
     }
 
     return nodes;
 }
 
-export const DEMO_NODES = generateBalatNodes(80);
+export const DEMO_NODE_COUNT = 80;
+
+export const DEMO_NODES = generateBalatNodes(DEMO_NODE_COUNT, new SeededRandom(DEFAULT_RUN_SEED).fork('nodes'));
 
 // Metadata'ya erişim için map
 export const BUILDING_METADATA = new Map<string, BuildingMetadata>(
     DEMO_NODES.map(node => [node.id, node.metadata])
 );
 
+// Bina envanterini değiştir (senaryo dosyası kendi binalarını getirebilir).
+// Dizi ve map yerinde güncellenir - import eden modüller aynı referansı tutar
+export function setDemoNodes(nodes: DemoNode[]): void {
+    DEMO_NODES.splice(0, DEMO_NODES.length, ...nodes);
+    BUILDING_METADATA.clear();
+    nodes.forEach(node => BUILDING_METADATA.set(node.id, node.metadata));
+}
+
+// Koşu tohumunu uygula: binalar yeniden üretilir, simülatörün rastgele akışları baştan başlar
+export function applyRunSeed(seed: number, nodeCount: number = DEMO_NODE_COUNT): void {
+    setDemoNodes(generateBalatNodes(nodeCount, new SeededRandom(seed).fork('nodes')));
+    earthquakeSimulator.setSeed(seed);
+}
+
 export interface EarthquakeConfig {
-    intensity: number;
+    magnitude: number;        // Moment büyüklüğü (Mw)
+    depthKm: number;          // Odak derinliği (km)
     durationMs: number;
     epicenterLat: number;
     epicenterLng: number;
 }
 
+// Azalım modelinin nokta kaynağı
+function earthquakeSource(config: EarthquakeConfig): EarthquakeSource {
+    return { magnitude: config.magnitude, depthKm: config.depthKm, lat: config.epicenterLat, lng: config.epicenterLng };
+}
+
 export class EarthquakeSimulator {
     private liveReadings: Map<string, SensorReading> = new Map();
     private updateCallbacks: Set<(readings: Map<string, SensorReading>) => void> = new Set();
     private earthquakeInterval: ReturnType<typeof setInterval> | null = null;
     private idleInterval: ReturnType<typeof setInterval> | null = null;
+    private disturbanceIntervals: Set<ReturnType<typeof setInterval>> = new Set(); // Süren kamyon/arıza oynatmaları
     private deadNodes: Set<string> = new Set();
+    private offlineUntil: Map<string, number> = new Map(); // Ağ kesintisi / susan sensör: bu ana kadar okuma gelmez
     private currentDamages: Map<string, number> = new Map(); // Hasar hafızası
     private frequencyHistory: Map<string, number[]> = new Map(); // Frekans geçmişi (son 50 okuma)
+    private sequences: Map<string, number> = new Map(); // Node başına paket sıra numarası
+    private loadReleaseUntil: Map<string, number> = new Map(); // Komşu yıkımı sonrası yük boşalması (INSD kanal 3)
+    private uplink = new UplinkMeter(); // Üretilen okumaların NB-IoT çerçeve boyutları
+    private trueSignalTypes: Map<string, SignalType> = new Map(); // Sinyalin gerçek kaynağı (okumaya yazılmaz, sınıflandırıcı eğitimi için)
+    private disturbances: Map<string, SignalType> = new Map(); // Süren yerel bozucu (kamyon, sensör arızası)
+    private thermal: { config: ThermalCycleConfig; startedAt: number } | null = null; // Isıl döngü (kapalıysa sıcaklık gönderilmez)
+    private clock: SimulationClock = Date.now; // Zaman kaynağı (varsayılan duvar saati)
+    private random = new SeededRandom(DEFAULT_RUN_SEED); // Koşu tohumu - tüm akışlar buradan türetilir
+    private ambient = this.random.fork('ambient'); // Boşta okumalar ve ortam sensörü gürültüsü
+    private streamCounts: Map<string, number> = new Map(); // Olay türü başına akış sayacı (kaçıncı deprem, kamyon...)
+    private static readonly LOAD_RELEASE_RADIUS_KM = 0.15;
+    private static readonly LOAD_RELEASE_MS = 800;
     private static readonly HISTORY_LENGTH = 50;
 
     // Canlı okuma dinleyicisi ekle
@@ -113,14 +216,138 @@ export class EarthquakeSimulator {
         this.currentDamages = new Map(damages);
     }
 
+    // Koşu tohumunu değiştir - akışlar baştan başlar (binaları da yenilemek için applyRunSeed)
+    setSeed(seed: number): void {
+        this.random = new SeededRandom(seed);
+        this.restartStreams();
+    }
+
+    getSeed(): number {
+        return this.random.seed;
+    }
+
+    // Zaman kaynağını değiştir (tekrar oynatma için ManualClock.now)
+    setClock(clock: SimulationClock): void {
+        this.clock = clock;
+    }
+
+    private restartStreams(): void {
+        this.ambient = this.random.fork('ambient');
+        this.streamCounts.clear();
+    }
+
+    // Olay başına bağımsız akış: n. depremin sonucu araya kaç boşta okuma girdiğine bağlı değil
+    private nextStream(kind: string): SeededRandom {
+        const index = (this.streamCounts.get(kind) ?? 0) + 1;
+        this.streamCounts.set(kind, index);
+        return this.random.fork(kind, index);
+    }
+
+    // Isıl döngüyü aç/kapat (null = kapalı)
+    setThermalCycles(config: ThermalCycleConfig | null): void {
+        this.thermal = config ? { config, startedAt: this.clock() } : null;
+    }
+
+    getThermalCycles(): ThermalCycleConfig | null {
+        return this.thermal?.config ?? null;
+    }
+
+    // Sensörün ölçtüğü ortam koşulları - döngü kapalıysa undefined (sensörsüz node)
+    environmentAt(timestamp: number = this.clock(), rng: SeededRandom = this.ambient): EnvironmentReading | undefined {
+        if (!this.thermal) return undefined;
+        const { temperature, humidity } = thermalConditions(this.simulatedTime(timestamp), this.thermal.config);
+        return {
+            temperature: temperature + (rng.next() - 0.5) * 0.2, // ±0.1 °C sensör gürültüsü
+            humidity: Math.max(0, Math.min(100, humidity + (rng.next() - 0.5) * 2)),
+        };
+    }
+
+    // Node'un ortam titreşimindeki doğal frekansı: hasar histeresisi + ısıl etki
+    ambientFrequency(nodeId: string, timestamp: number = this.clock()): number {
+        const damage = this.currentDamages.get(nodeId) || 0;
+
+        // Frekans Histeresisi: Hasar arttıkça doğal frekans düşer (Bina yumuşar)
+        // 0 hasar -> ~4.5 Hz (Sağlam, rijit)
+        // 100 hasar -> ~1.0 Hz (Yıkık, salınım periyodu çok uzun)
+        const healthFactor = Math.max(0, 1 - (damage / 100));
+        const frequency = 1.0 + (3.5 * healthFactor);
+        if (!this.thermal) return frequency;
+
+        // Sıcakta beton yumuşar, nemde kütle artar - ikisi de frekansı düşürür
+        const { config } = this.thermal;
+        const { temperature, humidity } = thermalConditions(this.simulatedTime(timestamp), config);
+        return frequency * (1
+            + config.temperatureCoefficient * (temperature - config.meanTemperature)
+            + config.humidityCoefficient * (humidity - config.meanHumidity));
+    }
+
+    // Hızlandırılmış simülasyon saati (döngü açıldığı andan itibaren timeScale kat hızlı)
+    private simulatedTime(timestamp: number): number {
+        if (!this.thermal) return timestamp;
+        const { startedAt, config } = this.thermal;
+        return startedAt + (timestamp - startedAt) * config.timeScale;
+    }
+
     // Tüm dinleyicilere güncelleme gönder
     private emitUpdate(): void {
         this.updateCallbacks.forEach(cb => cb(this.liveReadings));
     }
 
+    // Kanonik okuma oluştur (sıra numarası node başına artar)
+    // signalType sadece simülasyonun bildiği gerçek etiket - cihaz bunu göndermez, sınıflandırıcı çıkarır
+    private buildReading(
+        nodeId: string,
+        accel: { x: number; y: number; z: number },
+        sampleRateHz: number,
+        dominantFrequency: number,
+        fftSpectrum: number[],
+        signalType: SignalType,
+        rng: SeededRandom
+    ): SensorReading {
+        const sequence = this.sequences.get(nodeId) ?? 0;
+        this.sequences.set(nodeId, sequence + 1);
+        // Bozucu sürerken araya giren boşta okumaları da ona aittir
+        this.trueSignalTypes.set(nodeId, this.disturbances.get(nodeId) ?? signalType);
+
+        const timestamp = this.clock();
+        const reading: SensorReading = {
+            nodeId,
+            sequence,
+            timestamp,
+            sampleRateHz,
+            units: 'g',
+            orientation: 'building',
+            accelX: accel.x,
+            accelY: accel.y,
+            accelZ: accel.z,
+            magnitude: vectorMagnitude(accel.x, accel.y, accel.z),
+            features: { dominantFrequency, fftSpectrum },
+        };
+        const environment = this.environmentAt(timestamp, rng);
+        if (environment) reading.environment = environment;
+
+        // Gerçek cihaz bu okumayı ikili çerçeve olarak gönderirdi - boyutu say
+        this.uplink.record(
+            encodeFrame(reading).length,
+            JSON.stringify(toWireReading(reading)).length
+        );
+
+        return reading;
+    }
+
+    // Node'un son okumasının gerçek kaynağı (demo doğrulaması ve eğitim verisi etiketi)
+    getTrueSignalType(nodeId: string): SignalType {
+        return this.trueSignalTypes.get(nodeId) ?? 'idle';
+    }
+
+    // Uplink trafik istatistikleri (bayt/mesaj, JSON karşılığı ile)
+    getUplinkStats(): UplinkStats {
+        return this.uplink.getStats();
+    }
+
     // FFT Spektrumu Oluştur (20 bin, 0-10 Hz)
     // peakHz: Dominant frekans, spread: Yayılım genişliği, amplitude: Tepe yüksekliği
-    private generateFFTSpectrum(peakHz: number, spread: number = 0.5, amplitude: number = 1): number[] {
+    private generateFFTSpectrum(rng: SeededRandom, peakHz: number, spread: number = 0.5, amplitude: number = 1): number[] {
         const bins = 20; // 0-10 Hz arası, 0.5 Hz çözünürlük
         const spectrum: number[] = [];
 
@@ -130,7 +357,7 @@ export class EarthquakeSimulator {
             const distance = Math.abs(hz - peakHz);
             const value = amplitude * Math.exp(-((distance * distance) / (2 * spread * spread)));
             // Küçük gürültü ekle
-            spectrum.push(Math.max(0, value + (Math.random() - 0.5) * 0.05));
+            spectrum.push(Math.max(0, value + (rng.next() - 0.5) * 0.05));
         }
 
         return spectrum;
@@ -139,32 +366,26 @@ export class EarthquakeSimulator {
     // Normal durum - çok düşük titreşim
     // ARTIK HASARA GÖRE FREKANS ÜRETİYOR (Histeresis)
     generateIdleReading(nodeId: string): SensorReading {
-        const damage = this.currentDamages.get(nodeId) || 0;
-
-        // Frekans Histeresisi: Hasar arttıkça doğal frekans düşer (Bina yumuşar)
-        // 0 hasar -> ~4.5 Hz (Sağlam, rijit)
-        // 100 hasar -> ~1.0 Hz (Yıkık, salınım periyodu çok uzun)
-        const healthFactor = Math.max(0, 1 - (damage / 100));
-        const baseFrequency = 1.0 + (3.5 * healthFactor);
+        const baseFrequency = this.ambientFrequency(nodeId);
 
+        const rng = this.ambient;
         const noise = 0.003;
-        const accelX = (Math.random() - 0.5) * noise;
-        const accelY = (Math.random() - 0.5) * noise;
-        const accelZ = (Math.random() - 0.5) * noise;
+        const accelX = (rng.next() - 0.5) * noise;
+        const accelY = (rng.next() - 0.5) * noise;
+        const accelZ = (rng.next() - 0.5) * noise;
 
         // FFT: Düşük amplitüdlü, hasara göre frekans tepesi
-        const fftSpectrum = this.generateFFTSpectrum(baseFrequency, 0.8, 0.3);
+        const fftSpectrum = this.generateFFTSpectrum(rng, baseFrequency, 0.8, 0.3);
 
-        return {
-            timestamp: Date.now(),
-            accelX,
-            accelY,
-            accelZ,
-            magnitude: Math.sqrt(accelX ** 2 + accelY ** 2 + accelZ ** 2),
-            frequency: baseFrequency + (Math.random() * 0.2),
+        return this.buildReading(
+            nodeId,
+            { x: accelX, y: accelY, z: accelZ },
+            IDLE_SAMPLE_RATE_HZ,
+            baseFrequency + (rng.next() * 0.2),
             fftSpectrum,
-            signalType: 'idle',
-        };
+            'idle',
+            rng
+        );
     }
 
     // Arka plan simülasyonu başlat - sürekli idle okuma
@@ -173,7 +394,7 @@ export class EarthquakeSimulator {
 
         // İlk okumaları oluştur
         DEMO_NODES.forEach((node) => {
-            if (!this.deadNodes.has(node.id)) {
+            if (!this.isSilent(node.id)) {
                 this.liveReadings.set(node.id, this.generateIdleReading(node.id));
             } else {
                 this.liveReadings.delete(node.id); // Ölü node'lar veri göndermez
@@ -186,13 +407,13 @@ export class EarthquakeSimulator {
             if (this.earthquakeInterval) return; // Deprem varsa atla
 
             DEMO_NODES.forEach((node) => {
-                if (!this.deadNodes.has(node.id)) {
+                if (!this.isSilent(node.id)) {
                     const reading = this.generateIdleReading(node.id);
                     this.liveReadings.set(node.id, reading);
 
                     // Frekans geçmişini kaydet
                     const history = this.frequencyHistory.get(node.id) || [];
-                    history.push(reading.frequency);
+                    history.push(reading.features?.dominantFrequency ?? 0);
                     if (history.length > EarthquakeSimulator.HISTORY_LENGTH) {
                         history.shift(); // FIFO - en eski veriyi sil
                     }
@@ -212,6 +433,28 @@ export class EarthquakeSimulator {
         }
     }
 
+    // Rastgele deprem senaryosu: bir binanın altında, Mw 5.8-6.6, 8-12 km derinlik (koşu tohumundan)
+    randomEarthquake(): EarthquakeConfig {
+        const rng = this.nextStream('scenario');
+        const epicenter = rng.pick(DEMO_NODES);
+        return {
+            magnitude: rng.range(5.8, 6.6),
+            depthKm: rng.range(8, 12),
+            durationMs: 5000,
+            epicenterLat: epicenter.lat,
+            epicenterLng: epicenter.lng,
+        };
+    }
+
+    // Sarsıntı haritası: her binada beklenen (medyan) PGA/PGV - azalım modeli (GMPE)
+    shakingMap(config: EarthquakeConfig): Map<string, GroundMotion> {
+        const source = earthquakeSource(config);
+        return new Map(DEMO_NODES.map(node => [
+            node.id,
+            groundMotionModel.predict(source, { lat: node.lat, lng: node.lng, vs30: node.metadata.vs30 }),
+        ]));
+    }
+
     // Deprem simülasyonu
     triggerEarthquake(
         config: EarthquakeConfig,
@@ -220,72 +463,73 @@ export class EarthquakeSimulator {
         onComplete: (damages: Map<string, number>) => void
     ): void {
         let tickCount = 0;
-        const totalTicks = config.durationMs / 50;
         const damageResults = new Map<string, number>();
-
-        // Her bina için hasar hesapla
+        const rng = this.nextStream('quake');
+
+        // Dalganın her node'a varış gecikmesi (ms)
+        const arrivalDelays = new Map(DEMO_NODES.map(node => [
+            node.id,
+            (haversineKm(node.lat, node.lng, config.epicenterLat, config.epicenterLng) / SIMULATED_WAVE_VELOCITY_KM_S) * 1000,
+        ]));
+        const maxDelayMs = Math.max(...arrivalDelays.values());
+        const totalTicks = Math.ceil((config.durationMs + maxDelayMs) / 50);
+
+        // Her binanın yer hareketi: GMPE medyanı + bina başına saçılım (aynı ε PGA ve PGV için)
+        const source = earthquakeSource(config);
+        const groundMotion = new Map(DEMO_NODES.map(node => [
+            node.id,
+            groundMotionModel.sample(source, { lat: node.lat, lng: node.lng, vs30: node.metadata.vs30 }, rng),
+        ]));
+
+        // Hasar: yapı tipi / dönem / kat sayısına göre kırılganlık eğrileri, binanın aldığı PGA'da
         DEMO_NODES.forEach((node) => {
-            const distLat = node.lat - config.epicenterLat;
-            const distLng = node.lng - config.epicenterLng;
-            const distance = Math.sqrt(distLat ** 2 + distLng ** 2);
-            const distanceFactor = Math.max(0.2, 1 - distance * 50);
-
-            // Yapı tipine göre kırılganlık
-            const meta = node.metadata;
-            let vulnerabilityFactor = 1.0;
-            if (meta.structureType === 'yigma') vulnerabilityFactor = 1.4;
-            if (meta.structureType === 'ahsap') vulnerabilityFactor = 1.6;
-            if (meta.yearBuilt < 1980) vulnerabilityFactor *= 1.3;
-            if (meta.floors > 4) vulnerabilityFactor *= 1.2;
-
-            const damage = Math.round(
-                config.intensity * 25 * distanceFactor * vulnerabilityFactor * (0.5 + Math.random() * 0.5)
-            );
-
-            damageResults.set(node.id, Math.min(100, damage));
+            const { expectedScore } = assessFragility(node.metadata, groundMotion.get(node.id)!.pga);
+            damageResults.set(node.id, Math.min(100, Math.round(expectedScore)));
         });
 
         // Canlı veri güncellemesi
         this.earthquakeInterval = setInterval(() => {
             tickCount++;
             const progress = Math.min(100, (tickCount / totalTicks) * 100);
-            const envelope = Math.sin((progress / 100) * Math.PI); // Dalga envelope
+            const envelope = Math.sin((progress / 100) * Math.PI); // Dalga envelope (ağ geneli)
 
             onProgress(progress);
 
             // Her bina için canlı okuma oluştur
             DEMO_NODES.forEach((node) => {
-                // Ölü node'lar konuşmaz
-                if (this.deadNodes.has(node.id)) {
+                // Ölü ya da bağlantısı kopuk node'lar konuşmaz
+                if (this.isSilent(node.id)) {
                     this.liveReadings.delete(node.id);
                     return;
                 }
 
-                const distLat = node.lat - config.epicenterLat;
-                const distLng = node.lng - config.epicenterLng;
-                const distance = Math.sqrt(distLat ** 2 + distLng ** 2);
-                const distanceFactor = Math.max(0.1, 1 - distance * 40);
+                // Node'un kendi zarfı - dalga varmadan önce sadece ortam gürültüsü
+                const localProgress = (tickCount * 50 - arrivalDelays.get(node.id)!) / config.durationMs;
+                const localEnvelope = localProgress > 0 && localProgress < 1 ? Math.sin(localProgress * Math.PI) : 0;
 
-                const intensity = config.intensity * envelope * distanceFactor;
-                const accelX = (Math.random() - 0.5) * intensity;
-                const accelY = (Math.random() - 0.5) * intensity;
-                const accelZ = (Math.random() - 0.5) * intensity + intensity * 0.2;
+                // Yan bina yıkıldıysa kısa süre genlik sıçraması + frekans düşüşü
+                const isReleasing = (this.loadReleaseUntil.get(node.id) ?? 0) > this.clock();
+                // Yatay eksenlerin tepesi binanın PGA'sına ulaşır
+                const intensity = 2 * groundMotion.get(node.id)!.pga * localEnvelope * (isReleasing ? 2 : 1);
+                const noise = 0.003;
+                const accelX = (rng.next() - 0.5) * intensity + (rng.next() - 0.5) * noise;
+                const accelY = (rng.next() - 0.5) * intensity + (rng.next() - 0.5) * noise;
+                const accelZ = (rng.next() - 0.5) * intensity + intensity * 0.2 + (rng.next() - 0.5) * noise;
 
                 // Deprem sırasında frekans düşer (2-3 Hz bandında yoğunlaşır)
-                const seismicFreq = 2.5 + (Math.random() - 0.5);
+                const seismicFreq = (2.5 + (rng.next() - 0.5)) * (isReleasing ? 0.7 : 1);
                 // FFT: Yüksek amplitüdlü, düşük frekanslı tepe
-                const fftSpectrum = this.generateFFTSpectrum(seismicFreq, 1.2, 0.8 + envelope * 0.2);
-
-                this.liveReadings.set(node.id, {
-                    timestamp: Date.now(),
-                    accelX,
-                    accelY,
-                    accelZ,
-                    magnitude: Math.sqrt(accelX ** 2 + accelY ** 2 + accelZ ** 2),
-                    frequency: seismicFreq,
+                const fftSpectrum = this.generateFFTSpectrum(rng, seismicFreq, 1.2, 0.8 + localEnvelope * 0.2);
+
+                this.liveReadings.set(node.id, this.buildReading(
+                    node.id,
+                    { x: accelX, y: accelY, z: accelZ },
+                    EVENT_SAMPLE_RATE_HZ,
+                    seismicFreq,
                     fftSpectrum,
-                    signalType: 'seismic',
-                });
+                    localEnvelope > 0 ? 'seismic' : 'idle',
+                    rng
+                ));
 
                 // Frekans geçmişini güncelle (Trend grafiği için)
                 const history = this.frequencyHistory.get(node.id) || [];
@@ -305,8 +549,9 @@ export class EarthquakeSimulator {
 
                     if (projectedTotal >= 85 && !this.deadNodes.has(nodeId)) {
                         // Bina yıkılıyorsa %40 ihtimalle sensör de susar
-                        if (Math.random() < 0.4) {
+                        if (rng.chance(0.4)) {
                             this.deadNodes.add(nodeId);
+                            this.markLoadRelease(nodeId);
                         }
                     }
                 });
@@ -315,11 +560,12 @@ export class EarthquakeSimulator {
             this.emitUpdate();
 
             if (tickCount >= totalTicks) {
-                if (this.earthquakeInterval) clearInterval(this.earthquakeInterval);
+                // Boşta simülasyonu tekrar devreye girsin (bırakma ve olay sonu buna bağlı)
+                this.stop();
 
                 // Normal duruma dön (ama ölüler hariç)
                 DEMO_NODES.forEach((node) => {
-                    if (!this.deadNodes.has(node.id)) {
+                    if (!this.isSilent(node.id)) {
                         this.liveReadings.set(node.id, this.generateIdleReading(node.id));
                     } else {
                         this.liveReadings.delete(node.id);
@@ -332,9 +578,34 @@ export class EarthquakeSimulator {
         }, 50);
     }
 
+    // Yıkılan binanın komşularına yük boşalması uygula
+    private markLoadRelease(collapsedNodeId: string): void {
+        const collapsed = DEMO_NODES.find(n => n.id === collapsedNodeId);
+        if (!collapsed) return;
+
+        const until = this.clock() + EarthquakeSimulator.LOAD_RELEASE_MS;
+        DEMO_NODES.forEach((node) => {
+            if (node.id === collapsedNodeId || this.deadNodes.has(node.id)) return;
+            const distance = haversineKm(node.lat, node.lng, collapsed.lat, collapsed.lng);
+            if (distance < EarthquakeSimulator.LOAD_RELEASE_RADIUS_KM) {
+                this.loadReleaseUntil.set(node.id, until);
+            }
+        });
+    }
+
+    // Node'ları bir süre sustur (ağ kesintisi, sensör arızası) - bina sağlam, sadece veri gelmez
+    setOffline(nodeIds: string[], durationMs: number): void {
+        const until = this.clock() + durationMs;
+        nodeIds.forEach(id => this.offlineUntil.set(id, Math.max(until, this.offlineUntil.get(id) ?? 0)));
+    }
+
+    private isSilent(nodeId: string): boolean {
+        return this.deadNodes.has(nodeId) || (this.offlineUntil.get(nodeId) ?? 0) > this.clock();
+    }
+
     // Belirli bina için son okumayı getir
     getReading(nodeId: string): SensorReading | null { // null dönebilir artık
-        if (this.deadNodes.has(nodeId)) return null;
+        if (this.isSilent(nodeId)) return null;
         return this.liveReadings.get(nodeId) || this.generateIdleReading(nodeId);
     }
 
@@ -346,9 +617,19 @@ export class EarthquakeSimulator {
     }
 
     reset(): void {
+        // Süren sarsıntı ve bozucular da biter - yoksa eski aralık yeni koşunun üstüne yazar
+        this.stop();
+        this.disturbanceIntervals.forEach(interval => clearInterval(interval));
+        this.disturbanceIntervals.clear();
+        this.disturbances.clear();
         this.deadNodes.clear();
+        this.offlineUntil.clear();
         this.frequencyHistory.clear();
+        this.sequences.clear();
+        this.loadReleaseUntil.clear();
         this.currentDamages.clear();
+        this.trueSignalTypes.clear();
+        this.restartStreams(); // Sıfırlama koşuyu aynı tohumla baştan oynatır
         this.startIdleSimulation();
     }
 
@@ -358,54 +639,113 @@ export class EarthquakeSimulator {
     }
 
     // 🚛 Kamyon Geçişi Simülasyonu (Gürültü Testi)
-    // Yüksek frekans + tek bina = AI tarafından filtrelenir
+    // Yüksek frekans + tek bina = sınıflandırıcı gürültü olarak ayırmalı
     triggerTruckNoise(targetNodeId: string, onFilteredCallback: () => void): void {
         let tickCount = 0;
         const totalTicks = 40; // 2 saniye (50ms * 40)
 
         // Find target node
         const targetNode = DEMO_NODES.find(n => n.id === targetNodeId);
-        if (!targetNode || this.deadNodes.has(targetNodeId)) {
+        if (!targetNode || this.isSilent(targetNodeId)) {
             onFilteredCallback();
             return;
         }
+        this.disturbances.set(targetNodeId, 'noise');
+        const rng = this.nextStream('truck');
 
         const noiseInterval = setInterval(() => {
             tickCount++;
             const envelope = Math.sin((tickCount / totalTicks) * Math.PI);
 
             // Yüksek frekanslı titreşim (8-10 Hz - kamyon/trafik bandı)
-            const noiseFreq = 8.5 + Math.random();
+            const noiseFreq = 8.5 + rng.next();
             const intensity = 0.4 * envelope;
 
-            const accelX = (Math.random() - 0.5) * intensity;
-            const accelY = (Math.random() - 0.5) * intensity;
-            const accelZ = (Math.random() - 0.5) * intensity;
+            const accelX = (rng.next() - 0.5) * intensity;
+            const accelY = (rng.next() - 0.5) * intensity;
+            const accelZ = (rng.next() - 0.5) * intensity;
 
             // FFT: Yüksek frekansta yoğunlaşma (8-10 Hz)
-            const fftSpectrum = this.generateFFTSpectrum(noiseFreq, 0.8, 0.7 * envelope);
-
-            this.liveReadings.set(targetNodeId, {
-                timestamp: Date.now(),
-                accelX,
-                accelY,
-                accelZ,
-                magnitude: Math.sqrt(accelX ** 2 + accelY ** 2 + accelZ ** 2),
-                frequency: noiseFreq,
+            const fftSpectrum = this.generateFFTSpectrum(rng, noiseFreq, 0.8, 0.7 * envelope);
+
+            this.liveReadings.set(targetNodeId, this.buildReading(
+                targetNodeId,
+                { x: accelX, y: accelY, z: accelZ },
+                EVENT_SAMPLE_RATE_HZ,
+                noiseFreq,
                 fftSpectrum,
-                signalType: 'noise', // AI: Bu deprem değil, gürültü
-            });
+                'noise',
+                rng
+            ));
 
             this.emitUpdate();
 
             if (tickCount >= totalTicks) {
                 clearInterval(noiseInterval);
+                this.disturbanceIntervals.delete(noiseInterval);
+                this.disturbances.delete(targetNodeId);
                 // Normal duruma dön
                 this.liveReadings.set(targetNodeId, this.generateIdleReading(targetNodeId));
                 this.emitUpdate();
                 onFilteredCallback();
             }
         }, 50);
+        this.disturbanceIntervals.add(noiseInterval);
+    }
+
+    // ⚡ Sensör Arızası Simülasyonu (Anomali Testi)
+    // Gevşek kablo / elektriksel sıçrama: ortam gürültüsü üstünde seyrek, tek eksenli dikenler
+    triggerSensorGlitch(targetNodeId: string, onDone: () => void, durationMs: number = 1500): void {
+        let tickCount = 0;
+        const totalTicks = Math.max(1, Math.round(durationMs / 50)); // Varsayılan 1.5 saniye (50ms * 30)
+
+        if (!DEMO_NODES.some(n => n.id === targetNodeId) || this.isSilent(targetNodeId)) {
+            onDone();
+            return;
+        }
+        this.disturbances.set(targetNodeId, 'anomaly');
+        const rng = this.nextStream('glitch');
+
+        const glitchInterval = setInterval(() => {
+            tickCount++;
+
+            const noise = 0.003;
+            const accel = {
+                x: (rng.next() - 0.5) * noise,
+                y: (rng.next() - 0.5) * noise,
+                z: (rng.next() - 0.5) * noise,
+            };
+            // Örneklerin ~%20'si işaretli bir diken (0.3-1.5 g)
+            if (rng.chance(0.2)) {
+                const axis = rng.pick(['x', 'y', 'z'] as const);
+                accel[axis] += (rng.chance(0.5) ? -1 : 1) * rng.range(0.3, 1.5);
+            }
+
+            // FFT: Dikenler tüm bantlara yayılır - belirgin tepe yok
+            const fftSpectrum = Array.from({ length: 20 }, () => rng.next() * 0.5);
+
+            this.liveReadings.set(targetNodeId, this.buildReading(
+                targetNodeId,
+                accel,
+                EVENT_SAMPLE_RATE_HZ,
+                rng.next() * 10,
+                fftSpectrum,
+                'anomaly',
+                rng
+            ));
+
+            this.emitUpdate();
+
+            if (tickCount >= totalTicks) {
+                clearInterval(glitchInterval);
+                this.disturbanceIntervals.delete(glitchInterval);
+                this.disturbances.delete(targetNodeId);
+                this.liveReadings.set(targetNodeId, this.generateIdleReading(targetNodeId));
+                this.emitUpdate();
+                onDone();
+            }
+        }, 50);
+        this.disturbanceIntervals.add(glitchInterval);
     }
 }
 
@@ -1,5 +1,25 @@
 import { create } from 'zustand';
-import type { Node, NodeStatus } from './supabase/types';
+import type { Node, NodeStatus, SeismicEventSource } from './supabase/types';
+import type { SensorReading } from './readings';
+import { signalProcessor, type PipelineResult } from './signal-processor';
+import { damageScoreCalculator, featureExtractor, type DamageModel } from './damage-score';
+import { learnedDamageModel } from './damage-score/learned-model';
+import { baselineTracker } from './damage-score/baseline-tracker';
+import type { FrequencyChangeEvent } from './damage-score/change-point';
+import { insdEngine, type InsdInference } from './insd';
+import type { Heartbeat } from './ingest';
+import { persistence } from './persistence';
+import type { DamageAssessment, SeismicEvent } from './supabase/repositories';
+import type { TriggerEvent } from './trigger';
+import { networkAssociator, type NetworkEvent } from './associator';
+import { signalClassifier } from './classifier';
+import { eventLocator, type EventLocation } from './locator';
+import { haversineKm } from './geo';
+import { DEFAULT_RUN_SEED, SeededRandom } from './random';
+import { magnitudeEstimator } from './magnitude';
+import type { BuildingProfile } from './fragility';
+import type { EarthquakeConfig } from './simulator';
+import { consoleSync, resolveAnnotation, type NodeAnnotation, type StatePatch, type SyncRole } from './sync';
 
 export interface BuildingSummary {
     safe: number;
@@ -14,6 +34,44 @@ export interface BuildingDamage {
     totalScore: number;     // baseScore + earthquakeDamage (max 100)
 }
 
+// Olay açılırken kaydedilen bilgi - ağ olayında kimlik ve başlangıç associator'dan gelir
+export interface EarthquakeEventInfo {
+    id?: string;
+    startedAt?: number;
+    epicenterLat?: number;
+    epicenterLng?: number;
+    intensity?: number;       // Simüle depremde ağdaki en yüksek beklenen PGA (g)
+    source?: SeismicEventSource;
+}
+
+// Bellekte tutulan en fazla ani frekans değişimi
+const MAX_FREQUENCY_CHANGES = 50;
+
+// Node başına son işlenen paket - simülatör her yayında son okumaları tekrar gönderir,
+// aynı okuma FFT / STA/LTA tamponlarına ikinci kez girmemeli
+const lastProcessedSequence = new Map<string, number>();
+
+// Aynı olayda iki hasar modelinin node başına tepe skorları
+export interface DamageComparison {
+    active: number;
+    shadow: number;
+}
+
+// Seçilebilir hasar modelleri - seçili olan statüyü belirler, diğeri gölgede aynı öznitelikleri skorlar
+const DAMAGE_MODELS = new Map<string, DamageModel>(
+    [damageScoreCalculator, learnedDamageModel].map(model => [model.name, model])
+);
+export const DAMAGE_MODEL_NAMES = Array.from(DAMAGE_MODELS.keys());
+signalProcessor.setShadowDamageModel(learnedDamageModel);
+
+// Ağın çözdüğü olay konumu - demo modunda simülatörün gerçek merkeziyle karşılaştırılır
+export interface EventLocationReport {
+    eventId: string;
+    estimate: EventLocation;
+    trueEpicenter: { lat: number; lng: number } | null;
+    errorKm: number | null;
+}
+
 export interface SeismosState {
     nodes: Map<string, Node>;
     selectedNodeId: string | null;
@@ -26,18 +84,60 @@ export interface SeismosState {
     earthquakeProgress: number;
     buildingSummary: BuildingSummary;
 
+    // Olay geçmişi (Supabase'den yüklenir, yenileri eklenir)
+    seismicEvents: SeismicEvent[];
+    currentEventId: string | null;
+
+    // Ani doğal frekans değişimleri (en yeni başta, uyarılar sayfası bunlardan beslenir)
+    frequencyChanges: FrequencyChangeEvent[];
+
     activeNodeCount: number;
 
     // INSD Logic
     lastHeartbeat: Map<string, number>;
-    consensusEvidence: Map<string, string[]>; // SilentNodeId -> WitnessNodeIds[]
+    consensusEvidence: Map<string, InsdInference>; // SilentNodeId -> Kanal bazlı kanıt
     updateHeartbeat: (nodeIds: string[]) => void;
-    checkConsensus: (currentReadings: any) => void;
+    checkConsensus: (currentReadings: Iterable<SensorReading>) => void;
+
+    // Sinyal işleme hattı (raw → filter → correlate → interpret) çıktıları
+    pipelineResults: Map<string, PipelineResult>;
+    processReadings: (readings: Iterable<SensorReading>) => void;
+
+    // Hasar modeli seçimi ve olay boyunca aktif/gölge model karşılaştırması
+    damageModel: string;
+    damageComparison: Map<string, DamageComparison>;
+    selectDamageModel: (name: string) => void;
+
+    // STA/LTA ile tetiklenmiş node'lar (açık tetikleme, onset zamanıyla)
+    nodeTriggers: Map<string, TriggerEvent>;
+
+    // Demo: simülatörün o an oynattığı depremin gerçek parametreleri
+    simulatedQuake: EarthquakeEventInfo | null;
+
+    // Demo koşu tohumu - aynı tohum aynı binaları, skorları ve deprem sonuçlarını verir
+    runSeed: number;
+    setRunSeed: (seed: number) => void;
+
+    // Varış zamanlarından tahmin edilen merkez ve oluş zamanı
+    eventLocation: EventLocationReport | null;
+
+    // Fiziksel node'lar (/api/ingest)
+    receiveHeartbeats: (heartbeats: Heartbeat[]) => void;
+
+    // Konsollar arası senkron - follower sadece host'un durumunu uygular
+    syncRole: SyncRole;
+    annotations: Map<string, NodeAnnotation>;
+    setSyncRole: (role: SyncRole) => void;
+    annotateNode: (nodeId: string, text: string) => void;
+    receiveAnnotation: (annotation: NodeAnnotation) => void;
+    applyRemoteState: (patch: StatePatch, full: boolean) => void;
 
     // Actions
-    setNodes: (nodes: Node[]) => void;
+    setNodes: (nodes: Array<Node & { metadata?: BuildingProfile }>, baseScores?: Map<string, number>) => void;
+    hydrate: () => Promise<void>;
     selectNode: (nodeId: string | null) => void;
-    setEarthquakeActive: (active: boolean) => void;
+    setEarthquakeActive: (active: boolean, event?: EarthquakeEventInfo) => void;
+    triggerEarthquake: (onComplete?: () => void, config?: EarthquakeConfig) => Promise<void>;
     setEarthquakeProgress: (progress: number) => void;
     applyEarthquakeDamage: (damages: Map<string, number>) => void;
     updateBuildingSummary: () => void;
@@ -53,6 +153,48 @@ function getStatusFromScore(score: number): NodeStatus {
     return 'stable';
 }
 
+// Status ciddiyet sırası - pipeline ve skor statüsünü birleştirirken kullanılır
+const STATUS_SEVERITY: Record<NodeStatus, number> = {
+    stable: 0,
+    anomaly: 1,
+    warning: 2,
+    critical: 3,
+    collapse: 4,
+    collapse_inferred: 4,
+};
+
+// Koşunun başlangıç skorları: ilk 2 bina hasarlı (30-45), diğerleri düşük (0-25)
+function initialBaseScores(count: number, seed: number): number[] {
+    const rng = new SeededRandom(seed).fork('base-scores');
+    return Array.from({ length: count }, (_, index) =>
+        index === 0 || index === 1 ? 30 + rng.int(15) : rng.int(26));
+}
+
+function mostSevere(a: NodeStatus, b: NodeStatus): NodeStatus {
+    return STATUS_SEVERITY[b] > STATUS_SEVERITY[a] ? b : a;
+}
+
+// Kalıcı skor + ölçülen hasar motoru çıktısı → veritabanı kaydı
+function buildAssessment(
+    nodeId: string,
+    damage: BuildingDamage,
+    status: NodeStatus,
+    result: PipelineResult | undefined,
+    eventId: string | null,
+    now: number
+): DamageAssessment {
+    return {
+        nodeId,
+        eventId,
+        assessedAt: now,
+        totalScore: damage.totalScore,
+        baseScore: damage.baseScore,
+        eventDamage: damage.earthquakeDamage,
+        status,
+        measured: result ? result.damageScore : null,
+    };
+}
+
 export const useSeismosStore = create<SeismosState>((set, get) => ({
     nodes: new Map(),
     selectedNodeId: null,
@@ -60,25 +202,32 @@ export const useSeismosStore = create<SeismosState>((set, get) => ({
     isEarthquakeActive: false,
     earthquakeProgress: 0,
     buildingSummary: { safe: 0, damaged: 0, critical: 0, collapsed: 0 },
+    seismicEvents: [],
+    currentEventId: null,
+    frequencyChanges: [],
     activeNodeCount: 0,
     lastHeartbeat: new Map(),
     consensusEvidence: new Map(),
-
-    setNodes: (nodes) => set(() => {
+    pipelineResults: new Map(),
+    nodeTriggers: new Map(),
+    damageModel: damageScoreCalculator.name,
+    damageComparison: new Map(),
+    simulatedQuake: null,
+    runSeed: DEFAULT_RUN_SEED,
+    eventLocation: null,
+    syncRole: 'standalone',
+    annotations: new Map(),
+
+    setRunSeed: (seed) => set({ runSeed: seed }),
+
+    setNodes: (nodes, presetScores) => set((state) => {
         const nodeMap = new Map(nodes.map(n => [n.id, n]));
         const damageMap = new Map<string, BuildingDamage>();
 
-        // Her binaya rastgele base skor ver
+        // Her binaya koşu tohumundan base skor ver (senaryo bazı binaların skorunu sabitleyebilir)
+        const baseScores = initialBaseScores(nodes.length, state.runSeed);
         nodes.forEach((node, index) => {
-            let baseScore: number;
-
-            // İlk 2 bina hasarlı olsun (30-45 arası skor)
-            if (index === 0 || index === 1) {
-                baseScore = 30 + Math.floor(Math.random() * 15); // 30-45
-            } else {
-                // Diğerleri düşük skorlu (0-25 arası)
-                baseScore = Math.floor(Math.random() * 26); // 0-25
-            }
+            const baseScore = presetScores?.get(node.id) ?? baseScores[index];
 
             damageMap.set(node.id, {
                 baseScore,
@@ -105,6 +254,15 @@ export const useSeismosStore = create<SeismosState>((set, get) => ({
             else safe++;
         });
 
+        // Ağ oylamasına katılan istasyonlar (sınıflandırıcı komşuluğu da aynı konumlardan)
+        networkAssociator.setStations(nodes);
+        signalClassifier.setStations(nodes);
+
+        // Yapı bilgisi bilinen binalar hasar skorunda kırılganlık eğrilerini kullanır
+        signalProcessor.setBuildings(nodes.flatMap(node =>
+            node.metadata ? [[node.id, node.metadata] as [string, BuildingProfile]] : []
+        ));
+
         return {
             nodes: nodeMap,
             buildingDamages: damageMap,
@@ -114,12 +272,130 @@ export const useSeismosStore = create<SeismosState>((set, get) => ({
         };
     }),
 
+    // Supabase'deki son durumu yükle (yapılandırılmamışsa hiçbir şey yapmaz)
+    hydrate: async () => {
+        persistence.registerNodes(Array.from(get().nodes.values()));
+
+        const snapshot = await persistence.loadSnapshot();
+        if (!snapshot) return;
+
+        const { nodes, buildingDamages } = get();
+        const newNodes = new Map(nodes);
+        const newDamages = new Map(buildingDamages);
+        const restored = new Set<string>();
+
+        snapshot.assessments.forEach(a => {
+            const node = newNodes.get(a.nodeId);
+            if (!node) return;
+            newDamages.set(a.nodeId, {
+                baseScore: a.baseScore,
+                earthquakeDamage: a.eventDamage,
+                totalScore: a.totalScore,
+            });
+            // INSD çıkarımı canlı veriye bağlı - yeniden yüklemede skordan türet
+            newNodes.set(a.nodeId, {
+                ...node,
+                status: a.status === 'collapse_inferred' ? getStatusFromScore(a.totalScore) : a.status,
+            });
+            restored.add(a.nodeId);
+        });
+
+        // Kaydı olmayan binaların başlangıç skorlarını yaz ki sonraki yüklemede aynı kalsın
+        const now = Date.now();
+        persistence.recordAssessments(Array.from(newDamages.entries())
+            .filter(([nodeId]) => !restored.has(nodeId))
+            .map(([nodeId, damage]) => buildAssessment(nodeId, damage, newNodes.get(nodeId)!.status, undefined, null, now)));
+
+        // Canlı tespit edilenler (aynı id) kayıttakinin yerine geçer
+        const liveChanges = get().frequencyChanges;
+        const liveIds = new Set(liveChanges.map(c => c.id));
+        const frequencyChanges = [...liveChanges, ...snapshot.changes.filter(c => !liveIds.has(c.id))]
+            .sort((a, b) => b.detectedAt - a.detectedAt)
+            .slice(0, MAX_FREQUENCY_CHANGES);
+
+        set({ nodes: newNodes, buildingDamages: newDamages, seismicEvents: snapshot.events, frequencyChanges });
+        get().updateBuildingSummary();
+
+        // Baz frekanslar, uzun dönem geçmiş ve son ani düşüşler yeniden yüklemede sıfırlanmasın
+        baselineTracker.restore(snapshot.baselines);
+        baselineTracker.restoreChanges(snapshot.changes);
+
+        // Simülatör histerezisi kalıcı skorla başlasın
+        const allScores = new Map<string, number>();
+        newDamages.forEach((d, id) => allScores.set(id, d.totalScore));
+        import('@/lib/simulator').then(mod => mod.earthquakeSimulator.updateDamages(allScores));
+    },
+
     selectNode: (nodeId) => set({ selectedNodeId: nodeId }),
 
-    setEarthquakeActive: (active) => set({
-        isEarthquakeActive: active,
-        earthquakeProgress: active ? 0 : 100
-    }),
+    setEarthquakeActive: (active, info) => {
+        const { isEarthquakeActive, currentEventId, seismicEvents } = get();
+        const now = Date.now();
+
+        if (active && !isEarthquakeActive) {
+            const event: SeismicEvent = {
+                id: info?.id ?? crypto.randomUUID(),
+                startedAt: info?.startedAt ?? now,
+                endedAt: null,
+                epicenterLat: info?.epicenterLat ?? null,
+                epicenterLng: info?.epicenterLng ?? null,
+                intensity: info?.intensity ?? null,
+                magnitude: null,
+                magnitudeUncertainty: null,
+                source: info?.source ?? 'simulator',
+            };
+            persistence.startEvent(event);
+            baselineTracker.beginEvent(event.id, event.startedAt); // Olay öncesi frekans seviyesi
+            set({ isEarthquakeActive: true, earthquakeProgress: 0, currentEventId: event.id, seismicEvents: [event, ...seismicEvents] });
+            return;
+        }
+
+        if (!active && currentEventId) {
+            persistence.endEvent(currentEventId, now);
+            baselineTracker.endEvent(currentEventId, now); // Oturma süresinden sonra yeni baz frekans
+            set({
+                isEarthquakeActive: false,
+                earthquakeProgress: 100,
+                currentEventId: null,
+                seismicEvents: seismicEvents.map(e => e.id === currentEventId ? { ...e, endedAt: now } : e),
+            });
+            return;
+        }
+
+        set({ isEarthquakeActive: active, earthquakeProgress: active ? 0 : 100 });
+    },
+
+    // Simülatörde deprem başlat (follower'dan gelen komutla host da çağırır)
+    // Olayı simülatör değil ağ ilan eder - sarsıntı node'ları tetikleyince
+    // Senaryo parametreleri verebilir; artçılar açık olayın içine düşebilir, sadece oynayan sarsıntı beklenir
+    triggerEarthquake: async (onComplete, scripted) => {
+        if (get().simulatedQuake || (!scripted && get().isEarthquakeActive)) return;
+        const { earthquakeSimulator } = await import('@/lib/simulator');
+
+        const config = scripted ?? earthquakeSimulator.randomEarthquake();
+
+        // Olay şiddeti: ağdaki en yüksek beklenen PGA (g)
+        const peakPga = Math.max(...Array.from(earthquakeSimulator.shakingMap(config).values(), motion => motion.pga));
+        set({ simulatedQuake: { ...config, intensity: peakPga, source: 'simulator' }, earthquakeProgress: 0 });
+
+        // Mevcut toplam hasarı simülatöre bildir
+        const currentScores = new Map<string, number>();
+        get().buildingDamages.forEach((dmg, id) => {
+            currentScores.set(id, dmg.totalScore);
+        });
+
+        earthquakeSimulator.triggerEarthquake(
+            config,
+            currentScores,
+            (progress) => get().setEarthquakeProgress(progress),
+            (damages) => {
+                get().applyEarthquakeDamage(damages);
+                set({ simulatedQuake: null });
+                get().updateBuildingSummary();
+                onComplete?.();
+            }
+        );
+    },
 
     setEarthquakeProgress: (progress) => set({ earthquakeProgress: progress }),
 
@@ -136,54 +412,33 @@ export const useSeismosStore = create<SeismosState>((set, get) => ({
     },
 
     checkConsensus: (currentReadings) => {
-        const { nodes, lastHeartbeat, isEarthquakeActive } = get();
+        const { nodes, lastHeartbeat, syncRole } = get();
         const now = Date.now();
-        const SILENCE_THRESHOLD = 1000; // 1 saniye veri gelmezse suskun kabul et (Daha agresif)
-        const NEIGHBOR_RADIUS = 0.0015; // ~150m (Karmaşayı azaltmak için düşürüldü)
+
+        // Yıkım çıkarımı host'un işi - follower'ın yerel simülatörü farklı
+        if (syncRole === 'follower') return;
+
+        // INSD kanalları 1 ve 3 için okuma geçmişini besle
+        insdEngine.observe(currentReadings, now);
 
         let hasChanges = false;
         const newNodes = new Map(nodes);
         const newEvidence = new Map(get().consensusEvidence);
 
-        // Aktif node'ları bul (okuma gönderenler)
-        const activeNodeIds = new Set<string>();
-        lastHeartbeat.forEach((time, id) => {
-            if (now - time < SILENCE_THRESHOLD) activeNodeIds.add(id);
-        });
-
         nodes.forEach((node, nodeId) => {
-            const lastSeen = lastHeartbeat.get(nodeId) || 0;
-            const isSilent = (now - lastSeen) > SILENCE_THRESHOLD;
+            const isSilent = insdEngine.isSilent(lastHeartbeat.get(nodeId) || 0, now);
 
             // Eğer node sessizse ve zaten "yıkıldı" (kırmızı X) olarak işaretlenmemişse
             // 'critical', 'warning' veya 'stable' olsa bile INSD devreye girmeli
             if (isSilent && node.status !== 'collapse' && node.status !== 'collapse_inferred') {
                 // SESSİZLİK TESPİTİ (INSD)
-                // Kural: Node sessiz + Çevremde >= 3 aktif tanık var = Yıkılmış olabilir
-
-                if (isEarthquakeActive) {
-                    // Tanık ara
-                    const witnesses: string[] = [];
-                    nodes.forEach((neighbor, neighborId) => {
-                        if (nodeId === neighborId) return;
-                        if (!activeNodeIds.has(neighborId)) return; // Ölüler tanıklık edemez
-
-                        const dist = Math.sqrt(
-                            Math.pow(node.lat - neighbor.lat, 2) +
-                            Math.pow(node.lng - neighbor.lng, 2)
-                        );
-
-                        if (dist < NEIGHBOR_RADIUS) {
-                            witnesses.push(neighborId);
-                        }
-                    });
-
-                    // 3 ve üzeri tanık varsa yıkımı onayla
-                    if (witnesses.length >= 3) {
-                        newNodes.set(nodeId, { ...node, status: 'collapse_inferred' });
-                        newEvidence.set(nodeId, witnesses);
-                        hasChanges = true;
-                    }
+                // Üç kanal (olay boşluğu + heartbeat + komşu anomalisi) birleşik olasılığı eşiği geçerse yıkım
+                const inference = insdEngine.evaluate(node, nodes, lastHeartbeat, now);
+                if (inference.isCollapse) {
+                    newNodes.set(nodeId, { ...node, status: 'collapse_inferred' });
+                    newEvidence.set(nodeId, inference);
+                    persistence.recordInference(inference, get().currentEventId);
+                    hasChanges = true;
                 }
             } else if (!isSilent && node.status === 'collapse_inferred') {
                 // Geri geldi (yanlış alarm veya geçici kesinti)
@@ -202,6 +457,273 @@ export const useSeismosStore = create<SeismosState>((set, get) => ({
         }
     },
 
+    selectDamageModel: (name) => {
+        const model = DAMAGE_MODELS.get(name);
+        if (!model) return;
+        // Diğer model gölgeye geçer, karşılaştırma yeniden başlar
+        signalProcessor.setDamageModel(model);
+        signalProcessor.setShadowDamageModel(Array.from(DAMAGE_MODELS.values()).find(m => m !== model) ?? null);
+        set({ damageModel: name, damageComparison: new Map() });
+    },
+
+    processReadings: (readings) => {
+        const { nodes, pipelineResults, nodeTriggers, syncRole, damageComparison } = get();
+
+        // Follower yerel hattı çalıştırmaz - sonuçlar ve statüler host'tan gelir
+        if (syncRole === 'follower') return;
+
+        const newResults = new Map(pipelineResults);
+        const newNodes = new Map(nodes);
+        let statusChanged = false;
+        const newTriggers = new Map(nodeTriggers);
+        const triggerEvents: TriggerEvent[] = [];
+        const newComparison = new Map(damageComparison);
+        let comparisonChanged = false;
+        const changeEvents: FrequencyChangeEvent[] = [];
+
+        for (const reading of readings) {
+            const nodeId = reading.nodeId;
+            if (lastProcessedSequence.get(nodeId) === reading.sequence) continue;
+            lastProcessedSequence.set(nodeId, reading.sequence);
+
+            const result = signalProcessor.process(reading);
+            newResults.set(nodeId, result);
+
+            // Gölge model aynı özniteliklerle skorladı - tepe değerleri karşılaştır
+            const shadow = result.shadowDamageScore;
+            const peak = newComparison.get(nodeId);
+            if (shadow && (result.damageScore.score > (peak?.active ?? 0) || shadow.score > (peak?.shadow ?? 0))) {
+                newComparison.set(nodeId, {
+                    active: Math.max(peak?.active ?? 0, result.damageScore.score),
+                    shadow: Math.max(peak?.shadow ?? 0, shadow.score),
+                });
+                comparisonChanged = true;
+            }
+
+            // Ani frekans değişimi
+            const changeEvent = result.fatigueIndicator.changeEvent;
+            if (changeEvent) {
+                changeEvents.push(changeEvent);
+                persistence.recordChange(changeEvent);
+            }
+
+            // Tetikleme / bırakma
+            const triggerEvent = result.trigger.event;
+            if (triggerEvent) {
+                triggerEvents.push(triggerEvent);
+                if (triggerEvent.type === 'trigger') newTriggers.set(nodeId, triggerEvent);
+                else newTriggers.delete(nodeId);
+            }
+            persistence.recordFatigue(nodeId, result.fatigueIndicator, reading.timestamp);
+            persistence.recordBaseline(nodeId, since => baselineTracker.exportHistory(nodeId, since), reading.timestamp);
+            if (result.intensityMeasures) magnitudeEstimator.observe(nodeId, result.intensityMeasures);
+
+            // Statü güncel ölçümden gelir, kalıcı hasar skoru tabanı oluşturur - INSD statüsünü ezme
+            const node = newNodes.get(nodeId);
+            if (node && node.status !== 'collapse_inferred') {
+                const floor = getStatusFromScore(get().buildingDamages.get(nodeId)?.totalScore ?? 0);
+                const next = mostSevere(floor, result.status);
+                if (next !== node.status) {
+                    newNodes.set(nodeId, { ...node, status: next });
+                    statusChanged = true;
+                }
+            }
+        }
+
+        signalProcessor.clearOldReadings();
+
+        const updates = {
+            ...(comparisonChanged ? { damageComparison: newComparison } : {}),
+            ...(changeEvents.length > 0
+                ? { frequencyChanges: [...changeEvents.reverse(), ...get().frequencyChanges].slice(0, MAX_FREQUENCY_CHANGES) }
+                : {}),
+        };
+        if (statusChanged) {
+            set({ pipelineResults: newResults, nodes: newNodes, ...updates });
+            get().updateBuildingSummary();
+        } else {
+            set({ pipelineResults: newResults, ...updates });
+        }
+
+        // Susan node bırakma gönderemez - açık tetiklemesini kapat
+        const now = Date.now();
+        const { lastHeartbeat } = get();
+        const silenced = Array.from(newTriggers.keys()).filter(id => insdEngine.isSilent(lastHeartbeat.get(id) ?? 0, now));
+        silenced.forEach(id => newTriggers.delete(id));
+        networkAssociator.release(silenced, now);
+        if (triggerEvents.length > 0 || silenced.length > 0) set({ nodeTriggers: newTriggers });
+
+        // Olay durumu ağdan türetilir: associator ilan eder ve bitirir
+        let relocate: NetworkEvent | null = null;
+        for (const update of networkAssociator.process(triggerEvents, now)) {
+            if (update.type === 'declared') {
+                // Önceki gürültünün tepeleri yeni olaya karışmasın (kayıtlar bir sonraki okumada geri gelir)
+                magnitudeEstimator.reset();
+                set({ damageComparison: new Map() });
+                const { simulatedQuake } = get();
+                get().setEarthquakeActive(true, {
+                    id: update.event.id,
+                    startedAt: update.event.firstOnset,
+                    intensity: simulatedQuake?.intensity,
+                    source: simulatedQuake ? 'simulator' : 'network',
+                });
+                relocate = update.event;
+            } else if (update.type === 'associated') {
+                relocate = update.event;
+            } else if (get().currentEventId === update.event.id) {
+                // Son çözümü (merkez, büyüklük) kaydet, sonra olayı kapat
+                const solved = get().seismicEvents.find(e => e.id === update.event.id);
+                if (solved) persistence.updateEventSolution(solved.id, solved);
+                get().setEarthquakeActive(false);
+            }
+        }
+
+        // Yeni onset geldikçe merkez yeniden çözülür
+        const estimate = relocate && get().currentEventId === relocate.id ? eventLocator.locate(relocate.picks) : null;
+        if (relocate && estimate) {
+            // Gerçek merkez olay boyunca korunur (simülasyon olaydan önce bitebilir)
+            const { simulatedQuake, eventLocation, seismicEvents } = get();
+            const trueEpicenter = eventLocation?.eventId === relocate.id
+                ? eventLocation.trueEpicenter
+                : simulatedQuake?.epicenterLat !== undefined && simulatedQuake.epicenterLng !== undefined
+                    ? { lat: simulatedQuake.epicenterLat, lng: simulatedQuake.epicenterLng }
+                    : null;
+            const eventId = relocate.id;
+
+            set({
+                eventLocation: {
+                    eventId,
+                    estimate,
+                    trueEpicenter,
+                    errorKm: trueEpicenter ? haversineKm(estimate.lat, estimate.lng, trueEpicenter.lat, trueEpicenter.lng) : null,
+                },
+                seismicEvents: seismicEvents.map(e => e.id === eventId
+                    ? { ...e, epicenterLat: estimate.lat, epicenterLng: estimate.lng }
+                    : e),
+            });
+        }
+
+        // Büyüklük her partide güncellenir - tepe genlikler olay sürdükçe büyür
+        const { currentEventId, eventLocation, seismicEvents } = get();
+        const activeEvent = networkAssociator.getActiveEvent();
+        if (!currentEventId || !activeEvent || eventLocation?.eventId !== currentEventId) return;
+
+        const magnitude = magnitudeEstimator.estimate(eventLocation.estimate, activeEvent.picks);
+        const current = seismicEvents.find(e => e.id === currentEventId);
+        if (!magnitude || !current) return;
+
+        const value = Math.round(magnitude.value * 100) / 100;
+        const uncertainty = Math.round(magnitude.uncertainty * 100) / 100;
+        if (current.magnitude === value && current.magnitudeUncertainty === uncertainty) return;
+        set({
+            seismicEvents: seismicEvents.map(e => e.id === currentEventId
+                ? { ...e, magnitude: value, magnitudeUncertainty: uncertainty }
+                : e),
+        });
+    },
+
+    receiveHeartbeats: (heartbeats) => {
+        const { nodes, buildingDamages } = get();
+        const unknown = heartbeats.filter(hb =>
+            !nodes.has(hb.nodeId) && hb.lat !== undefined && hb.lng !== undefined
+        );
+
+        // İlk temas: konum bildiren fiziksel node'u haritaya ekle
+        if (unknown.length > 0) {
+            const newNodes = new Map(nodes);
+            const newDamages = new Map(buildingDamages);
+            unknown.forEach(hb => {
+                newNodes.set(hb.nodeId, {
+                    id: hb.nodeId,
+                    name: hb.name ?? hb.nodeId,
+                    status: 'stable',
+                    lat: hb.lat!,
+                    lng: hb.lng!,
+                    is_physical: true,
+                });
+                newDamages.set(hb.nodeId, { baseScore: 0, earthquakeDamage: 0, totalScore: 0 });
+            });
+            set({ nodes: newNodes, buildingDamages: newDamages, activeNodeCount: newNodes.size });
+            get().updateBuildingSummary();
+            networkAssociator.setStations(newNodes.values());
+            signalClassifier.setStations(newNodes.values());
+            persistence.registerNodes(unknown.map(hb => newNodes.get(hb.nodeId)!));
+        }
+
+        if (get().syncRole !== 'follower') persistence.recordHeartbeats(heartbeats);
+        get().updateHeartbeat(heartbeats.map(hb => hb.nodeId));
+    },
+
+    setSyncRole: (role) => set({ syncRole: role }),
+
+    annotateNode: (nodeId, text) => {
+        const annotation: NodeAnnotation = { nodeId, text, consoleId: consoleSync.consoleId, updatedAt: Date.now() };
+        get().receiveAnnotation(annotation);
+        consoleSync.sendAnnotation(annotation);
+    },
+
+    receiveAnnotation: (annotation) => {
+        const { annotations } = get();
+        const winner = resolveAnnotation(annotations.get(annotation.nodeId), annotation);
+        if (winner === annotations.get(annotation.nodeId)) return;
+        set({ annotations: new Map(annotations).set(annotation.nodeId, winner) });
+    },
+
+    applyRemoteState: (patch, full) => {
+        const state = get();
+        const newNodes = new Map(state.nodes);
+        const newDamages = new Map(state.buildingDamages);
+        const newEvidence = full ? new Map<string, InsdInference>() : new Map(state.consensusEvidence);
+        const update: Partial<SeismosState> = {};
+
+        patch.statuses?.forEach(([nodeId, status]) => {
+            const node = newNodes.get(nodeId);
+            if (node) newNodes.set(nodeId, { ...node, status });
+        });
+        patch.damages?.forEach(([nodeId, damage]) => newDamages.set(nodeId, damage));
+        patch.evidence?.forEach(inference => newEvidence.set(inference.nodeId, inference));
+        patch.evidenceRemoved?.forEach(nodeId => newEvidence.delete(nodeId));
+
+        if (patch.earthquake) {
+            const { active, progress, currentEventId, event } = patch.earthquake;
+            update.isEarthquakeActive = active;
+            update.earthquakeProgress = progress;
+            update.currentEventId = currentEventId;
+            if (event) {
+                update.seismicEvents = [event, ...state.seismicEvents.filter(e => e.id !== event.id)];
+            }
+        }
+        if (patch.location !== undefined) update.eventLocation = patch.location;
+
+        // Host'un hat sonuçları (follower kendi hattını çalıştırmaz)
+        if (patch.results) {
+            const newResults = full ? new Map<string, PipelineResult>() : new Map(state.pipelineResults);
+            patch.results.forEach(([nodeId, result]) => newResults.set(nodeId, result));
+            update.pipelineResults = newResults;
+        }
+        if (patch.changes) {
+            const incomingIds = new Set(patch.changes.map(c => c.id));
+            update.frequencyChanges = [...patch.changes, ...state.frequencyChanges.filter(c => !incomingIds.has(c.id))]
+                .sort((a, b) => b.detectedAt - a.detectedAt)
+                .slice(0, MAX_FREQUENCY_CHANGES);
+        }
+
+        if (patch.annotations) {
+            const newAnnotations = new Map(state.annotations);
+            patch.annotations.forEach(a => newAnnotations.set(a.nodeId, resolveAnnotation(newAnnotations.get(a.nodeId), a)));
+            update.annotations = newAnnotations;
+        }
+
+        set({ ...update, nodes: newNodes, buildingDamages: newDamages, consensusEvidence: newEvidence });
+        get().updateBuildingSummary();
+
+        if (patch.damages) {
+            const allScores = new Map<string, number>();
+            newDamages.forEach((d, id) => allScores.set(id, d.totalScore));
+            import('@/lib/simulator').then(mod => mod.earthquakeSimulator.updateDamages(allScores));
+        }
+    },
+
     // Deprem hasarını uygula
     applyEarthquakeDamage: (damages) => set((state) => {
         const newDamages = new Map(state.buildingDamages);
@@ -221,10 +743,10 @@ export const useSeismosStore = create<SeismosState>((set, get) => ({
                 // Score map için hazırla
                 damageScores.set(nodeId, newTotal);
 
-                // Node status güncelle - INSD statüsünü ezme
+                // Node status güncelle - INSD statüsünü ve ölçülen hasarı ezme
                 const node = newNodes.get(nodeId);
                 if (node && node.status !== 'collapse_inferred') {
-                    newNodes.set(nodeId, { ...node, status: getStatusFromScore(newTotal) });
+                    newNodes.set(nodeId, { ...node, status: mostSevere(node.status, getStatusFromScore(newTotal)) });
                 }
             }
         });
@@ -236,6 +758,17 @@ export const useSeismosStore = create<SeismosState>((set, get) => ({
         newDamages.forEach((d, id) => allScores.set(id, d.totalScore));
         import('@/lib/simulator').then(mod => mod.earthquakeSimulator.updateDamages(allScores));
 
+        // Olay sonrası değerlendirmeyi kaydet
+        const now = Date.now();
+        persistence.recordAssessments(Array.from(damageScores.keys()).map(nodeId => buildAssessment(
+            nodeId,
+            newDamages.get(nodeId)!,
+            newNodes.get(nodeId)?.status ?? getStatusFromScore(newDamages.get(nodeId)!.totalScore),
+            state.pipelineResults.get(nodeId),
+            state.currentEventId,
+            now
+        )));
+
         return { buildingDamages: newDamages, nodes: newNodes };
     }),
 
@@ -252,60 +785,80 @@ export const useSeismosStore = create<SeismosState>((set, get) => ({
         return { buildingSummary: { safe, damaged, critical, collapsed } };
     }),
 
-    resetToSafe: () => set((state) => {
-        const newNodes = new Map(state.nodes);
-        const newDamages = new Map<string, BuildingDamage>();
-        const allScores = new Map<string, number>();
+    resetToSafe: () => {
+        // Açık olayı kapat - associator sıfırlanınca bitişini bildiremez
+        if (get().currentEventId) get().setEarthquakeActive(false);
 
-        // Yeni rastgele skorlar ata
-        let index = 0;
-        state.nodes.forEach((node, nodeId) => {
-            let baseScore: number;
+        set((state) => {
+            const newNodes = new Map(state.nodes);
+            const newDamages = new Map<string, BuildingDamage>();
+            const allScores = new Map<string, number>();
 
-            if (index === 0 || index === 1) {
-                baseScore = 30 + Math.floor(Math.random() * 15);
-            } else {
-                baseScore = Math.floor(Math.random() * 26);
-            }
+            // Koşunun başlangıç skorlarına dön (aynı tohum → aynı skorlar)
+            const baseScores = initialBaseScores(state.nodes.size, state.runSeed);
+            let index = 0;
+            state.nodes.forEach((node, nodeId) => {
+                const baseScore = baseScores[index];
 
-            newDamages.set(nodeId, {
-                baseScore,
-                earthquakeDamage: 0,
-                totalScore: baseScore
+                newDamages.set(nodeId, {
+                    baseScore,
+                    earthquakeDamage: 0,
+                    totalScore: baseScore
+                });
+                allScores.set(nodeId, baseScore);
+
+                newNodes.set(nodeId, { ...node, status: getStatusFromScore(baseScore) });
+                index++;
             });
-            allScores.set(nodeId, baseScore);
 
-            newNodes.set(nodeId, { ...node, status: getStatusFromScore(baseScore) });
-            index++;
-        });
+            // İşleme hattının filtre, frekans ve baz çizgisi hafızasını temizle
+            lastProcessedSequence.clear();
+            signalProcessor.reset();
+            featureExtractor.reset();
+            baselineTracker.reset();
+            insdEngine.reset();
+            networkAssociator.reset();
+            magnitudeEstimator.reset();
+            persistence.reset();
+
+            // Simülatörü sıfırla
+            import('@/lib/simulator').then(mod => {
+                mod.earthquakeSimulator.updateDamages(allScores);
+                mod.earthquakeSimulator.reset();
+            });
 
-        // Simülatörü sıfırla
-        import('@/lib/simulator').then(mod => {
-            mod.earthquakeSimulator.updateDamages(allScores);
-            mod.earthquakeSimulator.reset();
-        });
+            let safe = 0, damaged = 0, critical = 0, collapsed = 0;
+            newDamages.forEach((d) => {
+                const score = d.totalScore;
+                if (score >= 90) collapsed++;
+                else if (score >= 70) critical++;
+                else if (score >= 30) damaged++;
+                else safe++;
+            });
 
-        let safe = 0, damaged = 0, critical = 0, collapsed = 0;
-        newDamages.forEach((d) => {
-            const score = d.totalScore;
-            if (score >= 90) collapsed++;
-            else if (score >= 70) critical++;
-            else if (score >= 30) damaged++;
-            else safe++;
+            // Tüm heartbeatleri sıfırla (hepsi şimdi canlı)
+            const now = Date.now();
+
+            // Yeni başlangıç skorları kalıcı olsun
+            persistence.recordAssessments(Array.from(newDamages.entries()).map(([nodeId, damage]) =>
+                buildAssessment(nodeId, damage, newNodes.get(nodeId)!.status, undefined, null, now)));
+            const newHeartbeats = new Map(state.nodes.size > 0 ? Array.from(state.nodes.keys()).map(id => [id, now]) : []);
+
+            return {
+                nodes: newNodes,
+                buildingDamages: newDamages,
+                isEarthquakeActive: false,
+                earthquakeProgress: 0,
+                buildingSummary: { safe, damaged, critical, collapsed },
+                lastHeartbeat: newHeartbeats,
+                consensusEvidence: new Map(),
+                damageComparison: new Map(),
+                frequencyChanges: [],
+                pipelineResults: new Map(),
+                nodeTriggers: new Map(),
+                simulatedQuake: null,
+                eventLocation: null
+            };
         });
-
-        // Tüm heartbeatleri sıfırla (hepsi şimdi canlı)
-        const now = Date.now();
-        const newHeartbeats = new Map(state.nodes.size > 0 ? Array.from(state.nodes.keys()).map(id => [id, now]) : []);
-
-        return {
-            nodes: newNodes,
-            buildingDamages: newDamages,
-            isEarthquakeActive: false,
-            earthquakeProgress: 0,
-            buildingSummary: { safe, damaged, critical, collapsed },
-            lastHeartbeat: newHeartbeats,
-            consensusEvidence: new Map()
-        };
-    }),
+    },
 }));
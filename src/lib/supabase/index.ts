@@ -1,2 +1,3 @@
 export { supabase, isSupabaseConfigured } from './client';
 export * from './types';
+export * from './repositories';
@@ -0,0 +1,528 @@
+/**
+ * SEISMOS Repositories
+ *
+ * Typed access to the history tables. Each repository translates between
+ * the domain objects the engines produce (camelCase, epoch ms) and the row
+ * shapes in ./types (snake_case, ISO timestamps); nothing else in the app
+ * touches table names or columns.
+ *
+ * Errors from Supabase are thrown as-is; callers decide whether a failed
+ * write is fatal (it never is for the dashboard).
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from './client';
+import type {
+    Database,
+    DamageAssessmentRow,
+    EventFrequencyComparisonRow,
+    FatigueIndicatorRow,
+    FrequencyAggregateRow,
+    FrequencyChangeEventRow,
+    InsdInferenceRow,
+    Node,
+    NodeBaselineRow,
+    NodeStatus,
+    SeismicEventRow,
+    SeismicEventSource,
+} from './types';
+import type { DamageScore } from '../damage-score';
+import type { BaselineHistory, EventComparison, FatigueIndicator } from '../damage-score/baseline-tracker';
+import type { FrequencyChangeEvent } from '../damage-score/change-point';
+import type { FrequencyAggregate } from '../damage-score/trend';
+import type { InsdInference } from '../insd';
+import type { Heartbeat } from '../ingest';
+
+type Client = SupabaseClient<Database>;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SeismicEvent {
+    id: string;
+    startedAt: number;
+    endedAt: number | null;
+    epicenterLat: number | null;
+    epicenterLng: number | null;
+    intensity: number | null;
+    magnitude: number | null;
+
+    /** Scatter of the station magnitudes (1σ) */
+    magnitudeUncertainty: number | null;
+
+    source: SeismicEventSource;
+}
+
+/**
+ * Network solution fields that are refined while an event runs
+ */
+export type SeismicEventSolution = Pick<SeismicEvent, 'epicenterLat' | 'epicenterLng' | 'magnitude' | 'magnitudeUncertainty'>;
+
+/**
+ * One scoring of a building: the persistent score and, when the damage
+ * engine had output for the node, the measured score behind it
+ */
+export interface DamageAssessment {
+    nodeId: string;
+    eventId: string | null;
+    assessedAt: number;
+
+    totalScore: number;
+    baseScore: number;
+    eventDamage: number;
+    status: NodeStatus;
+
+    measured: Pick<DamageScore, 'score' | 'category' | 'components' | 'features' | 'model'> | null;
+}
+
+export interface FatigueRecord {
+    nodeId: string;
+    recordedAt: number;
+    /** Only indicators with a measured frequency are stored */
+    indicator: FatigueIndicator & { baselineFrequency: number; currentFrequency: number };
+}
+
+// ============================================================================
+// CONVERTERS
+// ============================================================================
+
+const iso = (ms: number) => new Date(ms).toISOString();
+
+function fromEventRow(row: SeismicEventRow): SeismicEvent {
+    return {
+        id: row.id,
+        startedAt: Date.parse(row.started_at),
+        endedAt: row.ended_at ? Date.parse(row.ended_at) : null,
+        epicenterLat: row.epicenter_lat,
+        epicenterLng: row.epicenter_lng,
+        intensity: row.intensity,
+        magnitude: row.magnitude,
+        magnitudeUncertainty: row.magnitude_uncertainty,
+        source: row.source,
+    };
+}
+
+function toAssessmentRow(a: DamageAssessment): Omit<DamageAssessmentRow, 'id'> {
+    return {
+        node_id: a.nodeId,
+        event_id: a.eventId,
+        assessed_at: iso(a.assessedAt),
+        total_score: a.totalScore,
+        base_score: a.baseScore,
+        event_damage: a.eventDamage,
+        status: a.status,
+        measured_score: a.measured?.score ?? null,
+        category: a.measured?.category ?? null,
+        frequency_shift_score: a.measured?.components.frequencyShiftScore ?? null,
+        peak_energy_score: a.measured?.components.peakEnergyScore ?? null,
+        duration_score: a.measured?.components.durationScore ?? null,
+        features: a.measured?.features ?? null,
+        damage_model: a.measured?.model ?? null,
+    };
+}
+
+function fromAssessmentRow(row: DamageAssessmentRow): DamageAssessment {
+    const hasMeasured = row.measured_score !== null && row.category !== null && row.features !== null;
+    return {
+        nodeId: row.node_id,
+        eventId: row.event_id,
+        assessedAt: Date.parse(row.assessed_at),
+        totalScore: row.total_score,
+        baseScore: row.base_score,
+        eventDamage: row.event_damage,
+        status: row.status,
+        measured: hasMeasured ? {
+            score: row.measured_score!,
+            category: row.category!,
+            components: {
+                frequencyShiftScore: row.frequency_shift_score ?? 0,
+                peakEnergyScore: row.peak_energy_score ?? 0,
+                durationScore: row.duration_score ?? 0,
+            },
+            features: row.features!,
+            // Rows written before models were pluggable came from the rule-based calculator
+            model: row.damage_model ?? 'rule-based',
+        } : null,
+    };
+}
+
+function toInferenceRow(inference: InsdInference, eventId: string | null): Omit<InsdInferenceRow, 'id'> {
+    return {
+        node_id: inference.nodeId,
+        event_id: eventId,
+        evaluated_at: iso(inference.evaluatedAt),
+        probability: inference.probability,
+        is_collapse: inference.isCollapse,
+        event_gap_score: inference.channels.eventGap,
+        heartbeat_score: inference.channels.heartbeat,
+        neighborhood_score: inference.channels.neighborhood,
+        witnesses: inference.witnesses,
+        silent_for_ms: Math.round(inference.silentForMs),
+    };
+}
+
+function toFatigueRow(record: FatigueRecord): Omit<FatigueIndicatorRow, 'id'> {
+    const { indicator } = record;
+    return {
+        node_id: record.nodeId,
+        recorded_at: iso(record.recordedAt),
+        has_warning: indicator.hasWarning,
+        trend_slope: indicator.trendSlope,
+        baseline_frequency: indicator.baselineFrequency,
+        current_frequency: indicator.currentFrequency,
+        compensated_frequency: indicator.compensatedFrequency,
+        temperature_coefficient: indicator.temperatureCoefficient,
+        deviation_percent: indicator.deviationPercent,
+        sample_count: indicator.sampleCount,
+        trend_confidence: indicator.trendConfidence,
+        damping_ratio: indicator.dampingRatio,
+        baseline_damping_ratio: indicator.baselineDampingRatio,
+        trend_source: indicator.trendSource,
+        trend_span_days: indicator.trendSpanDays,
+        residual_std: indicator.residualStd,
+        seasonal_amplitude: indicator.seasonalAmplitude,
+        projected_days_to_threshold: indicator.projectedDaysToThreshold,
+    };
+}
+
+function toBaselineRow(history: BaselineHistory): NodeBaselineRow {
+    return {
+        node_id: history.nodeId,
+        baseline_frequency: history.baselineFrequency,
+        baseline_damping_ratio: history.baselineDamping,
+        established_at: history.establishedAt !== null ? iso(history.establishedAt) : null,
+        baseline_temperature: history.baselineTemperature,
+        baseline_humidity: history.baselineHumidity,
+        environmental_model: history.environmentalModel,
+        updated_at: iso(Date.now()),
+    };
+}
+
+function toAggregateRow(nodeId: string, a: FrequencyAggregate): FrequencyAggregateRow {
+    return {
+        node_id: nodeId,
+        period: a.period,
+        period_start: iso(a.periodStart),
+        sample_count: a.sampleCount,
+        mean_frequency: a.meanFrequency,
+        min_frequency: a.minFrequency,
+        max_frequency: a.maxFrequency,
+        std_frequency: a.stdFrequency,
+        mean_damping: a.meanDamping,
+        mean_temperature: a.meanTemperature,
+        mean_humidity: a.meanHumidity,
+        updated_at: iso(a.updatedAt),
+    };
+}
+
+function fromAggregateRow(row: FrequencyAggregateRow): FrequencyAggregate {
+    return {
+        period: row.period,
+        periodStart: Date.parse(row.period_start),
+        sampleCount: row.sample_count,
+        meanFrequency: row.mean_frequency,
+        minFrequency: row.min_frequency,
+        maxFrequency: row.max_frequency,
+        stdFrequency: row.std_frequency,
+        meanDamping: row.mean_damping,
+        meanTemperature: row.mean_temperature,
+        meanHumidity: row.mean_humidity,
+        updatedAt: Date.parse(row.updated_at),
+    };
+}
+
+function toComparisonRow(c: EventComparison): EventFrequencyComparisonRow {
+    return {
+        node_id: c.nodeId,
+        event_id: c.eventId,
+        event_started_at: iso(c.eventStartedAt),
+        event_ended_at: iso(c.eventEndedAt),
+        pre_frequency: c.preFrequency,
+        post_frequency: c.postFrequency,
+        shift_percent: c.shiftPercent,
+        pre_damping: c.preDamping,
+        post_damping: c.postDamping,
+        established_at: iso(c.establishedAt),
+    };
+}
+
+function fromComparisonRow(row: EventFrequencyComparisonRow): EventComparison {
+    return {
+        nodeId: row.node_id,
+        eventId: row.event_id,
+        eventStartedAt: Date.parse(row.event_started_at),
+        eventEndedAt: Date.parse(row.event_ended_at),
+        preFrequency: row.pre_frequency,
+        postFrequency: row.post_frequency,
+        shiftPercent: row.shift_percent,
+        preDamping: row.pre_damping,
+        postDamping: row.post_damping,
+        establishedAt: Date.parse(row.established_at),
+    };
+}
+
+function toChangeRow(event: FrequencyChangeEvent): FrequencyChangeEventRow {
+    return {
+        id: event.id,
+        node_id: event.nodeId,
+        changed_at: iso(event.changedAt),
+        detected_at: iso(event.detectedAt),
+        direction: event.direction,
+        before_frequency: event.beforeFrequency,
+        after_frequency: event.afterFrequency,
+        magnitude_percent: event.magnitudePercent,
+        confidence: event.confidence,
+        method: event.method,
+    };
+}
+
+function fromChangeRow(row: FrequencyChangeEventRow): FrequencyChangeEvent {
+    return {
+        id: row.id,
+        nodeId: row.node_id,
+        changedAt: Date.parse(row.changed_at),
+        detectedAt: Date.parse(row.detected_at),
+        direction: row.direction,
+        beforeFrequency: row.before_frequency,
+        afterFrequency: row.after_frequency,
+        magnitudePercent: row.magnitude_percent,
+        confidence: row.confidence,
+        method: row.method,
+    };
+}
+
+// ============================================================================
+// REPOSITORIES
+// ============================================================================
+
+export class NodeRepository {
+    constructor(private readonly client: Client = supabase) { }
+
+    /**
+     * Register nodes; existing rows are left untouched
+     */
+    async register(nodes: Node[]): Promise<void> {
+        if (nodes.length === 0) return;
+        const { error } = await this.client.from('nodes').upsert(
+            nodes.map(({ id, name, status, lat, lng, is_physical }) => ({ id, name, status, lat, lng, is_physical })),
+            { onConflict: 'id', ignoreDuplicates: true }
+        );
+        if (error) throw error;
+    }
+}
+
+export class SeismicEventRepository {
+    constructor(private readonly client: Client = supabase) { }
+
+    async create(event: SeismicEvent): Promise<void> {
+        const { error } = await this.client.from('seismic_events').insert({
+            id: event.id,
+            started_at: iso(event.startedAt),
+            ended_at: event.endedAt !== null ? iso(event.endedAt) : null,
+            epicenter_lat: event.epicenterLat,
+            epicenter_lng: event.epicenterLng,
+            intensity: event.intensity,
+            magnitude: event.magnitude,
+            magnitude_uncertainty: event.magnitudeUncertainty,
+            source: event.source,
+        });
+        if (error) throw error;
+    }
+
+    async close(id: string, endedAt: number): Promise<void> {
+        const { error } = await this.client.from('seismic_events')
+            .update({ ended_at: iso(endedAt) })
+            .eq('id', id);
+        if (error) throw error;
+    }
+
+    async updateSolution(id: string, solution: SeismicEventSolution): Promise<void> {
+        const { error } = await this.client.from('seismic_events')
+            .update({
+                epicenter_lat: solution.epicenterLat,
+                epicenter_lng: solution.epicenterLng,
+                magnitude: solution.magnitude,
+                magnitude_uncertainty: solution.magnitudeUncertainty,
+            })
+            .eq('id', id);
+        if (error) throw error;
+    }
+
+    async listRecent(limit: number = 20): Promise<SeismicEvent[]> {
+        const { data, error } = await this.client.from('seismic_events')
+            .select('*')
+            .order('started_at', { ascending: false })
+            .limit(limit);
+        if (error) throw error;
+        return (data ?? []).map(fromEventRow);
+    }
+}
+
+export class DamageAssessmentRepository {
+    constructor(private readonly client: Client = supabase) { }
+
+    async insertMany(assessments: DamageAssessment[]): Promise<void> {
+        if (assessments.length === 0) return;
+        const { error } = await this.client.from('damage_assessments').insert(assessments.map(toAssessmentRow));
+        if (error) throw error;
+    }
+
+    /**
+     * Most recent assessment of every building
+     */
+    async listLatest(): Promise<DamageAssessment[]> {
+        const { data, error } = await this.client.from('latest_damage_assessments').select('*');
+        if (error) throw error;
+        return (data ?? []).map(fromAssessmentRow);
+    }
+
+    async listForNode(nodeId: string, limit: number = 50): Promise<DamageAssessment[]> {
+        const { data, error } = await this.client.from('damage_assessments')
+            .select('*')
+            .eq('node_id', nodeId)
+            .order('assessed_at', { ascending: false })
+            .limit(limit);
+        if (error) throw error;
+        return (data ?? []).map(fromAssessmentRow);
+    }
+}
+
+export class HeartbeatRepository {
+    constructor(private readonly client: Client = supabase) { }
+
+    async insertMany(heartbeats: Heartbeat[]): Promise<void> {
+        if (heartbeats.length === 0) return;
+        const { error } = await this.client.from('heartbeats').insert(heartbeats.map(hb => ({
+            node_id: hb.nodeId,
+            node_timestamp: iso(hb.timestamp),
+            battery: hb.battery ?? null,
+            rssi: hb.rssi ?? null,
+            uptime_sec: hb.uptimeSec ?? null,
+        })));
+        if (error) throw error;
+    }
+}
+
+export class InsdInferenceRepository {
+    constructor(private readonly client: Client = supabase) { }
+
+    async insertMany(inferences: Array<{ inference: InsdInference; eventId: string | null }>): Promise<void> {
+        if (inferences.length === 0) return;
+        const { error } = await this.client.from('insd_inferences')
+            .insert(inferences.map(({ inference, eventId }) => toInferenceRow(inference, eventId)));
+        if (error) throw error;
+    }
+}
+
+export class FatigueIndicatorRepository {
+    constructor(private readonly client: Client = supabase) { }
+
+    async insertMany(records: FatigueRecord[]): Promise<void> {
+        if (records.length === 0) return;
+        const { error } = await this.client.from('fatigue_indicators').insert(records.map(toFatigueRow));
+        if (error) throw error;
+    }
+}
+
+export class NodeBaselineRepository {
+    constructor(private readonly client: Client = supabase) { }
+
+    /**
+     * Write each node's baseline and the aggregates and event comparisons that changed
+     */
+    async upsertMany(histories: BaselineHistory[]): Promise<void> {
+        if (histories.length === 0) return;
+        const { error } = await this.client.from('node_baselines')
+            .upsert(histories.map(toBaselineRow), { onConflict: 'node_id' });
+        if (error) throw error;
+
+        const aggregates = histories.flatMap(h => h.aggregates.map(a => toAggregateRow(h.nodeId, a)));
+        if (aggregates.length === 0) return;
+        const { error: aggregateError } = await this.client.from('frequency_aggregates')
+            .upsert(aggregates, { onConflict: 'node_id,period,period_start' });
+        if (aggregateError) throw aggregateError;
+
+        const comparisons = histories.flatMap(h => h.comparisons.map(toComparisonRow));
+        if (comparisons.length === 0) return;
+        const { error: comparisonError } = await this.client.from('event_frequency_comparisons')
+            .upsert(comparisons, { onConflict: 'node_id,event_id' });
+        if (comparisonError) throw comparisonError;
+    }
+
+    /**
+     * Every node's baseline with its aggregates and event comparisons since `since` (epoch ms)
+     */
+    async listAll(since: number): Promise<BaselineHistory[]> {
+        const [baselines, aggregates, comparisons] = await Promise.all([
+            this.client.from('node_baselines').select('*'),
+            this.client.from('frequency_aggregates')
+                .select('*')
+                .gte('period_start', iso(since))
+                .order('period_start', { ascending: true }),
+            this.client.from('event_frequency_comparisons')
+                .select('*')
+                .gte('established_at', iso(since))
+                .order('established_at', { ascending: true }),
+        ]);
+        if (baselines.error) throw baselines.error;
+        if (aggregates.error) throw aggregates.error;
+        if (comparisons.error) throw comparisons.error;
+
+        const histories = new Map<string, BaselineHistory>();
+        (baselines.data ?? []).forEach(row => histories.set(row.node_id, {
+            nodeId: row.node_id,
+            baselineFrequency: row.baseline_frequency,
+            baselineDamping: row.baseline_damping_ratio,
+            establishedAt: row.established_at ? Date.parse(row.established_at) : null,
+            baselineTemperature: row.baseline_temperature,
+            baselineHumidity: row.baseline_humidity,
+            environmentalModel: row.environmental_model,
+            aggregates: [],
+            comparisons: [],
+        }));
+        (aggregates.data ?? []).forEach(row => {
+            histories.get(row.node_id)?.aggregates.push(fromAggregateRow(row));
+        });
+        (comparisons.data ?? []).forEach(row => {
+            histories.get(row.node_id)?.comparisons.push(fromComparisonRow(row));
+        });
+        return Array.from(histories.values());
+    }
+}
+
+export class FrequencyChangeRepository {
+    constructor(private readonly client: Client = supabase) { }
+
+    /**
+     * Insert change events; one another console already wrote is skipped
+     */
+    async insertMany(events: FrequencyChangeEvent[]): Promise<void> {
+        if (events.length === 0) return;
+        const { error } = await this.client.from('frequency_change_events')
+            .upsert(events.map(toChangeRow), { onConflict: 'id', ignoreDuplicates: true });
+        if (error) throw error;
+    }
+
+    async listRecent(limit: number = 50): Promise<FrequencyChangeEvent[]> {
+        const { data, error } = await this.client.from('frequency_change_events')
+            .select('*')
+            .order('detected_at', { ascending: false })
+            .limit(limit);
+        if (error) throw error;
+        return (data ?? []).map(fromChangeRow);
+    }
+}
+
+// ============================================================================
+// SINGLETON INSTANCES
+// ============================================================================
+
+export const nodeRepository = new NodeRepository();
+export const seismicEventRepository = new SeismicEventRepository();
+export const damageAssessmentRepository = new DamageAssessmentRepository();
+export const heartbeatRepository = new HeartbeatRepository();
+export const insdInferenceRepository = new InsdInferenceRepository();
+export const fatigueIndicatorRepository = new FatigueIndicatorRepository();
+export const nodeBaselineRepository = new NodeBaselineRepository();
+export const frequencyChangeRepository = new FrequencyChangeRepository();
@@ -1,6 +1,11 @@
+import type { AccelerationUnit, AxisOrientation, DamageClass, SensorReading, SignalType } from '../readings';
+import type { DamageFeatures } from '../damage-score';
+import type { ChangeDirection, ChangePointMethod } from '../damage-score/change-point';
+import type { EnvironmentalModel } from '../damage-score/environment';
+
 export type NodeStatus = 'stable' | 'anomaly' | 'warning' | 'critical' | 'collapse' | 'collapse_inferred';
 
-export interface Node {
+export type Node = {
   id: string;
   name: string;
   status: NodeStatus;
@@ -8,17 +13,161 @@ export interface Node {
   lng: number;
   is_physical: boolean;
   created_at?: string;
-}
+};
 
-export interface SensorReading {
+// Row shape of `sensor_readings` - convert with toReadingRow / fromReadingRow
+export type SensorReadingRow = {
   id: string;
   node_id: string;
+  sequence: number;
+  timestamp: string;
+  sample_rate_hz: number;
+  units: AccelerationUnit;
+  orientation: AxisOrientation;
   accel_x: number;
   accel_y: number;
   accel_z: number;
   magnitude: number;
-  timestamp: string;
-}
+  dominant_frequency: number | null;
+  fft_spectrum: number[] | null;
+  signal_type: SignalType | null;
+  damping_ratio: number | null;
+  damage_class: DamageClass | null;
+  temperature: number | null;
+  humidity: number | null;
+};
+
+export type SeismicEventSource = 'simulator' | 'network';
+
+// Row shapes of the history tables - convert in ./repositories
+export type SeismicEventRow = {
+  id: string;
+  started_at: string;
+  ended_at: string | null;
+  epicenter_lat: number | null;
+  epicenter_lng: number | null;
+  intensity: number | null;
+  magnitude: number | null;
+  magnitude_uncertainty: number | null;
+  source: SeismicEventSource;
+  created_at?: string;
+};
+
+export type DamageAssessmentRow = {
+  id: string;
+  node_id: string;
+  event_id: string | null;
+  assessed_at: string;
+  total_score: number;
+  base_score: number;
+  event_damage: number;
+  status: NodeStatus;
+  measured_score: number | null;
+  category: DamageClass | null;
+  frequency_shift_score: number | null;
+  peak_energy_score: number | null;
+  duration_score: number | null;
+  features: DamageFeatures | null;
+  damage_model: string | null;
+};
+
+export type HeartbeatRow = {
+  id: number;
+  node_id: string;
+  node_timestamp: string;
+  received_at: string;
+  battery: number | null;
+  rssi: number | null;
+  uptime_sec: number | null;
+};
+
+export type InsdInferenceRow = {
+  id: string;
+  node_id: string;
+  event_id: string | null;
+  evaluated_at: string;
+  probability: number;
+  is_collapse: boolean;
+  event_gap_score: number;
+  heartbeat_score: number;
+  neighborhood_score: number;
+  witnesses: string[];
+  silent_for_ms: number;
+};
+
+export type FatigueIndicatorRow = {
+  id: string;
+  node_id: string;
+  recorded_at: string;
+  has_warning: boolean;
+  trend_slope: number;
+  baseline_frequency: number;
+  current_frequency: number;
+  compensated_frequency: number | null;
+  temperature_coefficient: number | null;
+  deviation_percent: number;
+  sample_count: number;
+  trend_confidence: number;
+  damping_ratio: number | null;
+  baseline_damping_ratio: number | null;
+  trend_source: 'recent' | 'daily' | 'weekly' | null;
+  trend_span_days: number | null;
+  residual_std: number | null;
+  seasonal_amplitude: number | null;
+  projected_days_to_threshold: number | null;
+};
+
+export type NodeBaselineRow = {
+  node_id: string;
+  baseline_frequency: number | null;
+  baseline_damping_ratio: number | null;
+  established_at: string | null;
+  baseline_temperature: number | null;
+  baseline_humidity: number | null;
+  environmental_model: EnvironmentalModel | null;
+  updated_at: string;
+};
+
+export type FrequencyAggregateRow = {
+  node_id: string;
+  period: 'day' | 'week';
+  period_start: string;
+  sample_count: number;
+  mean_frequency: number;
+  min_frequency: number;
+  max_frequency: number;
+  std_frequency: number;
+  mean_damping: number | null;
+  mean_temperature: number | null;
+  mean_humidity: number | null;
+  updated_at: string;
+};
+
+export type EventFrequencyComparisonRow = {
+  node_id: string;
+  event_id: string;
+  event_started_at: string;
+  event_ended_at: string;
+  pre_frequency: number;
+  post_frequency: number;
+  shift_percent: number;
+  pre_damping: number | null;
+  post_damping: number | null;
+  established_at: string;
+};
+
+export type FrequencyChangeEventRow = {
+  id: string;
+  node_id: string;
+  changed_at: string;
+  detected_at: string;
+  direction: ChangeDirection;
+  before_frequency: number;
+  after_frequency: number;
+  magnitude_percent: number;
+  confidence: number;
+  method: ChangePointMethod;
+};
 
 export interface ProcessedReading extends SensorReading {
   stage: 'raw' | 'filtered' | 'correlated' | 'interpreted';
@@ -40,20 +189,84 @@ export interface NodeWithReadings extends Node {
   signalLoss?: boolean;
 }
 
-// Database types for Supabase
+// Database types for Supabase (schema: supabase/migrations)
+// Row types are type aliases, not interfaces: supabase-js needs them indexable
 export type Database = {
   public: {
     Tables: {
       nodes: {
         Row: Node;
-        Insert: Omit<Node, 'id' | 'created_at'>;
+        Insert: Omit<Node, 'created_at'>;
         Update: Partial<Omit<Node, 'id'>>;
+        Relationships: [];
       };
       sensor_readings: {
-        Row: SensorReading;
-        Insert: Omit<SensorReading, 'id'>;
-        Update: Partial<Omit<SensorReading, 'id'>>;
+        Row: SensorReadingRow;
+        Insert: Omit<SensorReadingRow, 'id'>;
+        Update: Partial<Omit<SensorReadingRow, 'id'>>;
+        Relationships: [];
+      };
+      seismic_events: {
+        Row: SeismicEventRow;
+        Insert: Omit<SeismicEventRow, 'id' | 'created_at'> & { id?: string };
+        Update: Partial<Omit<SeismicEventRow, 'id'>>;
+        Relationships: [];
+      };
+      damage_assessments: {
+        Row: DamageAssessmentRow;
+        Insert: Omit<DamageAssessmentRow, 'id'>;
+        Update: Partial<Omit<DamageAssessmentRow, 'id'>>;
+        Relationships: [];
+      };
+      heartbeats: {
+        Row: HeartbeatRow;
+        Insert: Omit<HeartbeatRow, 'id' | 'received_at'>;
+        Update: Partial<Omit<HeartbeatRow, 'id'>>;
+        Relationships: [];
+      };
+      insd_inferences: {
+        Row: InsdInferenceRow;
+        Insert: Omit<InsdInferenceRow, 'id'>;
+        Update: Partial<Omit<InsdInferenceRow, 'id'>>;
+        Relationships: [];
+      };
+      fatigue_indicators: {
+        Row: FatigueIndicatorRow;
+        Insert: Omit<FatigueIndicatorRow, 'id'>;
+        Update: Partial<Omit<FatigueIndicatorRow, 'id'>>;
+        Relationships: [];
+      };
+      node_baselines: {
+        Row: NodeBaselineRow;
+        Insert: Omit<NodeBaselineRow, 'updated_at'> & { updated_at?: string };
+        Update: Partial<Omit<NodeBaselineRow, 'node_id'>>;
+        Relationships: [];
+      };
+      frequency_aggregates: {
+        Row: FrequencyAggregateRow;
+        Insert: FrequencyAggregateRow;
+        Update: Partial<Omit<FrequencyAggregateRow, 'node_id' | 'period' | 'period_start'>>;
+        Relationships: [];
+      };
+      event_frequency_comparisons: {
+        Row: EventFrequencyComparisonRow;
+        Insert: EventFrequencyComparisonRow;
+        Update: Partial<Omit<EventFrequencyComparisonRow, 'node_id' | 'event_id'>>;
+        Relationships: [];
+      };
+      frequency_change_events: {
+        Row: FrequencyChangeEventRow;
+        Insert: FrequencyChangeEventRow;
+        Update: Partial<Omit<FrequencyChangeEventRow, 'id'>>;
+        Relationships: [];
+      };
+    };
+    Views: {
+      latest_damage_assessments: {
+        Row: DamageAssessmentRow;
+        Relationships: [];
       };
     };
+    Functions: { [_ in never]: never };
   };
 };
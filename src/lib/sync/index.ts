@@ -0,0 +1,289 @@
+/**
+ * SEISMOS Console Sync
+ *
+ * Keeps every open operator console on the same picture over a Supabase
+ * Realtime channel (broadcast + presence).
+ *
+ * Authority:
+ * - Exactly one console is the host: the earliest joined member of the
+ *   channel (ties broken by console id). Only the host runs the
+ *   authoritative pipeline, scores damage and writes to the database.
+ * - Every other console is a follower: it applies the host's state
+ *   (including its pipeline results) and forwards operator commands
+ *   (trigger / reset) to the host. Its local feed is not processed.
+ * - When the host leaves, presence re-elects and the new host publishes a
+ *   full snapshot.
+ *
+ * Conflict handling:
+ * - State messages carry (hostId, revision). Followers drop messages from
+ *   anyone but the elected host and any revision not newer than the last
+ *   one applied, so reordered or duplicate broadcasts cannot roll state back.
+ * - A delta that skips a revision means one was lost; the follower applies
+ *   it and asks the host for a full snapshot, since deltas only carry what
+ *   changed and the missing one would otherwise never be repaired.
+ * - Operator annotations are the only shared writable data; concurrent
+ *   edits resolve last-writer-wins on (updatedAt, consoleId).
+ *
+ * Without Supabase credentials the console stays 'standalone' and nothing
+ * is sent.
+ */
+
+import type { RealtimeChannel, SupabaseClient } from '@supabase/supabase-js';
+import { supabase, isSupabaseConfigured } from '../supabase/client';
+import type { Database, NodeStatus } from '../supabase/types';
+import type { SeismicEvent } from '../supabase/repositories';
+import type { InsdInference } from '../insd';
+import type { PipelineResult } from '../signal-processor';
+import type { FrequencyChangeEvent } from '../damage-score/change-point';
+import type { BuildingDamage, EventLocationReport } from '../store';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type SyncRole = 'standalone' | 'host' | 'follower';
+
+/**
+ * Operator note attached to a building (shared across consoles)
+ */
+export interface NodeAnnotation {
+    nodeId: string;
+    text: string;
+    consoleId: string;
+    updatedAt: number;
+}
+
+/**
+ * Host state, either a delta or (full = true) everything a console needs
+ */
+export interface StatePatch {
+    statuses?: Array<[nodeId: string, status: NodeStatus]>;
+    damages?: Array<[nodeId: string, damage: BuildingDamage]>;
+    evidence?: InsdInference[];
+    evidenceRemoved?: string[];
+    earthquake?: {
+        active: boolean;
+        progress: number;
+        currentEventId: string | null;
+        event?: SeismicEvent;
+    };
+    location?: EventLocationReport | null;
+    annotations?: NodeAnnotation[];
+
+    /** Latest pipeline result per node; followers do not run the pipeline */
+    results?: Array<[nodeId: string, result: PipelineResult]>;
+
+    /** Frequency change points detected by the host */
+    changes?: FrequencyChangeEvent[];
+}
+
+export type SyncCommand = 'trigger-earthquake' | 'reset';
+
+export interface StateMessage {
+    hostId: string;
+    revision: number;
+    full: boolean;
+    patch: StatePatch;
+}
+
+export interface SyncHandlers {
+    onRoleChange: (role: SyncRole, hostId: string | null) => void;
+    onState: (patch: StatePatch, full: boolean) => void;
+    onAnnotation: (annotation: NodeAnnotation) => void;
+    onCommand: (command: SyncCommand, from: string) => void;
+    onSnapshotRequest: () => void;
+}
+
+interface PresenceMember {
+    consoleId: string;
+    joinedAt: number;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const CHANNEL_NAME = 'seismos-console';
+
+// ============================================================================
+// CONFLICT RULES
+// ============================================================================
+
+/**
+ * Deterministic host election: earliest join wins, console id breaks ties
+ */
+export function electHost(members: PresenceMember[]): string | null {
+    if (members.length === 0) return null;
+    const [host] = [...members].sort((a, b) =>
+        a.joinedAt - b.joinedAt || a.consoleId.localeCompare(b.consoleId)
+    );
+    return host.consoleId;
+}
+
+/**
+ * Last-writer-wins between two versions of the same annotation
+ */
+export function resolveAnnotation(current: NodeAnnotation | undefined, incoming: NodeAnnotation): NodeAnnotation {
+    if (!current) return incoming;
+    if (incoming.updatedAt !== current.updatedAt) {
+        return incoming.updatedAt > current.updatedAt ? incoming : current;
+    }
+    return incoming.consoleId > current.consoleId ? incoming : current;
+}
+
+// ============================================================================
+// CONSOLE SYNC
+// ============================================================================
+
+export class ConsoleSync {
+    readonly consoleId: string;
+    private readonly client: SupabaseClient<Database>;
+    private readonly enabled: boolean;
+
+    private channel: RealtimeChannel | null = null;
+    private handlers: SyncHandlers | null = null;
+    private joinedAt = 0;
+
+    private role: SyncRole = 'standalone';
+    private hostId: string | null = null;
+
+    /** Outgoing revision while host */
+    private revision = 0;
+
+    /** Last state applied while follower */
+    private lastApplied: { hostId: string; revision: number } | null = null;
+
+    /** Snapshot requested and not yet received (one request per gap) */
+    private awaitingSnapshot = false;
+
+    constructor(client: SupabaseClient<Database> = supabase, enabled: boolean = isSupabaseConfigured) {
+        this.client = client;
+        this.enabled = enabled;
+        this.consoleId = crypto.randomUUID();
+    }
+
+    getRole(): SyncRole {
+        return this.role;
+    }
+
+    /**
+     * Join the console channel. Returns a function that leaves it.
+     */
+    start(handlers: SyncHandlers): () => void {
+        if (!this.enabled || this.channel) return () => { };
+
+        this.handlers = handlers;
+        this.joinedAt = Date.now();
+
+        const channel = this.client.channel(CHANNEL_NAME, {
+            config: {
+                broadcast: { self: false },
+                presence: { key: this.consoleId },
+            },
+        });
+
+        channel
+            .on('presence', { event: 'sync' }, () => this.reelect())
+            .on('broadcast', { event: 'state' }, ({ payload }) => this.receiveState(payload as StateMessage))
+            .on('broadcast', { event: 'annotation' }, ({ payload }) => {
+                this.handlers?.onAnnotation(payload as NodeAnnotation);
+            })
+            .on('broadcast', { event: 'command' }, ({ payload }) => {
+                const { command, from } = payload as { command: SyncCommand; from: string };
+                if (this.role === 'host') this.handlers?.onCommand(command, from);
+            })
+            .on('broadcast', { event: 'snapshot-request' }, () => {
+                if (this.role === 'host') this.handlers?.onSnapshotRequest();
+            })
+            .subscribe((status) => {
+                if (status === 'SUBSCRIBED') {
+                    void channel.track({ consoleId: this.consoleId, joinedAt: this.joinedAt });
+                }
+            });
+
+        this.channel = channel;
+
+        return () => {
+            this.setRole('standalone', null);
+            void this.client.removeChannel(channel);
+            this.channel = null;
+            this.handlers = null;
+        };
+    }
+
+    /**
+     * Broadcast host state. Ignored unless this console is the host.
+     */
+    publishState(patch: StatePatch, full: boolean = false): void {
+        if (this.role !== 'host' || !this.channel) return;
+        const message: StateMessage = { hostId: this.consoleId, revision: ++this.revision, full, patch };
+        void this.channel.send({ type: 'broadcast', event: 'state', payload: message });
+    }
+
+    sendAnnotation(annotation: NodeAnnotation): void {
+        if (!this.channel) return;
+        void this.channel.send({ type: 'broadcast', event: 'annotation', payload: annotation });
+    }
+
+    /**
+     * Ask the host to run a command (followers only)
+     */
+    sendCommand(command: SyncCommand): void {
+        if (this.role !== 'follower' || !this.channel) return;
+        void this.channel.send({ type: 'broadcast', event: 'command', payload: { command, from: this.consoleId } });
+    }
+
+    private reelect(): void {
+        if (!this.channel) return;
+
+        const members = Object.values(this.channel.presenceState<PresenceMember>())
+            .flat()
+            .map(({ consoleId, joinedAt }) => ({ consoleId, joinedAt }));
+        const hostId = electHost(members);
+
+        if (hostId === this.hostId) return;
+        this.setRole(hostId === this.consoleId ? 'host' : 'follower', hostId);
+
+        if (this.role === 'follower') {
+            // Yeni host: eski revizyonlar geçersiz, tam durumu iste
+            this.lastApplied = null;
+            this.requestSnapshot();
+        }
+    }
+
+    private requestSnapshot(): void {
+        if (!this.channel) return;
+        this.awaitingSnapshot = true;
+        void this.channel.send({ type: 'broadcast', event: 'snapshot-request', payload: { from: this.consoleId } });
+    }
+
+    private receiveState(message: StateMessage): void {
+        if (this.role !== 'follower' || message.hostId !== this.hostId) return;
+
+        const last = this.lastApplied;
+        if (last && last.hostId === message.hostId && message.revision <= last.revision) return;
+
+        if (message.full) {
+            this.awaitingSnapshot = false;
+        } else if (last && last.hostId === message.hostId && message.revision > last.revision + 1 && !this.awaitingSnapshot) {
+            // Arada kayıp delta var - bu delta uygulanır, eksik kısım tam durumla onarılır
+            this.requestSnapshot();
+        }
+
+        this.lastApplied = { hostId: message.hostId, revision: message.revision };
+        this.handlers?.onState(message.patch, message.full);
+    }
+
+    private setRole(role: SyncRole, hostId: string | null): void {
+        const changed = role !== this.role || hostId !== this.hostId;
+        this.role = role;
+        this.hostId = hostId;
+        if (changed) this.handlers?.onRoleChange(role, hostId);
+    }
+}
+
+// ============================================================================
+// SINGLETON INSTANCE
+// ============================================================================
+
+export const consoleSync = new ConsoleSync();
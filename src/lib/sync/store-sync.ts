@@ -0,0 +1,181 @@
+import { useSeismosStore, type SeismosState } from '../store';
+import { consoleSync, type StatePatch } from './index';
+
+// Host yayın aralığı - realtime istemcisi saniyede 10 mesajla sınırlı
+const PUBLISH_INTERVAL_MS = 250;
+
+// Bir konsolun tüm paylaşılan durumu (yeni follower ve host değişimi için)
+function fullSnapshot(state: SeismosState): StatePatch {
+    return {
+        statuses: Array.from(state.nodes.values()).map(n => [n.id, n.status]),
+        damages: Array.from(state.buildingDamages.entries()),
+        evidence: Array.from(state.consensusEvidence.values()),
+        earthquake: {
+            active: state.isEarthquakeActive,
+            progress: state.earthquakeProgress,
+            currentEventId: state.currentEventId,
+            event: state.seismicEvents.find(e => e.id === state.currentEventId),
+        },
+        location: state.eventLocation,
+        annotations: Array.from(state.annotations.values()),
+        results: Array.from(state.pipelineResults.entries()),
+        changes: state.frequencyChanges,
+    };
+}
+
+// Host tarafında iki durum arasındaki farkı çıkar
+function diffState(state: SeismosState, prev: SeismosState, patch: StatePatch): boolean {
+    let changed = false;
+
+    if (state.nodes !== prev.nodes) {
+        state.nodes.forEach((node, id) => {
+            if (prev.nodes.get(id)?.status !== node.status) {
+                (patch.statuses ??= []).push([id, node.status]);
+                changed = true;
+            }
+        });
+    }
+
+    if (state.buildingDamages !== prev.buildingDamages) {
+        state.buildingDamages.forEach((damage, id) => {
+            if (prev.buildingDamages.get(id) !== damage) {
+                (patch.damages ??= []).push([id, damage]);
+                changed = true;
+            }
+        });
+    }
+
+    if (state.consensusEvidence !== prev.consensusEvidence) {
+        state.consensusEvidence.forEach((inference, id) => {
+            if (prev.consensusEvidence.get(id) !== inference) {
+                (patch.evidence ??= []).push(inference);
+                changed = true;
+            }
+        });
+        prev.consensusEvidence.forEach((_, id) => {
+            if (!state.consensusEvidence.has(id)) {
+                (patch.evidenceRemoved ??= []).push(id);
+                changed = true;
+            }
+        });
+    }
+
+    // Olay kaydı da izlenir - merkez ve büyüklük olay sürerken (ve kapanışta) güncellenir
+    if (state.isEarthquakeActive !== prev.isEarthquakeActive ||
+        state.earthquakeProgress !== prev.earthquakeProgress ||
+        state.currentEventId !== prev.currentEventId ||
+        state.seismicEvents !== prev.seismicEvents) {
+        patch.earthquake = {
+            active: state.isEarthquakeActive,
+            progress: state.earthquakeProgress,
+            currentEventId: state.currentEventId,
+            event: state.seismicEvents.find(e => e.id === state.currentEventId) ?? state.seismicEvents[0],
+        };
+        changed = true;
+    }
+
+    if (state.eventLocation !== prev.eventLocation) {
+        patch.location = state.eventLocation;
+        changed = true;
+    }
+
+    // Follower hattı çalıştırmaz - panelleri host'un sonuçlarıyla dolar
+    if (state.pipelineResults !== prev.pipelineResults) {
+        state.pipelineResults.forEach((result, id) => {
+            if (prev.pipelineResults.get(id) !== result) {
+                (patch.results ??= []).push([id, result]);
+                changed = true;
+            }
+        });
+    }
+
+    if (state.frequencyChanges !== prev.frequencyChanges) {
+        const known = new Set(prev.frequencyChanges.map(c => c.id));
+        const added = state.frequencyChanges.filter(c => !known.has(c.id));
+        if (added.length > 0) {
+            patch.changes = added;
+            changed = true;
+        }
+    }
+
+    return changed;
+}
+
+// Patch birleştir - aynı node için son değer kazanır
+function mergePatch(into: StatePatch, from: StatePatch): StatePatch {
+    const byNode = <T>(a: Array<[string, T]> = [], b: Array<[string, T]> = []) =>
+        Array.from(new Map([...a, ...b]).entries());
+
+    return {
+        statuses: from.statuses || into.statuses ? byNode(into.statuses, from.statuses) : undefined,
+        damages: from.damages || into.damages ? byNode(into.damages, from.damages) : undefined,
+        evidence: from.evidence || into.evidence
+            ? Array.from(new Map([...(into.evidence ?? []), ...(from.evidence ?? [])].map(e => [e.nodeId, e])).values())
+            : undefined,
+        evidenceRemoved: from.evidenceRemoved || into.evidenceRemoved
+            ? [...(into.evidenceRemoved ?? []), ...(from.evidenceRemoved ?? [])]
+            : undefined,
+        earthquake: from.earthquake ?? into.earthquake,
+        location: from.location !== undefined ? from.location : into.location,
+        results: from.results || into.results ? byNode(into.results, from.results) : undefined,
+        changes: from.changes || into.changes ? [...(from.changes ?? []), ...(into.changes ?? [])] : undefined,
+    };
+}
+
+/**
+ * Store'u konsol senkron kanalına bağla.
+ * Host: durum değişikliklerini toplayıp yayınlar, follower komutlarını çalıştırır.
+ * Follower: host'un durumunu uygular.
+ */
+export function startConsoleSync(): () => void {
+    let pending: StatePatch | null = null;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const flush = () => {
+        timer = null;
+        if (pending) consoleSync.publishState(pending);
+        pending = null;
+    };
+
+    const publishFull = () => {
+        pending = null;
+        consoleSync.publishState(fullSnapshot(useSeismosStore.getState()), true);
+    };
+
+    const stopChannel = consoleSync.start({
+        onRoleChange: (role) => {
+            useSeismosStore.getState().setSyncRole(role);
+            if (role === 'host') publishFull();
+        },
+        onState: (patch, full) => useSeismosStore.getState().applyRemoteState(patch, full),
+        onAnnotation: (annotation) => useSeismosStore.getState().receiveAnnotation(annotation),
+        onCommand: (command) => {
+            const store = useSeismosStore.getState();
+            if (command === 'trigger-earthquake') void store.triggerEarthquake();
+            if (command === 'reset' && !store.isEarthquakeActive) store.resetToSafe();
+        },
+        onSnapshotRequest: publishFull,
+    });
+
+    const unsubscribeStore = useSeismosStore.subscribe((state, prev) => {
+        if (state.syncRole !== 'host') return;
+
+        const patch: StatePatch = {};
+        if (!diffState(state, prev, patch)) return;
+
+        pending = pending ? mergePatch(pending, patch) : patch;
+        // Depremin başlangıç/bitişi beklemeden gitsin
+        if (patch.earthquake && patch.earthquake.active !== prev.isEarthquakeActive) {
+            if (timer) clearTimeout(timer);
+            flush();
+            return;
+        }
+        if (!timer) timer = setTimeout(flush, PUBLISH_INTERVAL_MS);
+    });
+
+    return () => {
+        if (timer) clearTimeout(timer);
+        unsubscribeStore();
+        stopChannel();
+    };
+}
@@ -0,0 +1,386 @@
+/**
+ * SEISMOS Event Trigger
+ *
+ * Per-node STA/LTA detector with AIC onset picking, so "an event started"
+ * is derived from each node's own data instead of a button press.
+ *
+ * Physical Rationale:
+ * - Ambient vibration has a slowly varying energy level; an arriving
+ *   earthquake raises the short-term energy far above the long-term level
+ * - The ratio of a short-term average (STA) to a long-term average (LTA)
+ *   of signal energy is insensitive to the absolute noise level, so one
+ *   threshold works for quiet and noisy sites alike
+ * - STA/LTA fires a little after the true onset (the STA must fill);
+ *   the Akaike Information Criterion locates the point where the record
+ *   splits best into "noise" and "signal", which is the P-wave onset
+ *
+ * Algorithm:
+ * - Characteristic function: energy of the offset-free acceleration
+ *   (each axis minus a slow running mean, squared and summed)
+ * - STA / LTA as time-windowed means (classic) or exponential averages
+ *   (recursive); both are time based so a sample rate switch (e.g. idle
+ *   5 Hz → event 20 Hz) keeps the long-term level
+ * - Trigger when ratio ≥ onRatio, detrigger when ratio < offRatio;
+ *   the LTA is frozen while triggered so the event does not raise it
+ * - On trigger, AIC over the recent vertical trace picks the onset:
+ *   AIC(k) = k·log(var(x[0..k])) + (N-k-1)·log(var(x[k+1..N-1]))
+ */
+
+import type { VibrationSample } from '../damage-score';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type StaLtaMode = 'classic' | 'recursive';
+
+/**
+ * Trigger transition for one node
+ */
+export type TriggerEvent =
+    | {
+        type: 'trigger';
+        nodeId: string;
+
+        /** Sample time at which the ratio crossed onRatio (epoch ms) */
+        timestamp: number;
+
+        /** STA/LTA ratio at the crossing */
+        ratio: number;
+
+        /** Picked onset (epoch ms); the trigger time when AIC had too few samples */
+        onsetTime: number;
+
+        /** Whether onsetTime came from the AIC picker */
+        picked: boolean;
+    }
+    | {
+        type: 'detrigger';
+        nodeId: string;
+
+        /** Sample time at which the ratio fell below offRatio (epoch ms) */
+        timestamp: number;
+
+        ratio: number;
+
+        /** Onset of the trigger being closed (epoch ms) */
+        onsetTime: number;
+
+        /** Highest ratio while triggered */
+        peakRatio: number;
+
+        /** True when closed by maxTriggerSeconds rather than the ratio */
+        forced: boolean;
+    };
+
+/**
+ * Current detector state for one node
+ */
+export interface TriggerState {
+    /** Latest STA/LTA ratio (0 during warm-up) */
+    ratio: number;
+
+    isTriggered: boolean;
+
+    /** Onset of the open trigger (epoch ms), null when not triggered */
+    onsetTime: number | null;
+
+    /** Transition produced by the latest sample, if any */
+    event: TriggerEvent | null;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export interface StaLtaConfig {
+    mode: StaLtaMode;
+
+    /** Short-term window (s); about the length of the signal to detect */
+    staSeconds: number;
+
+    /** Long-term window (s); about ten times the short-term window */
+    ltaSeconds: number;
+
+    /** Ratio that opens a trigger */
+    onRatio: number;
+
+    /** Ratio below which an open trigger closes */
+    offRatio: number;
+
+    /** Record needed before the detector may trigger (s) */
+    warmupSeconds: number;
+
+    /** Pre-trigger record searched by the AIC picker (s) */
+    pickWindowSeconds: number;
+
+    /** Minimum samples for an AIC pick */
+    minPickSamples: number;
+
+    /** Open triggers are closed after this long even if the ratio stays high (s) */
+    maxTriggerSeconds: number;
+}
+
+const DEFAULT_CONFIG: StaLtaConfig = {
+    mode: 'classic',
+    staSeconds: 1,
+    ltaSeconds: 10,
+    onRatio: 4,
+    offRatio: 1.5,
+    warmupSeconds: 10,
+    pickWindowSeconds: 4,
+    minPickSamples: 8,
+    maxTriggerSeconds: 120,
+};
+
+// ============================================================================
+// ONSET PICKER
+// ============================================================================
+
+/**
+ * Index of the AIC minimum: the split point where the series changes from
+ * one variance regime to another. Returns -1 for fewer than 4 samples.
+ */
+export function aicPick(series: number[]): number {
+    const n = series.length;
+    if (n < 4) return -1;
+
+    // Prefix sums for O(n) variances of both sides
+    const sum = new Array<number>(n + 1).fill(0);
+    const sumSq = new Array<number>(n + 1).fill(0);
+    for (let i = 0; i < n; i++) {
+        sum[i + 1] = sum[i] + series[i];
+        sumSq[i + 1] = sumSq[i] + series[i] * series[i];
+    }
+    const variance = (from: number, to: number) => {
+        const count = to - from;
+        const mean = (sum[to] - sum[from]) / count;
+        return Math.max((sumSq[to] - sumSq[from]) / count - mean * mean, Number.EPSILON);
+    };
+
+    let best = -1;
+    let bestAic = Infinity;
+    for (let k = 1; k < n - 2; k++) {
+        const aic = k * Math.log(variance(0, k + 1)) + (n - k - 1) * Math.log(variance(k + 1, n));
+        if (aic < bestAic) {
+            bestAic = aic;
+            best = k;
+        }
+    }
+    return best;
+}
+
+// ============================================================================
+// STA/LTA TRIGGER
+// ============================================================================
+
+interface NodeState {
+    firstTime: number;
+    lastTime: number;
+
+    /** Slow running mean per axis (removes gravity and mounting offset) */
+    mean: { x: number; y: number; z: number } | null;
+
+    /** Classic mode: windowed characteristic function */
+    staWindow: Array<{ t: number; cf: number }>;
+    ltaWindow: Array<{ t: number; cf: number }>;
+    staSum: number;
+    ltaSum: number;
+
+    /** Recursive mode: exponential averages */
+    sta: number;
+    lta: number;
+
+    /** Recent vertical trace for the onset picker */
+    trace: Array<{ t: number; value: number }>;
+
+    ratio: number;
+    triggeredAt: number | null;
+    onsetTime: number | null;
+    peakRatio: number;
+}
+
+export class StaLtaTrigger {
+    private readonly config: StaLtaConfig;
+    private nodes: Map<string, NodeState> = new Map();
+
+    constructor(config: Partial<StaLtaConfig> = {}) {
+        this.config = { ...DEFAULT_CONFIG, ...config };
+        if (this.config.offRatio >= this.config.onRatio || this.config.staSeconds >= this.config.ltaSeconds) {
+            throw new Error('[StaLtaTrigger] offRatio must be below onRatio and staSeconds below ltaSeconds');
+        }
+    }
+
+    /**
+     * Feed one sample (timestamp in epoch ms) and get the node's state
+     */
+    process(nodeId: string, sample: VibrationSample, timestamp: number): TriggerState {
+        const { config } = this;
+        let state = this.nodes.get(nodeId);
+
+        // A gap longer than the long-term window leaves nothing to compare against
+        if (!state || timestamp - state.lastTime > config.ltaSeconds * 1000 || timestamp < state.lastTime) {
+            state = this.createState(timestamp);
+            this.nodes.set(nodeId, state);
+        }
+
+        const dt = Math.max(0, (timestamp - state.lastTime) / 1000);
+        state.lastTime = timestamp;
+
+        // Characteristic function: energy of the offset-free acceleration
+        if (!state.mean) {
+            state.mean = { x: sample.accelX, y: sample.accelY, z: sample.accelZ };
+        } else if (state.triggeredAt === null) {
+            const alpha = 1 - Math.exp(-dt / config.ltaSeconds);
+            state.mean.x += alpha * (sample.accelX - state.mean.x);
+            state.mean.y += alpha * (sample.accelY - state.mean.y);
+            state.mean.z += alpha * (sample.accelZ - state.mean.z);
+        }
+        const dx = sample.accelX - state.mean.x;
+        const dy = sample.accelY - state.mean.y;
+        const dz = sample.accelZ - state.mean.z;
+        const cf = dx * dx + dy * dy + dz * dz;
+
+        const frozen = state.triggeredAt !== null;
+        const { sta, lta } = config.mode === 'classic'
+            ? this.updateClassic(state, timestamp, cf, frozen)
+            : this.updateRecursive(state, dt, cf, frozen);
+
+        state.trace.push({ t: timestamp, value: dz });
+        while (state.trace.length > 0 && state.trace[0].t < timestamp - config.pickWindowSeconds * 1000) {
+            state.trace.shift();
+        }
+
+        const warmedUp = timestamp - state.firstTime >= config.warmupSeconds * 1000;
+        state.ratio = warmedUp && lta > 0 ? sta / lta : 0;
+
+        const event = this.transition(nodeId, state, timestamp);
+        return {
+            ratio: state.ratio,
+            isTriggered: state.triggeredAt !== null,
+            onsetTime: state.onsetTime,
+            event,
+        };
+    }
+
+    isTriggered(nodeId: string): boolean {
+        return (this.nodes.get(nodeId)?.triggeredAt ?? null) !== null;
+    }
+
+    private createState(timestamp: number): NodeState {
+        return {
+            firstTime: timestamp,
+            lastTime: timestamp,
+            mean: null,
+            staWindow: [],
+            ltaWindow: [],
+            staSum: 0,
+            ltaSum: 0,
+            sta: 0,
+            lta: 0,
+            trace: [],
+            ratio: 0,
+            triggeredAt: null,
+            onsetTime: null,
+            peakRatio: 0,
+        };
+    }
+
+    private updateClassic(state: NodeState, t: number, cf: number, frozen: boolean): { sta: number; lta: number } {
+        const { staSeconds, ltaSeconds } = this.config;
+
+        state.staWindow.push({ t, cf });
+        state.staSum += cf;
+        while (state.staWindow[0].t <= t - staSeconds * 1000) {
+            state.staSum -= state.staWindow.shift()!.cf;
+        }
+
+        // Frozen: the long-term level stays what it was before the event
+        if (!frozen) {
+            state.ltaWindow.push({ t, cf });
+            state.ltaSum += cf;
+            while (state.ltaWindow.length > 0 && state.ltaWindow[0].t <= t - ltaSeconds * 1000) {
+                state.ltaSum -= state.ltaWindow.shift()!.cf;
+            }
+        }
+
+        return {
+            sta: state.staSum / state.staWindow.length,
+            lta: state.ltaWindow.length > 0 ? state.ltaSum / state.ltaWindow.length : 0,
+        };
+    }
+
+    private updateRecursive(state: NodeState, dt: number, cf: number, frozen: boolean): { sta: number; lta: number } {
+        const { staSeconds, ltaSeconds } = this.config;
+        if (state.lta === 0 && state.sta === 0) {
+            state.sta = cf;
+            state.lta = cf;
+        } else {
+            state.sta += (1 - Math.exp(-dt / staSeconds)) * (cf - state.sta);
+            if (!frozen) state.lta += (1 - Math.exp(-dt / ltaSeconds)) * (cf - state.lta);
+        }
+        return { sta: state.sta, lta: state.lta };
+    }
+
+    private transition(nodeId: string, state: NodeState, timestamp: number): TriggerEvent | null {
+        const { onRatio, offRatio, maxTriggerSeconds } = this.config;
+
+        if (state.triggeredAt === null) {
+            if (state.ratio < onRatio) return null;
+
+            const { onsetTime, picked } = this.pickOnset(state, timestamp);
+            state.triggeredAt = timestamp;
+            state.onsetTime = onsetTime;
+            state.peakRatio = state.ratio;
+            return { type: 'trigger', nodeId, timestamp, ratio: state.ratio, onsetTime, picked };
+        }
+
+        state.peakRatio = Math.max(state.peakRatio, state.ratio);
+        const forced = timestamp - state.triggeredAt >= maxTriggerSeconds * 1000;
+        if (state.ratio >= offRatio && !forced) return null;
+
+        const event: TriggerEvent = {
+            type: 'detrigger',
+            nodeId,
+            timestamp,
+            ratio: state.ratio,
+            onsetTime: state.onsetTime ?? state.triggeredAt,
+            peakRatio: state.peakRatio,
+            forced,
+        };
+        state.triggeredAt = null;
+        state.onsetTime = null;
+        state.peakRatio = 0;
+
+        // A forced close means the site got louder for good: relearn its level
+        if (forced) {
+            state.ltaWindow = [];
+            state.ltaSum = 0;
+            state.lta = state.sta;
+        }
+        return event;
+    }
+
+    private pickOnset(state: NodeState, timestamp: number): { onsetTime: number; picked: boolean } {
+        if (state.trace.length < this.config.minPickSamples) {
+            return { onsetTime: timestamp, picked: false };
+        }
+        const k = aicPick(state.trace.map(s => s.value));
+        if (k < 0) return { onsetTime: timestamp, picked: false };
+        return { onsetTime: state.trace[k].t, picked: true };
+    }
+
+    reset(nodeId?: string): void {
+        if (nodeId) {
+            this.nodes.delete(nodeId);
+        } else {
+            this.nodes.clear();
+        }
+    }
+}
+
+// ============================================================================
+// SINGLETON INSTANCE
+// ============================================================================
+
+export const staLtaTrigger = new StaLtaTrigger();
@@ -0,0 +1,35 @@
+-- SEISMOS - base schema: nodes and raw sensor readings
+-- Plain PostgreSQL (13+), runs on Supabase or a local instance.
+
+create table if not exists nodes (
+    id          text primary key,
+    name        text not null,
+    status      text not null default 'stable'
+                check (status in ('stable', 'anomaly', 'warning', 'critical', 'collapse', 'collapse_inferred')),
+    lat         double precision not null check (lat between -90 and 90),
+    lng         double precision not null check (lng between -180 and 180),
+    is_physical boolean not null default false,
+    created_at  timestamptz not null default now()
+);
+
+-- Row shape of the canonical reading (see src/lib/readings: toReadingRow / fromReadingRow)
+create table if not exists sensor_readings (
+    id                 uuid primary key default gen_random_uuid(),
+    node_id            text not null references nodes (id) on delete cascade,
+    sequence           bigint not null check (sequence >= 0),
+    timestamp          timestamptz not null,
+    sample_rate_hz     real not null check (sample_rate_hz > 0),
+    units              text not null default 'g' check (units in ('g', 'm/s2')),
+    orientation        text not null default 'enu' check (orientation in ('enu', 'building')),
+    accel_x            double precision not null,
+    accel_y            double precision not null,
+    accel_z            double precision not null,
+    magnitude          double precision not null check (magnitude >= 0),
+    dominant_frequency double precision,
+    fft_spectrum       double precision[],
+    signal_type        text check (signal_type in ('idle', 'seismic', 'noise', 'anomaly')),
+    damping_ratio      double precision check (damping_ratio >= 0 and damping_ratio < 1),
+    damage_class       text check (damage_class in ('safe', 'risky', 'heavily_damaged'))
+);
+
+create index if not exists sensor_readings_node_time_idx on sensor_readings (node_id, timestamp desc);
@@ -0,0 +1,87 @@
+-- SEISMOS - event history, damage assessments and monitoring telemetry
+
+create table if not exists seismic_events (
+    id            uuid primary key default gen_random_uuid(),
+    started_at    timestamptz not null,
+    ended_at      timestamptz,
+    epicenter_lat double precision,
+    epicenter_lng double precision,
+    intensity     double precision,
+    magnitude     double precision,
+    source        text not null default 'simulator' check (source in ('simulator', 'network')),
+    created_at    timestamptz not null default now()
+);
+
+create index if not exists seismic_events_started_idx on seismic_events (started_at desc);
+
+-- One row per scoring of a building: the persistent score plus the measured
+-- damage engine output (components and raw features) behind it
+create table if not exists damage_assessments (
+    id                    uuid primary key default gen_random_uuid(),
+    node_id               text not null references nodes (id) on delete cascade,
+    event_id              uuid references seismic_events (id) on delete set null,
+    assessed_at           timestamptz not null default now(),
+    total_score           real not null check (total_score between 0 and 100),
+    base_score            real not null,
+    event_damage          real not null,
+    status                text not null,
+    measured_score        real,
+    category              text check (category in ('safe', 'risky', 'heavily_damaged')),
+    frequency_shift_score real,
+    peak_energy_score     real,
+    duration_score        real,
+    features              jsonb
+);
+
+create index if not exists damage_assessments_node_time_idx on damage_assessments (node_id, assessed_at desc);
+create index if not exists damage_assessments_event_idx on damage_assessments (event_id);
+
+-- Most recent assessment per building (used to hydrate the dashboard)
+create or replace view latest_damage_assessments as
+select distinct on (node_id) *
+from damage_assessments
+order by node_id, assessed_at desc;
+
+-- Health pings. No foreign key: a physical node may ping before it registers a location.
+create table if not exists heartbeats (
+    id             bigint generated always as identity primary key,
+    node_id        text not null,
+    node_timestamp timestamptz not null,
+    received_at    timestamptz not null default now(),
+    battery        real check (battery between 0 and 100),
+    rssi           real,
+    uptime_sec     bigint check (uptime_sec >= 0)
+);
+
+create index if not exists heartbeats_node_time_idx on heartbeats (node_id, received_at desc);
+
+create table if not exists insd_inferences (
+    id                 uuid primary key default gen_random_uuid(),
+    node_id            text not null references nodes (id) on delete cascade,
+    event_id           uuid references seismic_events (id) on delete set null,
+    evaluated_at       timestamptz not null,
+    probability        real not null check (probability between 0 and 1),
+    is_collapse        boolean not null,
+    event_gap_score    real not null,
+    heartbeat_score    real not null,
+    neighborhood_score real not null,
+    witnesses          text[] not null default '{}',
+    silent_for_ms      bigint not null
+);
+
+create index if not exists insd_inferences_node_time_idx on insd_inferences (node_id, evaluated_at desc);
+
+create table if not exists fatigue_indicators (
+    id                 uuid primary key default gen_random_uuid(),
+    node_id            text not null references nodes (id) on delete cascade,
+    recorded_at        timestamptz not null,
+    has_warning        boolean not null,
+    trend_slope        double precision not null,
+    baseline_frequency double precision not null,
+    current_frequency  double precision not null,
+    deviation_percent  double precision not null,
+    sample_count       integer not null,
+    trend_confidence   real not null
+);
+
+create index if not exists fatigue_indicators_node_time_idx on fatigue_indicators (node_id, recorded_at desc);
@@ -0,0 +1,33 @@
+-- SEISMOS - row level security for the browser (anon key) client
+-- Only applies where the Supabase roles exist; a plain local Postgres skips it.
+
+do $$
+declare
+    t text;
+begin
+    if not exists (select 1 from pg_roles where rolname = 'anon') then
+        raise notice 'role anon not found, skipping row level security';
+        return;
+    end if;
+
+    foreach t in array array[
+        'nodes', 'sensor_readings', 'seismic_events', 'damage_assessments',
+        'heartbeats', 'insd_inferences', 'fatigue_indicators'
+    ] loop
+        execute format('alter table %I enable row level security', t);
+        execute format('drop policy if exists seismos_read on %I', t);
+        execute format('drop policy if exists seismos_write on %I', t);
+        -- Consoles read and append; history is never updated or deleted
+        execute format('create policy seismos_read on %I for select to anon, authenticated using (true)', t);
+        execute format('create policy seismos_write on %I for insert to anon, authenticated with check (true)', t);
+    end loop;
+
+    -- Closing an event (ended_at) and re-registering a node need updates
+    drop policy if exists seismos_update on seismic_events;
+    create policy seismos_update on seismic_events for update to anon, authenticated using (true) with check (true);
+    drop policy if exists seismos_update on nodes;
+    create policy seismos_update on nodes for update to anon, authenticated using (true) with check (true);
+
+    grant select on latest_damage_assessments to anon, authenticated;
+end
+$$;
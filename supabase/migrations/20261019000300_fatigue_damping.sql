@@ -0,0 +1,5 @@
+-- SEISMOS - damping ratio alongside the frequency baseline in fatigue history
+
+alter table fatigue_indicators
+    add column if not exists damping_ratio          double precision check (damping_ratio >= 0 and damping_ratio < 1),
+    add column if not exists baseline_damping_ratio double precision check (baseline_damping_ratio >= 0 and baseline_damping_ratio < 1);
@@ -0,0 +1,4 @@
+-- SEISMOS - network magnitude scatter alongside the event magnitude
+
+alter table seismic_events
+    add column if not exists magnitude_uncertainty double precision check (magnitude_uncertainty >= 0);
@@ -0,0 +1,10 @@
+-- SEISMOS - which damage model produced a measured score (rule-based baseline or a learned model)
+
+alter table damage_assessments
+    add column if not exists damage_model text;
+
+-- `select *` is expanded when a view is created; rebuild it so the new column is exposed
+create or replace view latest_damage_assessments as
+select distinct on (node_id) *
+from damage_assessments
+order by node_id, assessed_at desc;
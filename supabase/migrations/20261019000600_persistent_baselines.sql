@@ -0,0 +1,55 @@
+-- SEISMOS - persistent frequency baselines and long-term frequency history
+
+-- One row per node, upserted when the baseline is established and as history grows
+create table if not exists node_baselines (
+    node_id                text primary key references nodes (id) on delete cascade,
+    baseline_frequency     double precision check (baseline_frequency > 0),
+    baseline_damping_ratio double precision check (baseline_damping_ratio >= 0 and baseline_damping_ratio < 1),
+    established_at         timestamptz,
+    updated_at             timestamptz not null default now()
+);
+
+-- Daily and weekly statistics of the frequency estimates; the open period is upserted until it closes
+create table if not exists frequency_aggregates (
+    node_id        text not null references nodes (id) on delete cascade,
+    period         text not null check (period in ('day', 'week')),
+    period_start   timestamptz not null,
+    sample_count   integer not null check (sample_count > 0),
+    mean_frequency double precision not null,
+    min_frequency  double precision not null,
+    max_frequency  double precision not null,
+    std_frequency  double precision not null check (std_frequency >= 0),
+    mean_damping   double precision check (mean_damping >= 0 and mean_damping < 1),
+    updated_at     timestamptz not null,
+    primary key (node_id, period, period_start)
+);
+
+-- Trend is now regressed against time: trend_slope is Hz per month (was Hz per sample)
+alter table fatigue_indicators
+    add column if not exists trend_source                text check (trend_source in ('recent', 'daily', 'weekly')),
+    add column if not exists trend_span_days             double precision,
+    add column if not exists residual_std                double precision,
+    add column if not exists seasonal_amplitude          double precision,
+    add column if not exists projected_days_to_threshold double precision;
+
+-- Same policies as the other history tables, plus updates for the upserts
+do $$
+declare
+    t text;
+begin
+    if not exists (select 1 from pg_roles where rolname = 'anon') then
+        raise notice 'role anon not found, skipping row level security';
+        return;
+    end if;
+
+    foreach t in array array['node_baselines', 'frequency_aggregates'] loop
+        execute format('alter table %I enable row level security', t);
+        execute format('drop policy if exists seismos_read on %I', t);
+        execute format('drop policy if exists seismos_write on %I', t);
+        execute format('drop policy if exists seismos_update on %I', t);
+        execute format('create policy seismos_read on %I for select to anon, authenticated using (true)', t);
+        execute format('create policy seismos_write on %I for insert to anon, authenticated with check (true)', t);
+        execute format('create policy seismos_update on %I for update to anon, authenticated using (true) with check (true)', t);
+    end loop;
+end
+$$;
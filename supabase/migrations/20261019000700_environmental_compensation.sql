@@ -0,0 +1,21 @@
+-- SEISMOS - ambient conditions and temperature-compensated frequency tracking
+
+-- Optional environmental channel of a node
+alter table sensor_readings
+    add column if not exists temperature double precision check (temperature between -40 and 85),
+    add column if not exists humidity    double precision check (humidity between 0 and 100);
+
+-- Conditions the baseline was established in, and the fitted thermal model (frozen once trained)
+alter table node_baselines
+    add column if not exists baseline_temperature double precision,
+    add column if not exists baseline_humidity    double precision,
+    add column if not exists environmental_model  jsonb;
+
+-- Mean conditions per period, so a model fitted later still compensates old periods
+alter table frequency_aggregates
+    add column if not exists mean_temperature double precision,
+    add column if not exists mean_humidity    double precision;
+
+alter table fatigue_indicators
+    add column if not exists compensated_frequency   double precision,
+    add column if not exists temperature_coefficient double precision;
@@ -0,0 +1,33 @@
+-- SEISMOS - sudden natural frequency steps found by the change-point detector
+
+-- Id is node_id:onset (epoch ms), so consoles that detect the same step write one row
+create table if not exists frequency_change_events (
+    id                text primary key,
+    node_id           text not null references nodes (id) on delete cascade,
+    changed_at        timestamptz not null,
+    detected_at       timestamptz not null,
+    direction         text not null check (direction in ('drop', 'rise')),
+    before_frequency  double precision not null check (before_frequency > 0),
+    after_frequency   double precision not null check (after_frequency > 0),
+    magnitude_percent double precision not null,
+    confidence        double precision not null check (confidence between 0 and 1),
+    method            text not null check (method in ('cusum', 'page-hinkley'))
+);
+
+create index if not exists frequency_change_events_detected_idx on frequency_change_events (detected_at desc);
+create index if not exists frequency_change_events_node_time_idx on frequency_change_events (node_id, changed_at desc);
+
+do $$
+begin
+    if not exists (select 1 from pg_roles where rolname = 'anon') then
+        raise notice 'role anon not found, skipping row level security';
+        return;
+    end if;
+
+    alter table frequency_change_events enable row level security;
+    drop policy if exists seismos_read on frequency_change_events;
+    drop policy if exists seismos_write on frequency_change_events;
+    create policy seismos_read on frequency_change_events for select to anon, authenticated using (true);
+    create policy seismos_write on frequency_change_events for insert to anon, authenticated with check (true);
+end
+$$;
@@ -0,0 +1,35 @@
+-- SEISMOS - natural frequency before each event against the baseline re-established after it
+
+-- One row per node and event, written when the post-event baseline is established
+create table if not exists event_frequency_comparisons (
+    node_id          text not null references nodes (id) on delete cascade,
+    event_id         uuid not null references seismic_events (id) on delete cascade,
+    event_started_at timestamptz not null,
+    event_ended_at   timestamptz not null,
+    pre_frequency    double precision not null check (pre_frequency > 0),
+    post_frequency   double precision not null check (post_frequency > 0),
+    shift_percent    double precision not null,
+    pre_damping      double precision check (pre_damping >= 0 and pre_damping < 1),
+    post_damping     double precision check (post_damping >= 0 and post_damping < 1),
+    established_at   timestamptz not null,
+    primary key (node_id, event_id)
+);
+
+create index if not exists event_frequency_comparisons_event_idx on event_frequency_comparisons (event_id);
+
+do $$
+begin
+    if not exists (select 1 from pg_roles where rolname = 'anon') then
+        raise notice 'role anon not found, skipping row level security';
+        return;
+    end if;
+
+    alter table event_frequency_comparisons enable row level security;
+    drop policy if exists seismos_read on event_frequency_comparisons;
+    drop policy if exists seismos_write on event_frequency_comparisons;
+    drop policy if exists seismos_update on event_frequency_comparisons;
+    create policy seismos_read on event_frequency_comparisons for select to anon, authenticated using (true);
+    create policy seismos_write on event_frequency_comparisons for insert to anon, authenticated with check (true);
+    create policy seismos_update on event_frequency_comparisons for update to anon, authenticated using (true) with check (true);
+end
+$$;